@@ -1,5 +1,7 @@
 import { assert } from './util.js';
+import { freezeRule } from './ruleFreezer.js';
 import type { Rule } from './types/validationRules.js';
+import type { CacheControl, CacheOpts, CacheSeedEntry, CacheStats } from './types/cacheControl.js';
 
 interface CacheEntry {
   readonly exists: () => boolean
@@ -7,71 +9,147 @@ interface CacheEntry {
   readonly set: (value: Rule) => void
 }
 
-interface CacheRecord {
-  value: Rule | null
-  furtherContent: Map<string, CacheRecord>
-}
+const defaultCacheOpts: Required<CacheOpts> = Object.freeze({
+  maxEntries: Infinity,
+  cacheStringSources: false,
+});
 
-let cacheRoot: CacheRecord = {
-  value: null,
-  furtherContent: new Map(),
-};
+let cacheOpts: Required<CacheOpts> = defaultCacheOpts;
 
-export function lookupCacheEntry(keys: readonly string[]): CacheEntry {
-  return {
-    exists() {
-      return findValueInCache(keys, cacheRoot) !== null;
-    },
-    get() {
-      const value = findValueInCache(keys, cacheRoot);
-      if (value === null) {
-        throw new Error('Failed to find a requested value in the cache');
-      }
-      return value;
-    },
-    set(value: Rule) {
-      setValueInCache(keys, cacheRoot, value);
-    },
-  };
-}
+// Maps serialized keys to parsed rules.
+// A Map remembers the order its entries were added in, so by re-adding entries whenever they get used,
+// the least recently used entries will always be found at the front, ready to be evicted.
+let cachedRules = new Map<string, Rule>();
+
+let stats = { hits: 0, misses: 0, evictions: 0 };
+
+// The library's own templates (e.g. the ones used to check the arguments of the public API) are kept in a separate cache,
+// so they don't show up in the stats, and so they can't evict the user's templates (or be evicted by them).
+// There's a fixed number of these templates, so this cache doesn't need to be bounded.
+let cachedInternalRules = new Map<string, Rule>();
 
-function findValueInCache(keys: readonly string[], cacheRecord: CacheRecord): Rule | null {
-  if (keys[0] === undefined) {
-    return cacheRecord.value;
+/**
+ * Returns the rule that was cached under the provided keys (the raw parts of a template).
+ * If nothing was cached, the `parse` callback will be used to build the rule, and the result will be cached.
+ * The rule returned by `parse` must already be deep-frozen.
+ *
+ * Strings provided to validator.from() are only cached if the cacheStringSources option is enabled,
+ * as these can easily be dynamically generated.
+ */
+export function lookupOrParseRule(
+  keys: readonly string[],
+  parse: () => Rule,
+  { isStringSource = false }: { readonly isStringSource?: boolean } = {},
+): Rule {
+  if (isStringSource && !cacheOpts.cacheStringSources) {
+    return parse();
   }
 
-  const subRecord = cacheRecord.furtherContent.get(keys[0]);
-  if (subRecord === undefined) {
-    return null;
+  const cacheKey = serializeKeys(keys);
+  const cachedRule = cachedRules.get(cacheKey);
+  if (cachedRule !== undefined) {
+    stats.hits++;
+    markAsRecentlyUsed(cacheKey, cachedRule);
+    return cachedRule;
   }
 
-  return findValueInCache(keys.slice(1), subRecord);
+  stats.misses++;
+  const rule = parse();
+  cachedRules.set(cacheKey, rule);
+  evictExcessEntries();
+  return rule;
 }
 
-function setValueInCache(keys: readonly string[], cacheRecord: CacheRecord, newValue: Rule): void {
-  if (keys[0] === undefined) {
-    assert(cacheRecord.value === null, 'Attempted to override an existing cache entry');
-    cacheRecord.value = newValue;
-    return;
+/** Like lookupOrParseRule(), but for templates that belong to the library itself. */
+export function lookupOrParseInternalRule(keys: readonly string[], parse: () => Rule): Rule {
+  const cacheKey = serializeKeys(keys);
+  let rule = cachedInternalRules.get(cacheKey);
+  if (rule === undefined) {
+    rule = parse();
+    cachedInternalRules.set(cacheKey, rule);
   }
+  return rule;
+}
 
-  let subRecord = cacheRecord.furtherContent.get(keys[0]);
-  if (subRecord === undefined) {
-    subRecord = { value: null, furtherContent: new Map() };
-    cacheRecord.furtherContent.set(keys[0], subRecord);
-  }
+export const cacheControl: CacheControl = Object.freeze({
+  configure(opts: CacheOpts): void {
+    cacheOpts = Object.freeze({
+      maxEntries: opts.maxEntries ?? cacheOpts.maxEntries,
+      cacheStringSources: opts.cacheStringSources ?? cacheOpts.cacheStringSources,
+    });
+    evictExcessEntries();
+  },
 
-  setValueInCache(keys.slice(1), subRecord, newValue);
+  clear(): void {
+    cachedRules = new Map();
+    stats = { hits: 0, misses: 0, evictions: 0 };
+  },
+
+  getStats(): CacheStats {
+    return Object.freeze({
+      size: cachedRules.size,
+      maxEntries: cacheOpts.maxEntries,
+      ...stats,
+    });
+  },
+
+  seed(entries: readonly CacheSeedEntry[]): void {
+    for (const { parts, rule } of entries) {
+      const cacheKey = serializeKeys(parts);
+      if (!cachedRules.has(cacheKey)) {
+        cachedRules.set(cacheKey, freezeRule(rule));
+      }
+    }
+    evictExcessEntries();
+  },
+});
+
+// Template parts can contain any character, so they're JSON-encoded to keep different sets of parts
+// from producing the same key.
+const serializeKeys = (keys: readonly string[]): string => JSON.stringify(keys);
+
+function markAsRecentlyUsed(cacheKey: string, rule: Rule): void {
+  cachedRules.delete(cacheKey);
+  cachedRules.set(cacheKey, rule);
+}
+
+function evictExcessEntries(): void {
+  for (const cacheKey of cachedRules.keys()) {
+    if (cachedRules.size <= cacheOpts.maxEntries) {
+      break;
+    }
+    cachedRules.delete(cacheKey);
+    stats.evictions++;
+  }
 }
 
 export const testableHelpers = {
-  getCacheEntryFor(keys: TemplateStringsArray, ...interpolated: null[]) {
-    return lookupCacheEntry(keys.raw);
+  getCacheEntryFor(keys: TemplateStringsArray, ...interpolated: null[]): CacheEntry {
+    const cacheKey = serializeKeys(keys.raw);
+    return {
+      exists() {
+        return cachedRules.has(cacheKey);
+      },
+      get() {
+        const value = cachedRules.get(cacheKey);
+        if (value === undefined) {
+          throw new Error('Failed to find a requested value in the cache');
+        }
+        return value;
+      },
+      set(value: Rule) {
+        assert(!cachedRules.has(cacheKey), 'Attempted to override an existing cache entry');
+        cachedRules.set(cacheKey, value);
+      },
+    };
   },
+  isInInternalCache(keys: TemplateStringsArray, ...interpolated: null[]): boolean {
+    return cachedInternalRules.has(serializeKeys(keys.raw));
+  },
+  // Also restores the default cache options, and clears the internal cache.
   clearCache() {
-    cacheRoot = {
-      value: null,
-      furtherContent: new Map(),
-    };
+    cacheControl.clear();
+    cachedInternalRules = new Map();
+    cacheOpts = defaultCacheOpts;
   },
 };
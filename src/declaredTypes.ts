@@ -0,0 +1,17 @@
+// Validators created with validator.types`...` refer to each other (and possibly themselves)
+// through an interpolated array that they all share, which means following their interpolated
+// validators could go on forever. Anything that inlines interpolated validators, such as the stringifier,
+// can use the declared names to refer to these validators instead.
+
+import type { Ruleset } from './types/validationRules.js';
+
+const declaredTypeNames = new WeakMap<Ruleset, string>();
+
+export function registerDeclaredType(ruleset: Ruleset, name: string): void {
+  declaredTypeNames.set(ruleset, name);
+}
+
+/** Returns the name the ruleset was declared with, or null if it did not come from a type declaration. */
+export function lookupDeclaredTypeName(ruleset: Ruleset): string | null {
+  return declaredTypeNames.get(ruleset) ?? null;
+}
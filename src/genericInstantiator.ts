@@ -0,0 +1,112 @@
+// Generics (from validator.generic()) are interpolated along with a list of type arguments, e.g. `${Page}<${User}>`.
+// Wherever an interpolation rule gets looked at, the interpolated generic is swapped out for a validator
+// that was built by plugging those type arguments into the generic.
+
+import type { InterpolationRule, Rule } from './types/validationRules.js';
+import { isGeneric, type Generic, type InterpolatedValue, type Validator } from './types/validator.js';
+import { packagePrivate } from './packagePrivateAccess.js';
+import { walkRule } from './ruleTraversal.js';
+import { assert } from './util.js';
+
+// Rules are frozen and may be shared between rulesets (through the cache),
+// which is why the instantiated validators are looked up by interpolated array first, then by rule.
+const instantiationCache = new WeakMap<readonly InterpolatedValue[], WeakMap<InterpolationRule, Validator>>();
+
+// Maps (frozen) root rules to the interpolation rules found within them,
+// so a cached rule only needs to be walked through once.
+const interpolationRulesCache = new WeakMap<Rule, readonly InterpolationRule[]>();
+
+/**
+ * Throws if an interpolated generic was left without type arguments, was given the wrong number of them,
+ * or if type arguments were given to something other than a generic.
+ * This lets these mistakes be reported when a validator gets built, instead of when it's first used.
+ * The rule should already be frozen.
+ */
+export function assertValidTypeArguments(rootRule: Rule, interpolated: readonly InterpolatedValue[]): void {
+  let interpolationRules = interpolationRulesCache.get(rootRule);
+  if (interpolationRules === undefined) {
+    const foundRules: InterpolationRule[] = [];
+    walkRule({ rootRule, interpolated }, rule => {
+      if (rule.category === 'interpolation') {
+        foundRules.push(rule);
+      }
+    });
+    interpolationRules = foundRules;
+    interpolationRulesCache.set(rootRule, interpolationRules);
+  }
+
+  for (const rule of interpolationRules) {
+    const maybeErrorMessage = checkTypeArguments(interpolated[rule.interpolationIndex], rule.typeArguments ?? null);
+    if (maybeErrorMessage !== undefined) {
+      throw new TypeError(maybeErrorMessage);
+    }
+  }
+}
+
+/**
+ * Returns the value an interpolation rule refers to.
+ * If the rule provides type arguments to an interpolated generic, the instantiated generic will be returned instead.
+ */
+export function resolveInterpolatedValue(
+  rule: InterpolationRule,
+  interpolated: readonly InterpolatedValue[],
+): Exclude<InterpolatedValue, Generic> {
+  const interpolatedValue = interpolated[rule.interpolationIndex];
+  const typeArguments = rule.typeArguments ?? null;
+  const maybeErrorMessage = checkTypeArguments(interpolatedValue, typeArguments);
+  if (maybeErrorMessage !== undefined) {
+    throw new TypeError(maybeErrorMessage);
+  }
+
+  if (!isGeneric(interpolatedValue)) {
+    return interpolatedValue;
+  }
+  // checkTypeArguments() already verified that type arguments were provided.
+  assert(typeArguments !== null);
+
+  let cacheForInterpolated = instantiationCache.get(interpolated);
+  if (cacheForInterpolated === undefined) {
+    cacheForInterpolated = new WeakMap();
+    instantiationCache.set(interpolated, cacheForInterpolated);
+  }
+
+  let instantiated = cacheForInterpolated.get(rule);
+  if (instantiated === undefined) {
+    instantiated = interpolatedValue[packagePrivate].instantiate(
+      typeArguments.map(rootRule => ({ rootRule, interpolated })),
+    );
+    cacheForInterpolated.set(rule, instantiated);
+  }
+
+  return instantiated;
+}
+
+/**
+ * Verifies that type arguments are only provided to generics, and that the correct amount gets provided.
+ * Returns an error message if there's a problem.
+ */
+export function checkTypeArguments(
+  interpolatedValue: InterpolatedValue,
+  typeArguments: readonly unknown[] | null,
+): string | undefined {
+  if (!isGeneric(interpolatedValue)) {
+    return typeArguments === null
+      ? undefined
+      : 'Type arguments can only be provided to an interpolated generic (from validator.generic()).';
+  }
+
+  const { typeParameters } = interpolatedValue;
+  if (typeArguments === null) {
+    return (
+      'An interpolated generic (from validator.generic()) must be provided with type arguments, ' +
+      `e.g. \`\${…}<${typeParameters.map(() => 'unknown').join(', ')}>\`.`
+    );
+  } else if (typeArguments.length !== typeParameters.length) {
+    return (
+      `The interpolated generic expects ${typeParameters.length} type argument(s) ` +
+      `(${typeParameters.join(', ')}), but received ${typeArguments.length}.`
+    );
+  }
+
+  return undefined;
+}
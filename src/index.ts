@@ -1,10 +1,53 @@
-import type { Validator, Expectation, LazyEvaluator, InterpolatedValue } from './types/validator.js';
+import type {
+  Validator,
+  Expectation,
+  LazyEvaluator,
+  Transformer,
+  Generic,
+  DeclaredTypes,
+  InterpolatedValue,
+  MatchesOpts,
+  ValidateOpts,
+  ValidationIssue,
+} from './types/validator.js';
+import type { PathSegment } from './ruleEnforcer/LookupPath.js';
+import type { InferType } from './types/inferType.js';
+import type { JsonSchema, JsonSchemaObject, JsonSchemaType, ToJsonSchemaOpts } from './types/jsonSchema.js';
+import type {
+  LocalizeOpts,
+  MessageCatalog,
+  MessageFormatter,
+  MessageId,
+  MessageParamsById,
+  ValidationMessage,
+} from './types/messageCatalog.js';
+import type { CacheControl, CacheOpts, CacheSeedEntry, CacheStats, PrecompileOpts } from './types/cacheControl.js';
+import type {
+  InterpolationRegistry,
+  JsonValue,
+  SerializedInterpolatedValue,
+  SerializedRuleset,
+} from './types/serialization.js';
+import type {
+  RuleTransformer,
+  RuleTransformerContext,
+  RuleVisitor,
+  RuleVisitorContext,
+  WalkRuleOpts,
+} from './types/ruleTraversal.js';
 import type { FrozenMap as FrozenMapClass } from './util.js';
 import { ValidatorSyntaxError } from './ruleParser/index.js';
+import { ValidationError, type ValidationErrorJson, type ValidationIssueJson } from './ruleEnforcer/ValidationError.js';
 import { validator } from './validatorApi.js';
 
-export { ValidatorSyntaxError };
+export { ValidatorSyntaxError, ValidationError };
+export type { ValidationErrorJson, ValidationIssueJson };
 export * from './types/validationRules.js';
-export type { Validator, Expectation, LazyEvaluator, InterpolatedValue };
+export type { Validator, Expectation, LazyEvaluator, Transformer, Generic, DeclaredTypes, InterpolatedValue, MatchesOpts, ValidateOpts, ValidationIssue, PathSegment, InferType };
+export type { JsonSchema, JsonSchemaObject, JsonSchemaType, ToJsonSchemaOpts };
+export type { LocalizeOpts, MessageCatalog, MessageFormatter, MessageId, MessageParamsById, ValidationMessage };
+export type { CacheControl, CacheOpts, CacheSeedEntry, CacheStats, PrecompileOpts };
+export type { InterpolationRegistry, JsonValue, SerializedInterpolatedValue, SerializedRuleset };
+export type { RuleTransformer, RuleTransformerContext, RuleVisitor, RuleVisitorContext, WalkRuleOpts };
 export type FrozenMap<K, V> = InstanceType<typeof FrozenMapClass>;
 export { validator };
@@ -0,0 +1,651 @@
+// Converts JSON Schema documents (draft 2020-12) into rulesets.
+//
+// Keywords get converted into native rules whenever possible
+// (e.g. `type` becomes a union of simple rules, `properties` becomes a property rule,
+// `prefixItems` becomes a tuple rule, `minLength` and `pattern` become a string constraint rule,
+// `minItems` becomes the size constraint of an array rule, `type: "integer"` becomes an integer constraint, etc).
+// Keywords that don't have a matching rule (like `multipleOf` or `uniqueItems`) are converted into expectations.
+//
+// Type-specific keywords only apply to values of that type, as is the case in JSON Schema.
+// e.g. `{ "minLength": 2 }` will accept any number, but strings must be at least two characters long.
+//
+// JSON Schema only looks at an object's own properties, so the property rule built from `properties` and `required`
+// has its `ownPropertiesOnly` flag set. This also means own `__proto__` or `constructor` properties
+// will be rejected unless that property rule describes them.
+//
+// Local references (`$ref` values starting with "#") are supported, and are converted into lazy evaluators,
+// which allows schemas to reference themselves.
+// Annotation keywords (like `title` or `format`) and unknown keywords are ignored.
+
+import type { NumericBound, Rule, Ruleset, SizeConstraint } from '../types/validationRules.js';
+import type { InterpolatedValue, Validator, ValidatorTemplateTag } from '../types/validator.js';
+import type { JsonSchema } from '../types/jsonSchema.js';
+import { reprUnknownValue } from '../util.js';
+
+type TypeCategory = 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object';
+
+const typeCategories: readonly TypeCategory[] = ['string', 'number', 'boolean', 'null', 'array', 'object'];
+
+const keywordsByCategory: { readonly [category in TypeCategory]: readonly string[] } = {
+  string: ['minLength', 'maxLength', 'pattern'],
+  number: ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'],
+  boolean: [],
+  null: [],
+  array: ['items', 'prefixItems', 'minItems', 'maxItems', 'uniqueItems', 'contains'],
+  object: [
+    'properties', 'required', 'additionalProperties', 'patternProperties',
+    'propertyNames', 'minProperties', 'maxProperties', 'dependentRequired',
+  ],
+};
+
+// These are recognized, but aren't supported.
+// An error is thrown when they're found, instead of silently ignoring them.
+const unsupportedKeywords = [
+  '$dynamicRef', '$recursiveRef', 'unevaluatedItems', 'unevaluatedProperties', 'dependentSchemas', 'dependencies',
+];
+
+interface ConversionContext {
+  readonly validator: ValidatorTemplateTag
+  readonly rootSchema: unknown
+  // Maps `$ref` values to the validators they resolve to.
+  readonly resolvedReferences: Map<string, Validator>
+}
+
+/** Used to build a single ruleset. */
+interface RulesetBuilder {
+  readonly context: ConversionContext
+  readonly interpolated: InterpolatedValue[]
+}
+
+/** Converts a JSON Schema document into a frozen ruleset. */
+export function jsonSchemaToRuleset(schema: JsonSchema, validator: ValidatorTemplateTag): Ruleset {
+  const context: ConversionContext = {
+    validator,
+    rootSchema: schema,
+    resolvedReferences: new Map(),
+  };
+
+  return schemaToValidator(schema, '#', context).ruleset;
+}
+
+function schemaToValidator(schema: unknown, location: string, context: ConversionContext): Validator {
+  const builder: RulesetBuilder = { context, interpolated: [] };
+  const rootRule = schemaToRule(schema, location, builder);
+  return context.validator.fromRuleset({ rootRule, interpolated: builder.interpolated });
+}
+
+function schemaToRule(schema: unknown, location: string, builder: RulesetBuilder): Rule {
+  if (schema === true) {
+    return { category: 'noop' };
+  } else if (schema === false) {
+    return expectation(builder, () => 'match the "false" JSON Schema, which rejects every value.');
+  } else if (!isJsonObject(schema)) {
+    throw conversionError(location, `Expected a schema, which is either an object or a boolean, but got ${reprUnknownValue(schema)}.`);
+  }
+
+  for (const keyword of unsupportedKeywords) {
+    if (keyword in schema) {
+      throw conversionError(location, `The "${keyword}" keyword is not supported.`);
+    }
+  }
+
+  const requirements: Rule[] = [];
+
+  const typeRule = typeKeywordToRule(schema, location, builder);
+  if (typeRule !== null) {
+    requirements.push(typeRule);
+  }
+
+  if ('const' in schema) {
+    requirements.push(constToRule(schema.const, builder));
+  }
+
+  if ('enum' in schema) {
+    const values = expectArray(schema.enum, `${location}/enum`);
+    requirements.push(union(values.map(value => constToRule(value, builder)), builder));
+  }
+
+  if ('$ref' in schema) {
+    requirements.push(referenceToRule(schema.$ref, `${location}/$ref`, builder));
+  }
+
+  if ('allOf' in schema) {
+    const subSchemas = expectNonEmptyArray(schema.allOf, `${location}/allOf`);
+    requirements.push(...subSchemas.map((subSchema, i) => schemaToRule(subSchema, `${location}/allOf/${i}`, builder)));
+  }
+
+  if ('anyOf' in schema) {
+    const subSchemas = expectNonEmptyArray(schema.anyOf, `${location}/anyOf`);
+    requirements.push(union(subSchemas.map((subSchema, i) => schemaToRule(subSchema, `${location}/anyOf/${i}`, builder)), builder));
+  }
+
+  if ('oneOf' in schema) {
+    const subValidators = expectNonEmptyArray(schema.oneOf, `${location}/oneOf`)
+      .map((subSchema, i) => schemaToValidator(subSchema, `${location}/oneOf/${i}`, builder.context));
+    requirements.push(expectation(builder, value => {
+      const matchCount = subValidators.filter(subValidator => subValidator.matches(value)).length;
+      return matchCount === 1
+        ? undefined
+        : `match exactly one of the "oneOf" schemas, but it matched ${matchCount}.`;
+    }));
+  }
+
+  if ('not' in schema) {
+    const subValidator = schemaToValidator(schema.not, `${location}/not`, builder.context);
+    requirements.push(expectation(builder, value => {
+      return subValidator.matches(value) ? 'not match the "not" schema.' : undefined;
+    }));
+  }
+
+  if ('if' in schema) {
+    const { context } = builder;
+    const ifValidator = schemaToValidator(schema.if, `${location}/if`, context);
+    const thenValidator = schemaToValidator('then' in schema ? schema.then : true, `${location}/then`, context);
+    const elseValidator = schemaToValidator('else' in schema ? schema.else : true, `${location}/else`, context);
+    requirements.push(interpolate(
+      builder,
+      context.validator.lazy(value => ifValidator.matches(value) ? thenValidator : elseValidator),
+    ));
+  }
+
+  return intersection(requirements);
+}
+
+/**
+ * Converts the `type` keyword, along with all of the type-specific keywords, into a rule.
+ * Returns null if there's nothing to check.
+ */
+function typeKeywordToRule(schema: Record<string, unknown>, location: string, builder: RulesetBuilder): Rule | null {
+  const constrainedCategories = typeCategories
+    .filter(category => keywordsByCategory[category].some(keyword => keyword in schema));
+
+  if (!('type' in schema)) {
+    if (constrainedCategories.length === 0) {
+      return null;
+    }
+
+    // Type-specific keywords don't require the value to be of that type,
+    // so values of all other types are permitted as well.
+    return union(typeCategories.map(category => {
+      return constrainedCategories.includes(category)
+        ? intersection([typeToRule(category, builder), ...categoryKeywordsToRules(category, schema, location, builder)])
+        : typeToRule(category, builder);
+    }), builder);
+  }
+
+  const types = typeof schema.type === 'string' ? [schema.type] : expectArray(schema.type, `${location}/type`);
+  return union(types.map((type, i) => {
+    if (type === 'integer') {
+      return intersection([
+        typeToRule('number', builder),
+        ...numberKeywordsToRules(schema, location, builder, { integer: true }),
+      ]);
+    } else if (typeCategories.includes(type as TypeCategory)) {
+      return intersection([
+        typeToRule(type as TypeCategory, builder),
+        ...categoryKeywordsToRules(type as TypeCategory, schema, location, builder),
+      ]);
+    } else {
+      throw conversionError(`${location}/type${types.length > 1 ? `/${i}` : ''}`, `Unknown type ${reprUnknownValue(type)}.`);
+    }
+  }), builder);
+}
+
+function typeToRule(category: TypeCategory, builder: RulesetBuilder): Rule {
+  if (category === 'array') {
+    return { category: 'array', content: { category: 'noop' } };
+  } else if (category === 'object') {
+    return intersection([
+      { category: 'simple', type: 'object' },
+      expectation(builder, value => Array.isArray(value) ? 'be a non-array object.' : undefined),
+    ]);
+  } else {
+    return { category: 'simple', type: category };
+  }
+}
+
+function categoryKeywordsToRules(
+  category: TypeCategory,
+  schema: Record<string, unknown>,
+  location: string,
+  builder: RulesetBuilder,
+): Rule[] {
+  if (category === 'string') {
+    return stringKeywordsToRules(schema, location);
+  } else if (category === 'number') {
+    return numberKeywordsToRules(schema, location, builder, { integer: false });
+  } else if (category === 'array') {
+    return arrayKeywordsToRules(schema, location, builder);
+  } else if (category === 'object') {
+    return objectKeywordsToRules(schema, location, builder);
+  } else {
+    return [];
+  }
+}
+
+function stringKeywordsToRules(schema: Record<string, unknown>, location: string): Rule[] {
+  const minLength = 'minLength' in schema ? expectNonNegativeInteger(schema.minLength, `${location}/minLength`) : null;
+  const maxLength = 'maxLength' in schema ? expectNonNegativeInteger(schema.maxLength, `${location}/maxLength`) : null;
+  const regExp = 'pattern' in schema ? expectRegExp(schema.pattern, `${location}/pattern`) : null;
+  const pattern = regExp === null ? null : { source: regExp.source, flags: regExp.flags };
+  if (minLength === null && maxLength === null && pattern === null) {
+    return [];
+  }
+
+  return splitConflictingBounds(minLength, maxLength, (min, max) => min > max).map(([minLength, maxLength], i) => ({
+    category: 'stringConstraint',
+    minLength,
+    maxLength,
+    // JSON Schema measures string lengths in code points.
+    lengthUnit: 'codePoints',
+    pattern: i === 0 ? pattern : null,
+  }));
+}
+
+function numberKeywordsToRules(
+  schema: Record<string, unknown>,
+  location: string,
+  builder: RulesetBuilder,
+  { integer }: { readonly integer: boolean },
+): Rule[] {
+  const boundFor = (keyword: string, exclusive: boolean): NumericBound | null => (
+    keyword in schema ? { value: expectNumber(schema[keyword], `${location}/${keyword}`), exclusive } : null
+  );
+  // When both an inclusive and an exclusive bound are given, only the stricter of the two matters.
+  const minimum = stricterBound(boundFor('minimum', false), boundFor('exclusiveMinimum', true), (a, b) => a > b);
+  const maximum = stricterBound(boundFor('maximum', false), boundFor('exclusiveMaximum', true), (a, b) => a < b);
+
+  const rules: Rule[] = minimum === null && maximum === null && !integer
+    ? []
+    : splitConflictingBounds(minimum, maximum, (min, max) => min.value > max.value).map(([minimum, maximum]) => ({
+      category: 'numericConstraint',
+      type: 'number',
+      integer,
+      minimum,
+      maximum,
+    }));
+
+  if ('multipleOf' in schema) {
+    const divisor = expectNumber(schema.multipleOf, `${location}/multipleOf`);
+    if (divisor <= 0) {
+      throw conversionError(`${location}/multipleOf`, 'Expected a number greater than 0.');
+    }
+    rules.push(expectation<number>(builder, value => {
+      return isMultipleOf(value, divisor) ? undefined : `be a multiple of ${divisor}.`;
+    }));
+  }
+
+  return rules;
+}
+
+function arrayKeywordsToRules(schema: Record<string, unknown>, location: string, builder: RulesetBuilder): Rule[] {
+  const rules: Rule[] = [];
+
+  const minItems = 'minItems' in schema ? expectNonNegativeInteger(schema.minItems, `${location}/minItems`) : null;
+  const maxItems = 'maxItems' in schema ? expectNonNegativeInteger(schema.maxItems, `${location}/maxItems`) : null;
+  const [size = null, ...extraSizes] = minItems === null && maxItems === null
+    ? []
+    : splitConflictingBounds(minItems, maxItems, (min, max) => min > max).map(([min, max]): SizeConstraint => ({ min, max }));
+
+  if ('prefixItems' in schema) {
+    const prefixItems = expectNonEmptyArray(schema.prefixItems, `${location}/prefixItems`);
+    rules.push({
+      category: 'tuple',
+      content: [],
+      // The array is allowed to be shorter than the list of prefix items.
+      optionalContent: prefixItems.map((subSchema, i) => schemaToRule(subSchema, `${location}/prefixItems/${i}`, builder)),
+      rest: schema.items === false
+        ? null
+        : {
+            category: 'array',
+            content: 'items' in schema ? schemaToRule(schema.items, `${location}/items`, builder) : { category: 'noop' },
+          },
+      entryLabels: null,
+      size,
+    });
+  } else if ('items' in schema || size !== null) {
+    rules.push({
+      category: 'array',
+      content: 'items' in schema ? schemaToRule(schema.items, `${location}/items`, builder) : { category: 'noop' },
+      size,
+    });
+  }
+
+  for (const extraSize of extraSizes) {
+    rules.push({ category: 'array', content: { category: 'noop' }, size: extraSize });
+  }
+
+  if (schema.uniqueItems === true) {
+    rules.push(expectation<unknown[]>(builder, value => {
+      const hasDuplicates = value.some((entry, i) => value.slice(i + 1).some(otherEntry => jsonEquals(entry, otherEntry)));
+      return hasDuplicates ? 'have unique entries.' : undefined;
+    }));
+  }
+
+  if ('contains' in schema) {
+    const subValidator = schemaToValidator(schema.contains, `${location}/contains`, builder.context);
+    const minContains = 'minContains' in schema ? expectNonNegativeInteger(schema.minContains, `${location}/minContains`) : 1;
+    const maxContains = 'maxContains' in schema ? expectNonNegativeInteger(schema.maxContains, `${location}/maxContains`) : Infinity;
+    rules.push(expectation<unknown[]>(builder, value => {
+      const matchCount = value.filter(entry => subValidator.matches(entry)).length;
+      if (matchCount < minContains) {
+        return `have at least ${minContains} ${minContains === 1 ? 'entry' : 'entries'} matching the "contains" schema.`;
+      } else if (matchCount > maxContains) {
+        return `have at most ${maxContains} ${maxContains === 1 ? 'entry' : 'entries'} matching the "contains" schema.`;
+      }
+      return undefined;
+    }));
+  }
+
+  return rules;
+}
+
+function objectKeywordsToRules(schema: Record<string, unknown>, location: string, builder: RulesetBuilder): Rule[] {
+  const rules: Rule[] = [];
+
+  const properties = 'properties' in schema ? expectJsonObject(schema.properties, `${location}/properties`) : {};
+  const required = 'required' in schema ? expectStringArray(schema.required, `${location}/required`) : [];
+  const patternProperties = 'patternProperties' in schema
+    ? Object.entries(expectJsonObject(schema.patternProperties, `${location}/patternProperties`))
+      .map(([pattern, subSchema]) => ({ pattern, regExp: expectRegExp(pattern, `${location}/patternProperties`), subSchema }))
+    : [];
+
+  const content = new Map(Object.entries(properties).map(([key, subSchema]) => [key, {
+    optional: !required.includes(key),
+    rule: schemaToRule(subSchema, `${location}/properties/${escapePointerSegment(key)}`, builder),
+  }]));
+  for (const key of required) {
+    if (!content.has(key)) {
+      content.set(key, { optional: false, rule: { category: 'noop' } });
+    }
+  }
+
+  const minProperties = 'minProperties' in schema ? expectNonNegativeInteger(schema.minProperties, `${location}/minProperties`) : null;
+  const maxProperties = 'maxProperties' in schema ? expectNonNegativeInteger(schema.maxProperties, `${location}/maxProperties`) : null;
+  const [size = null, ...extraSizes] = minProperties === null && maxProperties === null
+    ? []
+    : splitConflictingBounds(minProperties, maxProperties, (min, max) => min > max).map(([min, max]): SizeConstraint => ({ min, max }));
+
+  if (content.size > 0 || size !== null) {
+    rules.push({
+      category: 'property',
+      content,
+      dynamicContent: new Map(),
+      index: null,
+      // Only needed when there's content, as it would otherwise just cause `__proto__` and `constructor` to be rejected.
+      ownPropertiesOnly: content.size > 0,
+      size,
+    });
+  }
+
+  for (const extraSize of extraSizes) {
+    rules.push({ category: 'property', content: new Map(), dynamicContent: new Map(), index: null, size: extraSize });
+  }
+
+  // Each pattern property is represented with its own index signature.
+  for (const { pattern, regExp, subSchema } of patternProperties) {
+    rules.push({
+      category: 'property',
+      content: new Map(),
+      dynamicContent: new Map(),
+      index: {
+        key: interpolate(builder, regExp),
+        value: schemaToRule(subSchema, `${location}/patternProperties/${escapePointerSegment(pattern)}`, builder),
+        label: 'key',
+      },
+    });
+  }
+
+  if ('additionalProperties' in schema) {
+    const isAdditionalProperty = (key: unknown): boolean => (
+      typeof key === 'string' &&
+      !Object.prototype.hasOwnProperty.call(properties, key) &&
+      !patternProperties.some(({ regExp }) => regExp.test(key))
+    );
+
+    rules.push({
+      category: 'property',
+      content: new Map(),
+      dynamicContent: new Map(),
+      index: {
+        key: expectation(builder, key => isAdditionalProperty(key) ? undefined : 'be an additional property.'),
+        value: schema.additionalProperties === false
+          ? expectation(builder, () => 'not be present, because additional properties are not allowed.')
+          : schemaToRule(schema.additionalProperties, `${location}/additionalProperties`, builder),
+        label: 'key',
+      },
+    });
+  }
+
+  if ('propertyNames' in schema) {
+    const subValidator = schemaToValidator(schema.propertyNames, `${location}/propertyNames`, builder.context);
+    rules.push(expectation<object>(builder, value => {
+      const badKey = Object.keys(value).find(key => !subValidator.matches(key));
+      return badKey === undefined
+        ? undefined
+        : `only have property names that match the "propertyNames" schema, but found ${reprUnknownValue(badKey)}.`;
+    }));
+  }
+
+  if ('dependentRequired' in schema) {
+    const dependencies = Object.entries(expectJsonObject(schema.dependentRequired, `${location}/dependentRequired`))
+      .map(([key, requiredKeys]) => [key, expectStringArray(requiredKeys, `${location}/dependentRequired/${escapePointerSegment(key)}`)] as const);
+    rules.push(expectation<object>(builder, value => {
+      for (const [key, requiredKeys] of dependencies) {
+        if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
+        const missingKey = requiredKeys.find(requiredKey => !Object.prototype.hasOwnProperty.call(value, requiredKey));
+        if (missingKey !== undefined) {
+          return `have the property ${reprUnknownValue(missingKey)}, because the property ${reprUnknownValue(key)} is present.`;
+        }
+      }
+      return undefined;
+    }));
+  }
+
+  return rules;
+}
+
+function constToRule(value: unknown, builder: RulesetBuilder): Rule {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return { category: 'primitiveLiteral', value };
+  } else if (value === null) {
+    return { category: 'simple', type: 'null' };
+  } else {
+    return expectation(builder, target => jsonEquals(target, value) ? undefined : `be equal to ${JSON.stringify(value)}.`);
+  }
+}
+
+function referenceToRule(ref: unknown, location: string, builder: RulesetBuilder): Rule {
+  if (typeof ref !== 'string' || !ref.startsWith('#')) {
+    throw conversionError(location, `Only local references (that start with "#") are supported, but got ${reprUnknownValue(ref)}.`);
+  }
+
+  const { context } = builder;
+  // The referenced schema isn't converted until it's needed.
+  // This allows schemas to reference themselves.
+  const lazyEvaluator = context.validator.lazy(() => {
+    let resolvedValidator = context.resolvedReferences.get(ref);
+    if (resolvedValidator === undefined) {
+      resolvedValidator = schemaToValidator(resolveReference(ref, context.rootSchema, location), ref, context);
+      context.resolvedReferences.set(ref, resolvedValidator);
+    }
+    return resolvedValidator;
+  });
+
+  // Makes sure the reference is valid up front.
+  resolveReference(ref, context.rootSchema, location);
+  return interpolate(builder, lazyEvaluator);
+}
+
+/** Follows a JSON pointer (in URI fragment form), starting from the root schema. */
+function resolveReference(ref: string, rootSchema: unknown, location: string): unknown {
+  let pointer: string;
+  try {
+    pointer = decodeURIComponent(ref.slice(1));
+  } catch (error) {
+    throw conversionError(location, `Failed to resolve the reference ${reprUnknownValue(ref)}, as it is not properly percent-encoded.`);
+  }
+  if (pointer !== '' && !pointer.startsWith('/')) {
+    throw conversionError(location, `Only JSON pointer references are supported, but got ${reprUnknownValue(ref)}.`);
+  }
+
+  let current = rootSchema;
+  for (const segment of pointer.split('/').slice(1)) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (typeof current !== 'object' || current === null || !Object.prototype.hasOwnProperty.call(current, key)) {
+      throw conversionError(location, `Failed to resolve the reference ${reprUnknownValue(ref)}.`);
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+// ------------------------------
+//   RULE BUILDERS
+// ------------------------------
+
+function interpolate(builder: RulesetBuilder, value: InterpolatedValue): Rule {
+  builder.interpolated.push(value);
+  return { category: 'interpolation', interpolationIndex: builder.interpolated.length - 1 };
+}
+
+function expectation<T=unknown>(builder: RulesetBuilder, callback: (value: T) => string | undefined): Rule {
+  return interpolate(builder, builder.context.validator.expectTo(callback));
+}
+
+function union(variants: readonly Rule[], builder: RulesetBuilder): Rule {
+  if (variants.length === 0) {
+    return expectation(builder, () => 'match one of the provided options, but no options were provided.');
+  }
+  return variants.length === 1 ? variants[0] as Rule : { category: 'union', variants };
+}
+
+function intersection(requirements: readonly Rule[]): Rule {
+  if (requirements.length === 0) {
+    return { category: 'noop' };
+  }
+  return requirements.length === 1 ? requirements[0] as Rule : { category: 'intersection', variants: requirements };
+}
+
+/**
+ * JSON Schema permits a lower bound that's greater than the upper bound (which nothing can satisfy), but rules don't.
+ * So in that case, the bounds get split up, to be placed in separate rules.
+ */
+function splitConflictingBounds<T>(
+  min: T | null,
+  max: T | null,
+  isConflicting: (min: T, max: T) => boolean,
+): Array<[T | null, T | null]> {
+  return min !== null && max !== null && isConflicting(min, max) ? [[min, null], [null, max]] : [[min, max]];
+}
+
+/** `isStricter(a, b)` should return true if the bound value `a` is stricter than `b`. */
+function stricterBound(
+  inclusiveBound: NumericBound | null,
+  exclusiveBound: NumericBound | null,
+  isStricter: (a: number | bigint, b: number | bigint) => boolean,
+): NumericBound | null {
+  if (inclusiveBound === null || exclusiveBound === null) {
+    return inclusiveBound ?? exclusiveBound;
+  }
+  // At the same value, the exclusive bound is the stricter one.
+  return isStricter(inclusiveBound.value, exclusiveBound.value) ? inclusiveBound : exclusiveBound;
+}
+
+// ------------------------------
+//   KEYWORD VALUE CHECKS
+// ------------------------------
+
+function expectArray(value: unknown, location: string): readonly unknown[] {
+  if (!Array.isArray(value)) {
+    throw conversionError(location, `Expected an array, but got ${reprUnknownValue(value)}.`);
+  }
+  return value;
+}
+
+function expectNonEmptyArray(value: unknown, location: string): readonly unknown[] {
+  const array = expectArray(value, location);
+  if (array.length === 0) {
+    throw conversionError(location, 'Expected a non-empty array.');
+  }
+  return array;
+}
+
+function expectStringArray(value: unknown, location: string): readonly string[] {
+  const array = expectArray(value, location);
+  if (!array.every(entry => typeof entry === 'string')) {
+    throw conversionError(location, 'Expected an array of strings.');
+  }
+  return array as string[];
+}
+
+function expectJsonObject(value: unknown, location: string): Record<string, unknown> {
+  if (!isJsonObject(value)) {
+    throw conversionError(location, `Expected an object, but got ${reprUnknownValue(value)}.`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, location: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw conversionError(location, `Expected a number, but got ${reprUnknownValue(value)}.`);
+  }
+  return value;
+}
+
+function expectNonNegativeInteger(value: unknown, location: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw conversionError(location, `Expected a non-negative integer, but got ${reprUnknownValue(value)}.`);
+  }
+  return value;
+}
+
+function expectRegExp(value: unknown, location: string): RegExp {
+  if (typeof value !== 'string') {
+    throw conversionError(location, `Expected a regular expression (as a string), but got ${reprUnknownValue(value)}.`);
+  }
+  try {
+    return new RegExp(value, 'u');
+  } catch (error) {
+    throw conversionError(location, `Received an invalid regular expression: ${reprUnknownValue(value)}.`);
+  }
+}
+
+// ------------------------------
+//   UTILITY FUNCTIONS
+// ------------------------------
+
+function conversionError(location: string, message: string): TypeError {
+  return new TypeError(`Failed to build a validator from the JSON Schema at "${location}": ${message}`);
+}
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const escapePointerSegment = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Division can introduce a small floating-point error (e.g. `0.3 / 0.1` is `2.9999999999999996`),
+ * so the quotient only needs to be within a few units of rounding error of an integer.
+ */
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  return Math.abs(quotient - Math.round(quotient)) <= Number.EPSILON * 4 * Math.abs(quotient);
+}
+
+/** Compares two JSON values, using JSON Schema's definition of equality. */
+function jsonEquals(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((entry, i) => jsonEquals(entry, b[i]));
+  } else if (isJsonObject(a) && isJsonObject(b)) {
+    const aKeys = Object.keys(a);
+    return (
+      aKeys.length === Object.keys(b).length &&
+      aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) && jsonEquals(a[key], b[key]))
+    );
+  } else {
+    return a === b;
+  }
+}
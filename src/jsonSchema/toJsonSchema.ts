@@ -0,0 +1,572 @@
+// Converts rulesets into JSON Schema documents (draft 2020-12).
+//
+// JSON Schema can only describe JSON data, so the conversion works as follows:
+// * Rules that can only match non-JSON values (like `undefined`, `bigint`, `symbol`, `Map<…>`, `Set<…>`,
+//   or a required symbol key)
+//   are converted into the `false` schema, as no JSON value would ever match them.
+// * Property rules are converted into schemas for JSON objects.
+//   Exact property rules forbid additional properties. When they're intersected with other rules,
+//   `unevaluatedProperties` is used instead, so properties described by the other rules are still permitted.
+//   This also applies to exact property rules found within the intersection's unions or interpolated validators.
+// * Iterable rules are converted into schemas for JSON arrays,
+//   as arrays are the only JSON values whose entries can be described.
+// * Size constraints are converted into the `minItems`/`maxItems` keywords,
+//   or the `minProperties`/`maxProperties` keywords for property rules.
+// * Number index signatures only apply to keys written in a standard numeric format (e.g. "2" or "-1.5e3").
+// * Numeric constraint rules are converted into the `minimum`/`maximum` family of keywords.
+//   Those that require integers use the "integer" type, and bigint constraints become `false`.
+// * String constraint rules are converted into the `minLength`, `maxLength`, and `pattern` keywords.
+//   Lengths measured in graphemes can not be represented.
+// * Interpolated validators get inlined. So do the validators of interpolated transformers,
+//   as JSON Schema describes the data before it gets transformed.
+// * Interpolated regular expressions are converted into string patterns, as long as they don't use any flags
+//   (other than the "u" flag).
+// * Template literal rules are converted into string patterns, as long as each of their placeholders
+//   can be converted into a pattern as well.
+// * Validators created with validator.types`...` may reference themselves, so instead of being inlined,
+//   they're placed under `$defs` and referenced with `$ref`.
+// * Interpolated expectations, classes, and lazy evaluators can not be represented.
+//   How these get handled depends on the `onUnrepresentable` option.
+
+import type {
+  NumericBound,
+  NumericConstraintRule,
+  StringConstraintRule,
+  PropertyRule,
+  Rule,
+  Ruleset,
+  SizeConstraint,
+  TupleRule,
+} from '../types/validationRules.js';
+import { isExpectation, isLazyEvaluator, isTransformer, isValidator, type InterpolatedValue } from '../types/validator.js';
+import type { JsonSchema, JsonSchemaObject, ToJsonSchemaOpts } from '../types/jsonSchema.js';
+import { forbiddenOwnPropertyKeys, hasOwnProperty, validateAndApplyDynamicKeys } from '../ruleEnforcer/propertyEnforcer.js';
+import { packagePrivate } from '../packagePrivateAccess.js';
+import { isDirectInstanceOf, reprUnknownValue, UnreachableCaseError } from '../util.js';
+import { resolveInterpolatedValue } from '../genericInstantiator.js';
+import { lookupDeclaredTypeName } from '../declaredTypes.js';
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+// Matches keys that are written as a number.
+const NUMERIC_KEY_PATTERN = '^(-?(0|[1-9][0-9]*)(\\.[0-9]+)?([eE][+-]?[0-9]+)?|-?Infinity)$';
+
+// Matches text that a `${number}` placeholder accepts (text that can be converted into a number).
+// Numbers too large to be finite (e.g. "1e999") are the one thing this lets through that the placeholder does not.
+const TEMPLATE_NUMBER_PATTERN = (
+  '[+-]?([0-9]+\\.?[0-9]*|\\.[0-9]+)([eE][+-]?[0-9]+)?|0[xX][0-9a-fA-F]+|0[oO][0-7]+|0[bB][01]+'
+);
+
+interface ConversionContext {
+  /**
+   * Returns the schema to use for a portion of a rule that can't be represented
+   * (or throws, depending on the user's settings).
+   */
+  readonly unrepresentable: (description: string) => JsonSchema
+  /**
+   * Returns a `$ref` schema pointing to the definition of a declared type (from validator.types`...`).
+   * The definition will be converted and added to `$defs` the first time the type gets referenced.
+   */
+  readonly referenceDeclaredType: (name: string, ruleset: Ruleset) => JsonSchema
+  /**
+   * Declared types that are currently being inlined (instead of referenced),
+   * used to avoid inlining a declared type within itself.
+   */
+  readonly declaredTypesBeingInlined: Set<Ruleset>
+}
+
+/** Converts a frozen ruleset into a JSON Schema document. */
+export function rulesetToJsonSchema(ruleset: Ruleset, opts: ToJsonSchemaOpts = {}): JsonSchemaObject {
+  const onUnrepresentable = opts.onUnrepresentable ?? 'throw';
+  const definitions = new Map<string, JsonSchema>();
+  const definitionNames = new Map<Ruleset, string>();
+  const context: ConversionContext = {
+    unrepresentable(description: string): JsonSchema {
+      if (onUnrepresentable === 'throw') {
+        throw new TypeError(`Failed to convert the validator to JSON Schema: ${description} can not be represented.`);
+      }
+      return { $comment: `Left out ${description}, which can not be represented in JSON Schema.` };
+    },
+    referenceDeclaredType(name: string, declaredRuleset: Ruleset): JsonSchema {
+      let definitionName = definitionNames.get(declaredRuleset);
+      if (definitionName === undefined) {
+        // Separate validator.types`...` calls are allowed to declare types with the same name.
+        definitionName = name;
+        for (let i = 2; definitions.has(definitionName); i++) {
+          definitionName = `${name}${i}`;
+        }
+        // The name gets reserved before converting, in case the declared type references itself.
+        definitionNames.set(declaredRuleset, definitionName);
+        definitions.set(definitionName, true);
+        definitions.set(definitionName, ruleToJsonSchema(declaredRuleset.rootRule, declaredRuleset.interpolated, context));
+      }
+      return { $ref: `#/$defs/${definitionName}` };
+    },
+    declaredTypesBeingInlined: new Set(),
+  };
+
+  const declaredName = lookupDeclaredTypeName(ruleset);
+  const schema = declaredName === null
+    ? ruleToJsonSchema(ruleset.rootRule, ruleset.interpolated, context)
+    : context.referenceDeclaredType(declaredName, ruleset);
+  const $defs = definitions.size === 0 ? {} : { $defs: Object.fromEntries(definitions) };
+  if (schema === true) {
+    return { $schema: DRAFT_2020_12, ...$defs };
+  } else if (schema === false) {
+    return { $schema: DRAFT_2020_12, not: {}, ...$defs };
+  } else {
+    return { $schema: DRAFT_2020_12, ...schema, ...$defs };
+  }
+}
+
+/**
+ * When relaxExactness is true, exact property rules found directly within the rule (i.e. not as a property's value)
+ * won't forbid additional properties. This is used for the variants of an intersection,
+ * which gets `unevaluatedProperties: false` added to it instead.
+ */
+function ruleToJsonSchema(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+  context: ConversionContext,
+  relaxExactness = false,
+): JsonSchema {
+  if (rule.category === 'simple') {
+    if (rule.type === 'string' || rule.type === 'number' || rule.type === 'boolean' || rule.type === 'null') {
+      return { type: rule.type };
+    } else if (rule.type === 'object') {
+      return { type: ['object', 'array'] };
+    } else {
+      return false;
+    }
+  } else if (rule.category === 'primitiveLiteral') {
+    return primitiveToJsonSchema(rule.value);
+  } else if (rule.category === 'numericConstraint') {
+    return numericConstraintRuleToJsonSchema(rule);
+  } else if (rule.category === 'stringConstraint') {
+    return stringConstraintRuleToJsonSchema(rule, context);
+  } else if (rule.category === 'noop') {
+    return {};
+  } else if (rule.category === 'property') {
+    const forbidAdditionalProperties = rule.exact === true && !relaxExactness;
+    return propertyRuleToJsonSchema(rule, interpolated, context, { forbidAdditionalProperties });
+  } else if (rule.category === 'array') {
+    return {
+      type: 'array',
+      items: ruleToJsonSchema(rule.content, interpolated, context),
+      ...sizeConstraintToJsonSchema(rule.size, ['minItems', 'maxItems']),
+    };
+  } else if (rule.category === 'tuple') {
+    return tupleRuleToJsonSchema(rule, interpolated, context);
+  } else if (rule.category === 'iterable') {
+    return allOf([
+      ruleToJsonSchema(rule.iterableType, interpolated, context),
+      {
+        type: 'array',
+        items: ruleToJsonSchema(rule.entryType, interpolated, context),
+        ...sizeConstraintToJsonSchema(rule.size, ['minItems', 'maxItems']),
+      },
+    ]);
+  } else if (rule.category === 'map' || rule.category === 'set') {
+    return false;
+  } else if (rule.category === 'union') {
+    return anyOf(rule.variants.map(variant => ruleToJsonSchema(variant, interpolated, context, relaxExactness)));
+  } else if (rule.category === 'intersection') {
+    // When relaxing exactness, the intersection this is a part of will be the one to add `unevaluatedProperties`.
+    const hasExactVariant = !relaxExactness && rule.variants.some(variant => containsExactPropertyRule(variant, interpolated));
+    const schema = allOf(rule.variants.map(variant => (
+      ruleToJsonSchema(variant, interpolated, context, relaxExactness || hasExactVariant)
+    )));
+    return !hasExactVariant || typeof schema === 'boolean' ? schema : { ...schema, unevaluatedProperties: false };
+  } else if (rule.category === 'interpolation') {
+    return interpolatedValueToJsonSchema(resolveInterpolatedValue(rule, interpolated), context, relaxExactness);
+  } else if (rule.category === 'templateLiteral') {
+    const pattern = templateSegmentToPattern(rule, interpolated);
+    if (pattern === null) {
+      return false;
+    } else if (typeof pattern === 'object') {
+      return context.unrepresentable(pattern.unrepresentable);
+    }
+    return { type: 'string', pattern: `^${pattern}$` };
+  } else {
+    throw new UnreachableCaseError(rule);
+  }
+}
+
+function numericConstraintRuleToJsonSchema(rule: NumericConstraintRule): JsonSchema {
+  if (rule.type === 'bigint') {
+    return false;
+  }
+
+  // The ruleset check guarantees these are numbers when the rule's type is "number".
+  const boundToJsonSchema = (bound: NumericBound | null, keyword: string, exclusiveKeyword: string): JsonSchemaObject => {
+    if (bound === null) return {};
+    return { [bound.exclusive ? exclusiveKeyword : keyword]: bound.value as number };
+  };
+
+  return {
+    type: rule.integer ? 'integer' : 'number',
+    ...boundToJsonSchema(rule.minimum, 'minimum', 'exclusiveMinimum'),
+    ...boundToJsonSchema(rule.maximum, 'maximum', 'exclusiveMaximum'),
+  };
+}
+
+function stringConstraintRuleToJsonSchema(rule: StringConstraintRule, context: ConversionContext): JsonSchema {
+  const hasLength = rule.minLength !== null || rule.maxLength !== null;
+  let lengthSchema: JsonSchemaObject = {};
+  if (hasLength && rule.lengthUnit === 'graphemes') {
+    lengthSchema = asObjectSchema(context.unrepresentable('a string length that is measured in graphemes'));
+  } else if (hasLength) {
+    lengthSchema = {
+      ...rule.minLength !== null ? { minLength: rule.minLength } : {},
+      ...rule.maxLength !== null ? { maxLength: rule.maxLength } : {},
+    };
+  }
+
+  let patternSchema: JsonSchemaObject = {};
+  if (rule.pattern !== null && !['', 'u'].includes(rule.pattern.flags)) {
+    const regExp = new RegExp(rule.pattern.source, rule.pattern.flags);
+    patternSchema = asObjectSchema(context.unrepresentable(`the flags of the regular expression ${regExp.toString()}`));
+  } else if (rule.pattern !== null) {
+    patternSchema = { pattern: rule.pattern.source };
+  }
+
+  return { type: 'string', ...lengthSchema, ...patternSchema };
+}
+
+function propertyRuleToJsonSchema(
+  rule: PropertyRule,
+  interpolated: readonly InterpolatedValue[],
+  context: ConversionContext,
+  { forbidAdditionalProperties }: { readonly forbidAdditionalProperties: boolean },
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, propertyRules] of validateAndApplyDynamicKeys(rule, interpolated).content) {
+    const isRequired = !propertyRules.every(({ optional }) => optional);
+    if (typeof key === 'symbol') {
+      // JSON objects can't have symbol keys.
+      if (isRequired) return false;
+      continue;
+    }
+
+    properties[key] = allOf(propertyRules.map(({ rule }) => ruleToJsonSchema(rule, interpolated, context)));
+    if (isRequired) {
+      required.push(key);
+    }
+  }
+
+  let patternProperties: Record<string, JsonSchema> | undefined;
+  let indexComment: JsonSchema | undefined;
+  if (rule.index !== null) {
+    const keyPattern = indexKeyToPattern(rule.index.key, interpolated);
+    if (typeof keyPattern === 'string') {
+      patternProperties = { [keyPattern]: ruleToJsonSchema(rule.index.value, interpolated, context) };
+    } else if (keyPattern !== null) {
+      indexComment = context.unrepresentable(keyPattern.unrepresentable);
+    }
+  }
+
+  // JSON objects only ever have own properties, but they can still have `__proto__` or `constructor` keys.
+  const forbiddenKeys = rule.ownPropertiesOnly === true
+    ? [...forbiddenOwnPropertyKeys].filter(key => typeof key === 'string' && !hasOwnProperty(properties, key))
+    : [];
+
+  return {
+    type: 'object',
+    ...Object.keys(properties).length > 0 ? { properties } : {},
+    ...required.length > 0 ? { required } : {},
+    ...patternProperties !== undefined ? { patternProperties } : {},
+    ...typeof indexComment === 'object' ? indexComment : {},
+    // If the index signature was left out, additional properties are left unrestricted as well.
+    ...forbidAdditionalProperties && indexComment === undefined ? { additionalProperties: false } : {},
+    ...sizeConstraintToJsonSchema(rule.size, ['minProperties', 'maxProperties']),
+    ...forbiddenKeys.length > 0 ? { propertyNames: { not: { enum: forbiddenKeys } } } : {},
+  };
+}
+
+function tupleRuleToJsonSchema(
+  rule: TupleRule,
+  interpolated: readonly InterpolatedValue[],
+  context: ConversionContext,
+): JsonSchema {
+  const prefixItems = [...rule.content, ...rule.optionalContent]
+    .map(entryRule => ruleToJsonSchema(entryRule, interpolated, context));
+
+  let items: JsonSchema | undefined;
+  if (rule.rest !== null) {
+    items = restRuleToItemsSchema(rule.rest, interpolated, context);
+  }
+
+  // The tuple's own size limits get narrowed down further by its size constraint.
+  const size = rule.size ?? null;
+  const minItems = Math.max(rule.content.length, size?.min ?? 0);
+  const maxItems = Math.min(rule.rest === null ? prefixItems.length : Infinity, size?.max ?? Infinity);
+
+  return {
+    type: 'array',
+    ...prefixItems.length > 0 ? { prefixItems } : {},
+    ...items !== undefined ? { items } : {},
+    ...minItems > 0 ? { minItems } : {},
+    ...maxItems !== Infinity ? { maxItems } : {},
+  };
+}
+
+function sizeConstraintToJsonSchema(
+  size: SizeConstraint | null | undefined,
+  [minKeyword, maxKeyword]: readonly [string, string],
+): JsonSchemaObject {
+  if (size === undefined || size === null) {
+    return {};
+  }
+  return {
+    ...size.min !== null ? { [minKeyword]: size.min } : {},
+    ...size.max !== null ? { [maxKeyword]: size.max } : {},
+  };
+}
+
+/**
+ * Returns the schema that the entries matched by the rest rule should follow,
+ * or undefined if there are no restrictions on those entries.
+ */
+function restRuleToItemsSchema(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+  context: ConversionContext,
+): JsonSchema | undefined {
+  if (rule.category === 'array') {
+    return ruleToJsonSchema(rule.content, interpolated, context);
+  } else if (rule.category === 'noop') {
+    return undefined;
+  } else if (rule.category === 'interpolation') {
+    const interpolatedValue = resolveInterpolatedValue(rule, interpolated);
+    if (isValidator(interpolatedValue)) {
+      return restRuleToItemsSchema(interpolatedValue.ruleset.rootRule, interpolatedValue.ruleset.interpolated, context);
+    }
+  }
+
+  return context.unrepresentable('a tuple rest entry that is not an array rule');
+}
+
+function interpolatedValueToJsonSchema(
+  interpolatedValue: InterpolatedValue,
+  context: ConversionContext,
+  relaxExactness: boolean,
+): JsonSchema {
+  if (isValidator(interpolatedValue)) {
+    const { ruleset } = interpolatedValue;
+    const declaredName = lookupDeclaredTypeName(ruleset);
+    if (declaredName === null) {
+      return ruleToJsonSchema(ruleset.rootRule, ruleset.interpolated, context, relaxExactness);
+    }
+
+    // The shared definition of a declared type can't have its exactness relaxed, so it gets inlined instead.
+    const shouldInline = (
+      relaxExactness &&
+      !context.declaredTypesBeingInlined.has(ruleset) &&
+      containsExactPropertyRule(ruleset.rootRule, ruleset.interpolated)
+    );
+    if (!shouldInline) {
+      return context.referenceDeclaredType(declaredName, ruleset);
+    }
+    context.declaredTypesBeingInlined.add(ruleset);
+    try {
+      return ruleToJsonSchema(ruleset.rootRule, ruleset.interpolated, context, relaxExactness);
+    } finally {
+      context.declaredTypesBeingInlined.delete(ruleset);
+    }
+  } else if (isLazyEvaluator(interpolatedValue)) {
+    return context.unrepresentable('an interpolated lazy evaluator (from validator.lazy())');
+  } else if (isTransformer(interpolatedValue)) {
+    const { ruleset } = interpolatedValue[packagePrivate].validator;
+    return ruleToJsonSchema(ruleset.rootRule, ruleset.interpolated, context, relaxExactness);
+  } else if (isExpectation(interpolatedValue)) {
+    return context.unrepresentable('an interpolated expectation (from validator.expectTo())');
+  } else if (typeof interpolatedValue === 'function') {
+    return context.unrepresentable(`the interpolated class ${reprUnknownValue(interpolatedValue)}`);
+  } else if (isDirectInstanceOf(interpolatedValue, RegExp)) {
+    if (!['', 'u'].includes(interpolatedValue.flags)) {
+      return context.unrepresentable(`the regular expression ${interpolatedValue.toString()}, with its flags,`);
+    }
+    return { type: 'string', pattern: interpolatedValue.source };
+  } else {
+    return primitiveToJsonSchema(interpolatedValue);
+  }
+}
+
+/**
+ * Checks if the rule is an exact property rule, or if one can be found within its unions, intersections,
+ * or interpolated validators (i.e. anywhere that would affect which properties the same object is allowed to have).
+ */
+function containsExactPropertyRule(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+  visited = new Set<Ruleset>(),
+): boolean {
+  if (rule.category === 'property') {
+    return rule.exact === true;
+  } else if (rule.category === 'union' || rule.category === 'intersection') {
+    return rule.variants.some(variant => containsExactPropertyRule(variant, interpolated, visited));
+  } else if (rule.category === 'interpolation') {
+    const interpolatedValue = resolveInterpolatedValue(rule, interpolated);
+    const validator = isTransformer(interpolatedValue) ? interpolatedValue[packagePrivate].validator : interpolatedValue;
+    if (!isValidator(validator) || visited.has(validator.ruleset)) {
+      return false;
+    }
+    visited.add(validator.ruleset);
+    return containsExactPropertyRule(validator.ruleset.rootRule, validator.ruleset.interpolated, visited);
+  } else {
+    return false;
+  }
+}
+
+function primitiveToJsonSchema(value: unknown): JsonSchema {
+  if (
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    value === null ||
+    (typeof value === 'number' && Number.isFinite(value))
+  ) {
+    return { const: value };
+  } else {
+    // undefined, bigints, symbols, NaN, and infinite numbers can't be found in JSON.
+    return false;
+  }
+}
+
+/**
+ * Converts the key rule of an index signature into a regular expression (as a string)
+ * that matches the property names the index signature applies to.
+ * Returns null if the index signature does not apply to any string keys.
+ */
+function indexKeyToPattern(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+): string | null | { readonly unrepresentable: string } {
+  if (rule.category === 'noop') {
+    return '';
+  } else if (rule.category === 'simple') {
+    if (rule.type === 'string') return '';
+    if (rule.type === 'number') return NUMERIC_KEY_PATTERN;
+    return null;
+  } else if (rule.category === 'primitiveLiteral') {
+    if (typeof rule.value === 'string' || typeof rule.value === 'number') {
+      return `^${escapeRegExp(String(rule.value))}$`;
+    }
+    return null;
+  } else if (rule.category === 'union') {
+    const patterns: string[] = [];
+    for (const variant of rule.variants) {
+      const pattern = indexKeyToPattern(variant, interpolated);
+      if (pattern === '') return '';
+      if (typeof pattern === 'object' && pattern !== null) return pattern;
+      if (pattern !== null) patterns.push(pattern);
+    }
+    if (patterns.length === 0) return null;
+    return patterns.length === 1 ? patterns[0] as string : patterns.map(pattern => `(${pattern})`).join('|');
+  } else if (rule.category === 'interpolation') {
+    const interpolatedValue = resolveInterpolatedValue(rule, interpolated);
+    if (isValidator(interpolatedValue)) {
+      return indexKeyToPattern(interpolatedValue.ruleset.rootRule, interpolatedValue.ruleset.interpolated);
+    } else if (isDirectInstanceOf(interpolatedValue, RegExp) && ['', 'u'].includes(interpolatedValue.flags)) {
+      return interpolatedValue.source;
+    } else if (typeof interpolatedValue === 'string' || typeof interpolatedValue === 'number') {
+      return `^${escapeRegExp(String(interpolatedValue))}$`;
+    }
+  }
+
+  return { unrepresentable: 'an index signature with this kind of key' };
+}
+
+/**
+ * Converts a template literal rule, or one of the rules found in its placeholders,
+ * into an (unanchored) regular expression that matches the same text.
+ * Returns null if no text would match.
+ */
+function templateSegmentToPattern(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+): string | null | { readonly unrepresentable: string } {
+  if (rule.category === 'templateLiteral') {
+    let pattern = escapeRegExp(rule.textSegments[0] as string);
+    for (const [i, ruleSegment] of rule.ruleSegments.entries()) {
+      const segmentPattern = templateSegmentToPattern(ruleSegment, interpolated);
+      if (segmentPattern === null || typeof segmentPattern === 'object') return segmentPattern;
+      pattern += `(${segmentPattern})` + escapeRegExp(rule.textSegments[i + 1] as string);
+    }
+    return pattern;
+  } else if (rule.category === 'noop') {
+    return '[\\s\\S]*';
+  } else if (rule.category === 'simple') {
+    if (rule.type === 'string') return '[\\s\\S]*';
+    if (rule.type === 'number') return TEMPLATE_NUMBER_PATTERN;
+    if (rule.type === 'bigint') return '-?[0-9]+';
+    if (rule.type === 'boolean') return 'true|false';
+    if (rule.type === 'null' || rule.type === 'undefined') return rule.type;
+    return null;
+  } else if (rule.category === 'primitiveLiteral') {
+    return escapeRegExp(String(rule.value));
+  } else if (rule.category === 'numericConstraint') {
+    // A regular expression can't reasonably check the bounds of a number, but an unconstrained rule is just a type.
+    if (!rule.integer && rule.minimum === null && rule.maximum === null) {
+      return templateSegmentToPattern({ category: 'simple', type: rule.type }, interpolated);
+    }
+  } else if (rule.category === 'stringConstraint') {
+    if (rule.minLength === null && rule.maxLength === null && rule.pattern === null) {
+      return templateSegmentToPattern({ category: 'simple', type: 'string' }, interpolated);
+    }
+  } else if (rule.category === 'union') {
+    const patterns: string[] = [];
+    for (const variant of rule.variants) {
+      const pattern = templateSegmentToPattern(variant, interpolated);
+      if (typeof pattern === 'object' && pattern !== null) return pattern;
+      if (pattern !== null) patterns.push(pattern);
+    }
+    if (patterns.length === 0) return null;
+    return patterns.map(pattern => `(${pattern})`).join('|');
+  } else if (rule.category === 'interpolation') {
+    const interpolatedValue = resolveInterpolatedValue(rule, interpolated);
+    if (isValidator(interpolatedValue)) {
+      return templateSegmentToPattern(interpolatedValue.ruleset.rootRule, interpolatedValue.ruleset.interpolated);
+    } else if (isTransformer(interpolatedValue)) {
+      const { ruleset } = interpolatedValue[packagePrivate].validator;
+      return templateSegmentToPattern(ruleset.rootRule, ruleset.interpolated);
+    } else if (isDirectInstanceOf(interpolatedValue, RegExp) && ['', 'u'].includes(interpolatedValue.flags)) {
+      return interpolatedValue.source;
+    } else if (['string', 'number', 'bigint', 'boolean', 'undefined'].includes(typeof interpolatedValue) || interpolatedValue === null) {
+      return escapeRegExp(String(interpolatedValue));
+    }
+  }
+
+  return { unrepresentable: 'a template literal type with this kind of placeholder' };
+}
+
+// ------------------------------
+//   UTILITY FUNCTIONS
+// ------------------------------
+
+/** Checks if the schema will match anything. */
+const isAnythingSchema = (schema: JsonSchema): boolean => (
+  schema === true || (typeof schema === 'object' && Object.keys(schema).length === 0)
+);
+
+function allOf(schemas: readonly JsonSchema[]): JsonSchema {
+  const remaining = schemas.filter(schema => !isAnythingSchema(schema));
+  if (remaining.includes(false)) return false;
+  if (remaining.length === 0) return {};
+  return remaining.length === 1 ? remaining[0] as JsonSchema : { allOf: remaining };
+}
+
+function anyOf(schemas: readonly JsonSchema[]): JsonSchema {
+  const remaining = schemas.filter(schema => schema !== false);
+  if (remaining.some(isAnythingSchema)) return {};
+  if (remaining.length === 0) return false;
+  return remaining.length === 1 ? remaining[0] as JsonSchema : { anyOf: remaining };
+}
+
+/**
+ * context.unrepresentable() returns an empty schema with a `$comment` when loosening,
+ * which can be merged into the schema of the surrounding rule.
+ */
+const asObjectSchema = (schema: JsonSchema): JsonSchemaObject => typeof schema === 'object' ? schema : {};
+
+const escapeRegExp = (text: string): string => text.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
@@ -0,0 +1,427 @@
+// This module turns a ruleset into a tree of pre-bound closures that can quickly
+// tell if a value matches or not.
+// A compiled matcher is only capable of answering yes or no - it does not build error messages.
+// When a compiled matcher reports a failure, the regular match algorithm (from ruleEnforcer/)
+// is expected to be run on the same value, to figure out what went wrong.
+//
+// Because of this, it's important that a compiled matcher always agrees with the regular match algorithm.
+// Any time the behavior of an enforcer changes, the corresponding compile function found here
+// should be updated as well.
+
+import type {
+  ArrayRule,
+  InterpolationRule,
+  IntersectionRule,
+  IterableRule,
+  MapRule,
+  PropertyRule,
+  Rule,
+  Ruleset,
+  SetRule,
+  SizeConstraint,
+  TupleRule,
+  UnionRule,
+} from './types/validationRules.js';
+import { isExpectation, isLazyEvaluator, isTransformer, isValidator, type InterpolatedValue } from './types/validator.js';
+import { getSimpleTypeOf } from './ruleEnforcer/shared.js';
+import { isInstanceOf, isObject, sameValueZero } from './ruleEnforcer/interpolationEnforcer.js';
+import {
+  collectKeysFromOtherVariants,
+  countOwnEnumerableProperties,
+  forbiddenOwnPropertyKeys,
+  hasOwnProperty,
+  validateAndApplyDynamicKeys,
+} from './ruleEnforcer/propertyEnforcer.js';
+import { isIterable } from './ruleEnforcer/iterableEnforcer.js';
+import { lookupUnionDispatchTable, selectUnionVariant } from './ruleEnforcer/discriminatedUnions.js';
+import { deriveLazyValidator, testExpectation } from './ruleEnforcer/asyncResolutions.js';
+import { doesTemplateLiteralMatch } from './ruleEnforcer/templateLiteralEnforcer.js';
+import { findUnmetNumericConstraint } from './ruleEnforcer/numericConstraintEnforcer.js';
+import { findUnmetStringConstraint } from './ruleEnforcer/stringConstraintEnforcer.js';
+import { packagePrivate } from './packagePrivateAccess.js';
+import { isDirectInstanceOf, throwIndexOutOfBounds, UnreachableCaseError } from './util.js';
+import { resolveInterpolatedValue } from './genericInstantiator.js';
+
+/** Returns true if the target matches the rule it was compiled from. */
+export type CompiledMatcher = (target: unknown) => boolean;
+
+// Rulesets are frozen, so their compiled output can be safely reused.
+// This also means interpolated validators will only get compiled once,
+// no matter how many other validators they're used in.
+const compiledRulesets = new WeakMap<Ruleset, CompiledMatcher>();
+
+/**
+ * Compiles a frozen ruleset into a matcher function.
+ */
+export function compileRuleset(ruleset: Ruleset): CompiledMatcher {
+  let compiled = compiledRulesets.get(ruleset);
+  if (compiled === undefined) {
+    // A ruleset may end up referring back to itself (e.g. with validator.types`...`),
+    // so a matcher that forwards to the finished one gets cached while compiling.
+    let finishedMatcher: CompiledMatcher | null = null;
+    compiledRulesets.set(ruleset, target => (finishedMatcher as CompiledMatcher)(target));
+    try {
+      finishedMatcher = compileRule(ruleset.rootRule, ruleset.interpolated);
+    } catch (error) {
+      // Otherwise the forwarding matcher would be left in the cache, with nothing to forward to.
+      compiledRulesets.delete(ruleset);
+      throw error;
+    }
+    compiled = finishedMatcher;
+    compiledRulesets.set(ruleset, compiled);
+  }
+
+  return compiled;
+}
+
+const noKeys: ReadonlySet<string | symbol> = new Set();
+
+/**
+ * intersectedKeys holds keys described by other property rules this rule is being intersected with
+ * (see the MatchOpts type for more details). It should be left out when compiling a rule for a nested value.
+ */
+function compileRule(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+  intersectedKeys: ReadonlySet<string | symbol> = noKeys,
+): CompiledMatcher {
+  if (rule.category === 'simple') {
+    const type = rule.type;
+    return target => getSimpleTypeOf(target) === type;
+  } else if (rule.category === 'primitiveLiteral') {
+    const value = rule.value;
+    return target => target === value;
+  } else if (rule.category === 'numericConstraint') {
+    const type = rule.type;
+    return target => (
+      getSimpleTypeOf(target) === type &&
+      findUnmetNumericConstraint(rule, target as number | bigint) === undefined
+    );
+  } else if (rule.category === 'stringConstraint') {
+    return target => typeof target === 'string' && findUnmetStringConstraint(rule, target) === undefined;
+  } else if (rule.category === 'noop') {
+    return () => true;
+  } else if (rule.category === 'property') {
+    return compilePropertyRule(rule, interpolated, intersectedKeys);
+  } else if (rule.category === 'array') {
+    return compileArrayRule(rule, interpolated);
+  } else if (rule.category === 'tuple') {
+    return compileTupleRule(rule, interpolated);
+  } else if (rule.category === 'iterable') {
+    return compileIterableRule(rule, interpolated, intersectedKeys);
+  } else if (rule.category === 'map') {
+    return compileMapRule(rule, interpolated);
+  } else if (rule.category === 'set') {
+    return compileSetRule(rule, interpolated);
+  } else if (rule.category === 'union') {
+    return compileUnionRule(rule, interpolated, intersectedKeys);
+  } else if (rule.category === 'intersection') {
+    return compileIntersectionRule(rule, interpolated, intersectedKeys);
+  } else if (rule.category === 'interpolation') {
+    return compileInterpolationRule(rule, interpolated, intersectedKeys);
+  } else if (rule.category === 'templateLiteral') {
+    // Finding the right way to split up the string requires backtracking,
+    // so the enforcer's algorithm gets reused as-is.
+    return target => typeof target === 'string' && doesTemplateLiteralMatch(rule, target, interpolated, null);
+  } else {
+    throw new UnreachableCaseError(rule);
+  }
+}
+
+function compilePropertyRule(
+  rule: PropertyRule,
+  interpolated: readonly InterpolatedValue[],
+  intersectedKeys: ReadonlySet<string | symbol>,
+): CompiledMatcher {
+  const propertyRuleWithStaticKeys = validateAndApplyDynamicKeys(rule, interpolated);
+  const propertyChecks = [...propertyRuleWithStaticKeys.content.entries()]
+    .map(([key, propertyRules]) => ({
+      key,
+      required: !propertyRules.every(({ optional }) => optional),
+      matchers: propertyRules.map(({ rule }) => compileRule(rule, interpolated)),
+    }));
+
+  const index = propertyRuleWithStaticKeys.index;
+  const indexCheck = index === null
+    ? null
+    : {
+        keyMatcher: compileRule(index.key, interpolated),
+        valueMatcher: compileRule(index.value, interpolated),
+      };
+
+  const indexAppliesToProperty = ({ keyMatcher }: NonNullable<typeof indexCheck>, key: string | symbol): boolean => {
+    // Handles the case where we're matching the key against the `number` rule.
+    const numericKey = typeof key === 'string' ? Number(key) : NaN;
+    return keyMatcher(key) || (!isNaN(numericKey) && keyMatcher(numericKey));
+  };
+
+  const satisfiesIndexSignature = (
+    indexInfo: NonNullable<typeof indexCheck>,
+    key: string | symbol,
+    value: unknown,
+  ): boolean => !indexAppliesToProperty(indexInfo, key) || indexInfo.valueMatcher(value);
+
+  const size = rule.size ?? null;
+  const knownKeys = rule.exact === true
+    ? new Set([...propertyRuleWithStaticKeys.content.keys(), ...intersectedKeys])
+    : null;
+
+  const ownPropertiesOnly = rule.ownPropertiesOnly === true;
+  const hasProperty = (target: object, key: string | symbol): boolean => ownPropertiesOnly
+    ? hasOwnProperty(target, key)
+    : key in target;
+  const forbiddenKeys = ownPropertiesOnly
+    ? [...forbiddenOwnPropertyKeys].filter(key => !propertyRuleWithStaticKeys.content.has(key) && !intersectedKeys.has(key))
+    : [];
+
+  return target => {
+    if (target === undefined || target === null) {
+      return false;
+    }
+
+    const targetObj = Object(target) as Record<string | symbol, unknown>;
+    if (size !== null && !isWithinSize(size, countOwnEnumerableProperties(targetObj))) {
+      return false;
+    }
+
+    for (const key of forbiddenKeys) {
+      if (hasOwnProperty(targetObj, key)) return false;
+    }
+
+    for (const { key, required, matchers } of propertyChecks) {
+      if (!hasProperty(targetObj, key)) {
+        if (required) return false;
+        continue;
+      }
+
+      for (const matcher of matchers) {
+        if (!matcher(targetObj[key])) return false;
+      }
+    }
+
+    if (knownKeys !== null) {
+      for (const key of Reflect.ownKeys(targetObj)) {
+        if (!knownKeys.has(key) && (indexCheck === null || !indexAppliesToProperty(indexCheck, key))) return false;
+      }
+    }
+
+    if (indexCheck !== null) {
+      for (const key of Object.getOwnPropertyNames(targetObj)) {
+        if (!satisfiesIndexSignature(indexCheck, key, targetObj[key])) return false;
+      }
+      for (const key of Object.getOwnPropertySymbols(targetObj)) {
+        if (!satisfiesIndexSignature(indexCheck, key, targetObj[key])) return false;
+      }
+    }
+
+    return true;
+  };
+}
+
+function compileArrayRule(rule: ArrayRule, interpolated: readonly InterpolatedValue[]): CompiledMatcher {
+  const contentMatcher = compileRule(rule.content, interpolated);
+  const size = rule.size ?? null;
+  return target => {
+    if (!Array.isArray(target) || (size !== null && !isWithinSize(size, target.length))) {
+      return false;
+    }
+
+    for (const element of target) {
+      if (!contentMatcher(element)) return false;
+    }
+
+    return true;
+  };
+}
+
+function compileTupleRule(rule: TupleRule, interpolated: readonly InterpolatedValue[]): CompiledMatcher {
+  const entryMatchers = [...rule.content, ...rule.optionalContent]
+    .map(entryRule => compileRule(entryRule, interpolated));
+  const minSize = rule.content.length;
+  const maxSize = rule.rest !== null ? Infinity : entryMatchers.length;
+  const size = rule.size ?? null;
+
+  // A rest rule is almost always an array rule.
+  // In that case, the array's entries get checked in place, to avoid slicing the target.
+  const restRule = rule.rest;
+  const restEntryMatcher = restRule?.category === 'array' ? compileRule(restRule.content, interpolated) : null;
+  const restMatcher = restRule !== null && restEntryMatcher === null ? compileRule(restRule, interpolated) : null;
+
+  return target => {
+    if (!Array.isArray(target) || target.length < minSize || target.length > maxSize) {
+      return false;
+    }
+    if (size !== null && !isWithinSize(size, target.length)) {
+      return false;
+    }
+
+    const entryCount = Math.min(target.length, entryMatchers.length);
+    for (let i = 0; i < entryCount; i++) {
+      if (entryMatchers[i]?.(target[i]) === false) return false;
+    }
+
+    if (restEntryMatcher !== null) {
+      for (let i = entryMatchers.length; i < target.length; i++) {
+        if (!restEntryMatcher(target[i])) return false;
+      }
+    } else if (restMatcher !== null) {
+      return restMatcher(target.slice(entryMatchers.length));
+    }
+
+    return true;
+  };
+}
+
+function compileIterableRule(
+  rule: IterableRule,
+  interpolated: readonly InterpolatedValue[],
+  intersectedKeys: ReadonlySet<string | symbol>,
+): CompiledMatcher {
+  const iterableTypeMatcher = compileRule(rule.iterableType, interpolated, intersectedKeys);
+  const entryMatcher = compileRule(rule.entryType, interpolated);
+  const size = rule.size ?? null;
+  return target => {
+    if (!isIterable(target) || !iterableTypeMatcher(target)) {
+      return false;
+    }
+
+    let entries: Iterable<unknown> = target;
+    if (size !== null) {
+      // The same as the enforcer, entries are collected up front, stopping once the max size is exceeded.
+      const collectedEntries: unknown[] = [];
+      for (const entry of target) {
+        collectedEntries.push(entry);
+        if (size.max !== null && collectedEntries.length > size.max) return false;
+      }
+      if (!isWithinSize(size, collectedEntries.length)) return false;
+      entries = collectedEntries;
+    }
+
+    for (const entry of entries) {
+      if (!entryMatcher(entry)) return false;
+    }
+
+    return true;
+  };
+}
+
+function compileMapRule(rule: MapRule, interpolated: readonly InterpolatedValue[]): CompiledMatcher {
+  const keyMatcher = compileRule(rule.keyType, interpolated);
+  const valueMatcher = compileRule(rule.valueType, interpolated);
+  const size = rule.size;
+  return target => {
+    if (!isObject(target) || !isInstanceOf(target, Map)) {
+      return false;
+    }
+
+    const targetMap = target as Map<unknown, unknown>;
+    if (size !== null && !isWithinSize(size, targetMap.size)) {
+      return false;
+    }
+
+    for (const [key, value] of targetMap) {
+      if (!keyMatcher(key) || !valueMatcher(value)) return false;
+    }
+
+    return true;
+  };
+}
+
+function compileSetRule(rule: SetRule, interpolated: readonly InterpolatedValue[]): CompiledMatcher {
+  const entryMatcher = compileRule(rule.entryType, interpolated);
+  const size = rule.size;
+  return target => {
+    if (!isObject(target) || !isInstanceOf(target, Set)) {
+      return false;
+    }
+
+    const targetSet = target as Set<unknown>;
+    if (size !== null && !isWithinSize(size, targetSet.size)) {
+      return false;
+    }
+
+    for (const entry of targetSet) {
+      if (!entryMatcher(entry)) return false;
+    }
+
+    return true;
+  };
+}
+
+function isWithinSize(size: SizeConstraint, actualSize: number): boolean {
+  return (size.min === null || actualSize >= size.min) && (size.max === null || actualSize <= size.max);
+}
+
+function compileUnionRule(
+  rule: UnionRule,
+  interpolated: readonly InterpolatedValue[],
+  intersectedKeys: ReadonlySet<string | symbol>,
+): CompiledMatcher {
+  const variantMatchers = rule.variants.map(variant => compileRule(variant, interpolated, intersectedKeys));
+  const dispatchTable = lookupUnionDispatchTable(rule);
+  return target => {
+    const selectedVariantIndex = dispatchTable === null ? null : selectUnionVariant(dispatchTable, target);
+    if (selectedVariantIndex !== null) {
+      return (variantMatchers[selectedVariantIndex] ?? throwIndexOutOfBounds())(target);
+    }
+
+    for (const variantMatcher of variantMatchers) {
+      if (variantMatcher(target)) return true;
+    }
+
+    return false;
+  };
+}
+
+function compileIntersectionRule(
+  rule: IntersectionRule,
+  interpolated: readonly InterpolatedValue[],
+  intersectedKeys_: ReadonlySet<string | symbol>,
+): CompiledMatcher {
+  const keysFromOtherVariants = collectKeysFromOtherVariants(rule, interpolated);
+  const variantMatchers = rule.variants.map((variant, i) => {
+    const keysForVariant = keysFromOtherVariants[i] ?? throwIndexOutOfBounds();
+    const intersectedKeys = keysForVariant.size === 0 ? intersectedKeys_ : new Set([...intersectedKeys_, ...keysForVariant]);
+    return compileRule(variant, interpolated, intersectedKeys);
+  });
+  return target => {
+    for (const variantMatcher of variantMatchers) {
+      if (!variantMatcher(target)) return false;
+    }
+
+    return true;
+  };
+}
+
+function compileInterpolationRule(
+  rule: InterpolationRule,
+  interpolated: readonly InterpolatedValue[],
+  intersectedKeys: ReadonlySet<string | symbol>,
+): CompiledMatcher {
+  const interpolatedValue = resolveInterpolatedValue(rule, interpolated);
+
+  // Rulesets compiled with intersected keys can't be shared, so they skip the cache.
+  const compileInterpolatedRuleset = (ruleset: Ruleset): CompiledMatcher => intersectedKeys.size === 0
+    ? compileRuleset(ruleset)
+    : compileRule(ruleset.rootRule, ruleset.interpolated, intersectedKeys);
+
+  if (isValidator(interpolatedValue)) {
+    return compileInterpolatedRuleset(interpolatedValue.ruleset);
+  } else if (isLazyEvaluator(interpolatedValue)) {
+    // The validator can only be derived once the target is known,
+    // which also means recursive lazy validators will only get compiled as deep as they're used.
+    return target => compileInterpolatedRuleset(deriveLazyValidator(interpolatedValue, target, null).ruleset)(target);
+  } else if (isTransformer(interpolatedValue)) {
+    return compileInterpolatedRuleset(interpolatedValue[packagePrivate].validator.ruleset);
+  } else if (isExpectation(interpolatedValue)) {
+    return target => testExpectation(interpolatedValue, target, null) === undefined;
+  } else if (typeof interpolatedValue === 'function') {
+    return target => isInstanceOf(target, interpolatedValue);
+  } else if (isDirectInstanceOf(interpolatedValue, RegExp)) {
+    return target => typeof target === 'string' && target.match(interpolatedValue) !== null;
+  } else if (!isObject(interpolatedValue)) {
+    return target => sameValueZero(target, interpolatedValue);
+  } else {
+    throw new UnreachableCaseError(interpolatedValue);
+  }
+}
@@ -1,11 +1,17 @@
-import { assert, UnreachableCaseError } from '../util.js';
+import { assert, reprUnknownValue, UnreachableCaseError } from '../util.js';
 import { isIdentifier } from '../ruleParser/index.js';
+import { isObject } from './interpolationEnforcer.js';
 
 export type PathSegment =
   { category: 'accessProperty', propertyKey: string | symbol }
   | { category: 'indexArray', index: number }
   | { category: 'sliceArray', from: number }
-  | { category: 'convertToArray' };
+  | { category: 'convertToArray' }
+  // Refers to the n-th key of a Map (in iteration order).
+  | { category: 'mapKey', index: number }
+  // Refers to the value a Map stores under the given key.
+  // The index of the entry (in iteration order) is used to describe the path when the key is an object.
+  | { category: 'mapValue', key: unknown, index: number };
 
 interface CustomStringifierOpts {
   readonly rootText: string
@@ -50,6 +56,10 @@ export class LookupPath {
       return segment2.category === 'sliceArray' && segment1.from === segment2.from;
     } else if (segment1.category === 'convertToArray') {
       return segment2.category === 'convertToArray';
+    } else if (segment1.category === 'mapKey') {
+      return segment2.category === 'mapKey' && segment1.index === segment2.index;
+    } else if (segment1.category === 'mapValue') {
+      return segment2.category === 'mapValue' && Object.is(segment1.key, segment2.key);
     } else {
       throw new UnreachableCaseError(segment1);
     }
@@ -96,6 +106,14 @@ export class LookupPath {
     return this.#push({ category: 'convertToArray' });
   }
 
+  thenAccessMapKey(index: number): LookupPath {
+    return this.#push({ category: 'mapKey', index });
+  }
+
+  thenAccessMapValue(key: unknown, index: number): LookupPath {
+    return this.#push({ category: 'mapValue', key, index });
+  }
+
   asString(): string {
     if (this.#customStringifier !== undefined) {
       return this.#customStringifier({
@@ -120,6 +138,13 @@ export class LookupPath {
         path = `${path}.slice(${segment.from})`;
       } else if (segment.category === 'convertToArray') {
         path = `[...${path}]`;
+      } else if (segment.category === 'mapKey') {
+        path = `[...${path}.keys()][${segment.index}]`;
+      } else if (segment.category === 'mapValue' && isObject(segment.key)) {
+        // Objects can't be written out in a way that identifies them, so the value is referred to by its position.
+        path = `[...${path}.values()][${segment.index}]`;
+      } else if (segment.category === 'mapValue') {
+        path = `${path}.get(${reprUnknownValue(segment.key)})`;
       } else {
         throw new UnreachableCaseError(segment);
       }
@@ -0,0 +1,89 @@
+import type { ValidationIssue } from '../types/validator.js';
+import type { MessageId } from '../types/messageCatalog.js';
+import type { PathSegment } from './LookupPath.js';
+import { reprUnknownValue } from '../util.js';
+
+const ExceptionConstructionKey = Symbol('exception constructor key');
+
+/** The JSON-friendly form of a ValidationIssue, as produced by `<ValidationError>.toJSON()`. */
+export interface ValidationIssueJson {
+  readonly code: MessageId
+  readonly path: string
+  // Symbol property keys and Map keys that can't be represented in JSON are converted into strings.
+  readonly pathSegments: ReadonlyArray<Readonly<Record<string, unknown>>>
+  readonly message: string
+  readonly expected: string
+  readonly received: string
+}
+
+export interface ValidationErrorJson {
+  readonly name: string
+  readonly message: string
+  readonly issues: readonly ValidationIssueJson[]
+}
+
+/**
+ * An instance of this error is thrown whenever a value fails to match a validator.
+ * It extends TypeError, which is what used to be thrown before this class existed.
+ * Each of its issues describes one reason for the failure, the same way `<validator instance>.validate()` would.
+ */
+export class ValidationError extends TypeError {
+  name = 'ValidationError';
+  #buildIssues: () => readonly ValidationIssue[];
+  #issues: readonly ValidationIssue[] | null = null;
+  constructor(
+    key: typeof ExceptionConstructionKey,
+    message: string,
+    buildIssues: () => readonly ValidationIssue[],
+  ) {
+    if (key !== ExceptionConstructionKey) {
+      throw new Error('The ValidationError constructor is private.');
+    }
+
+    super(message);
+    this.#buildIssues = buildIssues;
+  }
+
+  /** The issues get built the first time they're requested. */
+  get issues(): readonly ValidationIssue[] {
+    this.#issues ??= this.#buildIssues();
+    return this.#issues;
+  }
+
+  /** Provides a version of this error that can be sent as-is in an HTTP response. */
+  toJSON(): ValidationErrorJson {
+    return {
+      name: this.name,
+      message: this.message,
+      issues: this.issues.map(issue => ({
+        code: issue.code,
+        path: issue.path,
+        pathSegments: issue.pathSegments.map(pathSegmentToJson),
+        message: issue.message,
+        expected: issue.expected,
+        received: issue.received,
+      })),
+    };
+  }
+}
+
+export function createValidationError(
+  message: string,
+  buildIssues: () => readonly ValidationIssue[],
+): ValidationError {
+  return new ValidationError(ExceptionConstructionKey, message, buildIssues);
+}
+
+function pathSegmentToJson(pathSegment: PathSegment): Readonly<Record<string, unknown>> {
+  if (pathSegment.category === 'accessProperty' && typeof pathSegment.propertyKey === 'symbol') {
+    return { ...pathSegment, propertyKey: String(pathSegment.propertyKey) };
+  } else if (pathSegment.category === 'mapValue' && !isJsonPrimitive(pathSegment.key)) {
+    return { ...pathSegment, key: reprUnknownValue(pathSegment.key) };
+  } else {
+    return pathSegment;
+  }
+}
+
+function isJsonPrimitive(value: unknown): boolean {
+  return value === null || typeof value === 'string' || typeof value === 'boolean' || Number.isFinite(value);
+}
@@ -2,13 +2,15 @@ import type { LookupPath } from './LookupPath.js';
 import type { ArrayRule } from '../types/validationRules.js';
 import { reprUnknownValue } from '../util.js';
 import { DEEP_LEVELS } from './deepnessTools.js';
-import { match, type CheckFnResponse } from './ruleMatcherTools.js';
+import { findUnmetSizeConstraint } from './shared.js';
+import { match, forNestedValue, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
 import type { InterpolatedValue } from '../types/validator.js';
 
 // The deep levels used in this module
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 export const availableDeepLevels = () => ({
   typeCheck: DEEP_LEVELS.typeCheck,
+  immediateInfoCheck: DEEP_LEVELS.immediateInfoCheck,
   recurseInwardsCheck: DEEP_LEVELS.recurseInwardsCheck,
 });
 
@@ -17,27 +19,46 @@ export function arrayCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
   if (!Array.isArray(target)) {
     return [{
-      message: `Expected ${lookupPath.asString()} to be an array but got ${reprUnknownValue(target)}.`,
+      message: { id: 'array_expected', params: { path: lookupPath.asString(), value: reprUnknownValue(target) } },
       lookupPath,
       deep: availableDeepLevels().typeCheck,
       progress: -1,
     }];
   }
 
+  const unmetSize = findUnmetSizeConstraint(rule.size, target.length);
+  if (unmetSize !== null) {
+    return [{
+      message: {
+        id: 'array_size_mismatch',
+        params: { path: lookupPath.asString(), min: unmetSize.min, max: unmetSize.max, actual: target.length },
+      },
+      lookupPath,
+      deep: availableDeepLevels().immediateInfoCheck,
+      progress: -1,
+    }];
+  }
+
+  const failures: Array<CheckFnResponse[number]> = [];
   for (const [i, element] of target.entries()) {
-    const elementMatchResponse = match(rule.content, element, interpolated, lookupPath.thenIndexArray(i));
+    const elementMatchResponse = match(rule.content, element, interpolated, lookupPath.thenIndexArray(i), forNestedValue(opts));
 
     if (elementMatchResponse.failed()) {
-      return [{
+      failures.push({
         matchResponse: elementMatchResponse,
         deep: availableDeepLevels().recurseInwardsCheck,
         progress: i,
-      }];
+      });
+
+      if (!opts.collectAll) {
+        break;
+      }
     }
   }
 
-  return [];
+  return failures;
 }
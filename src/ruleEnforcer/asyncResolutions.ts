@@ -0,0 +1,139 @@
+// Expectations created with validator.expectToAsync(), and lazy evaluators whose callbacks return promises,
+// can't be handled by the match algorithm directly, as it is synchronous.
+//
+// Instead, async matching happens in rounds. Each round runs the regular match algorithm from start to finish.
+// Whenever an async callback is found whose result isn't known yet, the callback gets started, and matching carries on
+// as if that check had passed. Once the round is over, every callback that was started gets awaited together
+// (which lets independent branches run concurrently), and another round gets run with those results available.
+// This repeats until a round finishes without starting anything new.
+// Every result (sync or async) gets reused by later rounds, so each round can only start callbacks that weren't started before.
+//
+// The final round is a normal, synchronous match where every async result is already known, so its response
+// (including how union errors get ranked and pruned) is exactly what a synchronous match would have produced.
+
+import type { Expectation, LazyEvaluator, Validator } from '../types/validator.js';
+import { packagePrivate } from '../packagePrivateAccess.js';
+
+type Settled<T> = { readonly status: 'pending' } | { readonly status: 'fulfilled', readonly value: T };
+
+export type LookupResult<T> = { readonly settled: true, readonly value: T } | { readonly settled: false };
+
+export class AsyncResolutions {
+  // Maps each callback to the results it produced for each target.
+  #results = new Map<(target: unknown) => unknown, Map<unknown, Settled<unknown>>>();
+  #pendingWork: Array<Promise<void>> = [];
+
+  /**
+   * Calls `callback(target)`, unless it was previously called with the same target,
+   * in which case its earlier result will be reused.
+   * A callback that returns a promise will be reported as unsettled, until that promise resolves.
+   *
+   * Synchronous results get reused as well. This matters for lazy evaluators, as they create a new validator
+   * each time they're called, which could otherwise cause the async callbacks within that validator
+   * to be seen as new callbacks every round.
+   */
+  lookup<T>(callback: (target: unknown) => T | Promise<T>, target: unknown): LookupResult<T> {
+    let resultsForCallback = this.#results.get(callback);
+    const previousResult = resultsForCallback?.get(target) as Settled<T> | undefined;
+    if (previousResult !== undefined) {
+      return previousResult.status === 'fulfilled'
+        ? { settled: true, value: previousResult.value }
+        : { settled: false };
+    }
+
+    if (resultsForCallback === undefined) {
+      resultsForCallback = new Map();
+      this.#results.set(callback, resultsForCallback);
+    }
+    const results = resultsForCallback;
+
+    const result = callback(target);
+    if (!(result instanceof Promise)) {
+      results.set(target, { status: 'fulfilled', value: result });
+      return { settled: true, value: result };
+    }
+
+    results.set(target, { status: 'pending' });
+    this.#pendingWork.push(result.then(value => {
+      results.set(target, { status: 'fulfilled', value });
+    }));
+
+    return { settled: false };
+  }
+
+  /** Returns true if callbacks were started since the last time pending work got settled. */
+  hasPendingWork(): boolean {
+    return this.#pendingWork.length > 0;
+  }
+
+  /** Waits for every callback that was started to finish. Rejects if any of them rejected. */
+  async settlePendingWork(): Promise<void> {
+    const pendingWork = this.#pendingWork;
+    this.#pendingWork = [];
+    await Promise.all(pendingWork);
+  }
+}
+
+/**
+ * Runs an expectation's test. Returns undefined (i.e. the expectation is satisfied)
+ * while the result of an async test is still unknown.
+ *
+ * asyncResolutions should be null when matching synchronously,
+ * in which case an error will be thrown if the expectation is asynchronous.
+ */
+export function testExpectation(
+  expectation: Expectation,
+  target: unknown,
+  asyncResolutions: AsyncResolutions | null,
+): string | undefined {
+  const { testExpectation } = expectation[packagePrivate];
+  if (asyncResolutions !== null) {
+    const result = asyncResolutions.lookup(testExpectation, target);
+    return result.settled ? result.value : undefined;
+  }
+
+  const result = testExpectation(target);
+  if (result instanceof Promise) {
+    throw createUnexpectedPromiseError(result, 'an asynchronous expectation (from validator.expectToAsync())');
+  }
+  return result;
+}
+
+/**
+ * Derives a validator from a lazy evaluator. Returns null while the result of an async lazy evaluator is still unknown.
+ *
+ * asyncResolutions should be null when matching synchronously,
+ * in which case an error will be thrown if the lazy evaluator is asynchronous.
+ */
+export function deriveLazyValidator(lazyEvaluator: LazyEvaluator, target: unknown, asyncResolutions: null): Validator;
+export function deriveLazyValidator(
+  lazyEvaluator: LazyEvaluator,
+  target: unknown,
+  asyncResolutions: AsyncResolutions | null,
+): Validator | null;
+export function deriveLazyValidator(
+  lazyEvaluator: LazyEvaluator,
+  target: unknown,
+  asyncResolutions: AsyncResolutions | null,
+): Validator | null {
+  const { deriveValidator } = lazyEvaluator[packagePrivate];
+  if (asyncResolutions !== null) {
+    const result = asyncResolutions.lookup(deriveValidator, target);
+    return result.settled ? result.value : null;
+  }
+
+  const result = deriveValidator(target);
+  if (result instanceof Promise) {
+    throw createUnexpectedPromiseError(result, 'a lazy evaluator (from validator.lazy()) that returned a promise');
+  }
+  return result;
+}
+
+function createUnexpectedPromiseError(promise: Promise<unknown>, whatWasFound: string): TypeError {
+  // The result isn't needed, but a rejection should not be reported as unhandled.
+  promise.catch(() => {});
+  return new TypeError(
+    `Found ${whatWasFound} while matching synchronously. ` +
+    'Use .assertMatchesAsync() or .matchesAsync() to match against validators that contain async logic.',
+  );
+}
@@ -6,11 +6,16 @@
 
 import { availableDeepLevels as availableDeepLevelsForSimple } from './simpleEnforcer.js';
 import { availableDeepLevels as availableDeepLevelsForPrimitiveLiteral } from './privitiveLiteralEnforcer.js';
+import { availableDeepLevels as availableDeepLevelsForNumericConstraint } from './numericConstraintEnforcer.js';
+import { availableDeepLevels as availableDeepLevelsForStringConstraint } from './stringConstraintEnforcer.js';
 import { availableDeepLevels as availableDeepLevelsForObject } from './propertyEnforcer.js';
 import { availableDeepLevels as availableDeepLevelsForArray } from './arrayEnforcer.js';
 import { availableDeepLevels as availableDeepLevelsForTuple } from './tupleEnforcer.js';
 import { availableDeepLevels as availableDeepLevelsForIterable } from './iterableEnforcer.js';
+import { availableDeepLevels as availableDeepLevelsForMap } from './mapEnforcer.js';
+import { availableDeepLevels as availableDeepLevelsForSet } from './setEnforcer.js';
 import { availableDeepLevels as availableDeepLevelsForInterpolation } from './interpolationEnforcer.js';
+import { availableDeepLevels as availableDeepLevelsForTemplateLiteral } from './templateLiteralEnforcer.js';
 import { UnreachableCaseError } from '../util.js';
 import type { Rule } from '../types/validationRules';
 
@@ -59,6 +64,10 @@ export function getMaxDeepnessLevelOf(rule: Rule): DeepRange {
     return maxDeepRange(Object.values(availableDeepLevelsForSimple()));
   } else if (rule.category === 'primitiveLiteral') {
     return maxDeepRange(Object.values(availableDeepLevelsForPrimitiveLiteral()));
+  } else if (rule.category === 'numericConstraint') {
+    return maxDeepRange(Object.values(availableDeepLevelsForNumericConstraint()));
+  } else if (rule.category === 'stringConstraint') {
+    return maxDeepRange(Object.values(availableDeepLevelsForStringConstraint()));
   } else if (rule.category === 'noop') {
     return DEEP_LEVELS.min;
   } else if (rule.category === 'property') {
@@ -69,6 +78,10 @@ export function getMaxDeepnessLevelOf(rule: Rule): DeepRange {
     return maxDeepRange(Object.values(availableDeepLevelsForTuple()));
   } else if (rule.category === 'iterable') {
     return maxDeepRange(Object.values(availableDeepLevelsForIterable()));
+  } else if (rule.category === 'map') {
+    return maxDeepRange(Object.values(availableDeepLevelsForMap()));
+  } else if (rule.category === 'set') {
+    return maxDeepRange(Object.values(availableDeepLevelsForSet()));
   } else if (rule.category === 'union') {
     // TODO: I should do better handling of the union type
     return DEEP_LEVELS.recurseInwardsCheck;
@@ -77,6 +90,8 @@ export function getMaxDeepnessLevelOf(rule: Rule): DeepRange {
     return maxDeepRange(rule.variants.map(variant => getMaxDeepnessLevelOf(variant)));
   } else if (rule.category === 'interpolation') {
     return maxDeepRange(Object.values(availableDeepLevelsForInterpolation()));
+  } else if (rule.category === 'templateLiteral') {
+    return maxDeepRange(Object.values(availableDeepLevelsForTemplateLiteral()));
   } else {
     throw new UnreachableCaseError(rule);
   }
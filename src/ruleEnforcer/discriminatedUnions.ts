@@ -0,0 +1,93 @@
+// Tools for recognizing discriminated unions, i.e. unions of object patterns that all share a property
+// (often named "type") whose literal value is different for each variant, e.g. `{ type: 'a', ... } | { type: 'b', ... }`.
+// When the value being matched has a discriminant value belonging to one of the variants,
+// none of the other variants could possibly match, so only that one variant needs to be checked.
+
+import type { PropertyRule, Rule, UnionRule } from '../types/validationRules.js';
+import { FrozenMap, throwIndexOutOfBounds } from '../util.js';
+
+export interface UnionDispatchTable {
+  // The property used to tell the variants apart.
+  readonly discriminant: string
+  // Maps each of the discriminant's possible values to the index of the variant it belongs to.
+  readonly variantIndices: ReadonlyMap<unknown, number>
+}
+
+// Rules are frozen, so each union only needs to be inspected once.
+// Unions that aren't discriminated unions are mapped to null.
+const dispatchTables = new WeakMap<UnionRule, UnionDispatchTable | null>();
+
+/**
+ * Returns the dispatch table for the provided union rule,
+ * or null if the union isn't a discriminated union.
+ * The table gets built the first time it's requested (which normally happens while the rule is being frozen).
+ */
+export function lookupUnionDispatchTable(rule: UnionRule): UnionDispatchTable | null {
+  let dispatchTable = dispatchTables.get(rule);
+  if (dispatchTable === undefined) {
+    dispatchTable = buildUnionDispatchTable(rule);
+    dispatchTables.set(rule, dispatchTable);
+  }
+
+  return dispatchTable;
+}
+
+/**
+ * Returns the index of the only variant the target could match,
+ * or null if the target's discriminant doesn't belong to any variant.
+ * The property is looked up the same way the property enforcer would look it up.
+ * If the enforcer would treat it as missing (e.g. because it's inherited and only own properties are allowed),
+ * then every variant will fail to match anyways, so it doesn't matter which one gets picked.
+ */
+export function selectUnionVariant(dispatchTable: UnionDispatchTable, target: unknown): number | null {
+  if (target === undefined || target === null) {
+    return null;
+  }
+
+  const targetObj = Object(target) as Record<string, unknown>;
+  if (!(dispatchTable.discriminant in targetObj)) {
+    return null;
+  }
+
+  return dispatchTable.variantIndices.get(targetObj[dispatchTable.discriminant]) ?? null;
+}
+
+function buildUnionDispatchTable(rule: UnionRule): UnionDispatchTable | null {
+  const variants = rule.variants;
+  if (variants.length < 2 || !variants.every(isPropertyRule)) {
+    return null;
+  }
+
+  const firstVariant = variants[0] ?? throwIndexOutOfBounds();
+  const candidates: UnionDispatchTable[] = [];
+  for (const key of firstVariant.content.keys()) {
+    const variantIndices = new Map<unknown, number>();
+    const isCandidate = variants.every((variant, i) => {
+      const propertyRuleInfo = variant.content.get(key);
+      if (
+        propertyRuleInfo === undefined ||
+        propertyRuleInfo.optional ||
+        propertyRuleInfo.rule.category !== 'primitiveLiteral' ||
+        !(['string', 'number'] as string[]).includes(typeof propertyRuleInfo.rule.value) ||
+        // Each variant must have a unique value for it to be a candidate.
+        variantIndices.has(propertyRuleInfo.rule.value)
+      ) {
+        return false;
+      }
+
+      variantIndices.set(propertyRuleInfo.rule.value, i);
+      return true;
+    });
+
+    if (isCandidate) {
+      candidates.push(Object.freeze({ discriminant: key, variantIndices: new FrozenMap([...variantIndices]) }));
+    }
+  }
+
+  // When multiple properties could be the discriminant, (e.g. `{ x: 2, y: 2 } | { x: 3, y: 3 }`),
+  // it's not clear which one the user is relying on, so the union won't be treated as a discriminated union.
+  // This follows the same rules the error message builder uses to find a variant-identifying property.
+  return candidates.length === 1 ? candidates[0] ?? throwIndexOutOfBounds() : null;
+}
+
+const isPropertyRule = (rule: Rule): rule is PropertyRule => rule.category === 'property';
@@ -23,43 +23,54 @@ that's set to unique strings (or in some cases, numbers). An attempt is made to
 
 import type { LookupPath, PathSegment } from './LookupPath.js';
 import type { Rule } from '../types/validationRules.js';
-import { assert, group, indentMultilineString, throwIndexOutOfBounds } from '../util.js';
+import { assert, group, reprUnknownValue, throwIndexOutOfBounds } from '../util.js';
 import { calcCheckResponseDeepness, type CheckFnResponse, type MatchResponse } from './ruleMatcherTools.js';
 import { comparePrimitiveLiterals } from './privitiveLiteralEnforcer.js';
-import { isExpectation } from '../types/validator.js';
+import { createMessageFormatter } from './messageCatalog.js';
+import { stringifyRule } from '../ruleStringifier.js';
+import { isIdentifier } from '../ruleParser/tokenStream.js';
+import { isExpectation, type ValidationIssue } from '../types/validator.js';
+import type { LocalizeOpts, ValidationMessage } from '../types/messageCatalog.js';
 
-export interface BuildValueMatchErrorOpts {
+type FormatMessage = (message: ValidationMessage) => string;
+
+export interface BuildValueMatchErrorOpts extends LocalizeOpts {
   readonly errorPrefix?: string | undefined
 }
 
 export function buildValueMatchError(
   matchResponse: MatchResponse,
-  { errorPrefix: rawErrorPrefix }: BuildValueMatchErrorOpts,
+  { errorPrefix: rawErrorPrefix, ...localizeOpts }: BuildValueMatchErrorOpts,
 ): string {
+  const formatMessage = createMessageFormatter(localizeOpts);
   const prefix = rawErrorPrefix !== undefined ? rawErrorPrefix + ' ' : '';
-  const message = buildUnionError(gatherErrorMessagesFor([matchResponse]).map(({ message }) => message));
+  const message = buildUnionError(
+    gatherErrorMessagesFor([matchResponse]).map(({ message }) => formatMessage(message)),
+    formatMessage,
+  );
   return prefix + message;
 }
 
-export interface BuildArgumentMatchErrorOpts {
+export interface BuildArgumentMatchErrorOpts extends LocalizeOpts {
   readonly whichFn: string
 }
 
 export function buildArgumentMatchError(
   matchResponse: MatchResponse,
   rule: Rule,
-  { whichFn }: BuildArgumentMatchErrorOpts,
+  { whichFn, ...localizeOpts }: BuildArgumentMatchErrorOpts,
 ): string {
-  const genericPrefix = `Received invalid arguments for ${whichFn}: `;
+  const formatMessage = createMessageFormatter(localizeOpts);
   const errorInfos = gatherErrorMessagesFor([matchResponse]);
-  const message = buildUnionError(errorInfos.map(({ message }) => message));
+  const message = buildUnionError(errorInfos.map(({ message }) => formatMessage(message)), formatMessage);
+  const genericError = formatMessage({ id: 'invalid_arguments', params: { functionName: whichFn, message } });
 
-  if (rule.category !== 'tuple') return genericPrefix + message;
-  if (rule.entryLabels === null) return genericPrefix + message;
+  if (rule.category !== 'tuple') return genericError;
+  if (rule.entryLabels === null) return genericError;
 
   const pathSegments = errorInfos[0]?.lookupPath.pathSegments ?? throwIndexOutOfBounds();
   const firstPathSegment = pathSegments[0];
-  if (firstPathSegment === undefined) return genericPrefix + message;
+  if (firstPathSegment === undefined) return genericError;
 
   const getLabelIndex = (pathSegment: PathSegment): number | null => {
     assert(rule.entryLabels !== null);
@@ -74,7 +85,7 @@ export function buildArgumentMatchError(
 
   const labelIndex = getLabelIndex(firstPathSegment);
   if (labelIndex === null) {
-    return genericPrefix + message;
+    return genericError;
   }
 
   for (const errorInfo of errorInfos.slice(1)) {
@@ -89,7 +100,7 @@ export function buildArgumentMatchError(
       // rule must be a tuple, and tuples will only give an error for a single entry at once.
       // But, if that algorithm were to ever change, we have this bit of logic here to fall back on,
       // to make sure this error-message-building stuff still works fine.
-      return genericPrefix + message;
+      return genericError;
     }
   }
 
@@ -99,15 +110,86 @@ export function buildArgumentMatchError(
 
   const isRestParam = rule.rest !== null && labelIndex >= rule.entryLabels.length - 1;
 
-  return (
-    `Received invalid "${label}" argument${isRestParam ? 's' : ''} for ${whichFn}: ` +
-    message
-  );
+  return formatMessage({
+    id: 'invalid_argument',
+    params: { functionName: whichFn, label, isRest: isRestParam, message },
+  });
+}
+
+/**
+ * Converts a failed match response into a list of issues.
+ * Each failing leaf of the match response becomes its own issue, except for failing unions,
+ * which get condensed into a single issue, the same way they would be when building an error message.
+ */
+export function buildValueMatchIssues(
+  matchResponse: MatchResponse,
+  localizeOpts: LocalizeOpts = {},
+): readonly ValidationIssue[] {
+  const formatMessage = createMessageFormatter(localizeOpts);
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  const addIssue = (issue: ValidationIssue): void => {
+    // The same issue can be reported multiple times, e.g. through an intersection
+    // of two rules that both check the same property.
+    const issueKey = JSON.stringify([issue.path, issue.message]);
+    if (!seen.has(issueKey)) {
+      seen.add(issueKey);
+      issues.push(Object.freeze(issue));
+    }
+  };
+
+  const collectIssuesFrom = (matchResponse: MatchResponse): void => {
+    if (matchResponse.rule.category === 'union' && matchResponse.failed()) {
+      const errorInfos = gatherErrorMessagesFor([matchResponse]);
+      const allAtSamePath = errorInfos.every(info => info.lookupPath.asString() === errorInfos[0]?.lookupPath.asString());
+      const firstErrorInfo = errorInfos[0] ?? throwIndexOutOfBounds();
+      const lookupPath = allAtSamePath ? firstErrorInfo.lookupPath : matchResponse.lookupPath;
+      const variantErrorMessages = errorInfos.map(({ message }) => formatMessage(message));
+
+      addIssue({
+        // If every message turned out to be the same, buildUnionError() will only show that one message.
+        code: new Set(variantErrorMessages).size === 1 ? firstErrorInfo.message.id : 'union_mismatch',
+        path: lookupPath.asString(),
+        pathSegments: Object.freeze([...lookupPath.pathSegments]),
+        message: buildUnionError(variantErrorMessages, formatMessage),
+        // When every error is at the same (potentially deeper) path,
+        // the summaries describe what the value at that path failed to match.
+        expected: allAtSamePath
+          ? unique(errorInfos.map(({ matchResponse }) => describeRuleOf(matchResponse))).join(' | ')
+          : describeRuleOf(matchResponse),
+        received: summarizeReceivedValue(allAtSamePath ? firstErrorInfo.matchResponse.target : matchResponse.target),
+        rule: matchResponse.rule,
+      });
+      return;
+    }
+
+    for (const failure of matchResponse.failures) {
+      if ('message' in failure) {
+        addIssue({
+          code: failure.message.id,
+          path: failure.lookupPath.asString(),
+          pathSegments: Object.freeze([...failure.lookupPath.pathSegments]),
+          message: formatMessage(failure.message),
+          expected: describeRuleOf(matchResponse),
+          received: summarizeReceivedValue(matchResponse.target),
+          rule: matchResponse.rule,
+        });
+      } else {
+        collectIssuesFrom(failure.matchResponse);
+      }
+    }
+  };
+
+  collectIssuesFrom(matchResponse);
+  assert(issues.length > 0, 'Failed to find any issues in a failed match response.');
+  return Object.freeze(issues);
 }
 
 interface VariantErrorInfo {
-  readonly message: string
+  readonly message: ValidationMessage
   readonly lookupPath: LookupPath
+  // The response the message came from.
+  readonly matchResponse: MatchResponse
   readonly isExpectationBeingInterpolated: boolean
 }
 
@@ -164,6 +246,7 @@ function gatherErrorMessagesFor_(
         errors.push({
           message: failure.message,
           lookupPath: failure.lookupPath,
+          matchResponse: originResult,
           isExpectationBeingInterpolated: (
             originResult.rule.category === 'interpolation' &&
             isExpectation(originResult.interpolated[originResult.rule.interpolationIndex])
@@ -284,25 +367,59 @@ function filterByVariantIdentifyingProperty(failureInfos: readonly FailureInfo[]
  * Turns a list of errors into a single union-style error.
  * Duplicate messages are automatically filtered out.
  */
-export function buildUnionError(variantErrorMessages_: readonly string[]): string {
+export function buildUnionError(variantErrorMessages_: readonly string[], formatMessage: FormatMessage): string {
   const variantErrorMessages = unique(variantErrorMessages_);
   if (variantErrorMessages.length === 1) {
     assert(variantErrorMessages[0] !== undefined);
     return variantErrorMessages[0];
   }
 
-  return (
-    'One of the following issues needs to be resolved:\n' +
-    variantErrorMessages
-      .map(message => `  * ${indentMultilineString(message, 4).slice(4)}`)
-      .join('\n')
-  );
+  return formatMessage({ id: 'union_mismatch', params: { issues: variantErrorMessages } });
 }
 
 // ------------------------------
 //   UTILITY FUNCTIONS
 // ------------------------------
 
+/** Describes the rule a value was being matched against, using validator syntax. */
+function describeRuleOf(matchResponse: MatchResponse): string {
+  return stringifyRule(matchResponse.rule, matchResponse.interpolated);
+}
+
+// How many property keys summarizeReceivedValue() will list before cutting the list short.
+const MAX_SUMMARIZED_KEYS = 5;
+
+/**
+ * Describes a value for the `received` field of an issue.
+ * Objects are described by their constructor's name, along with their keys or their size,
+ * e.g. `Object { name, age }`, `Array(3)`, or `Map(2)`. Anything else is described the same way error messages do.
+ */
+function summarizeReceivedValue(value: unknown): string {
+  if (typeof value !== 'object' || value === null) {
+    return reprUnknownValue(value);
+  }
+
+  const constructorName = Object.getPrototypeOf(value)?.constructor?.name;
+  const typeName = typeof constructorName === 'string' && constructorName !== '' ? constructorName : 'Object';
+  if (Array.isArray(value)) {
+    return `${typeName}(${value.length})`;
+  } else if (value instanceof Map || value instanceof Set) {
+    return `${typeName}(${value.size})`;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 0) {
+    return `${typeName} {}`;
+  }
+  const listedKeys = keys
+    .slice(0, MAX_SUMMARIZED_KEYS)
+    .map(key => isIdentifier(key) ? key : JSON.stringify(key));
+  if (keys.length > MAX_SUMMARIZED_KEYS) {
+    listedKeys.push('…');
+  }
+  return `${typeName} { ${listedKeys.join(', ')} }`;
+}
+
 function isObject(value: unknown): value is object {
   return value === Object(value);
 }
@@ -2,13 +2,32 @@ import { LookupPath } from './LookupPath.js';
 import type { Rule } from '../types/validationRules.js';
 import {
   buildValueMatchError,
+  buildValueMatchIssues,
   buildArgumentMatchError,
   type BuildValueMatchErrorOpts,
   type BuildArgumentMatchErrorOpts,
 } from './errorMessageBuilder.js';
-import { match } from './ruleMatcherTools.js';
+import { match, defaultMatchOpts } from './ruleMatcherTools.js';
+import { AsyncResolutions } from './asyncResolutions.js';
 import { asOrdinal } from '../util.js';
-import type { InterpolatedValue } from '../types/validator.js';
+import type { InterpolatedValue, ValidationIssue } from '../types/validator.js';
+import type { LocalizeOpts } from '../types/messageCatalog.js';
+
+type MatchResult = (
+  { success: true }
+  // The issues are only built when requested, as they're often not needed.
+  | { success: false, message: string, buildIssues: () => readonly ValidationIssue[] }
+);
+
+// An upper bound on how many rounds an async match may take (see asyncResolutions.ts).
+// Each round needs to start at least one new async callback, so only validators with extremely long chains
+// of dependent async logic should ever come close to this.
+const MAX_ASYNC_MATCH_ROUNDS = 1000;
+
+export interface MatchValueOpts {
+  // See the MatchOpts type for details.
+  readonly ownPropertiesOnly?: boolean | undefined
+}
 
 export function matchValue(
   rule: Rule,
@@ -16,24 +35,88 @@ export function matchValue(
   interpolated: readonly InterpolatedValue[],
   baseLookupPath?: string | undefined,
   errorFormattingOpts: BuildValueMatchErrorOpts = {},
-): { success: true } | { success: false, message: string } {
-  const matchResponse = match(rule, target, interpolated, new LookupPath(baseLookupPath));
+  { ownPropertiesOnly = false }: MatchValueOpts = {},
+): MatchResult {
+  const opts = ownPropertiesOnly ? { ...defaultMatchOpts, ownPropertiesOnly } : defaultMatchOpts;
+  const matchResponse = match(rule, target, interpolated, new LookupPath(baseLookupPath), opts);
   if (matchResponse.failed()) {
     return {
       success: false,
       message: buildValueMatchError(matchResponse, errorFormattingOpts),
+      buildIssues: () => buildValueMatchIssues(matchResponse, errorFormattingOpts),
     };
   } else {
     return { success: true };
   }
 }
 
+/**
+ * Same as matchValue(), except async expectations and async lazy evaluators will be awaited.
+ * (See asyncResolutions.ts for how this works).
+ */
+export async function matchValueAsync(
+  rule: Rule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  baseLookupPath?: string | undefined,
+  errorFormattingOpts: BuildValueMatchErrorOpts = {},
+  { ownPropertiesOnly = false }: MatchValueOpts = {},
+): Promise<MatchResult> {
+  const opts = { ...defaultMatchOpts, ownPropertiesOnly, asyncResolutions: new AsyncResolutions() };
+  let matchResponse = match(rule, target, interpolated, new LookupPath(baseLookupPath), opts);
+  for (let round = 1; opts.asyncResolutions.hasPendingWork(); round++) {
+    if (round >= MAX_ASYNC_MATCH_ROUNDS) {
+      throw new Error(
+        `Async matching did not settle after ${MAX_ASYNC_MATCH_ROUNDS} rounds. ` +
+        'This can happen when async lazy evaluators keep deriving validators with new async logic.',
+      );
+    }
+    await opts.asyncResolutions.settlePendingWork();
+    matchResponse = match(rule, target, interpolated, new LookupPath(baseLookupPath), opts);
+  }
+
+  if (matchResponse.failed()) {
+    return {
+      success: false,
+      message: buildValueMatchError(matchResponse, errorFormattingOpts),
+      buildIssues: () => buildValueMatchIssues(matchResponse, errorFormattingOpts),
+    };
+  } else {
+    return { success: true };
+  }
+}
+
+export interface ValidateValueOpts extends LocalizeOpts {
+  readonly collectAll: boolean
+  readonly ownPropertiesOnly: boolean
+}
+
+/**
+ * Similar to matchValue(), but returns a list of issues instead of a single error message.
+ * An empty list means the value matched.
+ */
+export function validateValue(
+  rule: Rule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  baseLookupPath: string | undefined,
+  { collectAll, ownPropertiesOnly, ...localizeOpts }: ValidateValueOpts,
+): readonly ValidationIssue[] {
+  const opts = { ...defaultMatchOpts, collectAll, ownPropertiesOnly };
+  const matchResponse = match(rule, target, interpolated, new LookupPath(baseLookupPath), opts);
+  if (matchResponse.failed()) {
+    return buildValueMatchIssues(matchResponse, localizeOpts);
+  } else {
+    return Object.freeze([]);
+  }
+}
+
 export function matchArgument(
   rule: Rule,
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   errorFormattingOpts: BuildArgumentMatchErrorOpts,
-): { success: true } | { success: false, message: string } {
+): MatchResult {
   const lookupPath = new LookupPath('<argumentList>', {
     customStringifier({ rootText, pathSegments }): string {
       const firstPathSegment = pathSegments[0];
@@ -48,11 +131,12 @@ export function matchArgument(
     },
   });
 
-  const matchResponse = match(rule, target, interpolated, lookupPath);
+  const matchResponse = match(rule, target, interpolated, lookupPath, defaultMatchOpts);
   if (matchResponse.failed()) {
     return {
       success: false,
       message: buildArgumentMatchError(matchResponse, rule, errorFormattingOpts),
+      buildIssues: () => buildValueMatchIssues(matchResponse, errorFormattingOpts),
     };
   } else {
     return { success: true };
@@ -1,10 +1,12 @@
 import type { InterpolationRule } from '../types/validationRules.js';
-import { isExpectation, isLazyEvaluator, isValidator, type InterpolatedValue } from '../types/validator.js';
+import { isExpectation, isLazyEvaluator, isTransformer, isValidator, type InterpolatedValue } from '../types/validator.js';
 import { DEEP_LEVELS } from './deepnessTools.js';
 import { isBrandOf, isDirectInstanceOf, reprUnknownValue, UnreachableCaseError } from '../util.js';
 import { packagePrivate } from '../packagePrivateAccess.js';
-import { match, type CheckFnResponse } from './ruleMatcherTools.js';
+import { match, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
 import type { LookupPath } from './LookupPath.js';
+import { deriveLazyValidator, testExpectation } from './asyncResolutions.js';
+import { resolveInterpolatedValue } from '../genericInstantiator.js';
 
 // The deep levels used in this module
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -18,8 +20,9 @@ export function interpolationCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
-  const interpolatedValue = interpolated[rule.interpolationIndex];
+  const interpolatedValue = resolveInterpolatedValue(rule, interpolated);
 
   if (isValidator(interpolatedValue)) {
     const validatorMatchResponse = match(
@@ -27,21 +30,55 @@ export function interpolationCheck(
       target,
       interpolatedValue.ruleset.interpolated,
       lookupPath,
+      opts,
     );
 
-    if (validatorMatchResponse.failed()) {
+    const customMessage = interpolatedValue[packagePrivate].customMessage;
+    if (validatorMatchResponse.failed() && customMessage !== undefined) {
+      // The custom message replaces whatever failures were found.
+      return [{
+        message: {
+          id: 'custom_message',
+          params: { path: lookupPath.asString(), value: reprUnknownValue(target), message: customMessage },
+        },
+        lookupPath,
+        deep: availableDeepLevels().any,
+      }];
+    } else if (validatorMatchResponse.failed()) {
       return [{
         matchResponse: validatorMatchResponse,
         deep: 'INHERIT' as const,
       }];
     }
   } else if (isLazyEvaluator(interpolatedValue)) {
-    const validator = interpolatedValue[packagePrivate].deriveValidator(target);
+    const validator = deriveLazyValidator(interpolatedValue, target, opts.asyncResolutions);
+    if (validator === null) {
+      // The validator is still being derived asynchronously.
+      return [];
+    }
+    const validatorMatchResponse = match(
+      validator.ruleset.rootRule,
+      target,
+      validator.ruleset.interpolated,
+      lookupPath,
+      opts,
+    );
+
+    if (validatorMatchResponse.failed()) {
+      return [{
+        matchResponse: validatorMatchResponse,
+        deep: 'INHERIT' as const,
+      }];
+    }
+  } else if (isTransformer(interpolatedValue)) {
+    // Transformers only have an effect when parsing - when matching, they behave like their validator.
+    const validator = interpolatedValue[packagePrivate].validator;
     const validatorMatchResponse = match(
       validator.ruleset.rootRule,
       target,
       validator.ruleset.interpolated,
       lookupPath,
+      opts,
     );
 
     if (validatorMatchResponse.failed()) {
@@ -51,10 +88,13 @@ export function interpolationCheck(
       }];
     }
   } else if (isExpectation(interpolatedValue)) {
-    const maybeErrorMessage = interpolatedValue[packagePrivate].testExpectation(target);
+    const maybeErrorMessage = testExpectation(interpolatedValue, target, opts.asyncResolutions);
     if (maybeErrorMessage !== undefined) {
       return [{
-        message: `Expected ${lookupPath.asString()}, which was ${reprUnknownValue(target)}, to ${maybeErrorMessage}`,
+        message: {
+          id: 'expectation_failed',
+          params: { path: lookupPath.asString(), value: reprUnknownValue(target), expectation: maybeErrorMessage },
+        },
         lookupPath,
         deep: availableDeepLevels().any,
       }];
@@ -62,10 +102,14 @@ export function interpolationCheck(
   } else if (typeof interpolatedValue === 'function') {
     if (!isInstanceOf(target, interpolatedValue)) {
       return [{
-        message: (
-          `Expected ${lookupPath.asString()}, which was ${reprUnknownValue(target)}, ` +
-          `to be an instance of ${reprUnknownValue(interpolatedValue)}.`
-        ),
+        message: {
+          id: 'instance_expected',
+          params: {
+            path: lookupPath.asString(),
+            value: reprUnknownValue(target),
+            className: reprUnknownValue(interpolatedValue),
+          },
+        },
         lookupPath,
         deep: availableDeepLevels().nonRecursiveCheck,
       }];
@@ -73,20 +117,20 @@ export function interpolationCheck(
   } else if (isDirectInstanceOf(interpolatedValue, RegExp)) {
     if (typeof target !== 'string') {
       return [{
-        message: (
-          `Expected ${lookupPath.asString()}, which was ${reprUnknownValue(target)}, ` +
-          `to be a string that matches the regular expression ${interpolatedValue.toString()}`
-        ),
+        message: {
+          id: 'regexp_string_expected',
+          params: { path: lookupPath.asString(), value: reprUnknownValue(target), pattern: interpolatedValue.toString() },
+        },
         lookupPath,
         deep: availableDeepLevels().nonRecursiveCheck,
       }];
     }
     if (target.match(interpolatedValue) === null) {
       return [{
-        message: (
-          `Expected ${lookupPath.asString()}, which was ${reprUnknownValue(target)}, ` +
-          `to match the regular expression ${interpolatedValue.toString()}`
-        ),
+        message: {
+          id: 'regexp_mismatch',
+          params: { path: lookupPath.asString(), value: reprUnknownValue(target), pattern: interpolatedValue.toString() },
+        },
         lookupPath,
         deep: availableDeepLevels().nonRecursiveCheck,
       }];
@@ -94,10 +138,14 @@ export function interpolationCheck(
   } else if (!isObject(interpolatedValue)) {
     if (!sameValueZero(target, interpolatedValue)) {
       return [{
-        message: (
-          `Expected ${lookupPath.asString()} to be the value ${reprUnknownValue(interpolatedValue)} ` +
-          `but got ${reprUnknownValue(target)}.`
-        ),
+        message: {
+          id: 'value_mismatch',
+          params: {
+            path: lookupPath.asString(),
+            expected: reprUnknownValue(interpolatedValue),
+            actual: reprUnknownValue(target),
+          },
+        },
         lookupPath,
         deep: availableDeepLevels().nonRecursiveCheck,
       }];
@@ -113,7 +161,7 @@ export function interpolationCheck(
 //   UTILITY FUNCTIONS
 // ------------------------------
 
-const isObject = (value: unknown): value is object => Object(value) === value;
+export const isObject = (value: unknown): value is object => Object(value) === value;
 
 /**
  * Checks if `value` is an instance of `parentClass`, or an instance of a subclass of `parentClass`.
@@ -121,7 +169,7 @@ const isObject = (value: unknown): value is object => Object(value) === value;
  * Brand checking is performed if the class is a built-in class.
  */
 // eslint-disable-next-line @typescript-eslint/ban-types
-function isInstanceOf(value: unknown, parentClass: Function): boolean {
+export function isInstanceOf(value: unknown, parentClass: Function): boolean {
   const targetPrototype: object | null = parentClass.prototype;
   // The `prototype` property is set to `null` on arrow functions.
   if (targetPrototype === null) {
@@ -142,6 +190,6 @@ function isInstanceOf(value: unknown, parentClass: Function): boolean {
 }
 
 /** Compares two values using JavaScript's SameValueZero algorithm. */
-const sameValueZero = (x: unknown, y: unknown): boolean => (
+export const sameValueZero = (x: unknown, y: unknown): boolean => (
   x === y || (Number.isNaN(x) && Number.isNaN(y))
 );
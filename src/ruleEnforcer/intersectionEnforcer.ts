@@ -1,31 +1,50 @@
 import type { LookupPath } from './LookupPath.js';
 import type { IntersectionRule } from '../types/validationRules.js';
 import { getMaxDeepnessLevelOf, maxDeepRange, DEEP_LEVELS, type DeepRange } from './deepnessTools.js';
-import { calcCheckResponseDeepness, match, type CheckFnResponse } from './ruleMatcherTools.js';
+import { calcCheckResponseDeepness, match, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
 import type { InterpolatedValue } from '../types/validator.js';
+import { collectKeysFromOtherVariants } from './propertyEnforcer.js';
+import { throwIndexOutOfBounds } from '../util.js';
 
 export function intersectionCheck(
   rule: IntersectionRule,
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
+  // Exact property rules found in this intersection need to permit keys from the other variants.
+  const keysFromOtherVariants = collectKeysFromOtherVariants(rule, interpolated);
+
+  const failures: Array<CheckFnResponse[number]> = [];
   let currentMaxDeepnessLevel: DeepRange = DEEP_LEVELS.min;
-  for (const requirement of rule.variants) {
-    const requirementMatchResponse = match(requirement, target, interpolated, lookupPath);
+  for (const [i, requirement] of rule.variants.entries()) {
+    const keysForVariant = keysFromOtherVariants[i] ?? throwIndexOutOfBounds();
+    let variantOpts = opts;
+    if (keysForVariant.size > 0) {
+      const intersectedKeys = opts.intersectedKeys.size === 0
+        ? keysForVariant
+        : new Set([...opts.intersectedKeys, ...keysForVariant]);
+      variantOpts = { ...opts, intersectedKeys };
+    }
+    const requirementMatchResponse = match(requirement, target, interpolated, lookupPath, variantOpts);
 
     if (requirementMatchResponse.failed()) {
-      return [{
+      failures.push({
         matchResponse: requirementMatchResponse,
         deep: maxDeepRange([
           currentMaxDeepnessLevel,
           ...requirementMatchResponse.failures.flatMap(resp => calcCheckResponseDeepness(resp)),
         ]),
-      }];
+      });
+
+      if (!opts.collectAll) {
+        break;
+      }
     }
 
     currentMaxDeepnessLevel = maxDeepRange([currentMaxDeepnessLevel, getMaxDeepnessLevelOf(requirement)]);
   }
 
-  return [];
+  return failures;
 }
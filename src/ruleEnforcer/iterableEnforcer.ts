@@ -1,8 +1,10 @@
 import type { LookupPath } from './LookupPath.js';
 import { _validationRulesInternals, type IterableRule } from '../types/validationRules.js';
 import { DEEP_LEVELS } from './deepnessTools.js';
-import { match, type CheckFnResponse } from './ruleMatcherTools.js';
+import { findUnmetSizeConstraint } from './shared.js';
+import { match, forNestedValue, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
 import type { InterpolatedValue } from '../types/validator.js';
+import type { ValidationMessage } from '../types/messageCatalog.js';
 
 // The deep levels used in this module
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -17,20 +19,18 @@ export function iterableCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
   if (!isIterable(target)) {
     return [{
-      message: (
-        `Expected ${lookupPath.asString()} to be an iterable, ` +
-        'i.e. you should be able to use this value in a for-of loop.'
-      ),
+      message: { id: 'iterable_expected', params: { path: lookupPath.asString() } },
       lookupPath,
       deep: availableDeepLevels().typeCheck,
       progress: -2,
     }];
   }
 
-  const iterableTypeMatchResponse = match(rule.iterableType, target, interpolated, lookupPath);
+  const iterableTypeMatchResponse = match(rule.iterableType, target, interpolated, lookupPath, opts);
 
   if (iterableTypeMatchResponse.failed()) {
     return [{
@@ -40,29 +40,90 @@ export function iterableCheck(
     }];
   }
 
+  const { entries, sizeFailureMessage } = collectEntriesWithinSize(rule, target, lookupPath);
+  if (sizeFailureMessage !== undefined) {
+    return [{
+      message: sizeFailureMessage,
+      lookupPath,
+      deep: availableDeepLevels().immediateInfoCheck,
+      progress: 0,
+    }];
+  }
+
+  const failures: Array<CheckFnResponse[number]> = [];
   let i = 0;
-  for (const entry of target) {
+  for (const entry of entries) {
     const entryPath = lookupPath.thenConvertToArray().thenIndexArray(i);
-    const entryMatchResponse = match(rule.entryType, entry, interpolated, entryPath);
+    const entryMatchResponse = match(rule.entryType, entry, interpolated, entryPath, forNestedValue(opts));
 
     if (entryMatchResponse.failed()) {
-      return [{
+      failures.push({
         matchResponse: entryMatchResponse,
         deep: availableDeepLevels().recurseInwardsCheck,
         progress: i,
-      }];
+      });
+
+      if (!opts.collectAll) {
+        break;
+      }
     }
 
     ++i;
   }
 
-  return [];
+  return failures;
+}
+
+/**
+ * When the rule has a size constraint, the entries get collected up front, so the size can be checked before
+ * descending into any entry. Collection stops as soon as the maximum size is exceeded, so oversized iterables
+ * (including infinite ones) fail fast. The entries are collected instead of being iterated over twice,
+ * as some iterables can only be iterated over once.
+ */
+function collectEntriesWithinSize(
+  rule: IterableRule,
+  target: Iterable<unknown>,
+  lookupPath: LookupPath,
+): { entries: Iterable<unknown>, sizeFailureMessage: ValidationMessage | undefined } {
+  const size = rule.size ?? null;
+  if (size === null) {
+    return { entries: target, sizeFailureMessage: undefined };
+  }
+
+  const entries: unknown[] = [];
+  let exceededMaxSize = false;
+  for (const entry of target) {
+    entries.push(entry);
+    if (size.max !== null && entries.length > size.max) {
+      exceededMaxSize = true;
+      break;
+    }
+  }
+
+  if (findUnmetSizeConstraint(size, entries.length) === null) {
+    return { entries, sizeFailureMessage: undefined };
+  }
+
+  return {
+    entries,
+    sizeFailureMessage: {
+      id: 'size_mismatch',
+      params: {
+        path: lookupPath.asString(),
+        min: size.min,
+        max: size.max,
+        actual: entries.length,
+        unit: 'entry',
+        exceededMax: exceededMaxSize,
+      },
+    },
+  };
 }
 
 // ------------------------------
 //   UTILITY FUNCTIONS
 // ------------------------------
 
-const isIterable = (value: unknown): value is { [Symbol.iterator]: () => Iterator<unknown> } => (
+export const isIterable = (value: unknown): value is { [Symbol.iterator]: () => Iterator<unknown> } => (
   typeof Object(value)[Symbol.iterator] === 'function'
 );
@@ -0,0 +1,92 @@
+import type { LookupPath } from './LookupPath.js';
+import type { MapRule } from '../types/validationRules.js';
+import { reprUnknownValue } from '../util.js';
+import { DEEP_LEVELS } from './deepnessTools.js';
+import { findUnmetSizeConstraint } from './shared.js';
+import { isInstanceOf, isObject } from './interpolationEnforcer.js';
+import { match, forNestedValue, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
+import type { InterpolatedValue } from '../types/validator.js';
+
+// The deep levels used in this module
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const availableDeepLevels = () => ({
+  typeCheck: DEEP_LEVELS.typeCheck,
+  immediateInfoCheck: DEEP_LEVELS.immediateInfoCheck,
+  recurseInwardsCheck: DEEP_LEVELS.recurseInwardsCheck,
+});
+
+export function mapCheck(
+  rule: MapRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  lookupPath: LookupPath,
+  opts: MatchOpts,
+): CheckFnResponse {
+  if (!isObject(target) || !isInstanceOf(target, Map)) {
+    return [{
+      message: {
+        id: 'instance_expected',
+        params: { path: lookupPath.asString(), value: reprUnknownValue(target), className: reprUnknownValue(Map) },
+      },
+      lookupPath,
+      deep: availableDeepLevels().typeCheck,
+      progress: -1,
+    }];
+  }
+
+  const targetMap = target as Map<unknown, unknown>;
+  const unmetSize = findUnmetSizeConstraint(rule.size, targetMap.size);
+  if (unmetSize !== null) {
+    return [{
+      message: {
+        id: 'size_mismatch',
+        params: {
+          path: lookupPath.asString(),
+          min: unmetSize.min,
+          max: unmetSize.max,
+          actual: targetMap.size,
+          unit: 'entry',
+          exceededMax: false,
+        },
+      },
+      lookupPath,
+      deep: availableDeepLevels().immediateInfoCheck,
+      progress: 0,
+    }];
+  }
+
+  const failures: Array<CheckFnResponse[number]> = [];
+  let i = 0;
+  for (const [key, value] of targetMap) {
+    // Key failures are reported on the key itself, while value failures are reported on the `.get()` lookup.
+    const keyMatchResponse = match(rule.keyType, key, interpolated, lookupPath.thenAccessMapKey(i), forNestedValue(opts));
+    if (keyMatchResponse.failed()) {
+      failures.push({
+        matchResponse: keyMatchResponse,
+        deep: availableDeepLevels().recurseInwardsCheck,
+        progress: i,
+      });
+
+      if (!opts.collectAll) {
+        break;
+      }
+    }
+
+    const valueMatchResponse = match(rule.valueType, value, interpolated, lookupPath.thenAccessMapValue(key, i), forNestedValue(opts));
+    if (valueMatchResponse.failed()) {
+      failures.push({
+        matchResponse: valueMatchResponse,
+        deep: availableDeepLevels().recurseInwardsCheck,
+        progress: i,
+      });
+
+      if (!opts.collectAll) {
+        break;
+      }
+    }
+
+    ++i;
+  }
+
+  return failures;
+}
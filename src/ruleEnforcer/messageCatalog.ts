@@ -0,0 +1,127 @@
+import type { LocalizeOpts, MessageCatalog, MessageId, ValidationMessage } from '../types/messageCatalog.js';
+import { indentMultilineString } from '../util.js';
+
+/** The English messages, which get used whenever a message wasn't customized. */
+export const defaultMessageCatalog: Required<MessageCatalog> = Object.freeze({
+  type_mismatch: ({ path, expectedType, actualType }) => {
+    let actualTypeText = `type "${actualType}"`;
+    if (actualType === 'array') {
+      actualTypeText = 'an array';
+    } else if (actualType === 'function') {
+      actualTypeText = 'a function';
+    }
+    return `Expected ${path} to be of type "${expectedType}" but got ${actualTypeText}.`;
+  },
+  nullish_value: ({ path, value }) => `Expected ${path} to not be ${value}.`,
+  array_expected: ({ path, value }) => `Expected ${path} to be an array but got ${value}.`,
+  iterable_expected: ({ path }) => (
+    `Expected ${path} to be an iterable, ` +
+    'i.e. you should be able to use this value in a for-of loop.'
+  ),
+  instance_expected: ({ path, value, className }) => (
+    `Expected ${path}, which was ${value}, to be an instance of ${className}.`
+  ),
+  literal_mismatch: ({ path, expected, actual }) => `Expected ${path} to be ${expected} but got ${actual}.`,
+  value_mismatch: ({ path, expected, actual }) => `Expected ${path} to be the value ${expected} but got ${actual}.`,
+  expectation_failed: ({ path, value, expectation }) => `Expected ${path}, which was ${value}, to ${expectation}`,
+  custom_message: ({ path, message }) => `${path} ${message}`,
+  regexp_string_expected: ({ path, value, pattern }) => (
+    `Expected ${path}, which was ${value}, to be a string that matches the regular expression ${pattern}`
+  ),
+  regexp_mismatch: ({ path, value, pattern }) => (
+    `Expected ${path}, which was ${value}, to match the regular expression ${pattern}`
+  ),
+  integer_expected: ({ path, value }) => `Expected ${path} to be an integer but got ${value}.`,
+  number_too_small: ({ path, value, limit, exclusive }) => (
+    `Expected ${path} to be ${exclusive ? 'greater than' : 'at least'} ${limit} but got ${value}.`
+  ),
+  number_too_large: ({ path, value, limit, exclusive }) => (
+    `Expected ${path} to be ${exclusive ? 'less than' : 'at most'} ${limit} but got ${value}.`
+  ),
+  string_too_short: ({ path, value, limit, unit }) => (
+    `Expected ${path}, which was ${value}, to have a length of at least ${limit}${unit === 'graphemes' ? ' graphemes' : ''}.`
+  ),
+  string_too_long: ({ path, value, limit, unit }) => (
+    `Expected ${path}, which was ${value}, to have a length of at most ${limit}${unit === 'graphemes' ? ' graphemes' : ''}.`
+  ),
+  string_pattern_mismatch: ({ path, value, pattern }) => (
+    `Expected ${path}, which was ${value}, to match the regular expression ${pattern}.`
+  ),
+  template_literal_mismatch: ({ path, value, template, kind, position, expected, trailingText }) => {
+    const prefix = `Expected ${path}, which was ${value}, to match the template literal type ${template}. `;
+    if (kind === 'trailingText') {
+      return prefix + `Found unexpected trailing text ${String(trailingText)} at index ${position}.`;
+    } else if (kind === 'tooComplex') {
+      return prefix + 'The string was too long to finish checking it against this template literal type.';
+    } else {
+      return prefix + `Expected to find ${String(expected)} at index ${position}.`;
+    }
+  },
+  array_size_mismatch: ({ path, min, max, actual }) => (
+    `Expected the ${path} array to have ${describeSize(min, max, 'entry')}, but found ${actual}.`
+  ),
+  tuple_size_mismatch: ({ path, min, max, actual }) => {
+    const expectedSize = min === max
+      ? describeCount(min ?? 0, 'entry')
+      : describeSize(min, max, 'entry');
+    return `Expected the ${path} array to have ${expectedSize}, but found ${actual}.`;
+  },
+  size_mismatch: ({ path, min, max, actual, unit, exceededMax }) => {
+    const foundSize = exceededMax ? `more than ${String(max)}` : String(actual);
+    return `Expected ${path} to have ${describeSize(min, max, unit)}, but found ${foundSize}.`;
+  },
+  missing_property: ({ path, keys }) => `${path} is missing the required properties: ${keys.join(', ')}`,
+  unexpected_property: ({ path, keys }) => `${path} has unexpected properties: ${keys.join(', ')}`,
+  forbidden_property: ({ path, keys }) => `${path} has forbidden properties: ${keys.join(', ')}`,
+  union_mismatch: ({ issues }) => (
+    'One of the following issues needs to be resolved:\n' +
+    issues
+      .map(message => `  * ${indentMultilineString(message, 4).slice(4)}`)
+      .join('\n')
+  ),
+  invalid_arguments: ({ functionName, message }) => `Received invalid arguments for ${functionName}: ${message}`,
+  invalid_argument: ({ functionName, label, isRest, message }) => (
+    `Received invalid "${label}" argument${isRest ? 's' : ''} for ${functionName}: ${message}`
+  ),
+});
+
+export const messageIds = Object.keys(defaultMessageCatalog) as readonly MessageId[];
+
+/**
+ * Builds the function used to convert messages into text.
+ * The formatMessage() hook gets the first chance to handle each message,
+ * followed by the provided catalog, and finally the default catalog.
+ */
+export function createMessageFormatter(
+  { messageCatalog, formatMessage }: LocalizeOpts = {},
+): (message: ValidationMessage) => string {
+  return message => {
+    const formattedMessage = formatMessage?.(message);
+    if (formattedMessage !== undefined) {
+      return formattedMessage;
+    }
+
+    // TypeScript isn't able to tell that the catalog entry and the params belong to the same message id.
+    const buildMessage = (messageCatalog?.[message.id] ?? defaultMessageCatalog[message.id]) as (params: unknown) => string;
+    return buildMessage(message.params);
+  };
+}
+
+function describeSize(min: number | null, max: number | null, unit: 'entry' | 'property'): string {
+  if (min !== null && max !== null) {
+    return min === max
+      ? `exactly ${describeCount(min, unit)}`
+      : `between ${min} and ${max} ${unit === 'entry' ? 'entries' : 'properties'}`;
+  } else if (min !== null) {
+    return `at least ${describeCount(min, unit)}`;
+  } else {
+    return `at most ${describeCount(max ?? 0, unit)}`;
+  }
+}
+
+function describeCount(count: number, unit: 'entry' | 'property'): string {
+  if (count === 1) {
+    return `${count} ${unit}`;
+  }
+  return `${count} ${unit === 'entry' ? 'entries' : 'properties'}`;
+}
@@ -1,6 +1,6 @@
 import type { LookupPath } from './LookupPath.js';
 import type { NoopRule } from '../types/validationRules.js';
-import type { CheckFnResponse } from './ruleMatcherTools.js';
+import type { CheckFnResponse, MatchOpts } from './ruleMatcherTools.js';
 import type { InterpolatedValue } from '../types/validator.js';
 
 // What did you expect?
@@ -11,6 +11,7 @@ export function noopCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
   return [];
 }
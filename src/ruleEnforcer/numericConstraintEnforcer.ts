@@ -0,0 +1,96 @@
+import type { NumericBound, NumericConstraintRule } from '../types/validationRules.js';
+import { getReportedTypeOf, getSimpleTypeOf } from './shared.js';
+import { DEEP_LEVELS } from './deepnessTools.js';
+import { reprUnknownValue } from '../util.js';
+import type { CheckFnResponse, MatchOpts } from './ruleMatcherTools.js';
+import type { LookupPath } from './LookupPath.js';
+import type { InterpolatedValue } from '../types/validator.js';
+import type { ValidationMessage } from '../types/messageCatalog.js';
+
+// The deep levels used in this module
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const availableDeepLevels = () => ({
+  typeCheck: DEEP_LEVELS.typeCheck,
+  immediateInfoCheck: DEEP_LEVELS.immediateInfoCheck,
+});
+
+export function numericConstraintCheck(
+  rule: NumericConstraintRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  lookupPath: LookupPath,
+  opts: MatchOpts,
+): CheckFnResponse {
+  if (getSimpleTypeOf(target) !== rule.type) {
+    return [{
+      message: {
+        id: 'type_mismatch',
+        params: { path: lookupPath.asString(), expectedType: rule.type, actualType: getReportedTypeOf(target) },
+      },
+      lookupPath,
+      deep: availableDeepLevels().typeCheck,
+      progress: 1,
+    }];
+  }
+
+  const unmetConstraint = findUnmetNumericConstraint(rule, target as number | bigint);
+  if (unmetConstraint !== undefined) {
+    return [{
+      message: buildUnmetConstraintMessage(unmetConstraint, lookupPath.asString(), reprUnknownValue(target)),
+      lookupPath,
+      deep: availableDeepLevels().immediateInfoCheck,
+      progress: 2,
+    }];
+  }
+
+  return [];
+}
+
+type UnmetNumericConstraint = (
+  { readonly kind: 'integer' }
+  | { readonly kind: 'minimum' | 'maximum', readonly bound: NumericBound }
+);
+
+/**
+ * Checks a value (which is assumed to already be of the correct type) against the rule's constraints.
+ * Returns the first constraint that wasn't met, or undefined if every constraint was met.
+ */
+export function findUnmetNumericConstraint(
+  rule: NumericConstraintRule,
+  value: number | bigint,
+): UnmetNumericConstraint | undefined {
+  if (rule.integer && !Number.isInteger(value)) {
+    return { kind: 'integer' };
+  }
+  if (rule.minimum !== null && !isAboveMinimum(value, rule.minimum)) {
+    return { kind: 'minimum', bound: rule.minimum };
+  }
+  if (rule.maximum !== null && !isBelowMaximum(value, rule.maximum)) {
+    return { kind: 'maximum', bound: rule.maximum };
+  }
+  return undefined;
+}
+
+function buildUnmetConstraintMessage(unmetConstraint: UnmetNumericConstraint, path: string, value: string): ValidationMessage {
+  if (unmetConstraint.kind === 'integer') {
+    return { id: 'integer_expected', params: { path, value } };
+  }
+
+  const params = {
+    path,
+    value,
+    limit: reprUnknownValue(unmetConstraint.bound.value),
+    exclusive: unmetConstraint.bound.exclusive,
+  };
+  return unmetConstraint.kind === 'minimum'
+    ? { id: 'number_too_small', params }
+    : { id: 'number_too_large', params };
+}
+
+function isAboveMinimum(value: number | bigint, minimum: NumericBound): boolean {
+  return minimum.exclusive ? value > minimum.value : value >= minimum.value;
+}
+
+function isBelowMaximum(value: number | bigint, maximum: NumericBound): boolean {
+  return maximum.exclusive ? value < maximum.value : value <= maximum.value;
+}
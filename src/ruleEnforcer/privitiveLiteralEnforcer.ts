@@ -2,9 +2,10 @@ import type { PrimitiveLiteralRule } from '../types/validationRules.js';
 import { getSimpleTypeOf } from './shared.js';
 import { DEEP_LEVELS } from './deepnessTools.js';
 import { reprUnknownValue } from '../util.js';
-import type { CheckFnResponse } from './ruleMatcherTools.js';
+import type { CheckFnResponse, MatchOpts } from './ruleMatcherTools.js';
 import type { LookupPath } from './LookupPath.js';
 import type { InterpolatedValue } from '../types/validator.js';
+import type { ValidationMessage } from '../types/messageCatalog.js';
 
 // The deep levels used in this module
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -25,12 +26,17 @@ export function primitiveLiteralCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
-  const formatError = (expectedValue: unknown, actualValue: unknown, lookupPath: LookupPath): string => {
-    return (
-      `Expected ${lookupPath.asString()} to be ${reprUnknownValue(expectedValue)} ` +
-      `but got ${reprUnknownValue(actualValue)}.`
-    );
+  const formatError = (expectedValue: unknown, actualValue: unknown, lookupPath: LookupPath): ValidationMessage => {
+    return {
+      id: 'literal_mismatch',
+      params: {
+        path: lookupPath.asString(),
+        expected: reprUnknownValue(expectedValue),
+        actual: reprUnknownValue(actualValue),
+      },
+    };
   };
 
   if (getSimpleTypeOf(target) !== getSimpleTypeOf(rule.value)) {
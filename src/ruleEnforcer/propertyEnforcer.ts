@@ -1,9 +1,19 @@
-import type { PropertyRule, PropertyRuleContentValue, PropertyRuleIndexValue, Rule } from '../types/validationRules.js';
+import type {
+  IntersectionRule,
+  PropertyRule,
+  PropertyRuleContentValue,
+  PropertyRuleIndexValue,
+  Rule,
+} from '../types/validationRules.js';
 import { assert, reprUnknownValue } from '../util.js';
 import { DEEP_LEVELS } from './deepnessTools.js';
-import { type MatchResponse, type CheckFnResponse, match } from './ruleMatcherTools.js';
+import { type MatchResponse, type CheckFnResponse, type MatchOpts, match, defaultMatchOpts, forNestedValue } from './ruleMatcherTools.js';
 import { LookupPath } from './LookupPath.js';
-import type { InterpolatedValue } from '../types/validator.js';
+import { isTransformer, isValidator, type InterpolatedValue } from '../types/validator.js';
+import { packagePrivate } from '../packagePrivateAccess.js';
+import { resolveInterpolatedValue } from '../genericInstantiator.js';
+import { findUnmetSizeConstraint } from './shared.js';
+import type { ValidationMessage } from '../types/messageCatalog.js';
 
 // The deep levels used in this module
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -31,10 +41,11 @@ export function propertyCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
   if (target === undefined || target === null) {
     return [{
-      message: `Expected ${lookupPath.asString()} to not be ${String(target)}.`,
+      message: { id: 'nullish_value', params: { path: lookupPath.asString(), value: String(target) } },
       lookupPath,
       deep: availableDeepLevels().nonSpecificTypeCheck,
       progress: 0,
@@ -46,20 +57,92 @@ export function propertyCheck(
   const targetObj = Object(target) as Record<string | symbol, unknown>;
 
   const propertyRuleWithStaticKeys = validateAndApplyDynamicKeys(rule, interpolated);
-  const maybeRequiredKeyMessage = assertRequiredKeysArePresent(propertyRuleWithStaticKeys, targetObj, lookupPath);
+  const ownPropertiesOnly = rule.ownPropertiesOnly === true || opts.ownPropertiesOnly;
+  const hasProperty = ownPropertiesOnly ? hasOwnProperty : hasAnyProperty;
+  const failures: Array<CheckFnResponse[number]> = [];
+  if (ownPropertiesOnly) {
+    const maybeForbiddenKeyMessage = assertNoForbiddenKeysArePresent(propertyRuleWithStaticKeys, targetObj, lookupPath, opts);
+    if (maybeForbiddenKeyMessage !== null) {
+      failures.push({
+        message: maybeForbiddenKeyMessage,
+        lookupPath,
+        deep: availableDeepLevels().immediateInfoCheck,
+        progress: 1,
+      });
+
+      if (!opts.collectAll) {
+        return failures;
+      }
+    }
+  }
+
+  if (rule.size !== undefined && rule.size !== null) {
+    const propertyCount = countOwnEnumerableProperties(targetObj);
+    const unmetSize = findUnmetSizeConstraint(rule.size, propertyCount);
+    if (unmetSize !== null) {
+      failures.push({
+        message: {
+          id: 'size_mismatch',
+          params: {
+            path: lookupPath.asString(),
+            min: unmetSize.min,
+            max: unmetSize.max,
+            actual: propertyCount,
+            unit: 'property',
+            exceededMax: false,
+          },
+        },
+        lookupPath,
+        deep: availableDeepLevels().immediateInfoCheck,
+        progress: 1,
+      });
+
+      if (!opts.collectAll) {
+        return failures;
+      }
+    }
+  }
+
+  const maybeRequiredKeyMessage = assertRequiredKeysArePresent(propertyRuleWithStaticKeys, targetObj, lookupPath, hasProperty);
   if (maybeRequiredKeyMessage !== null) {
-    return [{
+    failures.push({
       message: maybeRequiredKeyMessage,
       lookupPath,
       deep: availableDeepLevels().immediateInfoCheck,
       progress: 1,
-    }];
+    });
+
+    if (!opts.collectAll) {
+      return failures;
+    }
+  }
+
+  if (rule.exact === true) {
+    const maybeUnexpectedKeyMessage = assertNoUnexpectedKeysArePresent(
+      propertyRuleWithStaticKeys,
+      targetObj,
+      interpolated,
+      lookupPath,
+      opts,
+    );
+
+    if (maybeUnexpectedKeyMessage !== null) {
+      failures.push({
+        message: maybeUnexpectedKeyMessage,
+        lookupPath,
+        deep: availableDeepLevels().immediateInfoCheck,
+        progress: 1,
+      });
+
+      if (!opts.collectAll) {
+        return failures;
+      }
+    }
   }
 
   for (const [key, propertyRules] of propertyRuleWithStaticKeys.content) {
-    if (!(key in targetObj)) {
-      // It was an optional key. We've already done checks above
-      // to make sure all required keys are present.
+    if (!hasProperty(targetObj, key)) {
+      // It was an optional key (or a missing required key, which was already reported above).
       continue;
     }
 
@@ -69,37 +152,49 @@ export function propertyCheck(
         targetObj[key],
         interpolated,
         lookupPath.thenAccessProperty(key),
+        forNestedValue(opts),
       );
 
       if (elementMatchResponse.failed()) {
-        return [{
+        failures.push({
           matchResponse: elementMatchResponse,
           deep: availableDeepLevels().recurseInwardsCheck,
           progress: 2,
-        }];
+        });
+
+        if (!opts.collectAll) {
+          return failures;
+        }
       }
     }
   }
 
   if (propertyRuleWithStaticKeys.index !== null) {
-    const indexMatcher = checkIfIndexSignatureIsSatisfied(propertyRuleWithStaticKeys.index, targetObj, interpolated, lookupPath);
-    if (indexMatcher !== null) {
-      return [{
-        matchResponse: indexMatcher,
+    const indexMatchResponses = checkIfIndexSignatureIsSatisfied(
+      propertyRuleWithStaticKeys.index,
+      targetObj,
+      interpolated,
+      lookupPath,
+      opts,
+    );
+
+    for (const indexMatchResponse of indexMatchResponses) {
+      failures.push({
+        matchResponse: indexMatchResponse,
         deep: availableDeepLevels().recurseInwardsCheck,
         progress: 2,
-      }];
+      });
     }
   }
 
-  return [];
+  return failures;
 }
 
 /**
  * Ensures the interpolated dynamic keys are of correct types (strings or symbols),
  * then transforms the data into a more accessible form.
  */
-function validateAndApplyDynamicKeys(
+export function validateAndApplyDynamicKeys(
   rule: PropertyRule,
   interpolated: readonly InterpolatedValue[],
 ): PropertyRuleWithStaticKeys {
@@ -131,32 +226,180 @@ function validateAndApplyDynamicKeys(
   };
 }
 
+export function countOwnEnumerableProperties(target: object): number {
+  return Reflect.ownKeys(target).filter(key => Object.prototype.propertyIsEnumerable.call(target, key)).length;
+}
+
+/**
+ * The keys that get rejected when only own properties are being considered,
+ * unless the property rule explicitly describes them.
+ * Parsed JSON may contain these as own properties, and code that copies or merges
+ * such objects can end up modifying prototypes.
+ */
+export const forbiddenOwnPropertyKeys: ReadonlySet<string | symbol> = new Set(['__proto__', 'constructor']);
+
+export const hasOwnProperty = (target: object, key: string | symbol): boolean => (
+  Object.prototype.hasOwnProperty.call(target, key)
+);
+
+const hasAnyProperty = (target: object, key: string | symbol): boolean => key in target;
+
 function assertRequiredKeysArePresent(
   ruleWithStaticKeys: PropertyRuleWithStaticKeys,
   target: object,
   lookupPath: LookupPath,
-): string | null {
+  hasProperty: (target: object, key: string | symbol) => boolean,
+): ValidationMessage | null {
   const missingKeys = [...ruleWithStaticKeys.content.entries()]
     .filter(([key, value]) => !value.every(({ optional }) => optional))
-    .filter(([key, value]) => !(key in target))
+    .filter(([key, value]) => !hasProperty(target, key))
     .map(([key]) => key);
 
   if (missingKeys.length > 0) {
-    return (
-      `${lookupPath.asString()} is missing the required properties: ` +
-      missingKeys.map(key => reprUnknownValue(key)).join(', ')
-    );
+    return {
+      id: 'missing_property',
+      params: { path: lookupPath.asString(), keys: missingKeys.map(key => reprUnknownValue(key)) },
+    };
   }
 
   return null;
 }
 
+function assertNoUnexpectedKeysArePresent(
+  ruleWithStaticKeys: PropertyRuleWithStaticKeys,
+  target: object,
+  interpolated: readonly InterpolatedValue[],
+  lookupPath: LookupPath,
+  opts: MatchOpts,
+): ValidationMessage | null {
+  const index = ruleWithStaticKeys.index;
+  const unexpectedKeys = Reflect.ownKeys(target)
+    .filter(key => !ruleWithStaticKeys.content.has(key) && !opts.intersectedKeys.has(key))
+    .filter(key => index === null || !doesIndexSignatureApplyToProperty(index, key, interpolated));
+
+  if (unexpectedKeys.length > 0) {
+    return {
+      id: 'unexpected_property',
+      params: { path: lookupPath.asString(), keys: unexpectedKeys.map(key => reprUnknownValue(key)) },
+    };
+  }
+
+  return null;
+}
+
+function assertNoForbiddenKeysArePresent(
+  ruleWithStaticKeys: PropertyRuleWithStaticKeys,
+  target: object,
+  lookupPath: LookupPath,
+  opts: MatchOpts,
+): ValidationMessage | null {
+  const forbiddenKeys = [...forbiddenOwnPropertyKeys]
+    .filter(key => !ruleWithStaticKeys.content.has(key) && !opts.intersectedKeys.has(key))
+    .filter(key => hasOwnProperty(target, key));
+
+  if (forbiddenKeys.length > 0) {
+    return {
+      id: 'forbidden_property',
+      params: { path: lookupPath.asString(), keys: forbiddenKeys.map(key => reprUnknownValue(key)) },
+    };
+  }
+
+  return null;
+}
+
+// The interpolated array is used as the outer key, as the same (cached) rule can
+// be paired with different interpolated values.
+const propertyKeysCache = new WeakMap<readonly InterpolatedValue[], WeakMap<Rule, ReadonlySet<string | symbol>>>();
+
+type KeysPerVariant = ReadonlyArray<ReadonlySet<string | symbol>>;
+const keysFromOtherVariantsCache = new WeakMap<readonly InterpolatedValue[], WeakMap<IntersectionRule, KeysPerVariant>>();
+
+/**
+ * For each variant of an intersection, collects the property keys described by the intersection's other variants.
+ * An exact property rule found within a variant will permit these keys as well.
+ * A variant's own keys are left out, so that, in `({| a: string |} | {| b: string |}) & { c: number }`,
+ * the `{| a: string |}` variant won't permit the `b` key from its sibling union variant.
+ */
+export function collectKeysFromOtherVariants(
+  rule: IntersectionRule,
+  interpolated: readonly InterpolatedValue[],
+): KeysPerVariant {
+  let cacheForInterpolated = keysFromOtherVariantsCache.get(interpolated);
+  if (cacheForInterpolated === undefined) {
+    cacheForInterpolated = new WeakMap();
+    keysFromOtherVariantsCache.set(interpolated, cacheForInterpolated);
+  }
+
+  let keysPerVariant = cacheForInterpolated.get(rule);
+  if (keysPerVariant === undefined) {
+    const keysOfEachVariant = rule.variants.map(variant => collectPropertyKeys(variant, interpolated));
+    keysPerVariant = keysOfEachVariant.map((_, variantIndex) => new Set(
+      keysOfEachVariant.flatMap((keys, i) => i === variantIndex ? [] : [...keys]),
+    ));
+    cacheForInterpolated.set(rule, keysPerVariant);
+  }
+
+  return keysPerVariant;
+}
+
+/**
+ * Collects the property keys described by a rule. This includes keys from property rules found inside of
+ * unions, intersections, and interpolated validators.
+ * (Keys described by index signatures or lazy evaluators are not collected).
+ */
+function collectPropertyKeys(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+): ReadonlySet<string | symbol> {
+  let cacheForInterpolated = propertyKeysCache.get(interpolated);
+  if (cacheForInterpolated === undefined) {
+    cacheForInterpolated = new WeakMap();
+    propertyKeysCache.set(interpolated, cacheForInterpolated);
+  }
+
+  let keys = cacheForInterpolated.get(rule);
+  if (keys === undefined) {
+    keys = new Set(collectPropertyKeysWithoutCache(rule, interpolated));
+    cacheForInterpolated.set(rule, keys);
+  }
+
+  return keys;
+}
+
+function collectPropertyKeysWithoutCache(
+  rule: Rule,
+  interpolated: readonly InterpolatedValue[],
+): Array<string | symbol> {
+  if (rule.category === 'property') {
+    return [...validateAndApplyDynamicKeys(rule, interpolated).content.keys()];
+  } else if (rule.category === 'union' || rule.category === 'intersection') {
+    return rule.variants.flatMap(variant => [...collectPropertyKeys(variant, interpolated)]);
+  } else if (rule.category === 'interpolation') {
+    const interpolatedValue = resolveInterpolatedValue(rule, interpolated);
+    const validator = isTransformer(interpolatedValue)
+      ? interpolatedValue[packagePrivate].validator
+      : interpolatedValue;
+
+    if (isValidator(validator)) {
+      return [...collectPropertyKeys(validator.ruleset.rootRule, validator.ruleset.interpolated)];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Returns the failed match responses for properties that did not satisfy the index signature.
+ * Unless the collectAll option is set, this will stop after the first failure.
+ */
 function checkIfIndexSignatureIsSatisfied(
   indexInfo: PropertyRuleIndexValue,
   target: object,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
-): MatchResponse | null {
+  opts: MatchOpts,
+): readonly MatchResponse[] {
+  const failedMatchResponses: MatchResponse[] = [];
   for (const [key, value] of allObjectEntries(target)) {
     if (doesIndexSignatureApplyToProperty(indexInfo, key, interpolated)) {
       const matchResponse = match(
@@ -164,15 +407,19 @@ function checkIfIndexSignatureIsSatisfied(
         value,
         interpolated,
         lookupPath.thenAccessProperty(key),
+        forNestedValue(opts),
       );
 
       if (matchResponse.failed()) {
-        return matchResponse;
+        failedMatchResponses.push(matchResponse);
+        if (!opts.collectAll) {
+          break;
+        }
       }
     }
   }
 
-  return null;
+  return failedMatchResponses;
 }
 
 function doesIndexSignatureApplyToProperty(
@@ -190,7 +437,7 @@ function doesIndexSignatureApplyToProperty(
 }
 
 function doesMatch(rule: Rule, target: unknown, interpolated: readonly InterpolatedValue[]): boolean {
-  return !match(rule, target, interpolated, new LookupPath()).failed();
+  return !match(rule, target, interpolated, new LookupPath(), defaultMatchOpts).failed();
 }
 
 // ------------------------------
@@ -6,20 +6,27 @@ import { interpolationCheck } from './interpolationEnforcer.js';
 import { intersectionCheck } from './intersectionEnforcer.js';
 import { iterableCheck } from './iterableEnforcer.js';
 import { noopCheck } from './noopEnforcer.js';
+import { numericConstraintCheck } from './numericConstraintEnforcer.js';
+import { stringConstraintCheck } from './stringConstraintEnforcer.js';
 import { propertyCheck } from './propertyEnforcer.js';
 import { primitiveLiteralCheck } from './privitiveLiteralEnforcer.js';
 import { simpleCheck } from './simpleEnforcer.js';
+import { templateLiteralCheck } from './templateLiteralEnforcer.js';
 import { tupleCheck } from './tupleEnforcer.js';
+import { mapCheck } from './mapEnforcer.js';
+import { setCheck } from './setEnforcer.js';
 import { unionCheck } from './unionEnforcer.js';
 import type { LookupPath } from './LookupPath.js';
+import type { AsyncResolutions } from './asyncResolutions.js';
 import type { InterpolatedValue } from '../types/validator.js';
+import type { ValidationMessage } from '../types/messageCatalog.js';
 
 // With both progress values and deepness values, these numbers should either stay the same
 // or increase as you get further into a check algorithm. They should never decrease.
 // (The way we error messages are built, and lowest progress/deep ones are dropped rely on this behavior).
 export type CheckFnResponse = ReadonlyArray<(
   {
-    readonly message: string
+    readonly message: ValidationMessage
     readonly lookupPath: LookupPath
     readonly deep: DeepRange
     readonly progress?: number
@@ -36,11 +43,48 @@ export type CheckFnResponse = ReadonlyArray<(
   }
 )>;
 
+/**
+ * Options that control how the matching algorithm behaves.
+ * These get passed down, unchanged (unless noted otherwise), through each recursive match() call.
+ */
+export interface MatchOpts {
+  // When set to true, checks that would normally stop at the first failing entry/property
+  // will continue to look for more failures instead.
+  // This gets switched off while matching union variants, as the union's error-pruning
+  // algorithm expects each variant to provide, at most, a single chain of failures.
+  readonly collectAll: boolean
+  // Property keys described by other property rules, which the rule being matched is intersected with.
+  // Exact property rules will permit these keys as well.
+  // This only applies to the value currently being matched - it gets cleared (via forNestedValue())
+  // before matching anything found inside of that value. This means exactness isn't relaxed
+  // for the values of properties that are described by multiple variants, e.g.
+  // `{ inner: {| a: string |} } & { inner: { b: number } }` will reject `{ inner: { a: 'x', b: 1 } }`.
+  readonly intersectedKeys: ReadonlySet<string | symbol>
+  // When set to true, every property rule will behave as if its `ownPropertiesOnly` flag was set.
+  readonly ownPropertiesOnly: boolean
+  // Holds the results of async callbacks, when matching asynchronously (see asyncResolutions.ts).
+  // This is null when matching synchronously.
+  readonly asyncResolutions: AsyncResolutions | null
+}
+
+export const defaultMatchOpts: MatchOpts = Object.freeze({
+  collectAll: false,
+  intersectedKeys: new Set<string | symbol>(),
+  ownPropertiesOnly: false,
+  asyncResolutions: null,
+});
+
+/** Returns the options to use when matching a value nested inside of the current target. */
+export const forNestedValue = (opts: MatchOpts): MatchOpts => (
+  opts.intersectedKeys.size === 0 ? opts : { ...opts, intersectedKeys: defaultMatchOpts.intersectedKeys }
+);
+
 type CheckFn<RuleType extends Rule> = (
   rule: RuleType,
   target: unknown,
   interpolated: readonly InterpolatedValue[],
-  lookupPath: LookupPath
+  lookupPath: LookupPath,
+  opts: MatchOpts,
 ) => CheckFnResponse;
 
 export class MatchResponse {
@@ -73,22 +117,28 @@ export function match(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): MatchResponse {
   const doMatch = <RuleType extends Rule>(rule: RuleType, checkFn: CheckFn<RuleType>): MatchResponse => {
-    const failures = checkFn(rule, target, interpolated, lookupPath);
+    const failures = checkFn(rule, target, interpolated, lookupPath, opts);
     return new MatchResponse(rule, target, interpolated, lookupPath, failures);
   };
 
   if (rule.category === 'simple') return doMatch(rule, simpleCheck);
   else if (rule.category === 'primitiveLiteral') return doMatch(rule, primitiveLiteralCheck);
+  else if (rule.category === 'numericConstraint') return doMatch(rule, numericConstraintCheck);
+  else if (rule.category === 'stringConstraint') return doMatch(rule, stringConstraintCheck);
   else if (rule.category === 'noop') return doMatch(rule, noopCheck);
   else if (rule.category === 'property') return doMatch(rule, propertyCheck);
   else if (rule.category === 'array') return doMatch(rule, arrayCheck);
   else if (rule.category === 'tuple') return doMatch(rule, tupleCheck);
   else if (rule.category === 'iterable') return doMatch(rule, iterableCheck);
+  else if (rule.category === 'map') return doMatch(rule, mapCheck);
+  else if (rule.category === 'set') return doMatch(rule, setCheck);
   else if (rule.category === 'union') return doMatch(rule, unionCheck);
   else if (rule.category === 'intersection') return doMatch(rule, intersectionCheck);
   else if (rule.category === 'interpolation') return doMatch(rule, interpolationCheck);
+  else if (rule.category === 'templateLiteral') return doMatch(rule, templateLiteralCheck);
   else throw new UnreachableCaseError(rule);
 }
 
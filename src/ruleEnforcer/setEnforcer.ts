@@ -0,0 +1,80 @@
+import type { LookupPath } from './LookupPath.js';
+import type { SetRule } from '../types/validationRules.js';
+import { reprUnknownValue } from '../util.js';
+import { DEEP_LEVELS } from './deepnessTools.js';
+import { findUnmetSizeConstraint } from './shared.js';
+import { isInstanceOf, isObject } from './interpolationEnforcer.js';
+import { match, forNestedValue, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
+import type { InterpolatedValue } from '../types/validator.js';
+
+// The deep levels used in this module
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const availableDeepLevels = () => ({
+  typeCheck: DEEP_LEVELS.typeCheck,
+  immediateInfoCheck: DEEP_LEVELS.immediateInfoCheck,
+  recurseInwardsCheck: DEEP_LEVELS.recurseInwardsCheck,
+});
+
+export function setCheck(
+  rule: SetRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  lookupPath: LookupPath,
+  opts: MatchOpts,
+): CheckFnResponse {
+  if (!isObject(target) || !isInstanceOf(target, Set)) {
+    return [{
+      message: {
+        id: 'instance_expected',
+        params: { path: lookupPath.asString(), value: reprUnknownValue(target), className: reprUnknownValue(Set) },
+      },
+      lookupPath,
+      deep: availableDeepLevels().typeCheck,
+      progress: -1,
+    }];
+  }
+
+  const targetSet = target as Set<unknown>;
+  const unmetSize = findUnmetSizeConstraint(rule.size, targetSet.size);
+  if (unmetSize !== null) {
+    return [{
+      message: {
+        id: 'size_mismatch',
+        params: {
+          path: lookupPath.asString(),
+          min: unmetSize.min,
+          max: unmetSize.max,
+          actual: targetSet.size,
+          unit: 'entry',
+          exceededMax: false,
+        },
+      },
+      lookupPath,
+      deep: availableDeepLevels().immediateInfoCheck,
+      progress: 0,
+    }];
+  }
+
+  const failures: Array<CheckFnResponse[number]> = [];
+  let i = 0;
+  for (const entry of targetSet) {
+    const entryPath = lookupPath.thenConvertToArray().thenIndexArray(i);
+    const entryMatchResponse = match(rule.entryType, entry, interpolated, entryPath, forNestedValue(opts));
+
+    if (entryMatchResponse.failed()) {
+      failures.push({
+        matchResponse: entryMatchResponse,
+        deep: availableDeepLevels().recurseInwardsCheck,
+        progress: i,
+      });
+
+      if (!opts.collectAll) {
+        break;
+      }
+    }
+
+    ++i;
+  }
+
+  return failures;
+}
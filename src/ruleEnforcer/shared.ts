@@ -1,3 +1,5 @@
+import type { SizeConstraint } from '../types/validationRules.js';
+
 /**
  * Similar to `typeof`, but it correctly handles `null`, and it treats functions as objects.
  * This tries to mimic how TypeScript compares simple types.
@@ -11,3 +13,34 @@ export function getSimpleTypeOf(value: unknown): string {
     return typeof value;
   }
 }
+
+/**
+ * The type of a value, as reported in a type-mismatch error message.
+ * Same as getSimpleTypeOf(), except arrays and functions are reported as "array" and "function".
+ */
+export function getReportedTypeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  } else if (value instanceof Function) {
+    return 'function';
+  } else {
+    return getSimpleTypeOf(value);
+  }
+}
+
+/**
+ * Checks the number of entries (or properties) a value has against a size constraint.
+ * Returns the size constraint if it wasn't met, or null if it was met (or if there wasn't one).
+ */
+export function findUnmetSizeConstraint(
+  size: SizeConstraint | null | undefined,
+  actualSize: number,
+): SizeConstraint | null {
+  if (size === undefined || size === null) {
+    return null;
+  }
+  if ((size.min === null || actualSize >= size.min) && (size.max === null || actualSize <= size.max)) {
+    return null;
+  }
+  return size;
+}
@@ -1,7 +1,7 @@
 import type { SimpleRule } from '../types/validationRules.js';
-import { getSimpleTypeOf } from './shared.js';
+import { getReportedTypeOf, getSimpleTypeOf } from './shared.js';
 import { DEEP_LEVELS } from './deepnessTools.js';
-import type { CheckFnResponse } from './ruleMatcherTools.js';
+import type { CheckFnResponse, MatchOpts } from './ruleMatcherTools.js';
 import type { LookupPath } from './LookupPath.js';
 import type { InterpolatedValue } from '../types/validator.js';
 
@@ -16,20 +16,17 @@ export function simpleCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
   if (getSimpleTypeOf(target) === rule.type) {
     return [];
   }
 
-  let whatWasGot = `type "${getSimpleTypeOf(target)}"`;
-  if (Array.isArray(target)) {
-    whatWasGot = 'an array';
-  } else if (target instanceof Function) {
-    whatWasGot = 'a function';
-  }
-
   return [{
-    message: `Expected ${lookupPath.asString()} to be of type "${rule.type}" but got ${whatWasGot}.`,
+    message: {
+      id: 'type_mismatch',
+      params: { path: lookupPath.asString(), expectedType: rule.type, actualType: getReportedTypeOf(target) },
+    },
     lookupPath,
     deep: availableDeepLevels().typeCheck,
   }];
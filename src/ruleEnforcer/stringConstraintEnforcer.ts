@@ -0,0 +1,116 @@
+import type { StringConstraintRule, StringPattern } from '../types/validationRules.js';
+import { getReportedTypeOf } from './shared.js';
+import { DEEP_LEVELS } from './deepnessTools.js';
+import { assert, reprUnknownValue } from '../util.js';
+import type { CheckFnResponse, MatchOpts } from './ruleMatcherTools.js';
+import type { LookupPath } from './LookupPath.js';
+import type { InterpolatedValue } from '../types/validator.js';
+import type { ValidationMessage } from '../types/messageCatalog.js';
+
+// The deep levels used in this module
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const availableDeepLevels = () => ({
+  typeCheck: DEEP_LEVELS.typeCheck,
+  immediateInfoCheck: DEEP_LEVELS.immediateInfoCheck,
+});
+
+export function stringConstraintCheck(
+  rule: StringConstraintRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  lookupPath: LookupPath,
+  opts: MatchOpts,
+): CheckFnResponse {
+  if (typeof target !== 'string') {
+    return [{
+      message: {
+        id: 'type_mismatch',
+        params: { path: lookupPath.asString(), expectedType: 'string', actualType: getReportedTypeOf(target) },
+      },
+      lookupPath,
+      deep: availableDeepLevels().typeCheck,
+      progress: 1,
+    }];
+  }
+
+  const unmetConstraint = findUnmetStringConstraint(rule, target);
+  if (unmetConstraint !== undefined) {
+    return [{
+      message: buildUnmetConstraintMessage(unmetConstraint, rule, lookupPath.asString(), reprUnknownValue(target)),
+      lookupPath,
+      deep: availableDeepLevels().immediateInfoCheck,
+      progress: 2,
+    }];
+  }
+
+  return [];
+}
+
+type UnmetStringConstraint = 'minLength' | 'maxLength' | 'pattern';
+
+/**
+ * Checks a string against the rule's constraints.
+ * Returns the first constraint that wasn't met, or undefined if every constraint was met.
+ */
+export function findUnmetStringConstraint(rule: StringConstraintRule, value: string): UnmetStringConstraint | undefined {
+  if (rule.minLength !== null || rule.maxLength !== null) {
+    const length = measureLength(value, rule.lengthUnit);
+    if (rule.minLength !== null && length < rule.minLength) {
+      return 'minLength';
+    }
+    if (rule.maxLength !== null && length > rule.maxLength) {
+      return 'maxLength';
+    }
+  }
+
+  if (rule.pattern !== null && !regExpFor(rule.pattern).test(value)) {
+    return 'pattern';
+  }
+
+  return undefined;
+}
+
+function buildUnmetConstraintMessage(
+  unmetConstraint: UnmetStringConstraint,
+  rule: StringConstraintRule,
+  path: string,
+  value: string,
+): ValidationMessage {
+  if (unmetConstraint === 'minLength') {
+    assert(rule.minLength !== null);
+    return { id: 'string_too_short', params: { path, value, limit: rule.minLength, unit: rule.lengthUnit } };
+  } else if (unmetConstraint === 'maxLength') {
+    assert(rule.maxLength !== null);
+    return { id: 'string_too_long', params: { path, value, limit: rule.maxLength, unit: rule.lengthUnit } };
+  } else {
+    assert(rule.pattern !== null);
+    return { id: 'string_pattern_mismatch', params: { path, value, pattern: regExpFor(rule.pattern).toString() } };
+  }
+}
+
+let graphemeSegmenter: Intl.Segmenter | undefined;
+
+function measureLength(value: string, lengthUnit: StringConstraintRule['lengthUnit']): number {
+  if (lengthUnit === 'codePoints') {
+    return [...value].length;
+  }
+
+  graphemeSegmenter ??= new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  let length = 0;
+  for (const _ of graphemeSegmenter.segment(value)) {
+    length++;
+  }
+  return length;
+}
+
+// Patterns are frozen (as they're part of a frozen rule), so the regular expression built from each one can be reused.
+const regExpCache = new WeakMap<StringPattern, RegExp>();
+
+function regExpFor(pattern: StringPattern): RegExp {
+  let regExp = regExpCache.get(pattern);
+  if (regExp === undefined) {
+    regExp = new RegExp(pattern.source, pattern.flags);
+    regExpCache.set(pattern, regExp);
+  }
+  return regExp;
+}
@@ -0,0 +1,415 @@
+import type { Rule, TemplateLiteralRule } from '../types/validationRules.js';
+import {
+  isExpectation,
+  isLazyEvaluator,
+  isTransformer,
+  isValidator,
+  type Generic,
+  type InterpolatedValue,
+} from '../types/validator.js';
+import { getSimpleTypeOf } from './shared.js';
+import { DEEP_LEVELS } from './deepnessTools.js';
+import { isObject } from './interpolationEnforcer.js';
+import { stringifyRule, stringifyTemplatePlaceholder } from '../ruleStringifier.js';
+import { isDirectInstanceOf, reprUnknownValue, UnreachableCaseError } from '../util.js';
+import { packagePrivate } from '../packagePrivateAccess.js';
+import type { CheckFnResponse, MatchOpts } from './ruleMatcherTools.js';
+import type { LookupPath } from './LookupPath.js';
+import { deriveLazyValidator, testExpectation, type AsyncResolutions } from './asyncResolutions.js';
+import { resolveInterpolatedValue } from '../genericInstantiator.js';
+import { findUnmetNumericConstraint } from './numericConstraintEnforcer.js';
+import { findUnmetStringConstraint } from './stringConstraintEnforcer.js';
+import type { MessageParamsById } from '../types/messageCatalog.js';
+
+// The deep levels used in this module
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const availableDeepLevels = () => ({
+  typeCheck: DEEP_LEVELS.typeCheck,
+  immediateInfoCheck: DEEP_LEVELS.immediateInfoCheck,
+});
+
+export function templateLiteralCheck(
+  rule: TemplateLiteralRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  lookupPath: LookupPath,
+  opts: MatchOpts,
+): CheckFnResponse {
+  if (typeof target !== 'string') {
+    return [{
+      message: {
+        id: 'type_mismatch',
+        params: { path: lookupPath.asString(), expectedType: 'string', actualType: getSimpleTypeOf(target) },
+      },
+      lookupPath,
+      deep: availableDeepLevels().typeCheck,
+      progress: 1,
+    }];
+  }
+
+  const mismatch = findTemplateLiteralMismatch(rule, target, interpolated, opts.asyncResolutions);
+  if (mismatch !== null) {
+    return [{
+      message: {
+        id: 'template_literal_mismatch',
+        params: {
+          path: lookupPath.asString(),
+          value: reprUnknownValue(target),
+          template: stringifyRule(rule, interpolated),
+          ...describeMismatch(rule, target, mismatch, interpolated),
+        },
+      },
+      lookupPath,
+      deep: availableDeepLevels().immediateInfoCheck,
+      progress: 2,
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Describes the furthest point in the string that the matching algorithm was able to reach.
+ * * 'text' means the text segment at `segmentIndex` could not be found at `position`.
+ * * 'rule' means nothing starting at `position` satisfied the rule segment at `segmentIndex`.
+ * * 'trailingText' means every segment matched, but there was still unmatched text starting at `position`.
+ * * 'tooComplex' means matching was given up on, because it would take too much work (see MAX_MATCH_WORK).
+ */
+interface TemplateLiteralMismatch {
+  readonly kind: 'text' | 'rule' | 'trailingText' | 'tooComplex'
+  readonly segmentIndex: number
+  readonly position: number
+}
+
+// Matching a template literal may require backtracking through many different ways of splitting up the string.
+// To keep long, untrusted strings from tying up the process, the amount of work this may take is bounded
+// (measured in characters examined). Strings that would take more work than this are treated as not matching.
+const MAX_MATCH_WORK = 10_000_000;
+
+// Bounds the amount of work that gets spent on finding the most helpful error message,
+// once a string is already known to not match. Past this point, a less precise error message gets used instead.
+const MAX_DIAGNOSTIC_WORK = 100_000;
+
+/**
+ * Checks if the target matches the template literal rule.
+ * asyncResolutions should be null when matching synchronously (see MatchOpts).
+ */
+export function doesTemplateLiteralMatch(
+  rule: TemplateLiteralRule,
+  target: string,
+  interpolated: readonly InterpolatedValue[],
+  asyncResolutions: AsyncResolutions | null,
+): boolean {
+  const search = searchTemplateLiteral(rule, target, interpolated, asyncResolutions, {
+    exhaustive: false,
+    workBudget: MAX_MATCH_WORK,
+  });
+  return search?.matched === true;
+}
+
+/**
+ * Returns `null` if the target matches the template literal rule,
+ * otherwise it returns information about why it didn't match.
+ *
+ * asyncResolutions should be null when matching synchronously (see MatchOpts).
+ */
+export function findTemplateLiteralMismatch(
+  rule: TemplateLiteralRule,
+  target: string,
+  interpolated: readonly InterpolatedValue[],
+  asyncResolutions: AsyncResolutions | null,
+): TemplateLiteralMismatch | null {
+  const anchoredSearch = searchTemplateLiteral(rule, target, interpolated, asyncResolutions, {
+    exhaustive: false,
+    workBudget: MAX_MATCH_WORK,
+  });
+  if (anchoredSearch === null) {
+    return { kind: 'tooComplex', segmentIndex: 0, position: 0 };
+  } else if (anchoredSearch.matched) {
+    return null;
+  }
+
+  // The anchored search skips over the ways of splitting up the string that can't possibly work,
+  // but going through those is what finds the furthest point in the string that could be reached,
+  // which is what the error message reports.
+  const exhaustiveSearch = searchTemplateLiteral(rule, target, interpolated, asyncResolutions, {
+    exhaustive: true,
+    workBudget: MAX_DIAGNOSTIC_WORK,
+  });
+  return exhaustiveSearch?.furthestMismatch ?? anchoredSearch.furthestMismatch;
+}
+
+interface SearchTemplateLiteralOpts {
+  /**
+   * When false, a rule segment will only be tried against the portions of the target
+   * that are followed by the text segment that comes after it.
+   * When true, every portion of the target will be tried.
+   */
+  readonly exhaustive: boolean
+  /** How many characters may be examined before giving up. */
+  readonly workBudget: number
+}
+
+/**
+ * Each rule segment may consume any amount of text, so this will backtrack
+ * through the different ways the target can be split up, until one of them works.
+ *
+ * Returns null if the work budget ran out before the search finished.
+ */
+function searchTemplateLiteral(
+  rule: TemplateLiteralRule,
+  target: string,
+  interpolated: readonly InterpolatedValue[],
+  asyncResolutions: AsyncResolutions | null,
+  { exhaustive, workBudget }: SearchTemplateLiteralOpts,
+): { readonly matched: boolean, readonly furthestMismatch: TemplateLiteralMismatch | null } | null {
+  let furthestMismatch: TemplateLiteralMismatch | null = null;
+  const recordMismatch = (mismatch: TemplateLiteralMismatch): void => {
+    if (furthestMismatch === null || mismatch.position > furthestMismatch.position) {
+      furthestMismatch = mismatch;
+    }
+  };
+
+  let remainingWork = workBudget;
+
+  // Remembers which segmentIndex/position combinations were already found to not work,
+  // so they don't get needlessly retried while backtracking.
+  const knownFailures = new Set<string>();
+
+  // A rule segment that accepts any text can end anywhere, no matter where it starts.
+  // So once every way of ending it from a given starting point has failed, any later starting point will fail too.
+  // This maps the index of such a segment to the earliest starting point that's known to fail.
+  const exhaustedFrom = new Map<number, number>();
+
+  const matchFrom = (segmentIndex: number, position: number): boolean => {
+    const cacheKey = `${segmentIndex}:${position}`;
+    if (knownFailures.has(cacheKey)) return false;
+
+    const text = rule.textSegments[segmentIndex] as string;
+    const ruleSegment = rule.ruleSegments[segmentIndex];
+    let matched = false;
+    if (!target.startsWith(text, position)) {
+      recordMismatch({ kind: 'text', segmentIndex, position });
+    } else if (ruleSegment === undefined) {
+      matched = position + text.length === target.length;
+      if (!matched) {
+        recordMismatch({ kind: 'trailingText', segmentIndex, position: position + text.length });
+      }
+    } else {
+      const ruleStart = position + text.length;
+      const acceptsAnyText = ruleSegment.category === 'noop' || (ruleSegment.category === 'simple' && ruleSegment.type === 'string');
+      const knownToFailFrom = acceptsAnyText ? exhaustedFrom.get(segmentIndex) ?? Infinity : Infinity;
+      // When the starting point is known to fail, whatever mismatches it leads to have already been recorded.
+      let ruleEverMatched = ruleStart >= knownToFailFrom;
+      const ruleEnds = candidateRuleEnds(rule, target, segmentIndex, ruleStart, {
+        anchored: !exhaustive,
+        endBefore: knownToFailFrom,
+        // Leaving as little text as possible for the segments that follow one that accepts anything
+        // tends to find a match sooner, e.g. `${string}${number}` only needs to try the last few characters as a number.
+        latestFirst: acceptsAnyText && !exhaustive,
+      });
+      for (const ruleEnd of ruleEnds) {
+        // Text that accepts anything doesn't need to be examined.
+        remainingWork -= acceptsAnyText ? 1 : ruleEnd - ruleStart + 1;
+        if (remainingWork < 0) return false;
+        if (!doesSegmentMatch(ruleSegment, target.slice(ruleStart, ruleEnd), interpolated, asyncResolutions)) continue;
+        ruleEverMatched = true;
+        if (matchFrom(segmentIndex + 1, ruleEnd)) {
+          matched = true;
+          break;
+        }
+      }
+      if (remainingWork < 0) return false;
+      if (!ruleEverMatched) {
+        recordMismatch({ kind: 'rule', segmentIndex, position: ruleStart });
+      }
+      if (acceptsAnyText && !matched) {
+        exhaustedFrom.set(segmentIndex, Math.min(ruleStart, knownToFailFrom));
+      }
+    }
+
+    if (!matched) knownFailures.add(cacheKey);
+    return matched;
+  };
+
+  const matched = matchFrom(0, 0);
+  return remainingWork < 0 ? null : { matched, furthestMismatch };
+}
+
+interface CandidateRuleEndsOpts {
+  /** When true, only the ends that are followed by the next text segment will be provided. */
+  readonly anchored: boolean
+  /** Only ends that come before this position will be provided. */
+  readonly endBefore: number
+  /** Provides the ends in descending order, instead of ascending order. */
+  readonly latestFirst: boolean
+}
+
+/** Provides the positions where the rule segment at `segmentIndex` (which starts at `ruleStart`) should be tried to end at. */
+function * candidateRuleEnds(
+  rule: TemplateLiteralRule,
+  target: string,
+  segmentIndex: number,
+  ruleStart: number,
+  { anchored, endBefore, latestFirst }: CandidateRuleEndsOpts,
+): Generator<number> {
+  const nextText = rule.textSegments[segmentIndex + 1] as string;
+  const lastEnd = Math.min(target.length, endBefore - 1);
+  if (anchored && segmentIndex === rule.ruleSegments.length - 1) {
+    // The last rule segment has to be followed by the last text segment, and nothing else.
+    const ruleEnd = target.length - nextText.length;
+    if (ruleEnd >= ruleStart && ruleEnd <= lastEnd) {
+      yield ruleEnd;
+    }
+  } else if (anchored && nextText !== '' && latestFirst) {
+    let ruleEnd = target.lastIndexOf(nextText, lastEnd);
+    while (ruleEnd >= ruleStart) {
+      yield ruleEnd;
+      ruleEnd = ruleEnd > ruleStart ? target.lastIndexOf(nextText, ruleEnd - 1) : -1;
+    }
+  } else if (anchored && nextText !== '') {
+    let ruleEnd = target.indexOf(nextText, ruleStart);
+    while (ruleEnd !== -1 && ruleEnd <= lastEnd) {
+      yield ruleEnd;
+      ruleEnd = target.indexOf(nextText, ruleEnd + 1);
+    }
+  } else if (latestFirst) {
+    for (let ruleEnd = lastEnd; ruleEnd >= ruleStart; ruleEnd--) {
+      yield ruleEnd;
+    }
+  } else {
+    for (let ruleEnd = ruleStart; ruleEnd <= lastEnd; ruleEnd++) {
+      yield ruleEnd;
+    }
+  }
+}
+
+/** Provides the message parameters that describe where the mismatch happened. */
+function describeMismatch(
+  rule: TemplateLiteralRule,
+  target: string,
+  mismatch: TemplateLiteralMismatch,
+  interpolated: readonly InterpolatedValue[],
+): Pick<MessageParamsById['template_literal_mismatch'], 'kind' | 'position' | 'expected' | 'trailingText'> {
+  const { position } = mismatch;
+  if (mismatch.kind === 'text') {
+    const text = rule.textSegments[mismatch.segmentIndex] as string;
+    return { kind: 'text', position, expected: JSON.stringify(text), trailingText: null };
+  } else if (mismatch.kind === 'rule') {
+    const ruleSegment = rule.ruleSegments[mismatch.segmentIndex] as Rule;
+    return { kind: 'placeholder', position, expected: stringifyTemplatePlaceholder(ruleSegment, interpolated), trailingText: null };
+  } else if (mismatch.kind === 'trailingText') {
+    return { kind: 'trailingText', position, expected: null, trailingText: reprUnknownValue(target.slice(position)) };
+  } else if (mismatch.kind === 'tooComplex') {
+    return { kind: 'tooComplex', position, expected: null, trailingText: null };
+  } else {
+    throw new UnreachableCaseError(mismatch.kind);
+  }
+}
+
+/**
+ * Checks if a portion of a string satisfies one of the rules found inside of a template literal.
+ * This follows the same logic TypeScript uses, e.g. `${number}` will match any text
+ * that can be converted into a finite number (surrounding whitespace is not permitted).
+ */
+function doesSegmentMatch(
+  rule: Rule,
+  text: string,
+  interpolated: readonly InterpolatedValue[],
+  asyncResolutions: AsyncResolutions | null,
+): boolean {
+  if (rule.category === 'simple') {
+    if (rule.type === 'string') {
+      return true;
+    } else if (rule.type === 'number') {
+      return text !== '' && text.trim() === text && Number.isFinite(Number(text));
+    } else if (rule.type === 'bigint') {
+      return /^-?\d+$/.test(text);
+    } else if (rule.type === 'boolean') {
+      return text === 'true' || text === 'false';
+    } else if (rule.type === 'null' || rule.type === 'undefined') {
+      return text === rule.type;
+    } else {
+      return false;
+    }
+  } else if (rule.category === 'primitiveLiteral') {
+    return text === String(rule.value);
+  } else if (rule.category === 'numericConstraint') {
+    if (!doesSegmentMatch({ category: 'simple', type: rule.type }, text, interpolated, asyncResolutions)) {
+      return false;
+    }
+    const value = rule.type === 'number' ? Number(text) : BigInt(text);
+    return findUnmetNumericConstraint(rule, value) === undefined;
+  } else if (rule.category === 'stringConstraint') {
+    return findUnmetStringConstraint(rule, text) === undefined;
+  } else if (rule.category === 'noop') {
+    return true;
+  } else if (rule.category === 'union') {
+    return rule.variants.some(variant => doesSegmentMatch(variant, text, interpolated, asyncResolutions));
+  } else if (rule.category === 'intersection') {
+    return rule.variants.every(variant => doesSegmentMatch(variant, text, interpolated, asyncResolutions));
+  } else if (rule.category === 'templateLiteral') {
+    return doesTemplateLiteralMatch(rule, text, interpolated, asyncResolutions);
+  } else if (rule.category === 'interpolation') {
+    return doesSegmentMatchInterpolatedValue(resolveInterpolatedValue(rule, interpolated), text, asyncResolutions);
+  } else if (
+    rule.category === 'property' ||
+    rule.category === 'array' ||
+    rule.category === 'tuple' ||
+    rule.category === 'iterable' ||
+    rule.category === 'map' ||
+    rule.category === 'set'
+  ) {
+    return false;
+  } else {
+    throw new UnreachableCaseError(rule);
+  }
+}
+
+function doesSegmentMatchInterpolatedValue(
+  interpolatedValue: Exclude<InterpolatedValue, Generic>,
+  text: string,
+  asyncResolutions: AsyncResolutions | null,
+): boolean {
+  if (isValidator(interpolatedValue)) {
+    const { rootRule, interpolated } = interpolatedValue.ruleset;
+    return doesSegmentMatch(rootRule, text, interpolated, asyncResolutions);
+  } else if (isLazyEvaluator(interpolatedValue)) {
+    const validator = deriveLazyValidator(interpolatedValue, text, asyncResolutions);
+    // A validator that's still being derived asynchronously is assumed to match for now.
+    if (validator === null) return true;
+    const { rootRule, interpolated } = validator.ruleset;
+    return doesSegmentMatch(rootRule, text, interpolated, asyncResolutions);
+  } else if (isTransformer(interpolatedValue)) {
+    const { rootRule, interpolated } = interpolatedValue[packagePrivate].validator.ruleset;
+    return doesSegmentMatch(rootRule, text, interpolated, asyncResolutions);
+  } else if (isExpectation(interpolatedValue)) {
+    return testExpectation(interpolatedValue, text, asyncResolutions) === undefined;
+  } else if (typeof interpolatedValue === 'function') {
+    // Strings are never instances of a class
+    return false;
+  } else if (isDirectInstanceOf(interpolatedValue, RegExp)) {
+    return anchoredRegExpFor(interpolatedValue).test(text);
+  } else if (!isObject(interpolatedValue)) {
+    return typeof interpolatedValue !== 'symbol' && text === String(interpolatedValue);
+  } else {
+    throw new UnreachableCaseError(interpolatedValue);
+  }
+}
+
+const anchoredRegExpCache = new WeakMap<RegExp, RegExp>();
+
+/**
+ * An interpolated regular expression has to match the entire segment,
+ * so a copy of it gets made with anchors added to both ends.
+ */
+function anchoredRegExpFor(regExp: RegExp): RegExp {
+  let anchoredRegExp = anchoredRegExpCache.get(regExp);
+  if (anchoredRegExp === undefined) {
+    // The global and sticky flags would cause .test() to be stateful,
+    // and the multiline flag would allow the anchors to match at line breaks.
+    anchoredRegExp = new RegExp(`^(?:${regExp.source})$`, regExp.flags.replace(/[gym]/g, ''));
+    anchoredRegExpCache.set(regExp, anchoredRegExp);
+  }
+  return anchoredRegExp;
+}
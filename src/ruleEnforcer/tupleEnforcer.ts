@@ -2,8 +2,10 @@ import type { LookupPath } from './LookupPath.js';
 import type { Rule, TupleRule } from '../types/validationRules.js';
 import { assert, reprUnknownValue } from '../util.js';
 import { DEEP_LEVELS } from './deepnessTools.js';
-import { match, type CheckFnResponse } from './ruleMatcherTools.js';
+import { findUnmetSizeConstraint } from './shared.js';
+import { match, forNestedValue, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
 import type { InterpolatedValue } from '../types/validator.js';
+import type { ValidationMessage } from '../types/messageCatalog.js';
 
 // The deep levels used in this module
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -18,10 +20,11 @@ export function tupleCheck(
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
   if (!Array.isArray(target)) {
     return [{
-      message: `Expected ${lookupPath.asString()} to be an array but got ${reprUnknownValue(target)}.`,
+      message: { id: 'array_expected', params: { path: lookupPath.asString(), value: reprUnknownValue(target) } },
       lookupPath,
       deep: availableDeepLevels().typeCheck,
       progress: -2,
@@ -38,6 +41,7 @@ export function tupleCheck(
     }];
   }
 
+  const failures: Array<CheckFnResponse[number]> = [];
   for (const [subTargetIndex, subTarget] of target.entries()) {
     const tupleEntryRule = tupleEntryRuleFromIndex(subTargetIndex, rule);
 
@@ -54,14 +58,19 @@ export function tupleCheck(
       subTarget,
       interpolated,
       lookupPath.thenIndexArray(subTargetIndex),
+      forNestedValue(opts),
     );
 
     if (elementMatchResponse.failed()) {
-      return [{
+      failures.push({
         matchResponse: elementMatchResponse,
         deep: availableDeepLevels().recurseInwardsCheck,
         progress: subTargetIndex,
-      }];
+      });
+
+      if (!opts.collectAll) {
+        return failures;
+      }
     }
   }
 
@@ -74,43 +83,44 @@ export function tupleCheck(
       portionToTestAgainst,
       interpolated,
       lookupPath.thenSliceArray({ from: startIndex }),
+      forNestedValue(opts),
     );
 
     if (restMatchResponse.failed()) {
-      return [{
+      failures.push({
         matchResponse: restMatchResponse,
         deep: availableDeepLevels().recurseInwardsCheck,
         progress: Infinity,
-      }];
+      });
     }
   }
 
-  return [];
+  return failures;
 }
 
-function checkTupleSize(rule: TupleRule, target: readonly InterpolatedValue[], lookupPath: LookupPath): string | null {
+function checkTupleSize(
+  rule: TupleRule,
+  target: readonly InterpolatedValue[],
+  lookupPath: LookupPath,
+): ValidationMessage | null {
+  const unmetSize = findUnmetSizeConstraint(rule.size, target.length);
+  if (unmetSize !== null) {
+    return {
+      id: 'array_size_mismatch',
+      params: { path: lookupPath.asString(), min: unmetSize.min, max: unmetSize.max, actual: target.length },
+    };
+  }
+
   const minSize = rule.content.length;
   const maxSize = rule.rest !== null
-    ? Infinity
+    ? null
     : rule.content.length + rule.optionalContent.length;
 
-  if (target.length < minSize || target.length > maxSize) {
-    if (minSize === maxSize) {
-      return (
-        `Expected the ${lookupPath.asString()} array to have ` +
-        `${minSize} ${minSize === 1 ? 'entry' : 'entries'}, but found ${target.length}.`
-      );
-    } else if (maxSize !== Infinity) {
-      return (
-        `Expected the ${lookupPath.asString()} array to have between ${minSize} and ${maxSize} entries, ` +
-        `but found ${target.length}.`
-      );
-    } else {
-      return (
-        `Expected the ${lookupPath.asString()} array to have at least ` +
-        `${minSize} ${minSize === 1 ? 'entry' : 'entries'}, but found ${target.length}.`
-      );
-    }
+  if (target.length < minSize || (maxSize !== null && target.length > maxSize)) {
+    return {
+      id: 'tuple_size_mismatch',
+      params: { path: lookupPath.asString(), min: minSize, max: maxSize, actual: target.length },
+    };
   }
 
   return null;
@@ -1,17 +1,37 @@
 import type { LookupPath } from './LookupPath.js';
 import type { UnionRule } from '../types/validationRules.js';
-import { match, type MatchResponse, type CheckFnResponse } from './ruleMatcherTools.js';
+import { match, type MatchResponse, type CheckFnResponse, type MatchOpts } from './ruleMatcherTools.js';
 import type { InterpolatedValue } from '../types/validator.js';
+import { lookupUnionDispatchTable, selectUnionVariant } from './discriminatedUnions.js';
+import { throwIndexOutOfBounds } from '../util.js';
 
 export function unionCheck(
   rule: UnionRule,
   target: unknown,
   interpolated: readonly InterpolatedValue[],
   lookupPath: LookupPath,
+  opts: MatchOpts,
 ): CheckFnResponse {
+  // Union variants are always matched without collecting every failure.
+  // A union failure gets reported as a single issue, and the error-pruning algorithm
+  // used to build that issue expects each variant to report, at most, one chain of failures.
+  const variantOpts = opts.collectAll ? { ...opts, collectAll: false } : opts;
+
+  // With discriminated unions, the target's discriminant tells us which variant it's supposed to match,
+  // in which case, that variant is the only one that gets checked (and reported on).
+  const dispatchTable = lookupUnionDispatchTable(rule);
+  const selectedVariantIndex = dispatchTable === null ? null : selectUnionVariant(dispatchTable, target);
+  if (selectedVariantIndex !== null) {
+    const variantRule = rule.variants[selectedVariantIndex] ?? throwIndexOutOfBounds();
+    const variantMatchResponse = match(variantRule, target, interpolated, lookupPath, variantOpts);
+    return variantMatchResponse.failed()
+      ? [{ matchResponse: variantMatchResponse, deep: 'INHERIT' }]
+      : [];
+  }
+
   const matchResponses: MatchResponse[] = [];
   for (const variantRule of rule.variants) {
-    const variantMatchResponse = match(variantRule, target, interpolated, lookupPath);
+    const variantMatchResponse = match(variantRule, target, interpolated, lookupPath, variantOpts);
     if (!variantMatchResponse.failed()) {
       return [];
     }
@@ -1,5 +1,6 @@
-import type { PropertyRuleContentValue, PropertyRuleIndexValue, Rule, Ruleset } from './types/validationRules.js';
+import type { PropertyRuleContentValue, PropertyRuleIndexValue, Rule, Ruleset, SizeConstraint } from './types/validationRules.js';
 import { UnreachableCaseError, FrozenMap } from './util.js';
+import { lookupUnionDispatchTable } from './ruleEnforcer/discriminatedUnions.js';
 
 interface FreezeRuleSetOpts {
   readonly assumeRootRuleIsDeepFrozen: boolean
@@ -14,7 +15,7 @@ export function freezeRuleset(ruleset: Ruleset, opts?: FreezeRuleSetOpts): Rules
   });
 }
 
-function freezeRule(rule: Rule): Rule {
+export function freezeRule(rule: Rule): Rule {
   if (rule.category === 'simple') {
     return f({
       category: rule.category,
@@ -25,6 +26,22 @@ function freezeRule(rule: Rule): Rule {
       category: rule.category,
       value: rule.value,
     });
+  } else if (rule.category === 'numericConstraint') {
+    return f({
+      category: rule.category,
+      type: rule.type,
+      integer: rule.integer,
+      minimum: rule.minimum === null ? null : f({ value: rule.minimum.value, exclusive: rule.minimum.exclusive }),
+      maximum: rule.maximum === null ? null : f({ value: rule.maximum.value, exclusive: rule.maximum.exclusive }),
+    });
+  } else if (rule.category === 'stringConstraint') {
+    return f({
+      category: rule.category,
+      minLength: rule.minLength,
+      maxLength: rule.maxLength,
+      lengthUnit: rule.lengthUnit,
+      pattern: rule.pattern === null ? null : f({ source: rule.pattern.source, flags: rule.pattern.flags }),
+    });
   } else if (rule.category === 'noop') {
     return f({
       category: rule.category,
@@ -50,11 +67,15 @@ function freezeRule(rule: Rule): Rule {
           .map(([k, v]) => f([k, freezeContentValue(v)])),
       ),
       index: rule.index === null ? null : freezeIndexValue(rule.index),
+      exact: rule.exact ?? false,
+      ownPropertiesOnly: rule.ownPropertiesOnly ?? false,
+      size: freezeSizeConstraint(rule.size),
     });
   } else if (rule.category === 'array') {
     return f({
       category: rule.category,
       content: freezeRule(rule.content),
+      size: freezeSizeConstraint(rule.size),
     });
   } else if (rule.category === 'tuple') {
     return f({
@@ -63,18 +84,36 @@ function freezeRule(rule: Rule): Rule {
       optionalContent: f(rule.optionalContent.map(entry => freezeRule(entry))),
       rest: rule.rest === null ? null : freezeRule(rule.rest),
       entryLabels: rule.entryLabels === null ? null : f(rule.entryLabels),
+      size: freezeSizeConstraint(rule.size),
     });
   } else if (rule.category === 'iterable') {
     return f({
       category: rule.category,
       iterableType: freezeRule(rule.iterableType),
       entryType: freezeRule(rule.entryType),
+      size: freezeSizeConstraint(rule.size),
     });
-  } else if (rule.category === 'union') {
+  } else if (rule.category === 'map') {
+    return f({
+      category: rule.category,
+      keyType: freezeRule(rule.keyType),
+      valueType: freezeRule(rule.valueType),
+      size: freezeSizeConstraint(rule.size),
+    });
+  } else if (rule.category === 'set') {
     return f({
+      category: rule.category,
+      entryType: freezeRule(rule.entryType),
+      size: freezeSizeConstraint(rule.size),
+    });
+  } else if (rule.category === 'union') {
+    const frozenRule = f({
       category: rule.category,
       variants: f(rule.variants.map(variant => freezeRule(variant))),
     });
+    // Discriminated unions get their dispatch table built up front, instead of while a value is being matched.
+    lookupUnionDispatchTable(frozenRule);
+    return frozenRule;
   } else if (rule.category === 'intersection') {
     return f({
       category: rule.category,
@@ -84,12 +123,25 @@ function freezeRule(rule: Rule): Rule {
     return f({
       category: rule.category,
       interpolationIndex: rule.interpolationIndex,
+      typeArguments: rule.typeArguments === undefined || rule.typeArguments === null
+        ? null
+        : f(rule.typeArguments.map(typeArgument => freezeRule(typeArgument))),
+    });
+  } else if (rule.category === 'templateLiteral') {
+    return f({
+      category: rule.category,
+      textSegments: f(rule.textSegments),
+      ruleSegments: f(rule.ruleSegments.map(segment => freezeRule(segment))),
     });
   } else {
     throw new UnreachableCaseError(rule);
   }
 }
 
+function freezeSizeConstraint(size: SizeConstraint | null | undefined): SizeConstraint | null {
+  return size === undefined || size === null ? null : f({ min: size.min, max: size.max });
+}
+
 /** shallow-copy-and-freeze function */
 const f = <T>(objOrArray: T): T => {
   if (Object.isFrozen(objOrArray)) {
@@ -3,22 +3,41 @@ import { createTokenStream, isIdentifier } from './tokenStream.js';
 import { packagePrivate } from '../packagePrivateAccess.js';
 import {
   type Rule,
+  type NumericBound,
+  type NumericConstraintRule,
+  type StringConstraintRule,
+  type StringPattern,
+  type SizeConstraint,
+  type MapRule,
+  type SetRule,
   type PropertyRuleContentValue,
   type SimpleTypeVariant,
   type PropertyRuleIndexValue,
   _validationRulesInternals,
 } from '../types/validationRules.js';
 import type { TokenStream } from '../types/tokenizer.js';
+import type { TextRange } from './TextPosition.js';
 import { assert, UnreachableCaseError, FrozenMap, reprUnknownValue } from '../util.js';
 import type { InterpolatedValue } from '../types/validator.js';
 
-const { allSimpleTypes, checkDynamicPropertyName } = _validationRulesInternals[packagePrivate];
+const { allSimpleTypes, checkDynamicPropertyName, checkStringPattern } = _validationRulesInternals[packagePrivate];
 
 export { isIdentifier, ValidatorSyntaxError };
 
+interface ParseOpts {
+  // When parsing the rules of a generic, each type parameter name will be parsed as an interpolation rule,
+  // using the type parameter's position as its interpolation index.
+  readonly typeParameters?: readonly string[]
+}
+
 /** Returns a yet-to-be-frozen rule */
-export function parse(parts: readonly string[], interpolated: readonly InterpolatedValue[]): Rule {
-  const tokenStream = createTokenStream(parts, interpolated);
+export function parse(parts: readonly string[], interpolated: readonly InterpolatedValue[], opts: ParseOpts = {}): Rule {
+  const typeParameters = opts.typeParameters ?? [];
+  const tokenStream = createTokenStream(
+    parts,
+    interpolated,
+    name => typeParameters.includes(name) ? typeParameters.indexOf(name) : null,
+  );
   if (tokenStream.peek().category === 'eof') {
     throw createValidatorSyntaxError('The validator had no content.');
   }
@@ -33,6 +52,172 @@ export function parse(parts: readonly string[], interpolated: readonly Interpola
   return rule;
 }
 
+export interface TypeDeclaration {
+  readonly name: string
+  readonly interpolationIndex: number
+  /** A yet-to-be-frozen rule */
+  readonly rule: Rule
+}
+
+/**
+ * Parses a series of type declarations, e.g. `type A = string; type B = A[]`.
+ * A declared type may be referenced from any of the declarations (including its own),
+ * and each reference gets parsed as an interpolation rule that points past the end of the interpolated array.
+ * The returned declarations are ordered by these interpolation indices,
+ * i.e. the first declaration uses an index of `interpolated.length`, the next uses the index after that, and so on.
+ */
+export function parseTypeDeclarations(
+  parts: readonly string[],
+  interpolated: readonly InterpolatedValue[],
+): TypeDeclaration[] {
+  // Names are given an interpolation index the first time they're seen, which might be before they're declared.
+  const nameToIndex = new Map<string, number>();
+  const firstReferences = new Map<string, TextRange>();
+  const indexForName = (name: string): number => {
+    let index = nameToIndex.get(name);
+    if (index === undefined) {
+      index = interpolated.length + nameToIndex.size;
+      nameToIndex.set(name, index);
+    }
+    return index;
+  };
+
+  const tokenStream = createTokenStream(parts, interpolated, (name, range) => {
+    if (!firstReferences.has(name)) {
+      firstReferences.set(name, range);
+    }
+    return indexForName(name);
+  });
+
+  if (tokenStream.peek().category === 'eof') {
+    throw createValidatorSyntaxError('The validator had no content.');
+  }
+
+  const declarations = new Map<string, { rule: Rule, nameRange: TextRange }>();
+  while (tokenStream.peek().category !== 'eof') {
+    const keywordToken = tokenStream.next();
+    if (keywordToken.value !== 'type') {
+      throw createValidatorSyntaxError(
+        'Expected a type declaration, e.g. `type Name = string`.',
+        tokenStream.originalText,
+        keywordToken.range,
+      );
+    }
+
+    const nameToken = tokenStream.next();
+    if (nameToken.category !== 'identifier') {
+      throw createValidatorSyntaxError('Expected a name for the declared type.', tokenStream.originalText, nameToken.range);
+    }
+    const name = nameToken.value;
+    if (isReservedTypeName(name)) {
+      throw createValidatorSyntaxError(
+        `Can not declare a type named ${reprUnknownValue(name)}, as that name already has a meaning.`,
+        tokenStream.originalText,
+        nameToken.range,
+      );
+    }
+    if (declarations.has(name)) {
+      throw createValidatorSyntaxError(`Duplicate type name ${reprUnknownValue(name)} found.`, tokenStream.originalText, nameToken.range);
+    }
+
+    const equalsToken = tokenStream.next();
+    if (equalsToken.value !== '=') {
+      throw createValidatorSyntaxError(
+        'Expected an equals sign (`=`) after the name of the declared type.',
+        tokenStream.originalText,
+        equalsToken.range,
+      );
+    }
+
+    indexForName(name);
+    const rule = parseRuleAtPrecedence1(tokenStream);
+    declarations.set(name, { rule, nameRange: nameToken.range });
+
+    const separatorToken = tokenStream.peek();
+    if (separatorToken.value === ';') {
+      tokenStream.next();
+    } else if (separatorToken.category !== 'eof' && !separatorToken.afterNewline) {
+      throw createValidatorSyntaxError(
+        'Expected a semicolon (`;`) or a new line to end the type declaration.',
+        tokenStream.originalText,
+        separatorToken.range,
+      );
+    }
+  }
+
+  for (const [name, range] of firstReferences) {
+    if (!declarations.has(name)) {
+      throw createValidatorSyntaxError(
+        `Found a reference to ${reprUnknownValue(name)}, which was never declared.`,
+        tokenStream.originalText,
+        range,
+      );
+    }
+  }
+
+  const result = [...declarations.entries()]
+    .map(([name, { rule }]) => ({ name, interpolationIndex: indexForName(name), rule }))
+    .sort((a, b) => a.interpolationIndex - b.interpolationIndex);
+
+  const circularName = findCircularTypeDeclaration(result);
+  if (circularName !== null) {
+    throw createValidatorSyntaxError(
+      `The type ${reprUnknownValue(circularName)} circularly references itself.`,
+      tokenStream.originalText,
+      declarations.get(circularName)?.nameRange,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * A declared type may only reference itself from within a nested value (such as a property, or an array entry).
+ * Anything else (e.g. `type A = A | string`) would cause the validator to check the same value against the same
+ * rule forever. Returns the name of the first declaration that is part of such a cycle, or null if there are none.
+ */
+function findCircularTypeDeclaration(declarations: readonly TypeDeclaration[]): string | null {
+  const byIndex = new Map(declarations.map(declaration => [declaration.interpolationIndex, declaration]));
+
+  // Collects the declarations that would be used to check the same value the rule is checking.
+  const directReferencesIn = (rule: Rule): TypeDeclaration[] => {
+    if (rule.category === 'union' || rule.category === 'intersection') {
+      return rule.variants.flatMap(variant => directReferencesIn(variant));
+    } else if (rule.category === 'templateLiteral') {
+      return rule.ruleSegments.flatMap(segment => directReferencesIn(segment));
+    } else if (rule.category === 'iterable') {
+      return directReferencesIn(rule.iterableType);
+    } else if (rule.category === 'property') {
+      return rule.index === null ? [] : directReferencesIn(rule.index.key);
+    } else if (rule.category === 'interpolation') {
+      const declaration = byIndex.get(rule.interpolationIndex);
+      return declaration === undefined ? [] : [declaration];
+    } else {
+      return [];
+    }
+  };
+
+  const isPartOfCycle = (start: TypeDeclaration): boolean => {
+    const visited = new Set<TypeDeclaration>();
+    const toVisit = directReferencesIn(start.rule);
+    while (toVisit.length > 0) {
+      const declaration = toVisit.pop() as TypeDeclaration;
+      if (declaration === start) return true;
+      if (visited.has(declaration)) continue;
+      visited.add(declaration);
+      toVisit.push(...directReferencesIn(declaration.rule));
+    }
+    return false;
+  };
+
+  return declarations.find(declaration => isPartOfCycle(declaration))?.name ?? null;
+}
+
+/** Returns true for names that already have a meaning in the validator syntax, such as `string`. */
+export function isReservedTypeName(name: string): boolean {
+  return ['unknown', 'any', 'true', 'false', 'type', 'integer', 'Map', 'Set', ...allSimpleTypes].includes(name);
+}
+
 function parseRuleAtPrecedence1(tokenStream: TokenStream): Rule {
   if (tokenStream.peek().category === 'eof') {
     throw createValidatorSyntaxError('Unexpected EOF.', tokenStream.originalText, tokenStream.peek().range);
@@ -40,7 +225,8 @@ function parseRuleAtPrecedence1(tokenStream: TokenStream): Rule {
 
   const rule: Rule = parseRuleAtPrecedence2(tokenStream);
 
-  if (tokenStream.peek().value === '|') {
+  // A `|}` closes an exact object, it doesn't continue the union.
+  if (tokenStream.peek().value === '|' && tokenStream.peek(2).value !== '}') {
     tokenStream.next();
     const nextRule = parseRuleAtPrecedence1(tokenStream);
 
@@ -84,6 +270,9 @@ function parseRuleAtPrecedence2(tokenStream: TokenStream): Rule {
       tokenStream.next();
     } else if (tokenStream.peek().value === '[' && !tokenStream.peek().afterNewline) {
       tokenStream.next();
+      // Array sizes are written inside of the brackets, e.g. `string[1..20]`.
+      const isAtSizeConstraint = tokenStream.peek().category === 'number' || tokenStream.peek().value === '..';
+      const size = isAtSizeConstraint ? parseSizeConstraint(tokenStream) : null;
       if (tokenStream.peek().value !== ']') {
         throw createValidatorSyntaxError('Expected a `]` to close the opening `[`.', tokenStream.originalText, tokenStream.peek().range);
       }
@@ -91,7 +280,30 @@ function parseRuleAtPrecedence2(tokenStream: TokenStream): Rule {
       rule = {
         category: 'array',
         content: rule,
+        size,
       };
+    } else if (
+      tokenStream.peek().value === '(' &&
+      !tokenStream.peek().afterNewline &&
+      (
+        rule.category === 'property' ||
+        rule.category === 'tuple' ||
+        rule.category === 'iterable' ||
+        rule.category === 'map' ||
+        rule.category === 'set'
+      )
+    ) {
+      // Other sizes are written inside of parentheses, e.g. `{ [key: string]: number }(..50)`.
+      const openingParenToken = tokenStream.next();
+      if (rule.size !== undefined && rule.size !== null) {
+        throw createValidatorSyntaxError('A size constraint was already provided.', tokenStream.originalText, openingParenToken.range);
+      }
+      const size = parseSizeConstraint(tokenStream);
+      const closingParenToken = tokenStream.next();
+      if (closingParenToken.value !== ')') {
+        throw createValidatorSyntaxError('Expected to find a closing parentheses (`)`) here.', tokenStream.originalText, closingParenToken.range);
+      }
+      rule = { ...rule, size };
     } else {
       break;
     }
@@ -133,13 +345,9 @@ function parseRuleAtPrecedence3(tokenStream: TokenStream): Rule {
       value: parseNumber(tokenStream, { sign: sign ?? '+' }),
     };
   } else if (token.category === 'bigint') {
-    tokenStream.next();
-    assert(token.value.at(-1) === 'n');
-    const numberWithoutSuffix = token.value.slice(0, -1);
-    const factor = sign === '-' ? -1n : 1n;
     return {
       category: 'primitiveLiteral',
-      value: BigInt(numberWithoutSuffix) * factor,
+      value: parseBigInt(tokenStream, { sign: sign ?? '+' }),
     };
   } else if ((['true', 'false'] as unknown[]).includes(token.value)) {
     tokenStream.next();
@@ -153,6 +361,10 @@ function parseRuleAtPrecedence3(tokenStream: TokenStream): Rule {
       category: 'primitiveLiteral',
       value: token.parsedValue,
     };
+  } else if (token.category === 'identifier' && token.value === 'own' && tokenStream.peek(2).value === '{') {
+    // `own { ... }` only considers the object's own properties.
+    tokenStream.next();
+    return parsePropertyRule(tokenStream, { ownPropertiesOnly: true });
   } else if (token.category === 'identifier') {
     return parseSimpleTypeOrNoop(tokenStream);
   } else if (token.category === 'interpolation') {
@@ -161,6 +373,7 @@ function parseRuleAtPrecedence3(tokenStream: TokenStream): Rule {
     return {
       category: 'interpolation',
       interpolationIndex: interpolationToken.interpolationIndex,
+      typeArguments: tokenStream.peek().value === '<' ? parseTypeArguments(tokenStream) : null,
     };
   } else if (token.value === '(') {
     tokenStream.next();
@@ -171,9 +384,11 @@ function parseRuleAtPrecedence3(tokenStream: TokenStream): Rule {
     }
     return rule;
   } else if (token.value === '{') {
-    return parsePropertyRule(tokenStream);
+    return parsePropertyRule(tokenStream, { ownPropertiesOnly: false });
   } else if (token.value === '[') {
     return parseTuple(tokenStream);
+  } else if (token.value === '`') {
+    return parseTemplateLiteral(tokenStream);
   } else {
     throw createValidatorSyntaxError('Expected to find a type here.', tokenStream.originalText, tokenStream.peek().range);
   }
@@ -184,22 +399,382 @@ function parseSimpleTypeOrNoop(tokenStream: TokenStream): Rule {
   assert(token.category === 'identifier');
 
   const identifier = token.value;
+  const isAtConstraintList = tokenStream.peek().value === '(' && !tokenStream.peek().afterNewline;
   if (identifier === 'unknown' || identifier === 'any') {
     return {
       category: 'noop',
     };
+  } else if (identifier === 'integer') {
+    return parseNumericConstraintRule(tokenStream, { type: 'number', integer: true });
+  } else if ((identifier === 'number' || identifier === 'bigint') && isAtConstraintList) {
+    return parseNumericConstraintRule(tokenStream, { type: identifier, integer: false });
+  } else if (identifier === 'string' && isAtConstraintList) {
+    return parseStringConstraintRule(tokenStream);
+  } else if (identifier === 'Map' || identifier === 'Set') {
+    return parseMapOrSetRule(tokenStream, identifier);
   } else if ((allSimpleTypes as string[]).includes(identifier)) {
     return {
       category: 'simple',
       type: identifier as SimpleTypeVariant,
     };
+  }
+
+  const interpolationIndex = tokenStream.lookupTypeName(identifier, token.range);
+  if (interpolationIndex !== null) {
+    return {
+      category: 'interpolation',
+      interpolationIndex,
+      typeArguments: null,
+    };
+  }
+
+  throw createValidatorSyntaxError('Expected to find a type here.', tokenStream.originalText, token.range);
+}
+
+/**
+ * Parses the optional list of constraints that follows `number`, `bigint`, or `integer`, e.g. `number(>0, <=100)`.
+ * Each constraint is either a range (`0..100`, `0..`, or `..100`), or a comparison (`>0`, `>=0`, `<100`, or `<=100`).
+ */
+function parseNumericConstraintRule(
+  tokenStream: TokenStream,
+  { type, integer }: { readonly type: 'number' | 'bigint', readonly integer: boolean },
+): NumericConstraintRule {
+  let minimum: NumericBound | null = null;
+  let maximum: NumericBound | null = null;
+  if (tokenStream.peek().value !== '(' || tokenStream.peek().afterNewline) {
+    return { category: 'numericConstraint', type, integer, minimum, maximum };
+  }
+
+  const openParenToken = tokenStream.next();
+  while (true) {
+    const beforeConstraintPos = tokenStream.peek().range.start;
+    const bounds = parseNumericConstraint(tokenStream, type);
+    const constraintRange = { start: beforeConstraintPos, end: tokenStream.last().range.end };
+
+    if (bounds.minimum !== undefined) {
+      if (minimum !== null) {
+        throw createValidatorSyntaxError('A lower bound was already provided.', tokenStream.originalText, constraintRange);
+      }
+      minimum = bounds.minimum;
+    }
+    if (bounds.maximum !== undefined) {
+      if (maximum !== null) {
+        throw createValidatorSyntaxError('An upper bound was already provided.', tokenStream.originalText, constraintRange);
+      }
+      maximum = bounds.maximum;
+    }
+
+    const separatorToken = tokenStream.next();
+    if (separatorToken.value === ')') {
+      break;
+    } else if (separatorToken.value !== ',') {
+      throw createValidatorSyntaxError(
+        'Expected a comma (`,`) or a closing parentheses (`)`).',
+        tokenStream.originalText,
+        separatorToken.range,
+      );
+    }
+  }
+
+  if (minimum !== null && maximum !== null && minimum.value > maximum.value) {
+    throw createValidatorSyntaxError(
+      'The lower bound can not be greater than the upper bound.',
+      tokenStream.originalText,
+      { start: openParenToken.range.start, end: tokenStream.last().range.end },
+    );
+  }
+
+  return { category: 'numericConstraint', type, integer, minimum, maximum };
+}
+
+function parseNumericConstraint(
+  tokenStream: TokenStream,
+  type: 'number' | 'bigint',
+): { readonly minimum?: NumericBound, readonly maximum?: NumericBound } {
+  const token = tokenStream.peek();
+  if (token.value === '..') {
+    tokenStream.next();
+    return { maximum: { value: parseNumericBound(tokenStream, type), exclusive: false } };
+  } else if (token.value === '>' || token.value === '<') {
+    tokenStream.next();
+    const inclusive = tokenStream.peek().value === '=';
+    if (inclusive) {
+      tokenStream.next();
+    }
+    const bound = { value: parseNumericBound(tokenStream, type), exclusive: !inclusive };
+    return token.value === '>' ? { minimum: bound } : { maximum: bound };
+  }
+
+  const minimum = { value: parseNumericBound(tokenStream, type), exclusive: false };
+  const rangeToken = tokenStream.next();
+  if (rangeToken.value !== '..') {
+    throw createValidatorSyntaxError(
+      'Expected a range operator (`..`) to follow the lower bound, e.g. `0..100`.',
+      tokenStream.originalText,
+      rangeToken.range,
+    );
+  }
+
+  if ([',', ')'].includes(tokenStream.peek().value as string)) {
+    return { minimum };
+  }
+  return { minimum, maximum: { value: parseNumericBound(tokenStream, type), exclusive: false } };
+}
+
+/**
+ * Parses a bound of a numeric constraint - a possibly-signed number (or bigint) literal,
+ * optionally raised to a power, e.g. `-2**53`. The sign applies to the result of the exponentiation.
+ */
+function parseNumericBound(tokenStream: TokenStream, type: 'number' | 'bigint'): number | bigint {
+  const beforeBoundPos = tokenStream.peek().range.start;
+  let sign: '+' | '-' = '+';
+  if ((['-', '+'] as unknown[]).includes(tokenStream.peek().value)) {
+    sign = tokenStream.next().value as '+' | '-';
+  }
+
+  const parseLiteral = (): number | bigint => {
+    const token = tokenStream.peek();
+    if (type === 'number' && token.category === 'number') {
+      return parseNumber(tokenStream, { sign: '+' });
+    } else if (type === 'bigint' && token.category === 'bigint') {
+      return parseBigInt(tokenStream, { sign: '+' });
+    } else {
+      const expected = type === 'number' ? 'a number, e.g. `100`' : 'a bigint, e.g. `100n`';
+      throw createValidatorSyntaxError(`Expected ${expected}.`, tokenStream.originalText, token.range);
+    }
+  };
+
+  let value = parseLiteral();
+  if (tokenStream.peek().value === '**') {
+    tokenStream.next();
+    const exponent = parseLiteral();
+    value = typeof value === 'bigint' ? value ** (exponent as bigint) : value ** (exponent as number);
+  }
+
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw createValidatorSyntaxError(
+      'This number is too large to be represented.',
+      tokenStream.originalText,
+      { start: beforeBoundPos, end: tokenStream.last().range.end },
+    );
+  }
+
+  if (sign === '+') {
+    return value;
+  }
+  return -value;
+}
+
+/**
+ * Parses the list of constraints that follows `string`, e.g. `string(1..64, /^[a-z]+$/i)`.
+ * Each constraint is either a length range (optionally followed by `graphemes`), or a regular expression literal.
+ */
+function parseStringConstraintRule(tokenStream: TokenStream): StringConstraintRule {
+  assert(tokenStream.next().value === '(');
+  const rule = {
+    category: 'stringConstraint' as const,
+    minLength: null as number | null,
+    maxLength: null as number | null,
+    lengthUnit: 'codePoints' as StringConstraintRule['lengthUnit'],
+    pattern: null as StringPattern | null,
+  };
+
+  let lengthProvided = false;
+  while (true) {
+    const beforeConstraintPos = tokenStream.peek().range.start;
+    if (tokenStream.peek().category === 'regExp') {
+      const pattern = parseStringPattern(tokenStream);
+      if (rule.pattern !== null) {
+        throw createValidatorSyntaxError('A pattern was already provided.', tokenStream.originalText, tokenStream.last().range);
+      }
+      rule.pattern = pattern;
+    } else {
+      const { minLength, maxLength } = parseLengthRange(tokenStream);
+      const rangeRange = { start: beforeConstraintPos, end: tokenStream.last().range.end };
+      if (lengthProvided) {
+        throw createValidatorSyntaxError('A length was already provided.', tokenStream.originalText, rangeRange);
+      }
+      if (minLength !== null && maxLength !== null && minLength > maxLength) {
+        throw createValidatorSyntaxError(
+          'The minimum length can not be greater than the maximum length.',
+          tokenStream.originalText,
+          rangeRange,
+        );
+      }
+      lengthProvided = true;
+      rule.minLength = minLength;
+      rule.maxLength = maxLength;
+
+      if (tokenStream.peek().value === 'graphemes') {
+        tokenStream.next();
+        rule.lengthUnit = 'graphemes';
+      }
+    }
+
+    const separatorToken = tokenStream.next();
+    if (separatorToken.value === ')') {
+      break;
+    } else if (separatorToken.value !== ',') {
+      throw createValidatorSyntaxError(
+        'Expected a comma (`,`) or a closing parentheses (`)`).',
+        tokenStream.originalText,
+        separatorToken.range,
+      );
+    }
+  }
+
+  return rule;
+}
+
+/** Parses a size range, e.g. `1..20`, `1..`, or `..20`. */
+function parseSizeConstraint(tokenStream: TokenStream): SizeConstraint {
+  const startPos = tokenStream.peek().range.start;
+  const parseSize = (): number => {
+    const token = tokenStream.peek();
+    const value = token.category === 'number' ? parseNumber(tokenStream, { sign: '+' }) : NaN;
+    if (!Number.isInteger(value)) {
+      throw createValidatorSyntaxError('Expected a size (a non-negative integer), e.g. `20`.', tokenStream.originalText, token.range);
+    }
+    return value;
+  };
+
+  const min = tokenStream.peek().value === '..' ? null : parseSize();
+  const rangeToken = tokenStream.next();
+  if (rangeToken.value !== '..') {
+    throw createValidatorSyntaxError(
+      'Expected a range operator (`..`) to follow the minimum size, e.g. `1..20`.',
+      tokenStream.originalText,
+      rangeToken.range,
+    );
+  }
+
+  const isAtRangeEnd = [']', ')'].includes(tokenStream.peek().value as string);
+  const max = isAtRangeEnd ? null : parseSize();
+  if (min !== null && max !== null && min > max) {
+    throw createValidatorSyntaxError(
+      'The minimum size can not be greater than the maximum size.',
+      tokenStream.originalText,
+      { start: startPos, end: tokenStream.last().range.end },
+    );
+  }
+
+  return { min, max };
+}
+
+/** Parses a length range, e.g. `1..64`, `1..`, or `..64`. */
+function parseLengthRange(tokenStream: TokenStream): { minLength: number | null, maxLength: number | null } {
+  const parseLength = (): number => {
+    const token = tokenStream.peek();
+    const value = token.category === 'number' ? parseNumber(tokenStream, { sign: '+' }) : NaN;
+    if (!Number.isInteger(value)) {
+      throw createValidatorSyntaxError(
+        'Expected a length (a non-negative integer), or a regular expression literal.',
+        tokenStream.originalText,
+        token.range,
+      );
+    }
+    return value;
+  };
+
+  const minLength = tokenStream.peek().value === '..' ? null : parseLength();
+  const rangeToken = tokenStream.next();
+  if (rangeToken.value !== '..') {
+    throw createValidatorSyntaxError(
+      'Expected a range operator (`..`) to follow the minimum length, e.g. `1..64`.',
+      tokenStream.originalText,
+      rangeToken.range,
+    );
+  }
+
+  const isAtRangeEnd = [',', ')', 'graphemes'].includes(tokenStream.peek().value as string);
+  return { minLength, maxLength: isAtRangeEnd ? null : parseLength() };
+}
+
+function parseStringPattern(tokenStream: TokenStream): StringPattern {
+  const regExpToken = tokenStream.next();
+  assert(regExpToken.category === 'regExp');
+  const closingSlashIndex = regExpToken.value.lastIndexOf('/');
+  const source = regExpToken.value.slice(1, closingSlashIndex);
+  const flags = regExpToken.value.slice(closingSlashIndex + 1);
+
+  const maybeErrorMessage = checkStringPattern(source, flags);
+  if (maybeErrorMessage !== undefined) {
+    throw createValidatorSyntaxError(maybeErrorMessage, tokenStream.originalText, regExpToken.range);
+  }
+
+  return { source, flags };
+}
+
+/** Parses the type arguments that follow `Map` or `Set`, e.g. `Map<string, number>`. */
+function parseMapOrSetRule(tokenStream: TokenStream, identifier: 'Map' | 'Set'): MapRule | SetRule {
+  const expectedCount = identifier === 'Map' ? 2 : 1;
+  const example = identifier === 'Map' ? '`Map<string, number>`' : '`Set<string>`';
+  if (tokenStream.peek().value !== '<') {
+    throw createValidatorSyntaxError(
+      `Expected type arguments to follow \`${identifier}\`, e.g. ${example}.`,
+      tokenStream.originalText,
+      tokenStream.peek().range,
+    );
+  }
+
+  const startPos = tokenStream.peek().range.start;
+  const typeArguments = parseTypeArguments(tokenStream);
+  if (typeArguments.length !== expectedCount) {
+    throw createValidatorSyntaxError(
+      `\`${identifier}\` expects ${expectedCount} type argument(s), e.g. ${example}, but received ${typeArguments.length}.`,
+      tokenStream.originalText,
+      { start: startPos, end: tokenStream.last().range.end },
+    );
+  }
+
+  const [firstTypeArgument, secondTypeArgument] = typeArguments;
+  assert(firstTypeArgument !== undefined);
+  if (identifier === 'Map') {
+    assert(secondTypeArgument !== undefined);
+    return { category: 'map', keyType: firstTypeArgument, valueType: secondTypeArgument, size: null };
   } else {
-    throw createValidatorSyntaxError('Expected to find a type here.', tokenStream.originalText, token.range);
+    return { category: 'set', entryType: firstTypeArgument, size: null };
   }
 }
 
-function parsePropertyRule(tokenStream: TokenStream): Rule {
+/** Parses a comma-separated list of rules, e.g. `<string, number>`, that follows an interpolated generic. */
+function parseTypeArguments(tokenStream: TokenStream): Rule[] {
+  assert(tokenStream.next().value === '<');
+
+  const typeArguments: Rule[] = [];
+  while (true) {
+    typeArguments.push(parseRuleAtPrecedence1(tokenStream));
+
+    const separatorToken = tokenStream.next();
+    if (separatorToken.value === '>') {
+      break;
+    } else if (separatorToken.value !== ',') {
+      throw createValidatorSyntaxError(
+        'Expected a comma (`,`) or a closing angled bracket (`>`).',
+        tokenStream.originalText,
+        separatorToken.range,
+      );
+    }
+  }
+
+  return typeArguments;
+}
+
+function parsePropertyRule(
+  tokenStream: TokenStream,
+  { ownPropertiesOnly }: { readonly ownPropertiesOnly: boolean },
+): Rule {
   assert(tokenStream.next().value === '{');
+  // Exact objects are written as `{| ... |}`.
+  const exact = tokenStream.peek().value === '|';
+  if (exact) {
+    tokenStream.next();
+  }
+
+  const isAtClosingBracket = (): boolean => exact
+    ? tokenStream.peek().value === '|' && tokenStream.peek(2).value === '}'
+    : tokenStream.peek().value === '}';
+
   const ruleTemplate = {
     category: 'property' as const,
     contentEntries: [] as Array<[string, PropertyRuleContentValue]>,
@@ -209,13 +784,22 @@ function parsePropertyRule(tokenStream: TokenStream): Rule {
   const foundKeys = new Set<string>();
 
   while (true) {
-    if (tokenStream.peek().value === '}') {
+    if (isAtClosingBracket()) {
+      if (exact) tokenStream.next();
       tokenStream.next();
       break;
     }
 
+    if (exact && tokenStream.peek().value === '}') {
+      throw createValidatorSyntaxError(
+        'Expected a `|}` to close the exact object that was opened with `{|`.',
+        tokenStream.originalText,
+        tokenStream.peek().range,
+      );
+    }
+
     const beforeKeyPos = tokenStream.peek().range.start;
-    const keyInfo = parseObjectKey(tokenStream);
+    const keyInfo = parseObjectKey(tokenStream, { exact });
     const keyRange = { start: beforeKeyPos, end: tokenStream.last().range.end };
 
     const colonToken = tokenStream.next();
@@ -263,8 +847,9 @@ function parsePropertyRule(tokenStream: TokenStream): Rule {
     const separatorToken = tokenStream.peek();
     if (([',', ';'] as unknown[]).includes(separatorToken.value)) {
       tokenStream.next();
-    } else if (separatorToken.value !== '}' && !separatorToken.afterNewline) {
-      throw createValidatorSyntaxError('Expected a comma (`,`) or closing bracket (`}`).', tokenStream.originalText, separatorToken.range);
+    } else if (!isAtClosingBracket() && !separatorToken.afterNewline) {
+      const closingBracket = exact ? '|}' : '}';
+      throw createValidatorSyntaxError(`Expected a comma (\`,\`) or closing bracket (\`${closingBracket}\`).`, tokenStream.originalText, separatorToken.range);
     }
   }
 
@@ -273,6 +858,8 @@ function parsePropertyRule(tokenStream: TokenStream): Rule {
     content: new FrozenMap(ruleTemplate.contentEntries),
     dynamicContent: new FrozenMap(ruleTemplate.dynamicContentEntries),
     index: ruleTemplate.index,
+    exact,
+    ownPropertiesOnly,
   };
 }
 
@@ -287,7 +874,7 @@ type ParseObjectKeyReturn = {
   readonly name: string
 };
 
-function parseObjectKey(tokenStream: TokenStream): ParseObjectKeyReturn {
+function parseObjectKey(tokenStream: TokenStream, { exact }: { readonly exact: boolean }): ParseObjectKeyReturn {
   if (tokenStream.peek().value === '[') {
     tokenStream.next();
     if (tokenStream.peek().category === 'interpolation') {
@@ -361,7 +948,8 @@ function parseObjectKey(tokenStream: TokenStream): ParseObjectKeyReturn {
       keyToken.category === 'string'
     );
     if (!isValidKey) {
-      throw createValidatorSyntaxError('Expected an object key or closing bracket (`}`).', tokenStream.originalText, keyToken.range);
+      const closingBracket = exact ? '|}' : '}';
+      throw createValidatorSyntaxError(`Expected an object key or closing bracket (\`${closingBracket}\`).`, tokenStream.originalText, keyToken.range);
     }
     const key = keyToken.category === 'string' ? keyToken.parsedValue : keyToken.value;
 
@@ -534,6 +1122,48 @@ function tryParseTupleEntryNameRegion(tokenStream: TokenStream): { name: string,
   return { name: entryNameToken.value, optional };
 }
 
+function parseTemplateLiteral(tokenStream: TokenStream): Rule {
+  assert(tokenStream.next().value === '`');
+
+  const textSegments: string[] = [];
+  const ruleSegments: Rule[] = [];
+  while (true) {
+    const textToken = tokenStream.next();
+    assert(textToken.category === 'templateText');
+    textSegments.push(textToken.parsedValue);
+
+    if (textToken.endsWith === 'templateEnd') {
+      break;
+    } else if (textToken.endsWith === 'interpolationPoint') {
+      const interpolationToken = tokenStream.next();
+      assert(interpolationToken.category === 'interpolation');
+      ruleSegments.push({
+        category: 'interpolation',
+        interpolationIndex: interpolationToken.interpolationIndex,
+        typeArguments: null,
+      });
+    } else if (textToken.endsWith === 'placeholderStart') {
+      ruleSegments.push(parseRuleAtPrecedence1(tokenStream));
+      const closingBraceToken = tokenStream.next();
+      if (closingBraceToken.value !== '}') {
+        throw createValidatorSyntaxError(
+          'Expected a `}` to close the `${` placeholder of the template literal type.',
+          tokenStream.originalText,
+          closingBraceToken.range,
+        );
+      }
+    } else {
+      throw new UnreachableCaseError(textToken.endsWith);
+    }
+  }
+
+  return {
+    category: 'templateLiteral',
+    textSegments,
+    ruleSegments,
+  };
+}
+
 function parseNumber(tokenStream: TokenStream, { sign }: { sign: '+' | '-' }): number {
   const numberToken = tokenStream.next();
   assert(numberToken.category === 'number');
@@ -557,3 +1187,11 @@ function parseNumber(tokenStream: TokenStream, { sign }: { sign: '+' | '-' }): n
   assert(!isNaN(value));
   return value;
 }
+
+function parseBigInt(tokenStream: TokenStream, { sign }: { sign: '+' | '-' }): bigint {
+  const bigintToken = tokenStream.next();
+  assert(bigintToken.category === 'bigint');
+  assert(bigintToken.value.at(-1) === 'n');
+  const numberWithoutSuffix = bigintToken.value.slice(0, -1);
+  return BigInt(numberWithoutSuffix) * (sign === '-' ? -1n : 1n);
+}
@@ -1,6 +1,6 @@
 import { createValidatorSyntaxError, type ValidatorSyntaxError } from './parseExceptions.js';
 import { TextPosition, type TextRange, END_OF_TEXT, INTERPOLATION_POINT } from './TextPosition.js';
-import type { Token, TokenStream } from '../types/tokenizer.js';
+import type { TemplateTextToken, Token, TokenStream } from '../types/tokenizer.js';
 import { assert, throwIndexOutOfBounds, UnreachableCaseError } from '../util.js';
 import type { InterpolatedValue } from '../types/validator.js';
 
@@ -13,7 +13,29 @@ interface ExtractResult {
   readonly range: TextRange
 }
 
-export function createTokenStream(sections: readonly string[], interpolated: readonly InterpolatedValue[]): TokenStream {
+/**
+ * Template literal types change how the text gets tokenized.
+ * This stack keeps track of how deeply nested we currently are within them.
+ * * 'templateText' means we're reading the literal text portion of a template literal type.
+ * * 'templatePlaceholder' means we're inside of a `${…}` placeholder found in a template literal type,
+ *   and `braceDepth` tracks how many unclosed `{` have been found inside of it.
+ * * 'templateInterpolation' means the literal text was interrupted by an interpolation point,
+ *   and the very next token is expected to be that interpolation.
+ * Tokens are always extracted in order, so this context stays correct, even when tokens get peeked at.
+ */
+type LexerContext =
+  | { readonly kind: 'templateText' }
+  | { readonly kind: 'templatePlaceholder', braceDepth: number }
+  | { readonly kind: 'templateInterpolation' };
+
+export function createTokenStream(
+  sections: readonly string[],
+  interpolated: readonly InterpolatedValue[],
+  lookupTypeName: (name: string, range: TextRange) => number | null = () => null,
+): TokenStream {
+  const contextStack: LexerContext[] = [];
+  const getNextToken = (startingPos: TextPosition): Token => getNextTokenInContext(sections, startingPos, contextStack);
+
   let tokenStack: [Token, Token, Token, Token];
   {
     const beforeTextToken: Token = {
@@ -23,9 +45,9 @@ export function createTokenStream(sections: readonly string[], interpolated: rea
       range: { start: TextPosition.atStartPos(sections), end: TextPosition.atStartPos(sections) },
     };
 
-    const firstToken = getNextToken(sections, TextPosition.atStartPos(sections));
-    const secondToken = getNextToken(sections, firstToken.range.end);
-    const thirdToken = getNextToken(sections, secondToken.range.end);
+    const firstToken = getNextToken(TextPosition.atStartPos(sections));
+    const secondToken = getNextToken(firstToken.range.end);
+    const thirdToken = getNextToken(secondToken.range.end);
 
     tokenStack = [beforeTextToken, firstToken, secondToken, thirdToken];
   }
@@ -33,6 +55,7 @@ export function createTokenStream(sections: readonly string[], interpolated: rea
   return Object.freeze({
     originalText: sections,
     interpolated,
+    lookupTypeName,
     last() {
       return tokenStack[0];
     },
@@ -41,7 +64,7 @@ export function createTokenStream(sections: readonly string[], interpolated: rea
         tokenStack[1],
         tokenStack[2],
         tokenStack[3],
-        getNextToken(sections, tokenStack[3].range.end),
+        getNextToken(tokenStack[3].range.end),
       ];
       return tokenStack[0];
     },
@@ -218,6 +241,119 @@ function extractNumber(sections: readonly string[], startPos: TextPosition): Ext
   );
 }
 
+/**
+ * Extracts the next token, while updating the lexer context stack
+ * as template literal types are entered and exited.
+ */
+function getNextTokenInContext(
+  sections: readonly string[],
+  startingPos: TextPosition,
+  contextStack: LexerContext[],
+): Token {
+  const context = contextStack.at(-1);
+  if (context?.kind === 'templateText') {
+    const token = extractTemplateText(sections, startingPos);
+    if (token.endsWith === 'templateEnd') {
+      contextStack.pop();
+    } else if (token.endsWith === 'placeholderStart') {
+      contextStack.push({ kind: 'templatePlaceholder', braceDepth: 0 });
+    } else if (token.endsWith === 'interpolationPoint') {
+      contextStack.push({ kind: 'templateInterpolation' });
+    } else {
+      throw new UnreachableCaseError(token.endsWith);
+    }
+    return token;
+  }
+
+  const token = getNextToken(sections, startingPos);
+  if (context?.kind === 'templateInterpolation') {
+    assert(token.category === 'interpolation');
+    contextStack.pop();
+  } else if (context?.kind === 'templatePlaceholder' && token.value === '{') {
+    context.braceDepth++;
+  } else if (context?.kind === 'templatePlaceholder' && token.value === '}') {
+    if (context.braceDepth === 0) {
+      contextStack.pop();
+    } else {
+      context.braceDepth--;
+    }
+  }
+
+  if (token.value === '`') {
+    contextStack.push({ kind: 'templateText' });
+  }
+
+  return token;
+}
+
+/**
+ * Extracts the literal text found inside of a template literal type,
+ * up until the closing backtick, the start of a `${…}` placeholder, or an interpolation point.
+ * Whatever caused the text to end gets included in the token (except for interpolation points).
+ *
+ * Because this text is usually written inside of a JavaScript template literal,
+ * the backticks and placeholders may optionally be escaped (e.g. "\`" and "\${").
+ */
+function extractTemplateText(sections: readonly string[], startPos: TextPosition): TemplateTextToken {
+  let currentPos = startPos;
+  const unexpectedEndOfTemplateError = (errorRange: TextRange): ValidatorSyntaxError => {
+    return createValidatorSyntaxError('Expected to find a backtick (`) to end the template literal type.', sections, errorRange);
+  };
+
+  let result = '';
+  let endsWith: TemplateTextToken['endsWith'];
+  while (true) {
+    const char = currentPos.getChar();
+    if (char === END_OF_TEXT) {
+      throw unexpectedEndOfTemplateError({ start: startPos, end: currentPos });
+    }
+
+    if (char === INTERPOLATION_POINT) {
+      endsWith = 'interpolationPoint';
+      break;
+    }
+
+    const extractedDelimiter = extract(/\\?`/y, sections, currentPos);
+    if (extractedDelimiter !== null) {
+      currentPos = extractedDelimiter.range.end;
+      endsWith = 'templateEnd';
+      break;
+    }
+
+    const extractedPlaceholderStart = extract(/\\?\$\{/y, sections, currentPos);
+    if (extractedPlaceholderStart !== null) {
+      currentPos = extractedPlaceholderStart.range.end;
+      endsWith = 'placeholderStart';
+      break;
+    }
+
+    if (char === '\\') {
+      const extracted = extractStringEscapeSequence(sections, currentPos);
+      if ('error' in extracted) {
+        if (extracted.error === 'UNTERMINATED_STRING') {
+          throw unexpectedEndOfTemplateError({ start: startPos, end: extracted.endPos });
+        } else {
+          throw new UnreachableCaseError(extracted.error);
+        }
+      }
+      result += extracted.value;
+      currentPos = extracted.range.end;
+    } else {
+      result += char;
+      currentPos = currentPos.advance(1);
+    }
+  }
+
+  return {
+    category: 'templateText',
+    value: undefined,
+    parsedValue: result,
+    endsWith,
+    afterNewline: false,
+    range: { start: startPos, end: currentPos },
+  };
+}
+
 function getNextToken(sections: readonly string[], startingPos: TextPosition): Token {
   const { newPos: posAfterWhitespace, foundNewLine } = ignoreWhitespaceAndComments(sections, startingPos);
   const mixin = { afterNewline: foundNewLine };
@@ -257,11 +393,30 @@ function getNextToken(sections: readonly string[], startingPos: TextPosition): T
     return { category: 'number', ...extracted, ...mixin };
   }
 
-  extracted = extract(/[[\]{}()@<>:;,\-+|&?]|(\.\.\.)/y, sections, posAfterWhitespace);
+  // Comments were already skipped, so a slash found here must be the start of a regular expression literal.
+  if (posAfterWhitespace.getChar() === '/') {
+    extracted = extract(/\/([^\\/[\n]|\\.|\[([^\\\]\n]|\\.)*\])+\/[a-zA-Z]*/y, sections, posAfterWhitespace);
+    if (extracted === null) {
+      throw createValidatorSyntaxError(
+        'Expected to find a slash (`/`) to end the regular expression literal.',
+        sections,
+        { start: posAfterWhitespace, end: posAfterWhitespace.advance(1) },
+      );
+    }
+    return { category: 'regExp', ...extracted, ...mixin };
+  }
+
+  extracted = extract(/[[\]{}()@<>:;,\-+|&?=]|(\.\.\.?)|(\*\*)/y, sections, posAfterWhitespace);
   if (extracted !== null) {
     return { category: 'specialChar', ...extracted, ...mixin };
   }
 
+  // The opening backtick of a template literal type. It may optionally be escaped.
+  extracted = extract(/\\?`/y, sections, posAfterWhitespace);
+  if (extracted !== null) {
+    return { category: 'specialChar', ...extracted, value: '`', ...mixin };
+  }
+
   const extractedStringInfo = extractString(sections, posAfterWhitespace);
   if (extractedStringInfo !== null) {
     return {
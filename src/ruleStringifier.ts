@@ -0,0 +1,263 @@
+// Converts rulesets back into the template syntax used by the validator template tag.
+// Interpolated values are shown as `${…}` placeholders, with a label describing what was interpolated.
+//
+// The output is canonical - two rulesets that are structurally the same will produce the same text,
+// regardless of how they were originally written.
+
+import type {
+  NumericConstraintRule,
+  StringConstraintRule,
+  PropertyRule,
+  Rule,
+  Ruleset,
+  SizeConstraint,
+  TemplateLiteralRule,
+  TupleRule,
+} from './types/validationRules.js';
+import {
+  isExpectation,
+  isGeneric,
+  isLazyEvaluator,
+  isTransformer,
+  isValidator,
+  type InterpolatedValue,
+} from './types/validator.js';
+import { isIdentifier } from './ruleParser/tokenStream.js';
+import { isDirectInstanceOf, UnreachableCaseError } from './util.js';
+import { lookupDeclaredTypeName } from './declaredTypes.js';
+import { packagePrivate } from './packagePrivateAccess.js';
+
+/**
+ * Validator instances provide a method under this key,
+ * which Node's util.inspect() (and console.log()) will use to display them.
+ */
+export const inspectCustom = Symbol.for('nodejs.util.inspect.custom');
+
+/** Converts a frozen ruleset into validator template syntax. */
+export function stringifyRuleset(ruleset: Ruleset): string {
+  return stringifyRule(ruleset.rootRule, ruleset.interpolated);
+}
+
+/** Displays a ruleset the same way the validator that holds it would have been written. */
+export function inspectRuleset(ruleset: Ruleset): string {
+  return 'validator`' + stringifyRuleset(ruleset) + '`';
+}
+
+export function stringifyRule(rule: Rule, interpolated: readonly InterpolatedValue[]): string {
+  if (rule.category === 'simple') {
+    return rule.type;
+  } else if (rule.category === 'primitiveLiteral') {
+    return stringifyPrimitive(rule.value);
+  } else if (rule.category === 'numericConstraint') {
+    return stringifyNumericConstraintRule(rule);
+  } else if (rule.category === 'stringConstraint') {
+    return stringifyStringConstraintRule(rule);
+  } else if (rule.category === 'noop') {
+    return 'unknown';
+  } else if (rule.category === 'property') {
+    return stringifyPropertyRule(rule, interpolated) + stringifySizeConstraint(rule.size, ['(', ')']);
+  } else if (rule.category === 'array') {
+    const brackets = (rule.size ?? null) === null ? '[]' : stringifySizeConstraint(rule.size, ['[', ']']);
+    return stringifyPostfixOperand(rule.content, interpolated) + brackets;
+  } else if (rule.category === 'tuple') {
+    return stringifyTupleRule(rule, interpolated) + stringifySizeConstraint(rule.size, ['(', ')']);
+  } else if (rule.category === 'iterable') {
+    return (
+      `${stringifyPostfixOperand(rule.iterableType, interpolated)}@<${stringifyRule(rule.entryType, interpolated)}>` +
+      stringifySizeConstraint(rule.size, ['(', ')'])
+    );
+  } else if (rule.category === 'map') {
+    return (
+      `Map<${stringifyRule(rule.keyType, interpolated)}, ${stringifyRule(rule.valueType, interpolated)}>` +
+      stringifySizeConstraint(rule.size, ['(', ')'])
+    );
+  } else if (rule.category === 'set') {
+    return `Set<${stringifyRule(rule.entryType, interpolated)}>` + stringifySizeConstraint(rule.size, ['(', ')']);
+  } else if (rule.category === 'union') {
+    return rule.variants.map(variant => stringifyRule(variant, interpolated)).join(' | ');
+  } else if (rule.category === 'intersection') {
+    return rule.variants
+      .map(variant => variant.category === 'union'
+        ? `(${stringifyRule(variant, interpolated)})`
+        : stringifyRule(variant, interpolated))
+      .join(' & ');
+  } else if (rule.category === 'interpolation') {
+    const text = '${' + labelInterpolatedValue(interpolated[rule.interpolationIndex]) + '}';
+    return rule.typeArguments === undefined || rule.typeArguments === null
+      ? text
+      : `${text}<${rule.typeArguments.map(typeArgument => stringifyRule(typeArgument, interpolated)).join(', ')}>`;
+  } else if (rule.category === 'templateLiteral') {
+    return stringifyTemplateLiteralRule(rule, interpolated);
+  } else {
+    throw new UnreachableCaseError(rule);
+  }
+}
+
+/** Stringifies a rule that's about to have a postfix operator (`[]` or `@<…>`) applied to it. */
+function stringifyPostfixOperand(rule: Rule, interpolated: readonly InterpolatedValue[]): string {
+  const text = stringifyRule(rule, interpolated);
+  return rule.category === 'union' || rule.category === 'intersection' ? `(${text})` : text;
+}
+
+/** Returns an empty string if there isn't a size constraint. */
+function stringifySizeConstraint(size: SizeConstraint | null | undefined, [open, close]: readonly [string, string]): string {
+  if (size === undefined || size === null) {
+    return '';
+  }
+  return `${open}${size.min ?? ''}..${size.max ?? ''}${close}`;
+}
+
+function stringifyNumericConstraintRule(rule: NumericConstraintRule): string {
+  const typeName = rule.integer ? 'integer' : rule.type;
+  const { minimum, maximum } = rule;
+  if (minimum === null && maximum === null) {
+    return typeName;
+  }
+
+  // Inclusive ranges are written as `min..max`, anything else is written as a list of comparisons.
+  if (minimum?.exclusive !== true && maximum?.exclusive !== true) {
+    const minimumText = minimum === null ? '' : stringifyPrimitive(minimum.value);
+    const maximumText = maximum === null ? '' : stringifyPrimitive(maximum.value);
+    return `${typeName}(${minimumText}..${maximumText})`;
+  }
+
+  const comparisons = [
+    ...minimum === null ? [] : [(minimum.exclusive ? '>' : '>=') + stringifyPrimitive(minimum.value)],
+    ...maximum === null ? [] : [(maximum.exclusive ? '<' : '<=') + stringifyPrimitive(maximum.value)],
+  ];
+  return `${typeName}(${comparisons.join(', ')})`;
+}
+
+function stringifyStringConstraintRule(rule: StringConstraintRule): string {
+  const constraints: string[] = [];
+  if (rule.minLength !== null || rule.maxLength !== null) {
+    const unitText = rule.lengthUnit === 'graphemes' ? ' graphemes' : '';
+    constraints.push(`${rule.minLength ?? ''}..${rule.maxLength ?? ''}${unitText}`);
+  }
+  if (rule.pattern !== null) {
+    // Letting RegExp build the literal makes sure characters such as `/` get escaped.
+    constraints.push(new RegExp(rule.pattern.source, rule.pattern.flags).toString());
+  }
+
+  return constraints.length === 0 ? 'string' : `string(${constraints.join(', ')})`;
+}
+
+function stringifyPropertyRule(rule: PropertyRule, interpolated: readonly InterpolatedValue[]): string {
+  const entries = [
+    ...[...rule.content.entries()].map(([key, { optional, rule }]) => {
+      const keyText = isIdentifier(key) ? key : JSON.stringify(key);
+      return `${keyText}${optional ? '?' : ''}: ${stringifyRule(rule, interpolated)}`;
+    }),
+    ...[...rule.dynamicContent.entries()].map(([interpolationIndex, { optional, rule }]) => {
+      const keyText = '[${' + labelInterpolatedValue(interpolated[interpolationIndex]) + '}]';
+      return `${keyText}${optional ? '?' : ''}: ${stringifyRule(rule, interpolated)}`;
+    }),
+    ...rule.index === null
+      ? []
+      : [`[${rule.index.label}: ${stringifyRule(rule.index.key, interpolated)}]: ${stringifyRule(rule.index.value, interpolated)}`],
+  ];
+
+  const [open_, close] = rule.exact === true ? ['{|', '|}'] : ['{', '}'];
+  const open = (rule.ownPropertiesOnly === true ? 'own ' : '') + open_;
+  if (entries.length === 0) {
+    return open + close;
+  }
+
+  return open + '\n' + entries.map(entry => indent(entry) + '\n').join('') + close;
+}
+
+function stringifyTupleRule(rule: TupleRule, interpolated: readonly InterpolatedValue[]): string {
+  const labels = rule.entryLabels;
+  const labelFor = (index: number, suffix: string): string => labels === null ? '' : `${labels[index] ?? ''}${suffix}: `;
+
+  const entries = [
+    ...rule.content.map((entryRule, i) => (
+      labelFor(i, '') + stringifyRule(entryRule, interpolated)
+    )),
+    ...rule.optionalContent.map((entryRule, i) => {
+      const index = rule.content.length + i;
+      return labels === null
+        ? `${stringifyPostfixOperand(entryRule, interpolated)}?`
+        : labelFor(index, '?') + stringifyRule(entryRule, interpolated);
+    }),
+    ...rule.rest === null
+      ? []
+      : ['...' + labelFor(rule.content.length + rule.optionalContent.length, '') + stringifyRule(rule.rest, interpolated)],
+  ];
+
+  if (entries.some(entry => entry.includes('\n'))) {
+    return '[\n' + entries.map(entry => indent(entry) + ',\n').join('') + ']';
+  }
+
+  return `[${entries.join(', ')}]`;
+}
+
+function stringifyTemplateLiteralRule(rule: TemplateLiteralRule, interpolated: readonly InterpolatedValue[]): string {
+  const placeholders = rule.ruleSegments.map(ruleSegment => stringifyTemplatePlaceholder(ruleSegment, interpolated));
+  const text = rule.textSegments
+    .map((textSegment, i) => escapeTemplateText(textSegment) + (placeholders[i] ?? ''))
+    .join('');
+
+  return '`' + text + '`';
+}
+
+/**
+ * Stringifies a rule found inside of a template literal type, including the `${…}` around it.
+ * Interpolated values are already displayed inside of a `${…}`, so they don't get wrapped a second time.
+ */
+export function stringifyTemplatePlaceholder(rule: Rule, interpolated: readonly InterpolatedValue[]): string {
+  const text = stringifyRule(rule, interpolated);
+  const isBareInterpolation = rule.category === 'interpolation' && (rule.typeArguments ?? null) === null;
+  return isBareInterpolation ? text : '${' + text + '}';
+}
+
+/**
+ * Escapes the literal text of a template literal type.
+ * Backticks and `${` are always treated as syntax inside of a template literal type (even when escaped),
+ * so those get written using placeholders that hold a string literal instead.
+ */
+function escapeTemplateText(text: string): string {
+  return JSON.stringify(text)
+    .slice(1, -1)
+    .replace(/\$\{/g, () => '$${"{"}')
+    .replace(/`/g, () => '${"`"}');
+}
+
+/** Provides a short description of an interpolated value, to be placed inside of a `${…}` placeholder. */
+function labelInterpolatedValue(value: InterpolatedValue): string {
+  if (isValidator(value) && value[packagePrivate].customMessage !== undefined) {
+    return `validator.withMessage(${inspectRuleset(value.ruleset)}, ${JSON.stringify(value[packagePrivate].customMessage)})`;
+  } else if (isValidator(value)) {
+    // Declared types may reference themselves, so they're shown by name instead of being inlined.
+    return lookupDeclaredTypeName(value.ruleset) ?? inspectRuleset(value.ruleset);
+  } else if (isLazyEvaluator(value)) {
+    return 'validator.lazy(…)';
+  } else if (isExpectation(value)) {
+    return 'validator.expectTo(…)';
+  } else if (isTransformer(value)) {
+    return 'validator.transform(…)';
+  } else if (isGeneric(value)) {
+    return `validator.generic(${JSON.stringify(value.typeParameters)}, …)`;
+  } else if (typeof value === 'function') {
+    return value.name === '' ? '[anonymous function/class]' : value.name;
+  } else if (isDirectInstanceOf(value, RegExp)) {
+    return value.toString();
+  } else {
+    return stringifyPrimitive(value);
+  }
+}
+
+function stringifyPrimitive(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  } else if (typeof value === 'bigint') {
+    return `${value}n`;
+  } else if (Object.is(value, -0)) {
+    return '-0';
+  } else {
+    return String(value);
+  }
+}
+
+/** Indents every line of the provided text. */
+const indent = (text: string): string => text.split('\n').map(line => '  ' + line).join('\n');
@@ -0,0 +1,244 @@
+// Builds the output of a validator's .parse() method.
+// The target is expected to already match the ruleset. The rules get walked alongside the target,
+// and whenever an interpolated transformer is found, its callback is used to produce a replacement value.
+// Objects and arrays that end up containing a replaced value get shallow-copied (the original target is never modified).
+// Everything else is returned as-is.
+
+import type { IterableRule, MapRule, PropertyRule, Rule, Ruleset, TupleRule } from './types/validationRules.js';
+import {
+  isLazyEvaluator,
+  isTransformer,
+  isValidator,
+  type InterpolatedValue,
+} from './types/validator.js';
+import { matchValue } from './ruleEnforcer/index.js';
+import { isObject } from './ruleEnforcer/interpolationEnforcer.js';
+import { hasOwnProperty, validateAndApplyDynamicKeys } from './ruleEnforcer/propertyEnforcer.js';
+import { deriveLazyValidator } from './ruleEnforcer/asyncResolutions.js';
+import { lookupUnionDispatchTable, selectUnionVariant } from './ruleEnforcer/discriminatedUnions.js';
+import { packagePrivate } from './packagePrivateAccess.js';
+import { UnreachableCaseError } from './util.js';
+import { resolveInterpolatedValue } from './genericInstantiator.js';
+
+export interface TransformOpts {
+  // Should be set to the same value that was used when matching the target.
+  // Inherited properties are left alone when this is set.
+  readonly ownPropertiesOnly: boolean
+}
+
+const defaultTransformOpts: TransformOpts = Object.freeze({ ownPropertiesOnly: false });
+
+/**
+ * Returns the target, with every portion that was matched by a transformer replaced
+ * with the transformer's output.
+ */
+export function transformValue(ruleset: Ruleset, target: unknown, opts: TransformOpts = defaultTransformOpts): unknown {
+  return transformWithRule(ruleset.rootRule, target, ruleset.interpolated, opts);
+}
+
+function transformWithRule(
+  rule: Rule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  opts: TransformOpts,
+): unknown {
+  if (
+    rule.category === 'simple' ||
+    rule.category === 'primitiveLiteral' ||
+    rule.category === 'numericConstraint' ||
+    rule.category === 'stringConstraint' ||
+    rule.category === 'noop' ||
+    rule.category === 'templateLiteral'
+  ) {
+    return target;
+  } else if (rule.category === 'property') {
+    return transformWithPropertyRule(rule, target, interpolated, opts);
+  } else if (rule.category === 'array') {
+    if (!Array.isArray(target)) return target;
+    return withEntries(target, target.map(entry => transformWithRule(rule.content, entry, interpolated, opts)));
+  } else if (rule.category === 'tuple') {
+    return transformWithTupleRule(rule, target, interpolated, opts);
+  } else if (rule.category === 'iterable') {
+    return transformWithIterableRule(rule, target, interpolated, opts);
+  } else if (rule.category === 'map') {
+    return transformWithMapRule(rule, target, interpolated, opts);
+  } else if (rule.category === 'set') {
+    if (!(target instanceof Set)) return target;
+    const entries = [...target];
+    const newEntries = entries.map(entry => transformWithRule(rule.entryType, entry, interpolated, opts));
+    return withEntries(entries, newEntries) === entries ? target : new Set(newEntries);
+  } else if (rule.category === 'union') {
+    // The first variant that matches decides how the target gets transformed.
+    // With discriminated unions, only the variant selected by the discriminant could match.
+    const dispatchTable = lookupUnionDispatchTable(rule);
+    const selectedVariantIndex = dispatchTable === null ? null : selectUnionVariant(dispatchTable, target);
+    const candidateVariants = selectedVariantIndex === null ? rule.variants : rule.variants.slice(selectedVariantIndex, selectedVariantIndex + 1);
+    const matchingVariant = candidateVariants.find(variant => matchValue(variant, target, interpolated, undefined, {}, opts).success);
+    return matchingVariant === undefined ? target : transformWithRule(matchingVariant, target, interpolated, opts);
+  } else if (rule.category === 'intersection') {
+    // Each variant receives the output of the previous one.
+    return rule.variants.reduce((current, variant) => transformWithRule(variant, current, interpolated, opts), target);
+  } else if (rule.category === 'interpolation') {
+    return transformWithInterpolatedValue(resolveInterpolatedValue(rule, interpolated), target, opts);
+  } else {
+    throw new UnreachableCaseError(rule);
+  }
+}
+
+function transformWithPropertyRule(
+  rule: PropertyRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  opts: TransformOpts,
+): unknown {
+  if (!isObject(target)) {
+    return target;
+  }
+
+  const targetObj = target as Record<string | symbol, unknown>;
+  const replacements = new Map<string | symbol, unknown>();
+  const currentValueOf = (key: string | symbol): unknown => replacements.has(key) ? replacements.get(key) : targetObj[key];
+
+  const ownPropertiesOnly = rule.ownPropertiesOnly === true || opts.ownPropertiesOnly;
+  const { content, index } = validateAndApplyDynamicKeys(rule, interpolated);
+  for (const [key, propertyRules] of content) {
+    if (ownPropertiesOnly ? !hasOwnProperty(targetObj, key) : !(key in targetObj)) continue;
+    const value = propertyRules
+      .reduce((current, { rule }) => transformWithRule(rule, current, interpolated, opts), targetObj[key]);
+    if (!Object.is(value, targetObj[key])) {
+      replacements.set(key, value);
+    }
+  }
+
+  if (index !== null) {
+    const appliesToKey = (key: string | symbol): boolean => (
+      matchValue(index.key, key, interpolated).success ||
+      // Handles the case where we're matching the key against the `number` rule.
+      (typeof key === 'string' && !isNaN(Number(key)) && matchValue(index.key, Number(key), interpolated).success)
+    );
+
+    for (const key of Reflect.ownKeys(targetObj)) {
+      if (!appliesToKey(key)) continue;
+      const value = transformWithRule(index.value, currentValueOf(key), interpolated, opts);
+      if (!Object.is(value, targetObj[key])) {
+        replacements.set(key, value);
+      }
+    }
+  }
+
+  if (replacements.size === 0) {
+    return target;
+  }
+
+  const copy = Array.isArray(target)
+    ? Object.assign([], target)
+    : Object.assign(Object.create(Object.getPrototypeOf(target)), target);
+  for (const [key, value] of replacements) {
+    copy[key] = value;
+  }
+
+  return copy;
+}
+
+function transformWithTupleRule(
+  rule: TupleRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  opts: TransformOpts,
+): unknown {
+  if (!Array.isArray(target)) {
+    return target;
+  }
+
+  const entryRules = [...rule.content, ...rule.optionalContent];
+  const entries = target.slice(0, entryRules.length)
+    .map((entry, i) => transformWithRule(entryRules[i] as Rule, entry, interpolated, opts));
+
+  let restEntries: unknown = target.slice(entryRules.length);
+  if (rule.rest !== null) {
+    restEntries = transformWithRule(rule.rest, restEntries, interpolated, opts);
+    if (!Array.isArray(restEntries)) {
+      throw new TypeError(
+        'Failed to parse the value: The rest entry of a tuple was transformed into a non-array value.',
+      );
+    }
+  }
+
+  return withEntries(target, [...entries, ...restEntries as unknown[]]);
+}
+
+/**
+ * Only the entries of arrays and sets can be transformed, as those are the only
+ * iterables that can be rebuilt. Other iterables will only have their iterableType rule applied.
+ */
+function transformWithIterableRule(
+  rule: IterableRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  opts: TransformOpts,
+): unknown {
+  let output = target;
+  if (Array.isArray(target)) {
+    output = withEntries(target, target.map(entry => transformWithRule(rule.entryType, entry, interpolated, opts)));
+  } else if (target instanceof Set) {
+    const entries = [...target];
+    const newEntries = entries.map(entry => transformWithRule(rule.entryType, entry, interpolated, opts));
+    output = withEntries(entries, newEntries) === entries ? target : new Set(newEntries);
+  }
+
+  return transformWithRule(rule.iterableType, output, interpolated, opts);
+}
+
+function transformWithMapRule(
+  rule: MapRule,
+  target: unknown,
+  interpolated: readonly InterpolatedValue[],
+  opts: TransformOpts,
+): unknown {
+  if (!(target instanceof Map)) {
+    return target;
+  }
+
+  const entries = [...target];
+  const newEntries = entries.map(([key, value]): [unknown, unknown] => [
+    transformWithRule(rule.keyType, key, interpolated, opts),
+    transformWithRule(rule.valueType, value, interpolated, opts),
+  ]);
+  const changed = newEntries.some(([key, value], i) => !Object.is(key, entries[i]?.[0]) || !Object.is(value, entries[i]?.[1]));
+  return changed ? new Map(newEntries) : target;
+}
+
+function transformWithInterpolatedValue(
+  interpolatedValue: InterpolatedValue,
+  target: unknown,
+  opts: TransformOpts,
+): unknown {
+  if (isValidator(interpolatedValue)) {
+    return transformValue(interpolatedValue.ruleset, target, opts);
+  } else if (isLazyEvaluator(interpolatedValue)) {
+    const validator = deriveLazyValidator(interpolatedValue, target, null);
+    return transformValue(validator.ruleset, target, opts);
+  } else if (isTransformer(interpolatedValue)) {
+    const { validator, transform } = interpolatedValue[packagePrivate];
+    return transform(transformValue(validator.ruleset, target, opts));
+  } else {
+    return target;
+  }
+}
+
+// ------------------------------
+//   UTILITY FUNCTIONS
+// ------------------------------
+
+/**
+ * Returns the original array if none of its entries were changed,
+ * otherwise returns the new entries.
+ */
+function withEntries(original: readonly unknown[], newEntries: unknown[]): readonly unknown[] {
+  const changed = (
+    original.length !== newEntries.length ||
+    newEntries.some((entry, i) => !Object.is(entry, original[i]))
+  );
+
+  return changed ? newEntries : original;
+}
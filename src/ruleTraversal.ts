@@ -0,0 +1,141 @@
+// Generic tools for walking through and rewriting rule trees, so code that works with rulesets
+// doesn't have to know where every category of rule keeps its child rules.
+
+import type { PropertyRuleContentValue, Rule, Ruleset } from './types/validationRules.js';
+import { isValidator, type InterpolatedValue } from './types/validator.js';
+import type { RuleTransformer, RuleVisitor, WalkRuleOpts } from './types/ruleTraversal.js';
+import { freezeRuleset } from './ruleFreezer.js';
+import { UnreachableCaseError } from './util.js';
+
+/** Calls the visitor with every rule found in the ruleset. */
+export function walkRule(ruleset: Ruleset, visitor: RuleVisitor, opts: WalkRuleOpts = {}): void {
+  // Rulesets of the validators currently being walked through, used to avoid walking through recursive validators forever.
+  const inProgress = new Set<Ruleset>([ruleset]);
+
+  const walk = (rule: Rule, parent: Rule | null, interpolated: readonly InterpolatedValue[]): void => {
+    if (visitor(rule, { parent, interpolated }) === false) {
+      return;
+    }
+
+    mapChildRules(rule, child => {
+      walk(child, rule, interpolated);
+      return child;
+    });
+
+    if (opts.followInterpolatedValidators === true && rule.category === 'interpolation') {
+      const interpolatedValue = interpolated[rule.interpolationIndex];
+      if (isValidator(interpolatedValue) && !inProgress.has(interpolatedValue.ruleset)) {
+        const { ruleset: innerRuleset } = interpolatedValue;
+        inProgress.add(innerRuleset);
+        walk(innerRuleset.rootRule, rule, innerRuleset.interpolated);
+        inProgress.delete(innerRuleset);
+      }
+    }
+  };
+
+  walk(ruleset.rootRule, null, ruleset.interpolated);
+}
+
+/**
+ * Builds a new ruleset by passing each rule through the transformer (see RuleTransformer).
+ * The returned ruleset is frozen.
+ */
+export function mapRule(ruleset: Ruleset, transformer: RuleTransformer): Ruleset {
+  // The same array is shared with every transformer call, so it always reflects the values grafted in so far.
+  const interpolated = [...ruleset.interpolated];
+
+  const graft = (graftedRuleset: Ruleset): Rule => {
+    const offset = interpolated.length;
+    interpolated.push(...graftedRuleset.interpolated);
+    return shiftInterpolationIndices(graftedRuleset.rootRule, offset);
+  };
+
+  const map = (rule: Rule, parent: Rule | null): Rule => {
+    const ruleWithMappedChildren = mapChildRules(rule, child => map(child, rule));
+    const result = transformer(ruleWithMappedChildren, { parent, interpolated });
+    return isRuleset(result) ? graft(result) : result;
+  };
+
+  const rootRule = map(ruleset.rootRule, null);
+  return freezeRuleset({ rootRule, interpolated });
+}
+
+const isRuleset = (value: Rule | Ruleset): value is Ruleset => 'rootRule' in value;
+
+/** Adds the offset to every interpolation index found in the rule, including the indices of dynamic property keys. */
+function shiftInterpolationIndices(rule: Rule, offset: number): Rule {
+  if (offset === 0) {
+    return rule;
+  }
+
+  const shiftedRule = mapChildRules(rule, child => shiftInterpolationIndices(child, offset));
+  if (shiftedRule.category === 'interpolation') {
+    return { ...shiftedRule, interpolationIndex: shiftedRule.interpolationIndex + offset };
+  } else if (shiftedRule.category === 'property') {
+    return {
+      ...shiftedRule,
+      dynamicContent: new Map(
+        [...shiftedRule.dynamicContent].map(([interpolationIndex, value]) => [interpolationIndex + offset, value]),
+      ),
+    };
+  } else {
+    return shiftedRule;
+  }
+}
+
+/**
+ * Returns a shallow copy of the rule, with each of its direct child rules replaced by the result of the callback.
+ * Rules without children are returned as-is.
+ */
+function mapChildRules(rule: Rule, mapChild: (child: Rule) => Rule): Rule {
+  if (
+    rule.category === 'simple' ||
+    rule.category === 'primitiveLiteral' ||
+    rule.category === 'numericConstraint' ||
+    rule.category === 'stringConstraint' ||
+    rule.category === 'noop'
+  ) {
+    return rule;
+  } else if (rule.category === 'property') {
+    const mapContentValue = (contentValue: PropertyRuleContentValue): PropertyRuleContentValue => ({
+      optional: contentValue.optional,
+      rule: mapChild(contentValue.rule),
+    });
+    return {
+      ...rule,
+      content: new Map([...rule.content].map(([key, value]) => [key, mapContentValue(value)])),
+      dynamicContent: new Map([...rule.dynamicContent].map(([key, value]) => [key, mapContentValue(value)])),
+      index: rule.index === null
+        ? null
+        : { key: mapChild(rule.index.key), value: mapChild(rule.index.value), label: rule.index.label },
+    };
+  } else if (rule.category === 'array') {
+    return { ...rule, content: mapChild(rule.content) };
+  } else if (rule.category === 'tuple') {
+    return {
+      ...rule,
+      content: rule.content.map(entry => mapChild(entry)),
+      optionalContent: rule.optionalContent.map(entry => mapChild(entry)),
+      rest: rule.rest === null ? null : mapChild(rule.rest),
+    };
+  } else if (rule.category === 'iterable') {
+    return { ...rule, iterableType: mapChild(rule.iterableType), entryType: mapChild(rule.entryType) };
+  } else if (rule.category === 'map') {
+    return { ...rule, keyType: mapChild(rule.keyType), valueType: mapChild(rule.valueType) };
+  } else if (rule.category === 'set') {
+    return { ...rule, entryType: mapChild(rule.entryType) };
+  } else if (rule.category === 'union' || rule.category === 'intersection') {
+    return { ...rule, variants: rule.variants.map(variant => mapChild(variant)) };
+  } else if (rule.category === 'interpolation') {
+    return {
+      ...rule,
+      typeArguments: rule.typeArguments === undefined || rule.typeArguments === null
+        ? null
+        : rule.typeArguments.map(typeArgument => mapChild(typeArgument)),
+    };
+  } else if (rule.category === 'templateLiteral') {
+    return { ...rule, ruleSegments: rule.ruleSegments.map(segment => mapChild(segment)) };
+  } else {
+    throw new UnreachableCaseError(rule);
+  }
+}
@@ -0,0 +1,237 @@
+// Converts rulesets to and from plain JSON, so they can be stored, or sent between processes.
+//
+// The rule tree is encoded as-is, except for values that JSON is unable to represent
+// (maps, bigints, -0, NaN and the infinities), which are encoded as tagged, single-key objects.
+// Interpolated primitives are encoded the same way.
+// Nested validators are inlined by recursively serializing their rulesets,
+// while any other interpolated value (classes, expectations, regular expressions, symbols, etc)
+// must be given a name in a caller-supplied registry, and gets referenced by that name.
+
+import type { Rule, Ruleset } from './types/validationRules.js';
+import { isValidator, type InterpolatedValue, type Validator } from './types/validator.js';
+import type {
+  InterpolationRegistry,
+  JsonValue,
+  SerializedInterpolatedValue,
+  SerializedRuleset,
+} from './types/serialization.js';
+import { packagePrivate } from './packagePrivateAccess.js';
+import { FrozenMap, UnreachableCaseError, reprUnknownValue } from './util.js';
+
+/** Builds a validator from a deserialized ruleset, applying the validator.withMessage() message, if there is one. */
+type BuildValidatorFn = (ruleset: Ruleset, customMessage: string | undefined) => Validator;
+
+/**
+ * Called with each decoded ruleset (the root one, and those of nested validators), before anything gets built from it.
+ * The path describes where the ruleset was found, relative to the root ruleset (e.g. `.interpolated[0].ruleset`).
+ */
+type CheckRulesetFn = (ruleset: Ruleset, path: string) => void;
+
+const specialNumbers = new Map<string, number>([
+  ['-0', -0],
+  ['NaN', NaN],
+  ['Infinity', Infinity],
+  ['-Infinity', -Infinity],
+]);
+
+export function serializeRuleset(ruleset: Ruleset, registry: InterpolationRegistry): SerializedRuleset {
+  // Maps each registered value to its name. If a value was registered under multiple names, the first one is used.
+  const namesByValue = new Map<unknown, string>();
+  for (const [name, value] of Object.entries(registry)) {
+    if (!namesByValue.has(identityOf(value))) {
+      namesByValue.set(identityOf(value), name);
+    }
+  }
+
+  return serializeRulesetWithNames(ruleset, namesByValue, new Set(), '<ruleset>');
+}
+
+function serializeRulesetWithNames(
+  ruleset: Ruleset,
+  namesByValue: ReadonlyMap<unknown, string>,
+  // The identities of the validators currently being serialized,
+  // used to detect validators that (indirectly) interpolate themselves.
+  inProgress: Set<unknown>,
+  location: string,
+): SerializedRuleset {
+  return {
+    rootRule: encodeValue(ruleset.rootRule, `${location}.rootRule`),
+    interpolated: ruleset.interpolated.map((value, i) => serializeInterpolatedValue(
+      value,
+      namesByValue,
+      inProgress,
+      `${location}.interpolated[${i}]`,
+    )),
+  };
+}
+
+function serializeInterpolatedValue(
+  value: InterpolatedValue,
+  namesByValue: ReadonlyMap<unknown, string>,
+  inProgress: Set<unknown>,
+  location: string,
+): SerializedInterpolatedValue {
+  const registeredName = namesByValue.get(identityOf(value));
+  if (registeredName !== undefined) {
+    return { category: 'registered', name: registeredName };
+  }
+
+  if (isValidator(value)) {
+    if (inProgress.has(identityOf(value))) {
+      throw serializationError(
+        location,
+        'Found a validator that interpolates itself. Validators like this must be added to the registry.',
+      );
+    }
+    inProgress.add(identityOf(value));
+    const serializedRuleset = serializeRulesetWithNames(value.ruleset, namesByValue, inProgress, `${location}.ruleset`);
+    inProgress.delete(identityOf(value));
+
+    const customMessage = value[packagePrivate].customMessage;
+    return customMessage === undefined
+      ? { category: 'validator', ruleset: serializedRuleset }
+      : { category: 'validator', ruleset: serializedRuleset, customMessage };
+  }
+
+  if (typeof value === 'object' || typeof value === 'function' || typeof value === 'symbol') {
+    throw serializationError(
+      location,
+      `Found ${reprUnknownValue(value)}, which can't be represented in JSON. Values like this must be added to the registry.`,
+    );
+  }
+
+  return { category: 'primitive', value: encodeValue(value, location) };
+}
+
+/**
+ * Validators are identified by their rulesets, since different validator instances can share the same ruleset
+ * (e.g. the validators returned by the public API wrap the validators that get interpolated internally).
+ * Validators with custom messages are the exception, as their message would be lost if they were mixed up
+ * with the validator they were created from.
+ */
+function identityOf(value: InterpolatedValue): unknown {
+  return isValidator(value) && value[packagePrivate].customMessage === undefined
+    ? value.ruleset
+    : value;
+}
+
+function encodeValue(value: unknown, location: string): JsonValue {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return value;
+  } else if (typeof value === 'number') {
+    return Number.isFinite(value) && !Object.is(value, -0)
+      ? value
+      : { $number: Object.is(value, -0) ? '-0' : String(value) };
+  } else if (typeof value === 'bigint') {
+    return { $bigint: String(value) };
+  } else if (Array.isArray(value)) {
+    return value.map((entry, i) => encodeValue(entry, `${location}[${i}]`));
+  } else if (value instanceof FrozenMap || value instanceof Map) {
+    return {
+      $map: [...value].map(([key, entry]) => [
+        encodeValue(key, location),
+        encodeValue(entry, `${location}.get(${reprUnknownValue(key)})`),
+      ]),
+    };
+  } else if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, encodeValue(entry, `${location}.${key}`)]),
+    );
+  } else {
+    throw serializationError(location, `Found ${reprUnknownValue(value)}, which can't be represented in JSON.`);
+  }
+}
+
+export function deserializeRuleset(
+  serialized: SerializedRuleset,
+  registry: InterpolationRegistry,
+  buildValidator: BuildValidatorFn,
+  checkRuleset: CheckRulesetFn = () => {},
+): Ruleset {
+  return deserializeRulesetAt(serialized, registry, buildValidator, checkRuleset, '');
+}
+
+function deserializeRulesetAt(
+  serialized: SerializedRuleset,
+  registry: InterpolationRegistry,
+  buildValidator: BuildValidatorFn,
+  checkRuleset: CheckRulesetFn,
+  path: string,
+): Ruleset {
+  const ruleset = {
+    rootRule: decodeValue(serialized.rootRule, `${path}.rootRule`) as Rule,
+    interpolated: serialized.interpolated.map((value, i) => deserializeInterpolatedValue(
+      value,
+      registry,
+      buildValidator,
+      checkRuleset,
+      `${path}.interpolated[${i}]`,
+    )),
+  };
+  checkRuleset(ruleset, path);
+  return ruleset;
+}
+
+function deserializeInterpolatedValue(
+  serialized: SerializedInterpolatedValue,
+  registry: InterpolationRegistry,
+  buildValidator: BuildValidatorFn,
+  checkRuleset: CheckRulesetFn,
+  path: string,
+): InterpolatedValue {
+  if (serialized.category === 'primitive') {
+    return decodeValue(serialized.value, `${path}.value`) as InterpolatedValue;
+  } else if (serialized.category === 'validator') {
+    const ruleset = deserializeRulesetAt(serialized.ruleset, registry, buildValidator, checkRuleset, `${path}.ruleset`);
+    return buildValidator(ruleset, serialized.customMessage);
+  } else if (serialized.category === 'registered') {
+    // Later on, once support is better, this can be replaced with Object.hasOwn()
+    if (!Object.prototype.hasOwnProperty.call(registry, serialized.name)) {
+      throw deserializationError(path, `refers to ${JSON.stringify(serialized.name)}, which was not found in the registry.`);
+    }
+    return registry[serialized.name];
+  } else {
+    throw new UnreachableCaseError(serialized);
+  }
+}
+
+function decodeValue(value: JsonValue, path: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry, i) => decodeValue(entry, `${path}[${i}]`));
+  } else if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const entries = Object.entries(value);
+  const [tag, content] = entries[0] ?? [];
+  if (entries.length === 1 && tag === '$map') {
+    const isMapEntry = (entry: JsonValue): entry is [JsonValue, JsonValue] => Array.isArray(entry) && entry.length === 2;
+    if (!Array.isArray(content) || !content.every(isMapEntry)) {
+      throw deserializationError(path, 'is a malformed $map tag. Expected it to hold an array of [key, value] pairs.');
+    }
+    return new Map(content.map(([key, entry], i) => [
+      decodeValue(key, `${path}.$map[${i}][0]`),
+      decodeValue(entry, `${path}.$map[${i}][1]`),
+    ]));
+  } else if (entries.length === 1 && tag === '$bigint') {
+    if (typeof content !== 'string' || !/^-?\d+$/.test(content)) {
+      throw deserializationError(
+        path,
+        `is a malformed $bigint tag. Expected it to hold a string of decimal digits, but got ${reprUnknownValue(content)}.`,
+      );
+    }
+    return BigInt(content);
+  } else if (entries.length === 1 && tag === '$number' && typeof content === 'string' && specialNumbers.has(content)) {
+    return specialNumbers.get(content);
+  }
+
+  return Object.fromEntries(entries.map(([key, entry]) => [key, decodeValue(entry, `${path}.${key}`)]));
+}
+
+function serializationError(location: string, message: string): TypeError {
+  return new TypeError(`Failed to serialize the ruleset at ${location}: ${message}`);
+}
+
+function deserializationError(path: string, message: string): TypeError {
+  return new TypeError(`Failed to deserialize the ruleset: <serializedRuleset>${path} ${message}`);
+}
@@ -0,0 +1,247 @@
+// This module powers validator.precompile(), which searches source code for validator templates,
+// parses them ahead of time, and generates a module that seeds the template cache with the results.
+// This way, the first use of each template won't need to spend any time parsing.
+//
+// Source code is searched with a light-weight scanner, not a full JavaScript parser.
+// It understands strings, comments, template literals (including nested ones), and most regular expression literals,
+// which is enough to reliably find tagged templates in typical code.
+
+import { parse } from './ruleParser/index.js';
+import { freezeRule } from './ruleFreezer.js';
+import { FrozenMap } from './util.js';
+import type { Rule } from './types/validationRules.js';
+import type { CacheSeedEntry, PrecompileOpts } from './types/cacheControl.js';
+
+/**
+ * Returns the text of a module that, when imported, seeds the template cache
+ * with every validator template found in the provided source code.
+ * Templates that fail to parse are skipped - they'll report their syntax errors when they get used, as usual.
+ */
+export function precompileTemplates(
+  sourceTexts: readonly string[],
+  { tagNames = ['validator'], importFrom = 'moat-maker' }: PrecompileOpts = {},
+): string {
+  const entries = new Map<string, CacheSeedEntry>();
+  for (const sourceText of sourceTexts) {
+    for (const parts of findTaggedTemplates(sourceText, new Set(tagNames))) {
+      const entryKey = JSON.stringify(parts);
+      if (entries.has(entryKey)) {
+        continue;
+      }
+
+      const rule = tryParse(parts);
+      if (rule !== null) {
+        entries.set(entryKey, { parts, rule });
+      }
+    }
+  }
+
+  return [
+    '// This module was generated by validator.precompile(). Any changes made to it may be overwritten.',
+    `import { validator } from ${JSON.stringify(importFrom)};`,
+    '',
+    'validator.cache.seed([',
+    ...[...entries.values()].map(({ parts, rule }) => `  { parts: ${toSourceCode(parts)}, rule: ${toSourceCode(rule)} },`),
+    ']);',
+    '',
+  ].join('\n');
+}
+
+function tryParse(parts: readonly string[]): Rule | null {
+  // The parser doesn't depend on the interpolated values, except to verify that dynamic property keys
+  // are strings or symbols, so symbols are used as placeholders.
+  const placeholders = parts.slice(1).map((_, i) => Symbol(`placeholder ${i}`));
+  try {
+    return freezeRule(parse(parts, placeholders));
+  } catch (error) {
+    return null;
+  }
+}
+
+/** Converts a rule (or a piece of one) into JavaScript source code that recreates it. */
+function toSourceCode(value: unknown): string {
+  if (value === null || value === undefined || typeof value === 'boolean') {
+    return String(value);
+  } else if (typeof value === 'number') {
+    return Object.is(value, -0) ? '-0' : String(value);
+  } else if (typeof value === 'bigint') {
+    return `${value}n`;
+  } else if (typeof value === 'string') {
+    return JSON.stringify(value);
+  } else if (Array.isArray(value)) {
+    return `[${value.map(toSourceCode).join(', ')}]`;
+  } else if (value instanceof FrozenMap || value instanceof Map) {
+    return `new Map(${toSourceCode([...value])})`;
+  } else if (typeof value === 'object') {
+    const properties = Object.entries(value).map(([key, propertyValue]) => `${JSON.stringify(key)}: ${toSourceCode(propertyValue)}`);
+    return `{ ${properties.join(', ')} }`;
+  } else {
+    throw new Error(`Unable to convert ${String(value)} into source code.`);
+  }
+}
+
+// ------------------------------
+//   SOURCE CODE SCANNING
+// ------------------------------
+
+/**
+ * Finds each template literal tagged with one of the provided names, and returns their raw parts.
+ * Tags with explicit type arguments (e.g. validator<User>`...`) are supported as well.
+ */
+export function findTaggedTemplates(sourceText: string, tagNames: ReadonlySet<string>): string[][] {
+  const found: string[][] = [];
+  scanCode(sourceText, 0, { tagNames, found, isPlaceholder: false });
+  return found;
+}
+
+interface ScanState {
+  readonly tagNames: ReadonlySet<string>
+  readonly found: string[][]
+  // When true, scanning stops at the `}` that closes the template placeholder being scanned.
+  readonly isPlaceholder: boolean
+}
+
+/** Scans until the end of the code, returning the position the scan stopped at. */
+function scanCode(text: string, startPos: number, state: ScanState): number {
+  let pos = startPos;
+  let braceDepth = 0;
+  // The last non-whitespace character, which is used to tell apart division and regular expressions.
+  let lastSignificantChar = '';
+  while (pos < text.length) {
+    const char = text[pos] as string;
+    if (char === '/' && text[pos + 1] === '/') {
+      pos = findEndOf(text, '\n', pos + 2);
+    } else if (char === '/' && text[pos + 1] === '*') {
+      pos = findEndOf(text, '*/', pos + 2);
+    } else if (char === '"' || char === "'") {
+      pos = skipQuotedString(text, pos);
+      lastSignificantChar = char;
+    } else if (char === '`') {
+      const isTagged = isPrecededByTag(text, pos, state.tagNames);
+      const { parts, endPos } = scanTemplate(text, pos, state);
+      if (isTagged) {
+        state.found.push(parts);
+      }
+      pos = endPos;
+      lastSignificantChar = char;
+    } else if (char === '/' && regExpMayFollow(lastSignificantChar)) {
+      pos = skipRegExp(text, pos);
+      lastSignificantChar = char;
+    } else {
+      if (char === '{') {
+        braceDepth++;
+      } else if (char === '}' && braceDepth === 0 && state.isPlaceholder) {
+        return pos + 1;
+      } else if (char === '}') {
+        braceDepth--;
+      }
+
+      if (!/\s/.test(char)) {
+        lastSignificantChar = char;
+      }
+      pos++;
+    }
+  }
+
+  return pos;
+}
+
+/** Scans a template literal, starting at its opening backtick. */
+function scanTemplate(text: string, startPos: number, state: ScanState): { parts: string[], endPos: number } {
+  const parts: string[] = [];
+  let currentPart = '';
+  let pos = startPos + 1;
+  while (pos < text.length) {
+    const char = text[pos] as string;
+    if (char === '\\') {
+      currentPart += text.slice(pos, pos + 2);
+      pos += 2;
+    } else if (char === '`') {
+      pos++;
+      break;
+    } else if (char === '$' && text[pos + 1] === '{') {
+      parts.push(currentPart);
+      currentPart = '';
+      pos = scanCode(text, pos + 2, { ...state, isPlaceholder: true });
+    } else {
+      currentPart += char;
+      pos++;
+    }
+  }
+  parts.push(currentPart);
+
+  // JavaScript normalizes the line endings found in the raw text of a template.
+  return { parts: parts.map(part => part.replace(/\r\n?/g, '\n')), endPos: pos };
+}
+
+function isPrecededByTag(text: string, backtickPos: number, tagNames: ReadonlySet<string>): boolean {
+  let pos = skipWhitespaceBackwards(text, backtickPos - 1);
+
+  // Skips over type arguments, e.g. the `<User>` in validator<User>`...`.
+  if (text[pos] === '>') {
+    let depth = 0;
+    for (; pos >= 0; pos--) {
+      if (text[pos] === '>') depth++;
+      if (text[pos] === '<') depth--;
+      if (depth === 0) break;
+    }
+    pos = skipWhitespaceBackwards(text, pos - 1);
+  }
+
+  const identifierEnd = pos + 1;
+  while (pos >= 0 && /[\w$]/.test(text[pos] as string)) {
+    pos--;
+  }
+  return tagNames.has(text.slice(pos + 1, identifierEnd));
+}
+
+function skipWhitespaceBackwards(text: string, startPos: number): number {
+  let pos = startPos;
+  while (pos >= 0 && /\s/.test(text[pos] as string)) {
+    pos--;
+  }
+  return pos;
+}
+
+function findEndOf(text: string, terminator: string, startPos: number): number {
+  const index = text.indexOf(terminator, startPos);
+  return index === -1 ? text.length : index + terminator.length;
+}
+
+function skipQuotedString(text: string, startPos: number): number {
+  const quote = text[startPos];
+  let pos = startPos + 1;
+  while (pos < text.length && text[pos] !== quote && text[pos] !== '\n') {
+    pos += text[pos] === '\\' ? 2 : 1;
+  }
+  return pos + 1;
+}
+
+/**
+ * A slash is treated as the start of a regular expression if it follows an operator or an opening bracket.
+ * Otherwise, it's assumed to be a division operator.
+ * (Keywords such as `return` are not accounted for).
+ */
+const regExpMayFollow = (lastSignificantChar: string): boolean => (
+  lastSignificantChar === '' || '(,=:[!&|?{};+-*%<>~^'.includes(lastSignificantChar)
+);
+
+function skipRegExp(text: string, startPos: number): number {
+  let pos = startPos + 1;
+  let inCharacterClass = false;
+  while (pos < text.length && text[pos] !== '\n') {
+    const char = text[pos];
+    if (char === '\\') {
+      pos += 2;
+      continue;
+    } else if (char === '[') {
+      inCharacterClass = true;
+    } else if (char === ']') {
+      inCharacterClass = false;
+    } else if (char === '/' && !inCharacterClass) {
+      break;
+    }
+    pos++;
+  }
+  return pos + 1;
+}
@@ -0,0 +1,118 @@
+import type { Validator, ValidatorTemplateTag } from './validator.js';
+import { _validationRulesInternals, type Rule } from './validationRules.js';
+import { packagePrivate } from '../packagePrivateAccess.js';
+import { expectDirectInstanceFactory, expectKeysFromFactory, expectNonSparseFactory } from '../validationHelpers.js';
+
+export interface CacheOpts {
+  /**
+   * The maximum number of parsed templates to hold on to.
+   * Once this is exceeded, the least recently used entries get evicted.
+   * Defaults to Infinity.
+   */
+  readonly maxEntries?: number | undefined
+  /**
+   * When true, the strings provided to validator.from() will be cached as well.
+   * This is off by default, as these strings are often dynamically generated.
+   * Defaults to false.
+   */
+  readonly cacheStringSources?: boolean | undefined
+}
+
+export interface CacheStats {
+  /** The number of parsed templates currently being held on to. */
+  readonly size: number
+  readonly maxEntries: number
+  /** How many times a template was found in the cache, and didn't need to be parsed. */
+  readonly hits: number
+  /** How many times a template had to be parsed, because it wasn't found in the cache. */
+  readonly misses: number
+  /** How many entries were dropped to stay within `maxEntries`. */
+  readonly evictions: number
+}
+
+/** A parsed template, as found in the modules generated by validator.precompile(). */
+export interface CacheSeedEntry {
+  /** The raw text of the template, split at each interpolation point. */
+  readonly parts: readonly string[]
+  /** The parsed form of the template. */
+  readonly rule: Rule
+}
+
+export interface PrecompileOpts {
+  /**
+   * The names the validator template tag goes by in the provided source code.
+   * Defaults to `['validator']`.
+   */
+  readonly tagNames?: readonly string[] | undefined
+  /**
+   * The module specifier the generated module should import the validator template tag from.
+   * Defaults to 'moat-maker'.
+   */
+  readonly importFrom?: string | undefined
+}
+
+/**
+ * Controls the cache that holds the parsed result of each template (by the text of the template),
+ * so the same template text doesn't have to be parsed again, e.g. when a validator is created inside of a function.
+ * The validators this library creates internally (e.g. to check the arguments of public functions)
+ * are cached separately, and aren't included in its statistics.
+ */
+export interface CacheControl {
+  /**
+   * Updates the cache's options. Options that aren't provided will keep their current values.
+   * Lowering `maxEntries` will immediately evict entries, as needed.
+   */
+  readonly configure: (opts: CacheOpts) => void
+  /** Removes every entry from the cache, and resets its statistics. The cache's options are left as-is. */
+  readonly clear: () => void
+  readonly getStats: () => CacheStats
+  /**
+   * Adds already-parsed templates to the cache, so they won't need to be parsed when they're first used.
+   * This is intended to be called by the modules generated by validator.precompile().
+   * Templates that are already cached are left as-is.
+   */
+  readonly seed: (entries: readonly CacheSeedEntry[]) => void
+}
+
+export function createCacheOptsCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    maxEntries?: undefined | integer(0..) | ${Infinity}
+    cacheStringSources?: undefined | boolean
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['maxEntries', 'cacheStringSources'])}`;
+}
+
+export function createCacheSeedEntriesCheck(validator: ValidatorTemplateTag): Validator {
+  const { createRuleCheck } = _validationRulesInternals[packagePrivate];
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  const expectNonSparse = expectNonSparseFactory(validator);
+  const expectNormalArray = validator`${expectDirectInstance(Array)} & ${expectNonSparse}`;
+
+  // Each rule is checked against placeholder values, one per interpolation point in the template,
+  // since the real interpolated values aren't known until the template gets used.
+  const ruleCheckForEntry = validator.lazy((entry: unknown) => {
+    const parts = (entry as { parts?: unknown } | null | undefined)?.parts;
+    if (!Array.isArray(parts) || parts.length === 0) {
+      // The shape check will report the issue.
+      return validator`unknown`;
+    }
+    const placeholders = parts.slice(1).map((_, i) => Symbol(`placeholder ${i}`));
+    return validator`{ rule: ${createRuleCheck(validator, placeholders)} }`;
+  });
+
+  return validator`({
+    parts: [string, ...string[]] & ${expectNormalArray}
+    rule: object
+  } & ${ruleCheckForEntry} & ${expectDirectInstance(Object)} & ${expectKeysFrom(['parts', 'rule'])})[] & ${expectNormalArray}`;
+}
+
+export function createPrecompileOptsCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    tagNames?: undefined | string[]
+    importFrom?: undefined | string
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['tagNames', 'importFrom'])}`;
+}
@@ -0,0 +1,296 @@
+// A type-level version of the parser found in ruleParser/index.ts.
+// It's used to figure out what TypeScript type a piece of validator text describes,
+// e.g. `InferType<'{ name: string, tags: string[] }'>` resolves to `{ name: string, tags: string[] }`.
+//
+// This is a best-effort mirror of the real grammar. Whenever it runs into something it can't make sense of
+// (invalid syntax, unusual number formats, escape sequences in string literals, etc), it'll fall back
+// to a looser type (like `number` or `string`), or, if the syntax can't be understood at all, `unknown`.
+//
+// Note that TypeScript doesn't provide literal types for the text portions of a tagged template,
+// which means this can't be used to infer the type of a validator`...` call, only the types
+// of string literals, such as those passed into `validator.from()`.
+
+// ------------------------------
+//   TOKENIZER
+// ------------------------------
+
+type Whitespace = ' ' | '\n' | '\t' | '\r';
+
+type SpecialChar = '[' | ']' | '{' | '}' | '(' | ')' | '@' | '<' | '>' | ':' | ';' | ',' | '-' | '+' | '|' | '&' | '?' | '=' | '*';
+
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+type WordChar = (
+  Digit | '_' | '$' | '.'
+  | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm'
+  | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'
+  | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J' | 'K' | 'L' | 'M'
+  | 'N' | 'O' | 'P' | 'Q' | 'R' | 'S' | 'T' | 'U' | 'V' | 'W' | 'X' | 'Y' | 'Z'
+);
+
+/** Represents a string literal token. (All other tokens are represented as plain strings). */
+interface StringToken<Content> {
+  readonly stringContent: Content
+}
+
+/** Represents a template literal type token, e.g. `user_${number}`. */
+interface TemplateToken<Content> {
+  readonly templateContent: Content
+}
+
+/** Returned by the tokenizer and parser when they're unable to understand the provided text. */
+interface Failure {
+  readonly failure: true
+}
+
+// Regular expression literals are only used as constraints, so their content gets dropped.
+type Tokenize<Text extends string, Tokens extends unknown[] = []> = (
+  Text extends '' ? Tokens
+    : Text extends `${Whitespace}${infer Rest}` ? Tokenize<Rest, Tokens>
+      : Text extends `//${string}\n${infer Rest}` ? Tokenize<Rest, Tokens>
+        : Text extends `//${string}` ? Tokens
+          : Text extends `/*${string}*/${infer Rest}` ? Tokenize<Rest, Tokens>
+            : Text extends `/${string}/${infer Rest}` ? Tokenize<Rest, [...Tokens, '/']>
+              : Text extends `...${infer Rest}` ? Tokenize<Rest, [...Tokens, '...']>
+                : Text extends `${infer Char extends SpecialChar}${infer Rest}` ? Tokenize<Rest, [...Tokens, Char]>
+                  : Text extends `'${infer Content}'${infer Rest}` ? Tokenize<Rest, [...Tokens, StringToken<Content>]>
+                    : Text extends `"${infer Content}"${infer Rest}` ? Tokenize<Rest, [...Tokens, StringToken<Content>]>
+                      : Text extends `\`${infer Content}\`${infer Rest}` ? Tokenize<Rest, [...Tokens, TemplateToken<Content>]>
+                        : Text extends `${infer Char extends WordChar}${infer Rest}`
+                          ? TakeWord<Rest, Char> extends [infer Word, infer Rest2 extends string]
+                            ? Tokenize<Rest2, [...Tokens, Word]>
+                            : Failure
+                          : Failure
+);
+
+/** Returns a tuple containing the word, and the remaining text. */
+type TakeWord<Text extends string, Word extends string> = (
+  Text extends `${infer Char extends WordChar}${infer Rest}`
+    ? TakeWord<Rest, `${Word}${Char}`>
+    : [Word, Text]
+);
+
+// ------------------------------
+//   PARSER
+// ------------------------------
+
+// Each parse function returns a tuple containing the parsed type, and the remaining tokens,
+// or a Failure if the tokens could not be parsed.
+
+type ParseUnion<Tokens extends unknown[]> = (
+  ParseIntersection<Tokens> extends [infer Type, infer Rest extends unknown[]]
+    // A `|}` closes an exact object, it doesn't continue the union.
+    ? Rest extends ['|', '}', ...unknown[]]
+      ? [Type, Rest]
+      : Rest extends ['|', ...infer Rest2]
+        ? ParseUnion<Rest2> extends [infer Type2, infer Rest3 extends unknown[]]
+          ? [Type | Type2, Rest3]
+          : Failure
+        : [Type, Rest]
+    : Failure
+);
+
+type ParseIntersection<Tokens extends unknown[]> = (
+  ParsePrimary<Tokens> extends [infer Type, infer Rest extends unknown[]]
+    ? ParsePostfixOperators<Type, Rest> extends [infer Type2, infer Rest2 extends unknown[]]
+      ? Rest2 extends ['&', ...infer Rest3]
+        ? ParseIntersection<Rest3> extends [infer Type3, infer Rest4 extends unknown[]]
+          ? [Type2 & Type3, Rest4]
+          : Failure
+        : [Type2, Rest2]
+      : Failure
+    : Failure
+);
+
+/** Handles the array (`[]` or `[1..20]`), iterable (`@<...>`), and size constraint (`(..50)`) syntax. */
+type ParsePostfixOperators<Type, Tokens extends unknown[]> = (
+  Tokens extends ['[', ']', ...infer Rest]
+    ? ParsePostfixOperators<Type[], Rest>
+    : Tokens extends ['[', ...infer Rest]
+      ? SkipConstraints<Type[], Rest, ']'> extends [infer Type2, infer Rest2 extends unknown[]]
+        ? ParsePostfixOperators<Type2, Rest2>
+        : Failure
+      : Tokens extends ['@', '<', ...infer Rest]
+        ? ParseUnion<Rest> extends [infer EntryType, ['>', ...infer Rest2]]
+          ? ParsePostfixOperators<Type & Iterable<EntryType>, Rest2>
+          : Failure
+        : Tokens extends ['(', ...infer Rest]
+          ? SkipConstraints<Type, Rest> extends [infer Type2, infer Rest2 extends unknown[]]
+            ? ParsePostfixOperators<Type2, Rest2>
+            : Failure
+          : [Type, Tokens]
+);
+
+type ParsePrimary<Tokens extends unknown[]> = (
+  Tokens extends ['-', infer Word extends string, ...infer Rest] ? [NumericLiteral<`-${Word}`>, Rest]
+    : Tokens extends ['+', infer Word extends string, ...infer Rest] ? [NumericLiteral<Word>, Rest]
+      : Tokens extends [StringToken<infer Content extends string>, ...infer Rest] ? [StringLiteral<Content>, Rest]
+        : Tokens extends [TemplateToken<infer Content extends string>, ...infer Rest] ? [TemplateLiteral<Content>, Rest]
+          : Tokens extends ['(', ...infer Rest]
+            ? ParseUnion<Rest> extends [infer Type, [')', ...infer Rest2]] ? [Type, Rest2] : Failure
+            : Tokens extends ['own', ...infer Rest extends ['{', ...unknown[]]] ? ParsePrimary<Rest>
+              : Tokens extends ['{', '|', ...infer Rest] ? ParseObject<Rest, unknown, ['|', '}']>
+                : Tokens extends ['{', ...infer Rest] ? ParseObject<Rest>
+                  : Tokens extends ['[', ...infer Rest] ? ParseTuple<Rest>
+                    : Tokens extends ['Map', '<', ...infer Rest]
+                      ? ParseUnion<Rest> extends [infer KeyType, [',', ...infer Rest2]]
+                        ? ParseUnion<Rest2> extends [infer ValueType, ['>', ...infer Rest3]] ? [Map<KeyType, ValueType>, Rest3] : Failure
+                        : Failure
+                      : Tokens extends ['Set', '<', ...infer Rest]
+                        ? ParseUnion<Rest> extends [infer EntryType, ['>', ...infer Rest2]] ? [Set<EntryType>, Rest2] : Failure
+                        : Tokens extends [infer Word extends 'string' | 'number' | 'bigint' | 'integer', '(', ...infer Rest]
+                          ? SkipConstraints<SimpleTypes[Word], Rest>
+                          : Tokens extends [infer Word extends string, ...infer Rest]
+                            ? Word extends keyof SimpleTypes ? [SimpleTypes[Word], Rest]
+                              : Word extends `${Digit}${string}` | `.${Digit}${string}` ? [NumericLiteral<Word>, Rest]
+                                : Failure
+                            : Failure
+);
+
+/**
+ * Constraints, like those in `number(0..100)`, `string(/^[a-z]+$/)`, or `string[1..20]`, don't affect the type,
+ * so everything up to the closing parentheses (or bracket) is skipped.
+ */
+type SkipConstraints<Type, Tokens extends unknown[], Closing extends string = ')'> = (
+  Tokens extends [Closing, ...infer Rest] ? [Type, Rest]
+    : Tokens extends [unknown, ...infer Rest] ? SkipConstraints<Type, Rest, Closing>
+      : Failure
+);
+
+interface SimpleTypes {
+  string: string
+  number: number
+  integer: number
+  bigint: bigint
+  boolean: boolean
+  symbol: symbol
+  object: object
+  null: null
+  undefined: undefined
+  unknown: unknown
+  any: any
+  true: true
+  false: false
+}
+
+type NumericLiteral<Text extends string> = (
+  Text extends `${infer Digits}n`
+    ? Digits extends `${infer Value extends bigint}` ? Value : bigint
+    : Text extends `${infer Value extends number}` ? Value : number
+);
+
+/** Escape sequences aren't interpreted at the type level, so they cause the type to be widened to `string`. */
+type StringLiteral<Content extends string> = Content extends `${string}\\${string}` ? string : Content;
+
+/**
+ * Builds a TypeScript template literal type out of the contents of a template literal token.
+ * Placeholders are expected to hold simple types that TypeScript permits inside of template literal types.
+ * Anything else (including placeholders that contain a `}`) will cause the type to be widened to `string`.
+ */
+type TemplateLiteral<Content extends string, Built extends string = ''> = (
+  Content extends `${infer Text}\${${infer PlaceholderText}}${infer Rest}`
+    ? Tokenize<PlaceholderText> extends infer Tokens extends unknown[]
+      ? ParseUnion<Tokens> extends [infer Type extends TemplateLiteralPlaceholder, []]
+        ? TemplateLiteral<Rest, `${Built}${StringLiteral<Text>}${Type}`>
+        : string
+      : string
+    : `${Built}${StringLiteral<Content>}`
+);
+
+type TemplateLiteralPlaceholder = string | number | bigint | boolean | null | undefined;
+
+/**
+ * The closing tokens are `}` for regular objects, and `|}` for exact objects.
+ * (TypeScript has no way to describe an exact object, so both produce the same type).
+ */
+type ParseObject<Tokens extends unknown[], Properties = unknown, Closing extends unknown[] = ['}']> = (
+  Tokens extends [...Closing, ...infer Rest]
+    ? [Simplify<Properties>, Rest]
+    : ParseObjectEntry<Tokens> extends [infer Entry, infer Rest extends unknown[]]
+      ? Rest extends [',' | ';', ...infer Rest2]
+        ? ParseObject<Rest2, Properties & Entry, Closing>
+        : ParseObject<Rest, Properties & Entry, Closing>
+      : Failure
+);
+
+/** Returns an object type containing just the one parsed entry. */
+type ParseObjectEntry<Tokens extends unknown[]> = (
+  Tokens extends ['[', string, ':', ...infer Rest]
+    ? ParseUnion<Rest> extends [infer KeyType, [']', ':', ...infer Rest2]]
+      ? ParseUnion<Rest2> extends [infer ValueType, infer Rest3 extends unknown[]]
+        ? [{ [key in KeyType & PropertyKey]: ValueType }, Rest3]
+        : Failure
+      : Failure
+    : ParseObjectKey<Tokens> extends [infer Key extends string, infer Rest extends unknown[]]
+      ? Rest extends ['?', ':', ...infer Rest2]
+        ? ParseUnion<Rest2> extends [infer ValueType, infer Rest3 extends unknown[]]
+          ? [{ [key in Key]?: ValueType }, Rest3]
+          : Failure
+        : Rest extends [':', ...infer Rest2]
+          ? ParseUnion<Rest2> extends [infer ValueType, infer Rest3 extends unknown[]]
+            ? [{ [key in Key]: ValueType }, Rest3]
+            : Failure
+          : Failure
+      : Failure
+);
+
+type ParseObjectKey<Tokens extends unknown[]> = (
+  Tokens extends [StringToken<infer Content extends string>, ...infer Rest] ? [StringLiteral<Content>, Rest]
+    : Tokens extends [infer Word extends string, ...infer Rest]
+      ? Word extends SpecialChar | '...' ? Failure : [Word, Rest]
+      : Failure
+);
+
+type ParseTuple<Tokens extends unknown[], Entries extends unknown[] = []> = (
+  Tokens extends [']', ...infer Rest]
+    ? [Entries, Rest]
+    : ParseTupleEntry<Tokens, Entries> extends [infer Entries2 extends unknown[], infer Rest extends unknown[]]
+      ? Rest extends [',', ...infer Rest2]
+        ? ParseTuple<Rest2, Entries2>
+        : Rest extends [']', ...infer Rest2]
+          ? [Entries2, Rest2]
+          : Failure
+      : Failure
+);
+
+/** Returns the tuple's entries, with the parsed entry added on. */
+type ParseTupleEntry<Tokens extends unknown[], Entries extends unknown[]> = (
+  Tokens extends ['...', ...infer Rest]
+    ? ParseUnion<SkipTupleLabel<Rest>> extends [infer Type, infer Rest2 extends unknown[]]
+      ? [Type extends readonly unknown[] ? [...Entries, ...Type] : [...Entries, ...unknown[]], Rest2]
+      : Failure
+    : Tokens extends [string, '?', ':', ...infer Rest]
+      ? ParseUnion<Rest> extends [infer Type, infer Rest2 extends unknown[]]
+        ? [[...Entries, Type?], Rest2]
+        : Failure
+      : ParseUnion<SkipTupleLabel<Tokens>> extends [infer Type, infer Rest extends unknown[]]
+        ? Rest extends ['?', ...infer Rest2]
+          ? [[...Entries, Type?], Rest2]
+          : [[...Entries, Type], Rest]
+        : Failure
+);
+
+type SkipTupleLabel<Tokens extends unknown[]> = (
+  Tokens extends [infer Word extends string, ':', ...infer Rest]
+    ? Word extends SpecialChar | '...' ? Tokens : Rest
+    : Tokens
+);
+
+// ------------------------------
+//   UTILITY TYPES
+// ------------------------------
+
+/** Flattens an intersection of object types into a single object type. */
+type Simplify<T> = { [Key in keyof T]: T[Key] };
+
+/**
+ * Resolves to the TypeScript type that the provided validator text describes.
+ * Resolves to `unknown` if the text isn't a string literal type, or if its syntax couldn't be understood.
+ */
+export type InferType<Text extends string> = (
+  string extends Text
+    ? unknown
+    : Tokenize<Text> extends infer Tokens extends unknown[]
+      ? ParseUnion<Tokens> extends [infer Type, []] ? Type : unknown
+      : unknown
+);
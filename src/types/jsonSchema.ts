@@ -0,0 +1,65 @@
+import type { Validator, ValidatorTemplateTag } from './validator.js';
+import { expectDirectInstanceFactory, expectKeysFromFactory } from '../validationHelpers.js';
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * A JSON Schema (draft 2020-12) document.
+ * Only the keywords this project knows how to work with are listed,
+ * but any other keyword may be present as well.
+ */
+export interface JsonSchemaObject {
+  readonly $schema?: string
+  readonly $id?: string
+  readonly $comment?: string
+  readonly $ref?: string
+  readonly $defs?: Readonly<Record<string, JsonSchema>>
+  readonly type?: JsonSchemaType | readonly JsonSchemaType[]
+  readonly const?: unknown
+  readonly enum?: readonly unknown[]
+  readonly pattern?: string
+  readonly minimum?: number
+  readonly exclusiveMinimum?: number
+  readonly maximum?: number
+  readonly exclusiveMaximum?: number
+  readonly properties?: Readonly<Record<string, JsonSchema>>
+  readonly patternProperties?: Readonly<Record<string, JsonSchema>>
+  readonly additionalProperties?: JsonSchema
+  readonly unevaluatedProperties?: JsonSchema
+  readonly required?: readonly string[]
+  readonly minProperties?: number
+  readonly maxProperties?: number
+  readonly propertyNames?: JsonSchema
+  readonly items?: JsonSchema
+  readonly prefixItems?: readonly JsonSchema[]
+  readonly minItems?: number
+  readonly maxItems?: number
+  readonly anyOf?: readonly JsonSchema[]
+  readonly oneOf?: readonly JsonSchema[]
+  readonly allOf?: readonly JsonSchema[]
+  readonly [keyword: string]: unknown
+}
+
+/**
+ * JSON Schema allows `true` and `false` to be used as schemas that match everything and nothing, respectively.
+ */
+export type JsonSchema = JsonSchemaObject | boolean;
+
+export interface ToJsonSchemaOpts {
+  /**
+   * Decides what happens when part of a validator can't be represented in JSON Schema
+   * (interpolated expectations, classes, lazy evaluators, etc).
+   * 'throw' (the default) will cause an error to be thrown.
+   * 'loosen' will replace the offending portion with a schema that accepts anything,
+   * and a `$comment` explaining what was left out.
+   */
+  readonly onUnrepresentable?: 'throw' | 'loosen' | undefined
+}
+
+export function createToJsonSchemaOptsCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    onUnrepresentable?: undefined | 'throw' | 'loosen'
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['onUnrepresentable'])}`;
+}
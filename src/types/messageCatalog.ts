@@ -0,0 +1,161 @@
+import type { Validator, ValidatorTemplateTag } from './validator.js';
+import { expectDirectInstanceFactory, expectKeysFromFactory } from '../validationHelpers.js';
+import { DISABLE_PARAM_VALIDATION } from '../config.js';
+import { messageIds } from '../ruleEnforcer/messageCatalog.js';
+
+/**
+ * The parameters each message receives, keyed by message id.
+ * Values (e.g. `value` or `expected`) have already been converted into a readable form,
+ * and `path` is the lookup path to the problematic value, e.g. `<receivedValue>.tags[2]`.
+ */
+export interface MessageParamsById {
+  /**
+   * `actualType` is one of the types `typeof` can return (with null being reported as "null"),
+   * or "array" or "function".
+   */
+  readonly type_mismatch: { readonly path: string, readonly expectedType: string, readonly actualType: string }
+  readonly nullish_value: { readonly path: string, readonly value: string }
+  readonly array_expected: { readonly path: string, readonly value: string }
+  readonly iterable_expected: { readonly path: string }
+  readonly instance_expected: { readonly path: string, readonly value: string, readonly className: string }
+  readonly literal_mismatch: { readonly path: string, readonly expected: string, readonly actual: string }
+  readonly value_mismatch: { readonly path: string, readonly expected: string, readonly actual: string }
+  /** `expectation` is the text returned by the validator.expectTo() callback. */
+  readonly expectation_failed: { readonly path: string, readonly value: string, readonly expectation: string }
+  /** `message` is the text provided to validator.withMessage(). */
+  readonly custom_message: { readonly path: string, readonly value: string, readonly message: string }
+  readonly regexp_string_expected: { readonly path: string, readonly value: string, readonly pattern: string }
+  readonly regexp_mismatch: { readonly path: string, readonly value: string, readonly pattern: string }
+  readonly integer_expected: { readonly path: string, readonly value: string }
+  readonly number_too_small: { readonly path: string, readonly value: string, readonly limit: string, readonly exclusive: boolean }
+  readonly number_too_large: { readonly path: string, readonly value: string, readonly limit: string, readonly exclusive: boolean }
+  readonly string_too_short: StringLengthParams
+  readonly string_too_long: StringLengthParams
+  readonly string_pattern_mismatch: { readonly path: string, readonly value: string, readonly pattern: string }
+  /**
+   * `kind` is 'text' or 'placeholder' when `expected` couldn't be found, 'trailingText' when there was text left over,
+   * or 'tooComplex' when the string was too long to finish matching it (a limit that's only reached by very long strings).
+   */
+  readonly template_literal_mismatch: {
+    readonly path: string
+    readonly value: string
+    readonly template: string
+    readonly kind: 'text' | 'placeholder' | 'trailingText' | 'tooComplex'
+    readonly position: number
+    readonly expected: string | null
+    readonly trailingText: string | null
+  }
+  readonly array_size_mismatch: SizeParams
+  readonly tuple_size_mismatch: SizeParams
+  /** `exceededMax` is set when an iterable was found to be too large before it was done being iterated over. */
+  readonly size_mismatch: SizeParams & { readonly unit: 'entry' | 'property', readonly exceededMax: boolean }
+  readonly missing_property: PropertyKeyParams
+  readonly unexpected_property: PropertyKeyParams
+  readonly forbidden_property: PropertyKeyParams
+  /** Each issue has already been formatted. There will always be at least two of them. */
+  readonly union_mismatch: { readonly issues: readonly string[] }
+  /** `message` is the formatted message explaining what was wrong with the arguments. */
+  readonly invalid_arguments: { readonly functionName: string, readonly message: string }
+  /** `isRest` is set when the label belongs to a rest parameter. */
+  readonly invalid_argument: {
+    readonly functionName: string
+    readonly label: string
+    readonly isRest: boolean
+    readonly message: string
+  }
+}
+
+interface StringLengthParams {
+  readonly path: string
+  readonly value: string
+  readonly limit: number
+  readonly unit: 'codePoints' | 'graphemes'
+}
+
+interface SizeParams {
+  readonly path: string
+  readonly min: number | null
+  readonly max: number | null
+  readonly actual: number
+}
+
+interface PropertyKeyParams {
+  readonly path: string
+  readonly keys: readonly string[]
+}
+
+export type MessageId = keyof MessageParamsById;
+
+/** Describes a failure message that still needs to be converted into text. */
+export type ValidationMessage = {
+  readonly [Id in MessageId]: { readonly id: Id, readonly params: MessageParamsById[Id] }
+}[MessageId];
+
+/**
+ * Maps message ids to functions that build the message text.
+ * Any message not found in a catalog will fall back to the default (English) catalog.
+ */
+export type MessageCatalog = {
+  readonly [Id in MessageId]?: (params: MessageParamsById[Id]) => string
+};
+
+/**
+ * Receives every message before the catalog does.
+ * Returning undefined will cause the message to be looked up in the catalog, as usual.
+ */
+export type MessageFormatter = (message: ValidationMessage) => string | undefined;
+
+export interface LocalizeOpts {
+  /** Replaces the text of the messages it provides. Other messages will keep using the default catalog. */
+  readonly messageCatalog?: MessageCatalog | undefined
+  /** Gets called with every message, before the catalog is consulted. */
+  readonly formatMessage?: MessageFormatter | undefined
+}
+
+export function createMessageCatalogCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    [id: string]: ${expectDirectInstance(Function)}
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(messageIds)}`;
+}
+
+export function createLocalizeOptsCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    messageCatalog?: undefined | ${createMessageCatalogCheck(validator)}
+    formatMessage?: undefined | ${expectDirectInstance(Function)}
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['messageCatalog', 'formatMessage'])}`;
+}
+
+/** Wraps the user-provided callbacks, so they're checked to be returning the correct types of values. */
+export function wrapLocalizeOptsWithAssertions(
+  { messageCatalog, formatMessage }: LocalizeOpts,
+  fnName: string,
+  validator: ValidatorTemplateTag,
+): LocalizeOpts {
+  return {
+    messageCatalog: messageCatalog === undefined
+      ? undefined
+      : Object.fromEntries(Object.entries(messageCatalog).map(([id, buildMessage]) => [id, (params: unknown) => {
+        // Each message id has its own parameter type, so TypeScript can't correlate the parameters with the function.
+        const result = (buildMessage as (params: unknown) => string)(params);
+        !DISABLE_PARAM_VALIDATION && validator`string`.assertMatches(result, {
+          errorPrefix: `${fnName} received a bad "messageCatalog.${id}" function:`,
+          at: `<messageCatalog.${id} return value>`,
+        });
+        return result;
+      }])),
+    formatMessage: formatMessage === undefined
+      ? undefined
+      : (message: ValidationMessage) => {
+          const result = formatMessage(message);
+          !DISABLE_PARAM_VALIDATION && validator`string | undefined`.assertMatches(result, {
+            errorPrefix: `${fnName} received a bad "formatMessage" function:`,
+            at: '<formatMessage return value>',
+          });
+          return result;
+        },
+  };
+}
@@ -0,0 +1,57 @@
+import type { Rule, Ruleset } from './validationRules.js';
+import type { InterpolatedValue, Validator, ValidatorTemplateTag } from './validator.js';
+import { expectDirectInstanceFactory, expectKeysFromFactory } from '../validationHelpers.js';
+
+export interface RuleVisitorContext {
+  /** The rule containing the rule being visited, or null if it's the root rule. */
+  readonly parent: Rule | null
+  /**
+   * The interpolated values that the rule's interpolation indices point into.
+   * When following an interpolated validator, these will be the interpolated values of that validator.
+   */
+  readonly interpolated: readonly InterpolatedValue[]
+}
+
+/**
+ * Called with each rule, parents before children.
+ * Returning `false` will cause the children of the rule to be skipped. Any other return value is ignored.
+ */
+export type RuleVisitor = (rule: Rule, context: RuleVisitorContext) => unknown;
+
+export interface WalkRuleOpts {
+  /**
+   * When true, interpolated validators will be walked through as well,
+   * as if their rules were found where they were interpolated.
+   * A validator that (indirectly) interpolates itself won't be walked through a second time.
+   * Defaults to false.
+   */
+  readonly followInterpolatedValidators?: boolean | undefined
+}
+
+export function createWalkRuleOptsCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    followInterpolatedValidators?: undefined | boolean
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['followInterpolatedValidators'])}`;
+}
+
+export interface RuleTransformerContext {
+  /** The rule that originally contained the rule being transformed, or null if it's the root rule. */
+  readonly parent: Rule | null
+  /**
+   * The interpolated values of the ruleset being built.
+   * This starts out as the interpolated values of the original ruleset,
+   * and grows as rulesets returned by the transformer get grafted in.
+   */
+  readonly interpolated: readonly InterpolatedValue[]
+}
+
+/**
+ * Called with each rule, children before parents, so the rule being transformed will already contain transformed children.
+ * Returns the rule that should take its place (which may be the same rule).
+ *
+ * A ruleset can be returned instead, to graft in rules taken from a different ruleset (e.g. from an interpolated validator).
+ * Its interpolated values will get added to the ruleset being built, and its interpolation indices will be updated to match.
+ */
+export type RuleTransformer = (rule: Rule, context: RuleTransformerContext) => Rule | Ruleset;
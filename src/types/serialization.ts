@@ -0,0 +1,82 @@
+import type { InterpolatedValue, Validator, ValidatorTemplateTag } from './validator.js';
+import { expectDirectInstanceFactory, expectKeysFromFactory, expectNonSparseFactory } from '../validationHelpers.js';
+
+/** Any value that JSON is able to represent. */
+export type JsonValue = null | boolean | number | string | readonly JsonValue[] | { readonly [key: string]: JsonValue };
+
+/**
+ * A ruleset that has been converted into plain JSON, via validator.serializeRuleset().
+ *
+ * Values found in the rule tree that JSON can't represent are encoded as single-key objects,
+ * i.e. `{ "$map": [[key, value], ...] }`, `{ "$bigint": "42" }`, and `{ "$number": "-0" }` (also used for NaN and the infinities).
+ */
+export interface SerializedRuleset {
+  readonly rootRule: JsonValue
+  readonly interpolated: readonly SerializedInterpolatedValue[]
+}
+
+export type SerializedInterpolatedValue = (
+  | {
+    readonly category: 'primitive'
+    /** The primitive, using the same encoding as the rule tree. */
+    readonly value: JsonValue
+  }
+  | {
+    readonly category: 'validator'
+    readonly ruleset: SerializedRuleset
+    /** The message provided to validator.withMessage(), if any. */
+    readonly customMessage?: string
+  }
+  | {
+    readonly category: 'registered'
+    /** The name the value was given in the interpolation registry. */
+    readonly name: string
+  }
+);
+
+/**
+ * Gives names to interpolated values that can't be represented in JSON (such as classes, expectations, regular expressions,
+ * symbols, or validators you wish to share), so they can be referenced by name in a serialized ruleset.
+ * The same registry (or an equivalent one) should be provided when serializing and deserializing.
+ */
+export type InterpolationRegistry = Readonly<Record<string, InterpolatedValue>>;
+
+export function createSerializedRulesetCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  const expectNonSparse = expectNonSparseFactory(validator);
+
+  const lazySerializedRulesetCheck = validator.lazy(() => serializedRulesetCheck);
+
+  // The rule tree (and the primitive values) only get checked after they've been decoded.
+  const serializedInterpolatedValueCheck = validator`
+    ({
+      category: 'primitive'
+      value: unknown
+    } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'value'])})
+    | ({
+      category: 'validator'
+      ruleset: ${lazySerializedRulesetCheck}
+      customMessage?: undefined | string
+    } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'ruleset', 'customMessage'])})
+    | ({
+      category: 'registered'
+      name: string
+    } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'name'])})
+  `;
+
+  const serializedRulesetCheck = validator`{
+    rootRule: object
+    interpolated: ${serializedInterpolatedValueCheck}[] & ${expectDirectInstance(Array)} & ${expectNonSparse}
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['rootRule', 'interpolated'])}`;
+
+  return serializedRulesetCheck;
+}
+
+export function createInterpolationRegistryCheck(
+  validator: ValidatorTemplateTag,
+  interpolatedValueCheck: Validator,
+): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  return validator`{ [name: string]: ${interpolatedValueCheck} } & ${expectDirectInstance(Object)}`;
+}
@@ -2,8 +2,9 @@ import type { TextRange } from '../ruleParser/TextPosition.js';
 import type { InterpolatedValue } from './validator.js';
 
 // Note that a number like "Infinity" gets classified as an identifier,
+// and that the value of a regular expression literal includes its slashes and flags, e.g. `/abc/i`.
 export interface TextToken {
-  readonly category: 'identifier' | 'number' | 'bigint' | 'specialChar' | 'eof' | 'beforeTextStart'
+  readonly category: 'identifier' | 'number' | 'bigint' | 'regExp' | 'specialChar' | 'eof' | 'beforeTextStart'
   readonly value: string
   readonly afterNewline: boolean
   readonly range: TextRange
@@ -25,11 +26,28 @@ export interface InterpolationToken {
   readonly range: TextRange
 }
 
-export type Token = TextToken | StringToken | InterpolationToken;
+/**
+ * The literal text portion of a template literal type.
+ * `endsWith` describes what comes after the text - the closing backtick,
+ * the start of a `${…}` placeholder, or an interpolation point.
+ */
+export interface TemplateTextToken {
+  readonly category: 'templateText'
+  readonly value: undefined
+  readonly parsedValue: string
+  readonly endsWith: 'templateEnd' | 'placeholderStart' | 'interpolationPoint'
+  readonly afterNewline: boolean
+  readonly range: TextRange
+}
+
+export type Token = TextToken | StringToken | InterpolationToken | TemplateTextToken;
 
 export interface TokenStream {
   readonly originalText: readonly string[]
   readonly interpolated: readonly InterpolatedValue[]
+  // Looks up an identifier that's being used as a type (such as a type parameter of a generic),
+  // and returns the interpolation index it stands for, or null if the name has no special meaning.
+  readonly lookupTypeName: (name: string, range: TextRange) => number | null
   readonly last: () => Token
   readonly next: () => Token
   readonly peek: (amount?: 1 | 2 | 3) => Token
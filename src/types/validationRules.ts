@@ -12,6 +12,7 @@ import {
   createInterpolatedValueCheck,
 } from './validator.js';
 import { packagePrivate } from '../packagePrivateAccess.js';
+import { checkTypeArguments } from '../genericInstantiator.js';
 import { expectDirectInstanceFactory, expectKeysFromFactory, expectNonSparseFactory } from '../validationHelpers.js';
 
 export type SimpleTypeVariant = 'string' | 'number' | 'bigint' | 'boolean' | 'symbol' | 'object' | 'null' | 'undefined';
@@ -32,10 +33,52 @@ export interface PrimitiveLiteralRule {
   readonly value: string | number | bigint | boolean
 }
 
+export interface NumericBound {
+  readonly value: number | bigint
+  // An exclusive bound is not included in the range, e.g. `>0` vs `>=0`.
+  readonly exclusive: boolean
+}
+
+// The values of the bounds must be of the same type as the rule (i.e. numbers or bigints).
+export interface NumericConstraintRule {
+  readonly category: 'numericConstraint'
+  readonly type: 'number' | 'bigint'
+  // Only number rules may require integers, since bigints are always integers.
+  readonly integer: boolean
+  readonly minimum: NumericBound | null
+  readonly maximum: NumericBound | null
+}
+
+// The source and flags of a regular expression, e.g. `{ source: '^[a-z]+$', flags: 'i' }`.
+// The "g" and "y" flags are not permitted, as they cause a regular expression to be stateful.
+export interface StringPattern {
+  readonly source: string
+  readonly flags: string
+}
+
+export interface StringConstraintRule {
+  readonly category: 'stringConstraint'
+  // Lengths must be non-negative integers.
+  readonly minLength: number | null
+  readonly maxLength: number | null
+  // "codePoints" counts each unicode character once (the same way JSON Schema does),
+  // while "graphemes" counts user-perceived characters, e.g. an emoji made up of multiple code points counts once.
+  readonly lengthUnit: 'codePoints' | 'graphemes'
+  // The string must contain a match for this pattern.
+  readonly pattern: StringPattern | null
+}
+
 export interface NoopRule {
   readonly category: 'noop'
 }
 
+// Limits how many entries (or properties) a value may have, e.g. `string[1..20]`.
+// Sizes must be non-negative integers.
+export interface SizeConstraint {
+  readonly min: number | null
+  readonly max: number | null
+}
+
 export interface PropertyRuleContentValue {
   readonly optional: boolean
   readonly rule: Rule
@@ -54,11 +97,24 @@ export interface PropertyRule {
   readonly content: FrozenMap<string, PropertyRuleContentValue> | Map<string, PropertyRuleContentValue>
   readonly dynamicContent: FrozenMap<number, PropertyRuleContentValue> | Map<number, PropertyRuleContentValue>
   readonly index: PropertyRuleIndexValue | null
+  // When true, the object may not have any own properties other than the ones described by this rule
+  // (or by other property rules it's being intersected with).
+  // This is optional when providing a ruleset, and defaults to false. Frozen rulesets will always have it set.
+  readonly exact?: boolean
+  // When true, inherited properties are treated as if they were missing, and own `__proto__` or `constructor`
+  // properties (as can be found in parsed JSON) are rejected unless this rule explicitly describes them.
+  // This is optional when providing a ruleset, and defaults to false. Frozen rulesets will always have it set.
+  readonly ownPropertiesOnly?: boolean
+  // Limits how many own enumerable properties the object may have.
+  // This is optional when providing a ruleset, and defaults to null. Frozen rulesets will always have it set.
+  readonly size?: SizeConstraint | null
 }
 
 export interface ArrayRule {
   readonly category: 'array'
   readonly content: Rule
+  // This is optional when providing a ruleset, and defaults to null. Frozen rulesets will always have it set.
+  readonly size?: SizeConstraint | null
 }
 
 export interface TupleRule {
@@ -67,12 +123,32 @@ export interface TupleRule {
   readonly optionalContent: readonly Rule[]
   readonly rest: Rule | null
   readonly entryLabels: readonly string[] | null
+  // Limits the length of the whole tuple, which is mostly useful for tuples with a rest entry.
+  // This is optional when providing a ruleset, and defaults to null. Frozen rulesets will always have it set.
+  readonly size?: SizeConstraint | null
 }
 
 export interface IterableRule {
   readonly category: 'iterable'
   readonly iterableType: Rule
   readonly entryType: Rule
+  // This is optional when providing a ruleset, and defaults to null. Frozen rulesets will always have it set.
+  readonly size?: SizeConstraint | null
+}
+
+// Matches instances of Map, e.g. `Map<string, number>`.
+export interface MapRule {
+  readonly category: 'map'
+  readonly keyType: Rule
+  readonly valueType: Rule
+  readonly size: SizeConstraint | null
+}
+
+// Matches instances of Set, e.g. `Set<string>`.
+export interface SetRule {
+  readonly category: 'set'
+  readonly entryType: Rule
+  readonly size: SizeConstraint | null
 }
 
 export interface UnionRule {
@@ -88,19 +164,36 @@ export interface IntersectionRule {
 export interface InterpolationRule {
   readonly category: 'interpolation'
   readonly interpolationIndex: number
+  // Type arguments must be provided when the interpolated value is a generic (from validator.generic()),
+  // and must be null otherwise.
+  // This is optional when providing a ruleset, and defaults to null. Frozen rulesets will always have it set.
+  readonly typeArguments?: readonly Rule[] | null
+}
+
+// The text segments and rule segments alternate, starting and ending with a text segment.
+// This means there must always be exactly one more text segment than rule segments.
+export interface TemplateLiteralRule {
+  readonly category: 'templateLiteral'
+  readonly textSegments: readonly string[]
+  readonly ruleSegments: readonly Rule[]
 }
 
 export type Rule = (
   SimpleRule
   | PrimitiveLiteralRule
+  | NumericConstraintRule
+  | StringConstraintRule
   | NoopRule
   | PropertyRule
   | ArrayRule
   | TupleRule
   | IterableRule
+  | MapRule
+  | SetRule
   | UnionRule
   | IntersectionRule
   | InterpolationRule
+  | TemplateLiteralRule
 );
 
 export interface Ruleset {
@@ -153,6 +246,25 @@ function checkDynamicPropertyName(
   return undefined;
 }
 
+/**
+ * Verifies that a regular expression can be built from the provided source and flags,
+ * and that it won't be stateful. Returns an error message if there's a problem.
+ */
+function checkStringPattern(source: string, flags: string): string | undefined {
+  if (flags.includes('g') || flags.includes('y')) {
+    return 'The "g" and "y" flags are not permitted, as they cause a regular expression to be stateful.';
+  }
+  try {
+    RegExp(source, flags);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return error.message;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
 function createRuleCheck(validator: ValidatorTemplateTag, interpolated: readonly InterpolatedValue[]): Validator {
   const expectDirectInstance = expectDirectInstanceFactory(validator);
   const expectKeysFrom = expectKeysFromFactory(validator);
@@ -183,6 +295,91 @@ function createRuleCheck(validator: ValidatorTemplateTag, interpolated: readonly
     )
   } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'value'])}`;
 
+  const numericBoundCheck = (type: 'number' | 'bigint'): Validator => validator`{
+    value: ${type === 'number' ? validator`number & ${andExpectNotNaN} & ${andExpectNotInfinity}` : validator`bigint`}
+    exclusive: boolean
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['value', 'exclusive'])}`;
+
+  const andExpectProperNumericConstraintRule = validator.expectTo<NumericConstraintRule>(value => {
+    if (value.type === 'bigint' && value.integer) {
+      return 'not require integers when its type is "bigint", as bigints are always integers.';
+    }
+    if (value.minimum !== null && value.maximum !== null && value.minimum.value > value.maximum.value) {
+      return (
+        'have a minimum that is not greater than its maximum. ' +
+        `Found a minimum of ${reprUnknownValue(value.minimum.value)} ` +
+        `and a maximum of ${reprUnknownValue(value.maximum.value)}.`
+      );
+    }
+    return undefined;
+  });
+
+  const numericConstraintRuleCheck = validator`
+    (
+      {
+        type: 'number'
+        minimum: ${numericBoundCheck('number')} | null
+        maximum: ${numericBoundCheck('number')} | null
+      } | {
+        type: 'bigint'
+        minimum: ${numericBoundCheck('bigint')} | null
+        maximum: ${numericBoundCheck('bigint')} | null
+      }
+    ) & {
+      category: 'numericConstraint'
+      integer: boolean
+    } & ${andExpectProperNumericConstraintRule}
+      & ${expectDirectInstance(Object)}
+      & ${expectKeysFrom(['category', 'type', 'integer', 'minimum', 'maximum'])}
+  `;
+
+  const andExpectValidLength = validator.expectTo<number>(value => {
+    return Number.isInteger(value) && value >= 0 ? undefined : 'be a non-negative integer.';
+  });
+
+  const andExpectValidStringPattern = validator.expectTo<StringPattern>(value => {
+    const maybeErrorMessage = checkStringPattern(value.source, value.flags);
+    return maybeErrorMessage === undefined ? undefined : `be a valid pattern. ${maybeErrorMessage}`;
+  });
+
+  const andExpectProperStringConstraintRule = validator.expectTo<StringConstraintRule>(value => {
+    if (value.minLength !== null && value.maxLength !== null && value.minLength > value.maxLength) {
+      return (
+        'have a minLength that is not greater than its maxLength. ' +
+        `Found a minLength of ${value.minLength} and a maxLength of ${value.maxLength}.`
+      );
+    }
+    return undefined;
+  });
+
+  const stringConstraintRuleCheck = validator`{
+    category: 'stringConstraint'
+    minLength: (number & ${andExpectValidLength}) | null
+    maxLength: (number & ${andExpectValidLength}) | null
+    lengthUnit: 'codePoints' | 'graphemes'
+    pattern: ({
+      source: string
+      flags: string
+    } & ${andExpectValidStringPattern}
+      & ${expectDirectInstance(Object)}
+      & ${expectKeysFrom(['source', 'flags'])}
+    ) | null
+  } & ${andExpectProperStringConstraintRule}
+    & ${expectDirectInstance(Object)}
+    & ${expectKeysFrom(['category', 'minLength', 'maxLength', 'lengthUnit', 'pattern'])}`;
+
+  const andExpectProperSizeConstraint = validator.expectTo<SizeConstraint>(value => {
+    if (value.min !== null && value.max !== null && value.min > value.max) {
+      return `have a min that is not greater than its max. Found a min of ${value.min} and a max of ${value.max}.`;
+    }
+    return undefined;
+  });
+
+  const sizeConstraintCheck = validator`{
+    min: (number & ${andExpectValidLength}) | null
+    max: (number & ${andExpectValidLength}) | null
+  } & ${andExpectProperSizeConstraint} & ${expectDirectInstance(Object)} & ${expectKeysFrom(['min', 'max'])}`;
+
   const noopRuleCheck = validator`{
     category: 'noop'
   } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category'])}`;
@@ -213,12 +410,18 @@ function createRuleCheck(validator: ValidatorTemplateTag, interpolated: readonly
       ${propertyRuleContentValueCheck}
     ]>
     index: ${propertyRuleIndexValueCheck} | null
-  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'content', 'dynamicContent', 'index'])}`;
+    exact?: boolean
+    ownPropertiesOnly?: boolean
+    size?: ${sizeConstraintCheck} | null
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom([
+    'category', 'content', 'dynamicContent', 'index', 'exact', 'ownPropertiesOnly', 'size',
+  ])}`;
 
   const arrayRuleCheck = validator`{
     category: 'array'
     content: ${lazyRuleCheck}
-  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'content'])}`;
+    size?: ${sizeConstraintCheck} | null
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'content', 'size'])}`;
 
   const andExpectProperTupleRule = validator.expectTo<TupleRule>(value => {
     const allowedLabelCount = value.content.length + value.optionalContent.length + (value.rest !== null ? 1 : 0);
@@ -234,15 +437,30 @@ function createRuleCheck(validator: ValidatorTemplateTag, interpolated: readonly
     optionalContent: ${lazyRuleCheck}[] & ${expectNormalArray}
     rest: ${lazyRuleCheck} | null
     entryLabels: (string[] & ${expectNormalArray}) | null
+    size?: ${sizeConstraintCheck} | null
   } & ${andExpectProperTupleRule}
     & ${expectDirectInstance(Object)}
-    & ${expectKeysFrom(['category', 'content', 'optionalContent', 'rest', 'entryLabels'])}`;
+    & ${expectKeysFrom(['category', 'content', 'optionalContent', 'rest', 'entryLabels', 'size'])}`;
 
   const iterableRuleCheck = validator`{
     category: 'iterable'
     iterableType: ${lazyRuleCheck}
     entryType: ${lazyRuleCheck}
-  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'iterableType', 'entryType'])}`;
+    size?: ${sizeConstraintCheck} | null
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'iterableType', 'entryType', 'size'])}`;
+
+  const mapRuleCheck = validator`{
+    category: 'map'
+    keyType: ${lazyRuleCheck}
+    valueType: ${lazyRuleCheck}
+    size: ${sizeConstraintCheck} | null
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'keyType', 'valueType', 'size'])}`;
+
+  const setRuleCheck = validator`{
+    category: 'set'
+    entryType: ${lazyRuleCheck}
+    size: ${sizeConstraintCheck} | null
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'entryType', 'size'])}`;
 
   const unionRuleCheck = validator`{
     category: 'union'
@@ -260,22 +478,59 @@ function createRuleCheck(validator: ValidatorTemplateTag, interpolated: readonly
       : `be an in-bounds interpolation index. Received ${interpolated.length} interpolated value(s).`;
   });
 
+  const andExpectProperTypeArguments = validator.expectTo<InterpolationRule>(value => {
+    if (!(value.interpolationIndex in interpolated)) {
+      // This is already being reported by andExpectValidInterpolationIndex.
+      return undefined;
+    }
+    const maybeErrorMessage = checkTypeArguments(interpolated[value.interpolationIndex], value.typeArguments ?? null);
+    return maybeErrorMessage === undefined
+      ? undefined
+      : `have type arguments that fit the interpolated value. ${maybeErrorMessage}`;
+  });
+
   const interpolationRuleCheck = validator`{
     category: 'interpolation'
     interpolationIndex: number & ${andExpectValidInterpolationIndex}
-  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['category', 'interpolationIndex'])}`;
+    typeArguments?: (${lazyRuleCheck}[] & ${expectNormalArray}) | null
+  } & ${andExpectProperTypeArguments}
+    & ${expectDirectInstance(Object)}
+    & ${expectKeysFrom(['category', 'interpolationIndex', 'typeArguments'])}`;
+
+  const andExpectProperTemplateLiteralRule = validator.expectTo<TemplateLiteralRule>(value => {
+    if (value.textSegments.length !== value.ruleSegments.length + 1) {
+      return (
+        'have exactly one more text segment than rule segments. ' +
+        `Found ${value.textSegments.length} text segment(s) and ${value.ruleSegments.length} rule segment(s).`
+      );
+    }
+    return undefined;
+  });
+
+  const templateLiteralRuleCheck = validator`{
+    category: 'templateLiteral'
+    textSegments: string[] & ${expectNormalArray}
+    ruleSegments: ${lazyRuleCheck}[] & ${expectNormalArray}
+  } & ${andExpectProperTemplateLiteralRule}
+    & ${expectDirectInstance(Object)}
+    & ${expectKeysFrom(['category', 'textSegments', 'ruleSegments'])}`;
 
   const ruleCheck = validator`
     ${simpleRuleCheck}
     | ${primitiveLiteralRuleCheck}
+    | ${numericConstraintRuleCheck}
+    | ${stringConstraintRuleCheck}
     | ${noopRuleCheck}
     | ${propertyRuleCheck}
     | ${arrayRuleCheck}
     | ${tupleRuleCheck}
     | ${iterableRuleCheck}
+    | ${mapRuleCheck}
+    | ${setRuleCheck}
     | ${unionRuleCheck}
     | ${intersectionRuleCheck}
     | ${interpolationRuleCheck}
+    | ${templateLiteralRuleCheck}
   `;
 
   return ruleCheck;
@@ -303,5 +558,5 @@ function createRulesetCheck(validator: ValidatorTemplateTag): Validator {
 }
 
 export const _validationRulesInternals = {
-  [packagePrivate]: { allSimpleTypes, createRulesetCheck, checkDynamicPropertyName },
+  [packagePrivate]: { allSimpleTypes, createRuleCheck, createRulesetCheck, checkDynamicPropertyName, checkStringPattern },
 };
@@ -1,14 +1,27 @@
-import type { Ruleset } from './validationRules.js';
+import type { Rule, Ruleset } from './validationRules.js';
+import type { PathSegment } from '../ruleEnforcer/LookupPath.js';
+import type { InferType } from './inferType.js';
+import type { JsonSchema, JsonSchemaObject, ToJsonSchemaOpts } from './jsonSchema.js';
+import type { CacheControl, PrecompileOpts } from './cacheControl.js';
+import type { InterpolationRegistry, SerializedRuleset } from './serialization.js';
+import type { RuleTransformer, RuleVisitor, WalkRuleOpts } from './ruleTraversal.js';
+import { createMessageCatalogCheck, type LocalizeOpts, type MessageId } from './messageCatalog.js';
 import { packagePrivate } from '../packagePrivateAccess.js';
 import { expectDirectInstanceFactory, expectKeysFromFactory } from '../validationHelpers.js';
 import { DISABLE_PARAM_VALIDATION } from '../config.js';
 
 type ErrorFactoryFn = ((...params: ConstructorParameters<typeof Error>) => Error);
 
-export interface AssertMatchesOpts {
+export interface AssertMatchesOpts extends LocalizeOpts {
   readonly errorFactory?: ErrorFactoryFn | undefined
   readonly at?: string | undefined
   readonly errorPrefix?: string | undefined
+  /**
+   * When set to true, every object in the value will be checked as if its rule was written with `own { ... }`.
+   * Inherited properties will be treated as missing, and own `__proto__` or `constructor` properties will be rejected
+   * (unless they're explicitly described). This is recommended for untrusted input, such as parsed JSON.
+   */
+  readonly ownPropertiesOnly?: boolean | undefined
 }
 
 export function createAssertMatchesOptsCheck(validator: ValidatorTemplateTag): Validator {
@@ -23,7 +36,69 @@ export function createAssertMatchesOptsCheck(validator: ValidatorTemplateTag): V
     errorFactory?: undefined | ${expectDirectInstance(Function)}
     at?: undefined | string
     errorPrefix?: undefined | (string & ${andExpectEndsWithColon})
-  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['errorFactory', 'at', 'errorPrefix'])}`;
+    ownPropertiesOnly?: undefined | boolean
+    messageCatalog?: undefined | ${createMessageCatalogCheck(validator)}
+    formatMessage?: undefined | ${expectDirectInstance(Function)}
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom([
+    'errorFactory', 'at', 'errorPrefix', 'ownPropertiesOnly', 'messageCatalog', 'formatMessage',
+  ])}`;
+}
+
+export interface ValidateOpts extends LocalizeOpts {
+  readonly collectAll?: boolean | undefined
+  readonly at?: string | undefined
+  /** See the option of the same name in AssertMatchesOpts. */
+  readonly ownPropertiesOnly?: boolean | undefined
+}
+
+export function createValidateOptsCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    collectAll?: undefined | boolean
+    at?: undefined | string
+    ownPropertiesOnly?: undefined | boolean
+    messageCatalog?: undefined | ${createMessageCatalogCheck(validator)}
+    formatMessage?: undefined | ${expectDirectInstance(Function)}
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom([
+    'collectAll', 'at', 'ownPropertiesOnly', 'messageCatalog', 'formatMessage',
+  ])}`;
+}
+
+export interface MatchesOpts {
+  /** See the option of the same name in AssertMatchesOpts. */
+  readonly ownPropertiesOnly?: boolean | undefined
+}
+
+export function createMatchesOptsCheck(validator: ValidatorTemplateTag): Validator {
+  const expectDirectInstance = expectDirectInstanceFactory(validator);
+  const expectKeysFrom = expectKeysFromFactory(validator);
+  return validator`{
+    ownPropertiesOnly?: undefined | boolean
+  } & ${expectDirectInstance(Object)} & ${expectKeysFrom(['ownPropertiesOnly'])}`;
+}
+
+/**
+ * Describes a single reason for why a value failed to match a validator.
+ */
+export interface ValidationIssue {
+  /**
+   * A machine-readable code describing the kind of issue, e.g. "type_mismatch" or "missing_property".
+   * These are the same ids that are used to look messages up in a message catalog.
+   */
+  readonly code: MessageId
+  /** The lookup path to the problematic value, e.g. `<receivedValue>.tags[2]`. */
+  readonly path: string
+  /** The same lookup path as `path`, but in a structured form. */
+  readonly pathSegments: readonly PathSegment[]
+  /** A complete, human-readable description of the issue. */
+  readonly message: string
+  /** The rule the problematic value was expected to match, written in validator syntax, e.g. `string[]`. */
+  readonly expected: string
+  /** A short description of the problematic value, e.g. `"abc"`, `Object { name, age }`, or `Array(3)`. */
+  readonly received: string
+  /** The rule that the problematic value failed to match. */
+  readonly rule: Rule
 }
 
 export function wrapErrorFactoryFnWithAssertions(
@@ -55,28 +130,67 @@ export function wrapErrorFactoryFnWithAssertions(
 export interface Expectation {
   readonly [packagePrivate]: {
     readonly type: 'expectation'
-    readonly testExpectation: (valueBeingMatched: unknown) => string | undefined
+    // Expectations created with validator.expectToAsync() return promises.
+    readonly testExpectation: (valueBeingMatched: unknown) => string | undefined | Promise<string | undefined>
   }
 }
 
 export interface LazyEvaluator {
   readonly [packagePrivate]: {
     readonly type: 'lazyEvaluator'
-    readonly deriveValidator: (value: unknown) => Validator
+    readonly deriveValidator: (value: unknown) => Validator | Promise<Validator>
+  }
+}
+
+export interface Transformer {
+  readonly [packagePrivate]: {
+    readonly type: 'transformer'
+    readonly validator: Validator
+    readonly transform: (value: unknown) => unknown
   }
 }
 
+export interface Generic {
+  readonly [packagePrivate]: {
+    readonly type: 'generic'
+    // Each type argument is provided as a ruleset, which may use the interpolated values of the validator it came from.
+    readonly instantiate: (typeArguments: readonly Ruleset[]) => Validator
+  }
+  /** The names of the generic's type parameters, in the order their type arguments are expected. */
+  readonly typeParameters: readonly string[]
+  /**
+   * The rules the generic follows. Each type parameter is represented as an interpolation rule,
+   * e.g. the second type parameter will use an interpolation index of 1.
+   */
+  readonly ruleset: Ruleset
+}
+
+/** The validators created by validator.types`...`, keyed by the names they were declared with. */
+export type DeclaredTypes<Names extends string = string> = { readonly [Name in Names]: Validator };
+
 export interface Validator<T=unknown> {
-  readonly [packagePrivate]: { readonly type: 'validator' }
+  readonly [packagePrivate]: {
+    readonly type: 'validator'
+    // Set on validators created by validator.withMessage().
+    // When matching fails, this message gets reported instead of the failures that caused it.
+    readonly customMessage?: string | undefined
+  }
   /**
    * Expects any value as a parameter. Returns true if the provided value matches the validator.
    */
-  readonly matches: (value: unknown) => value is T
+  readonly matches: (value: unknown, opts?: MatchesOpts) => value is T
   /**
    * Expects any value as a parameter. Throws a TypeError if the value fails to match the validator.
    * Returns the supplied argument as-is.
    */
   readonly assertMatches: (value: unknown, opts?: AssertMatchesOpts) => T
+  /**
+   * Expects any value as a parameter. Throws a TypeError if the value fails to match the validator,
+   * just like .assertMatches(). Otherwise, returns the value, with every portion that was matched by an
+   * interpolated transformer (from validator.transform()) replaced by the transformer's output.
+   * The provided value is never modified - objects and arrays that hold transformed values get shallow-copied instead.
+   */
+  readonly parse: (value: unknown, opts?: AssertMatchesOpts) => T
   /**
    * This function behaves exactly like validatorInstance.assertMatches(),
    * with the only exception being that it does not return anything.
@@ -96,6 +210,29 @@ export interface Validator<T=unknown> {
    * as it is capable of providing more descriptive error messages than .assertMatches().
    */
   readonly assertArgs: (whichFn: string, args: ArrayLike<unknown>) => void
+  /**
+   * Expects any value as a parameter. Returns a list of issues explaining why the value failed
+   * to match the validator, or an empty list if the value matches.
+   *
+   * By default, matching stops at the first failure, just like .assertMatches().
+   * Set the `collectAll` option to true to walk through the entire value and report every failure
+   * that can be found. (Failing unions are still reported as a single issue).
+   */
+  readonly validate: (value: unknown, opts?: ValidateOpts) => readonly ValidationIssue[]
+  /**
+   * Behaves like .assertMatches(), except it's able to handle async expectations (from validator.expectToAsync())
+   * and lazy evaluators that return promises. Resolves to the supplied argument, or rejects with a TypeError
+   * if the value fails to match the validator.
+   *
+   * Async callbacks found in different parts of the value will run concurrently.
+   * Each callback is only called once per value it's in charge of checking.
+   */
+  readonly assertMatchesAsync: (value: unknown, opts?: AssertMatchesOpts) => Promise<T>
+  /**
+   * Behaves like .matches(), except it's able to handle async expectations (from validator.expectToAsync())
+   * and lazy evaluators that return promises.
+   */
+  readonly matchesAsync: (value: unknown, opts?: MatchesOpts) => Promise<boolean>
   /**
    * This contains the ruleset that the validator follows as it validates data.
    * This ruleset is generally the result of parsing the text provided in the validator template tag.
@@ -112,8 +249,84 @@ export interface ValidatorTemplateTagStaticFields {
    * If a validator instance is passed in, the same validator instance is returned.
    * If a string is passed in, the string will be parsed as a string containing validation rules,
    * and a new validator instance will be returned.
+   *
+   * When a string literal is passed in, the returned validator will be typed
+   * according to the rules written in that string (see the InferType type).
+   */
+  readonly from: {
+    <T extends string>(source: T): Validator<InferType<T>>
+    <T extends Validator<any>>(validator: T): T
+    (stringOrValidator: string | Validator): Validator
+  }
+  /**
+   * Returns a new validator with the same rules as the provided validator,
+   * which has been compiled into a form that's faster to check values against.
+   * The returned validator behaves exactly like the original, including the error messages it produces.
+   * Compiling takes some extra work up front, so this is best reserved for validators that get used often.
    */
-  readonly from: (unknownValue: string | Validator) => Validator
+  readonly compile: <T>(validator: Validator<T>) => Validator<T>
+  /**
+   * Returns a new validator with the same rules as the provided validator,
+   * which will build its error messages using the provided message catalog and/or formatMessage() hook.
+   * Each message is identified by an id (e.g. "type_mismatch"), and comes with parameters describing the failure.
+   * Messages that aren't customized will continue to use the default English text.
+   *
+   * The same options can be provided when calling methods such as `.assertMatches()`, in which case,
+   * they'll take precedence over the options provided here.
+   */
+  readonly localize: <T>(validator: Validator<T>, opts: LocalizeOpts) => Validator<T>
+  /**
+   * Returns a new validator with the same rules as the provided validator,
+   * which reports the provided message whenever a value fails to match it, in place of the generated error text.
+   * The message is expected to complete the sentence "[the value's path] ...", e.g. 'must be a valid postcode.'
+   * would produce the error "<receivedValue>.postcode must be a valid postcode."
+   *
+   * This is most useful when the returned validator is interpolated into another validator.
+   * The message can be translated via the "custom_message" entry of a message catalog.
+   */
+  readonly withMessage: <T>(validator: Validator<T>, message: string) => Validator<T>
+  /**
+   * Converts the provided validator into a JSON Schema document (draft 2020-12).
+   * Some rules, such as interpolated expectations, classes, and lazy evaluators,
+   * can't be represented in JSON Schema. By default, an error will be thrown when these are found.
+   * This can be changed with the `onUnrepresentable` option.
+   */
+  readonly toJsonSchema: (validator: Validator, opts?: ToJsonSchemaOpts) => JsonSchemaObject
+  /**
+   * Builds a validator from a JSON Schema document (draft 2020-12).
+   * Keywords without a matching rule (such as `multipleOf` or `uniqueItems`) are checked with generated expectations.
+   * Local references (e.g. `{ "$ref": "#/$defs/user" }`) are supported, including recursive ones.
+   */
+  readonly fromJsonSchema: (schema: JsonSchema) => Validator
+  /**
+   * Converts a ruleset into plain JSON, so it can be stored, or sent to another process.
+   * Interpolated validators are serialized along with the ruleset. Other interpolated values that JSON can't represent
+   * (such as classes, expectations, regular expressions, or symbols) need to be given a name in the registry,
+   * and get referenced by that name. Registered validators are referenced by name as well.
+   */
+  readonly serializeRuleset: (ruleset: Ruleset, registry?: InterpolationRegistry) => SerializedRuleset
+  /**
+   * Rebuilds a ruleset that was serialized with validator.serializeRuleset().
+   * Values that were referenced by name are looked up in the provided registry.
+   */
+  readonly deserializeRuleset: (serialized: SerializedRuleset, registry?: InterpolationRegistry) => Ruleset
+  /**
+   * Converts a validator (or a ruleset) back into validator template syntax.
+   * The output is formatted in a consistent way, no matter how the rules were originally written.
+   * Interpolated values are shown as `${…}` placeholders containing a short description of the value.
+   */
+  readonly stringify: (validatorOrRuleset: Validator | Ruleset) => string
+  /**
+   * Calls the visitor with every rule in the ruleset, parents before children.
+   * Every category of rule is supported, and interpolated validators can optionally be walked through as well.
+   */
+  readonly walkRule: (ruleset: Ruleset, visitor: RuleVisitor, opts?: WalkRuleOpts) => void
+  /**
+   * Builds a new, frozen ruleset by passing every rule in the provided ruleset through the transformer, children before parents.
+   * The transformer may return rules taken from other rulesets (by returning the ruleset the rule came from),
+   * in which case the interpolated values and interpolation indices are merged in automatically.
+   */
+  readonly mapRule: (ruleset: Ruleset, transformer: RuleTransformer) => Ruleset
   /**
    * This function allows you to lazily fetch or build a validator instance at the moment it's needed.
    * It expects a callback to be provided and will return a lazy evaluator (of type LazyEvaluator),
@@ -121,8 +334,10 @@ export interface ValidatorTemplateTagStaticFields {
    *
    * The callback accepts, as a parameter, the value it's in charge of validating.
    * It should return a validator instance, which will be used to validate the data.
+   * The callback may also return a promise that resolves to a validator instance, in which case,
+   * values can only be checked with the async validator methods, such as `.assertMatchesAsync()`.
    */
-  readonly lazy: (deriveValidator: (value: unknown) => Validator) => LazyEvaluator
+  readonly lazy: (deriveValidator: (value: unknown) => Validator | Promise<Validator>) => LazyEvaluator
   /**
    * The validator.expectTo() function makes it easy to supply custom validation logic.
    * It expects a callback that returns an error string or null, depending on if your custom
@@ -136,6 +351,47 @@ export interface ValidatorTemplateTagStaticFields {
    * It defaults to unknown.
    */
   readonly expectTo: <T=unknown>(callback: (valueBeingMatched: T) => string | undefined) => Expectation
+  /**
+   * Works just like validator.expectTo(), except the callback returns a promise that resolves
+   * to an error string or undefined. This is useful for checks that need to look things up,
+   * e.g. checking if a username is already taken.
+   *
+   * Validators containing async expectations can only check values with the async validator methods,
+   * such as `.assertMatchesAsync()`. The synchronous methods will throw if one is encountered.
+   */
+  readonly expectToAsync: <T=unknown>(callback: (valueBeingMatched: T) => Promise<string | undefined>) => Expectation
+  /**
+   * Returns a transformer (of type Transformer), which can be interpolated into a validator template.
+   * When matching, a transformer behaves exactly like the provided validator.
+   * When a value gets parsed (with `<validator instance>.parse()`), the portion of the value
+   * matched by the transformer will be replaced with whatever the callback returns.
+   *
+   * A generic parameter can optionally be provided to tell TypeScript the type of value your callback receives.
+   * It defaults to the type of the provided validator.
+   */
+  readonly transform: <T=unknown>(fromValidator: Validator<T>, transform: (value: T) => unknown) => Transformer
+  /**
+   * Declares a generic, which can be interpolated into a validator template along with type arguments.
+   * Any of the provided type parameter names may be used as a type within the rules text.
+   * For example, if `Page` were set to `validator.generic(['T'], '{ items: T[], total: number }')`,
+   * then validator`${Page}<${User}>` would expect an object with an `items` array full of users.
+   *
+   * Each generic instantiation only gets built once, which allows it to benefit from caching.
+   */
+  readonly generic: (typeParameters: readonly string[], text: string) => Generic
+  /**
+   * Accepts a series of type declarations, e.g. validator.types`type Node = { children: Node[] }; type Tree = Node | null`,
+   * and returns an object containing a validator for each declared type.
+   * Declared types may reference each other by name, regardless of the order they were declared in,
+   * which makes this a simpler alternative to validator.lazy() for describing recursive data structures.
+   *
+   * A generic parameter can optionally be provided to tell TypeScript which names are being declared,
+   * e.g. validator.types<'Node' | 'Tree'>`...`.
+   */
+  readonly types: <Names extends string = string>(
+    parts: TemplateStringsArray,
+    ...interpolated: readonly InterpolatedValue[]
+  ) => DeclaredTypes<Names>
   /**
    * Returns true if the provided value is a validator instance.
    */
@@ -148,6 +404,19 @@ export interface ValidatorTemplateTagStaticFields {
    * Returns true if the provided value is a LazyEvaluator instance.
    */
   readonly isLazyEvaluator: (value: unknown) => value is LazyEvaluator
+  /**
+   * Controls the cache used to avoid re-parsing the same template text, e.g. when a validator is created inside of a function.
+   * The cache can be bounded (with least-recently-used entries getting evicted), cleared, and inspected.
+   */
+  readonly cache: CacheControl
+  /**
+   * Searches the provided source code for validator templates, and returns the text of a module that,
+   * when imported, seeds the template cache with their parsed rules, so they won't need to be parsed at runtime.
+   * This is intended to be used as part of a build step, e.g. by reading in every source file of a project,
+   * writing the result to a file, and importing that file before any validators get created.
+   * Templates that can't be parsed are left out.
+   */
+  readonly precompile: (sourceTexts: readonly string[], opts?: PrecompileOpts) => string
 }
 
 type Primitive = string | number | bigint | boolean | symbol | null | undefined;
@@ -156,6 +425,8 @@ export type InterpolatedValue = (
   | Validator
   | LazyEvaluator
   | Expectation
+  | Transformer
+  | Generic
   | RegExp
   | (new (...params: any) => any)
 );
@@ -191,6 +462,22 @@ export function isLazyEvaluator(value: unknown): value is LazyEvaluator {
   );
 }
 
+export function isTransformer(value: unknown): value is Transformer {
+  return (
+    // Later on, once support is better, this can be replaced with Object.hasOwn()
+    Object.prototype.hasOwnProperty.call(value, packagePrivate) &&
+    Object(value)[packagePrivate]?.type === 'transformer'
+  );
+}
+
+export function isGeneric(value: unknown): value is Generic {
+  return (
+    // Later on, once support is better, this can be replaced with Object.hasOwn()
+    Object.prototype.hasOwnProperty.call(value, packagePrivate) &&
+    Object(value)[packagePrivate]?.type === 'generic'
+  );
+}
+
 export function createInterpolatedValueCheck(validator: ValidatorTemplateTag): Validator {
   const expectDirectInstance = expectDirectInstanceFactory(validator);
   return validator`
@@ -198,6 +485,8 @@ export function createInterpolatedValueCheck(validator: ValidatorTemplateTag): V
     | ${validator.expectTo(value => isValidator(value) ? undefined : 'be a Validator.')}
     | ${validator.expectTo(value => isExpectation(value) ? undefined : 'be an Expectation (from .expectTo()).')}
     | ${validator.expectTo(value => isLazyEvaluator(value) ? undefined : 'be a LazyEvaluator (from .lazy()).')}
+    | ${validator.expectTo(value => isTransformer(value) ? undefined : 'be a Transformer (from .transform()).')}
+    | ${validator.expectTo(value => isGeneric(value) ? undefined : 'be a Generic (from .generic()).')}
     | ${expectDirectInstance(RegExp)}
     | ${Function}
   `;
@@ -3,18 +3,40 @@
 // This is done because the real validator API is just a thin wrapper over this module, which uses this module,
 // both for its implementation and to validate the user-provided data.
 
-import { parse } from './ruleParser/index.js';
-import { freezeRuleset } from './ruleFreezer.js';
-import { matchArgument, matchValue } from './ruleEnforcer/index.js';
-import { lookupCacheEntry } from './cacheControl.js';
+import { parse, parseTypeDeclarations } from './ruleParser/index.js';
+import { freezeRule, freezeRuleset } from './ruleFreezer.js';
+import { registerDeclaredType } from './declaredTypes.js';
+import { assertValidTypeArguments } from './genericInstantiator.js';
+import { matchArgument, matchValue, matchValueAsync, validateValue } from './ruleEnforcer/index.js';
+import { createValidationError } from './ruleEnforcer/ValidationError.js';
+import { cacheControl, lookupOrParseInternalRule, lookupOrParseRule } from './cacheControl.js';
+import { precompileTemplates } from './templatePrecompiler.js';
+import { compileRuleset, type CompiledMatcher } from './ruleCompiler.js';
+import { rulesetToJsonSchema } from './jsonSchema/toJsonSchema.js';
+import { jsonSchemaToRuleset } from './jsonSchema/fromJsonSchema.js';
+import { serializeRuleset, deserializeRuleset } from './rulesetSerializer.js';
+import { walkRule, mapRule } from './ruleTraversal.js';
+import { inspectCustom, inspectRuleset, stringifyRuleset } from './ruleStringifier.js';
+import { transformValue } from './ruleTransformer.js';
+import type { JsonSchema, JsonSchemaObject, ToJsonSchemaOpts } from './types/jsonSchema.js';
 import type { Ruleset } from './types/validationRules.js';
+import type { InferType } from './types/inferType.js';
+import type { LocalizeOpts } from './types/messageCatalog.js';
+import type { PrecompileOpts } from './types/cacheControl.js';
+import type { InterpolationRegistry, SerializedRuleset } from './types/serialization.js';
+import type { RuleTransformer, RuleVisitor, WalkRuleOpts } from './types/ruleTraversal.js';
 import {
   type AssertMatchesOpts,
+  type MatchesOpts,
+  type ValidateOpts,
   type Validator,
   type LazyEvaluator,
   type ValidatorTemplateTag,
   type ValidatorTemplateTagStaticFields,
   type Expectation,
+  type Transformer,
+  type Generic,
+  type DeclaredTypes,
   type InterpolatedValue,
   isValidator,
   isExpectation,
@@ -26,33 +48,80 @@ export const uncheckedValidator = function uncheckedValidator<T=unknown>(
   parts: TemplateStringsArray,
   ...interpolated: readonly InterpolatedValue[]
 ): Validator<T> {
-  const cacheEntry = lookupCacheEntry(parts.raw);
-  if (cacheEntry.exists()) {
-    return fromRuleset<T>(freezeRuleset({
-      rootRule: cacheEntry.get(),
-      interpolated,
-    }, { assumeRootRuleIsDeepFrozen: true }));
-  } else {
-    const ruleset = freezeRuleset({
-      rootRule: parse(parts.raw, interpolated),
-      interpolated,
-    });
-    cacheEntry.set(ruleset.rootRule);
-    return fromRuleset<T>(ruleset);
-  }
+  const rootRule = lookupOrParseRule(parts.raw, () => freezeRule(parse(parts.raw, interpolated)));
+  assertValidTypeArguments(rootRule, interpolated);
+  return fromRuleset<T>(freezeRuleset({
+    rootRule,
+    interpolated,
+  }, { assumeRootRuleIsDeepFrozen: true }));
 } as ValidatorTemplateTag;
 
+/**
+ * Behaves the same as uncheckedValidator, but is meant for the library's own templates,
+ * which get cached separately from the user's templates (see lookupOrParseInternalRule()).
+ */
+export const internalValidator = function internalValidator<T=unknown>(
+  parts: TemplateStringsArray,
+  ...interpolated: readonly InterpolatedValue[]
+): Validator<T> {
+  const rootRule = lookupOrParseInternalRule(parts.raw, () => freezeRule(parse(parts.raw, interpolated)));
+  assertValidTypeArguments(rootRule, interpolated);
+  return fromRuleset<T>(freezeRuleset({
+    rootRule,
+    interpolated,
+  }, { assumeRootRuleIsDeepFrozen: true }));
+} as ValidatorTemplateTag;
+
+interface FromRulesetOpts {
+  // When set, values will be checked using a compiled matcher.
+  // The regular match algorithm will only run when an error needs to be built.
+  readonly compile?: boolean
+  // Used when building error messages, unless overridden by the options of a specific call.
+  readonly localizeOpts?: LocalizeOpts
+  // See the `customMessage` field of the Validator type.
+  readonly customMessage?: string | undefined
+}
+
+// Remembers the options each validator was built with, so validators derived from them
+// (e.g. via validator.compile()) can be built with the same options.
+const fromRulesetOptsOf = new WeakMap<Validator, FromRulesetOpts>();
+
+// Catalog entries and the formatMessage() hook from the overrides take precedence.
+function mergeLocalizeOpts(base: LocalizeOpts | undefined, overrides: LocalizeOpts | undefined): LocalizeOpts {
+  return {
+    messageCatalog: base?.messageCatalog === undefined || overrides?.messageCatalog === undefined
+      ? overrides?.messageCatalog ?? base?.messageCatalog
+      : { ...base.messageCatalog, ...overrides.messageCatalog },
+    formatMessage: overrides?.formatMessage ?? base?.formatMessage,
+  };
+}
+
 // ruleset should already be frozen before this is called.
-function fromRuleset<T=unknown>(ruleset: Ruleset): Validator<T> {
-  return Object.freeze({
-    [packagePrivate]: { type: 'validator' as const },
+function fromRuleset<T=unknown>(ruleset: Ruleset, fromRulesetOpts: FromRulesetOpts = {}): Validator<T> {
+  const compiledMatcher: CompiledMatcher | null = fromRulesetOpts.compile === true ? compileRuleset(ruleset) : null;
+  // The compiled matcher is only built for the default matching behavior,
+  // so it gets skipped when the ownPropertiesOnly option is used.
+  const passesCompiledMatcher = (value: unknown, ownPropertiesOnly: boolean | undefined): boolean => (
+    ownPropertiesOnly !== true && compiledMatcher?.(value) === true
+  );
+  const localizeOptsFor = (opts: LocalizeOpts | undefined): LocalizeOpts => (
+    mergeLocalizeOpts(fromRulesetOpts.localizeOpts, opts)
+  );
+
+  const validator: Validator<T> = Object.freeze({
+    [packagePrivate]: { type: 'validator' as const, customMessage: fromRulesetOpts.customMessage },
     assertMatches(value: unknown, opts?: AssertMatchesOpts): T {
+      if (passesCompiledMatcher(value, opts?.ownPropertiesOnly)) {
+        return value as T;
+      }
+
       const matched = matchValue(
         ruleset.rootRule,
         value,
         ruleset.interpolated,
         opts?.at,
-        { errorPrefix: opts?.errorPrefix },
+        { errorPrefix: opts?.errorPrefix, ...localizeOptsFor(opts) },
+        { ownPropertiesOnly: opts?.ownPropertiesOnly },
       );
 
       // throw as TypeError relatively low down the call stack, so we don't have too
@@ -61,24 +130,53 @@ function fromRuleset<T=unknown>(ruleset: Ruleset): Validator<T> {
         if (opts?.errorFactory !== undefined) {
           throw opts?.errorFactory(matched.message);
         } else {
-          throw new TypeError(matched.message);
+          throw createValidationError(matched.message, matched.buildIssues);
         }
       }
 
       return value as T;
     },
+    parse(value: unknown, opts?: AssertMatchesOpts): T {
+      if (!passesCompiledMatcher(value, opts?.ownPropertiesOnly)) {
+        const matched = matchValue(
+          ruleset.rootRule,
+          value,
+          ruleset.interpolated,
+          opts?.at,
+          { errorPrefix: opts?.errorPrefix, ...localizeOptsFor(opts) },
+          { ownPropertiesOnly: opts?.ownPropertiesOnly },
+        );
+
+        // Throw as TypeError relatively low down the call stack, so we don't have too
+        // many unnecessary stack frames in the call stack.
+        if (!matched.success) {
+          if (opts?.errorFactory !== undefined) {
+            throw opts?.errorFactory(matched.message);
+          } else {
+            throw createValidationError(matched.message, matched.buildIssues);
+          }
+        }
+      }
+
+      return transformValue(ruleset, value, { ownPropertiesOnly: opts?.ownPropertiesOnly ?? false }) as T;
+    },
     // Same as assertMatches(), except with a different type signature, and
     // returns void. Functions with assertion signatures have stricter rules
     // about when and how they can be used, and they can't be programmed to
     // return a value, which is why this is placed in a separate function.
     // If you're not using TypeScript, its recommended to simply ignore this.
     assertionTypeGuard(value: unknown, opts?: AssertMatchesOpts): asserts value is T {
+      if (passesCompiledMatcher(value, opts?.ownPropertiesOnly)) {
+        return;
+      }
+
       const matched = matchValue(
         ruleset.rootRule,
         value,
         ruleset.interpolated,
         opts?.at,
-        { errorPrefix: opts?.errorPrefix },
+        { errorPrefix: opts?.errorPrefix, ...localizeOptsFor(opts) },
+        { ownPropertiesOnly: opts?.ownPropertiesOnly },
       );
 
       // Throw as TypeError relatively low down the call stack, so we don't have too
@@ -87,29 +185,119 @@ function fromRuleset<T=unknown>(ruleset: Ruleset): Validator<T> {
         if (opts?.errorFactory !== undefined) {
           throw opts?.errorFactory(matched.message);
         } else {
-          throw new TypeError(matched.message);
+          throw createValidationError(matched.message, matched.buildIssues);
         }
       }
     },
     assertArgs(whichFn: string, args: ArrayLike<unknown>) {
+      const argsAsArray = Array.from(args);
+      if (compiledMatcher?.(argsAsArray) === true) {
+        return;
+      }
+
       const matched = matchArgument(
         ruleset.rootRule,
-        Array.from(args),
+        argsAsArray,
         ruleset.interpolated,
-        { whichFn },
+        { whichFn, ...localizeOptsFor(undefined) },
       );
 
       // Throw as TypeError relatively low down the call stack, so we don't have too
       // many unnecessary stack frames in the call stack.
       if (!matched.success) {
-        throw new TypeError(matched.message);
+        throw createValidationError(matched.message, matched.buildIssues);
       }
     },
-    matches(value: unknown): value is T {
-      return matchValue(ruleset.rootRule, value, ruleset.interpolated).success;
+    matches(value: unknown, opts?: MatchesOpts): value is T {
+      if (compiledMatcher !== null && opts?.ownPropertiesOnly !== true) {
+        return compiledMatcher(value);
+      }
+
+      return matchValue(
+        ruleset.rootRule,
+        value,
+        ruleset.interpolated,
+        undefined,
+        undefined,
+        { ownPropertiesOnly: opts?.ownPropertiesOnly },
+      ).success;
+    },
+    async assertMatchesAsync(value: unknown, opts?: AssertMatchesOpts): Promise<T> {
+      // The compiled matcher is skipped, as it's unable to wait for async callbacks.
+      const matched = await matchValueAsync(
+        ruleset.rootRule,
+        value,
+        ruleset.interpolated,
+        opts?.at,
+        { errorPrefix: opts?.errorPrefix, ...localizeOptsFor(opts) },
+        { ownPropertiesOnly: opts?.ownPropertiesOnly },
+      );
+
+      if (!matched.success) {
+        if (opts?.errorFactory !== undefined) {
+          throw opts?.errorFactory(matched.message);
+        } else {
+          throw createValidationError(matched.message, matched.buildIssues);
+        }
+      }
+
+      return value as T;
+    },
+    async matchesAsync(value: unknown, opts?: MatchesOpts): Promise<boolean> {
+      const matched = await matchValueAsync(
+        ruleset.rootRule,
+        value,
+        ruleset.interpolated,
+        undefined,
+        undefined,
+        { ownPropertiesOnly: opts?.ownPropertiesOnly },
+      );
+      return matched.success;
+    },
+    validate(value: unknown, opts?: ValidateOpts) {
+      if (passesCompiledMatcher(value, opts?.ownPropertiesOnly)) {
+        return Object.freeze([]);
+      }
+
+      return validateValue(
+        ruleset.rootRule,
+        value,
+        ruleset.interpolated,
+        opts?.at,
+        {
+          collectAll: opts?.collectAll ?? false,
+          ownPropertiesOnly: opts?.ownPropertiesOnly ?? false,
+          ...localizeOptsFor(opts),
+        },
+      );
     },
     ruleset,
+    [inspectCustom]() {
+      return inspectRuleset(ruleset);
+    },
   });
+
+  fromRulesetOptsOf.set(validator, fromRulesetOpts);
+  return validator;
+}
+
+// The inferred return type only exists at compile-time, so there's nothing to verify it against here.
+function fromStringOrValidator<T extends string>(source: T): Validator<InferType<T>>;
+function fromStringOrValidator<T extends Validator<any>>(validator: T): T;
+function fromStringOrValidator(stringOrValidator: string | Validator): Validator;
+function fromStringOrValidator(stringOrValidator: string | Validator): Validator {
+  if (typeof stringOrValidator !== 'string') {
+    return stringOrValidator;
+  }
+
+  return fromRuleset(freezeRuleset({
+    rootRule: lookupOrParseRule(
+      [stringOrValidator],
+      () => freezeRule(parse([stringOrValidator], [])),
+      { isStringSource: true },
+    ),
+    interpolated: [],
+  }, { assumeRootRuleIsDeepFrozen: true }));
 }
 
 const staticFields: ValidatorTemplateTagStaticFields = {
@@ -117,16 +305,66 @@ const staticFields: ValidatorTemplateTagStaticFields = {
     return fromRuleset<T>(freezeRuleset(ruleset_));
   },
 
-  from(unknownValue: string | Validator): Validator {
-    return typeof unknownValue === 'string'
-      ? fromRuleset(freezeRuleset({
-        rootRule: parse([unknownValue], []),
-        interpolated: [],
-      }))
-      : unknownValue;
+  from: fromStringOrValidator,
+
+  compile<T>(validator: Validator<T>): Validator<T> {
+    return fromRuleset<T>(validator.ruleset, { ...fromRulesetOptsOf.get(validator), compile: true });
+  },
+
+  localize<T>(validator: Validator<T>, opts: LocalizeOpts): Validator<T> {
+    const fromRulesetOpts = fromRulesetOptsOf.get(validator);
+    return fromRuleset<T>(validator.ruleset, {
+      ...fromRulesetOpts,
+      localizeOpts: mergeLocalizeOpts(fromRulesetOpts?.localizeOpts, opts),
+    });
+  },
+
+  withMessage<T>(validator: Validator<T>, message: string): Validator<T> {
+    const fromRulesetOpts = fromRulesetOptsOf.get(validator);
+    // Custom messages only get applied when a validator is interpolated (see interpolationCheck()),
+    // so the returned validator interpolates a copy of the provided validator that holds the message.
+    const validatorWithMessage = fromRuleset(validator.ruleset, { customMessage: message });
+    return fromRuleset<T>(freezeRuleset({
+      rootRule: { category: 'interpolation', interpolationIndex: 0 },
+      interpolated: [validatorWithMessage],
+    }), { ...fromRulesetOpts, customMessage: undefined });
+  },
+
+  toJsonSchema(validator: Validator, opts?: ToJsonSchemaOpts): JsonSchemaObject {
+    return rulesetToJsonSchema(validator.ruleset, opts);
+  },
+
+  fromJsonSchema(schema: JsonSchema): Validator {
+    return fromRuleset(jsonSchemaToRuleset(schema, uncheckedValidator));
+  },
+
+  serializeRuleset(ruleset: Ruleset, registry: InterpolationRegistry = {}): SerializedRuleset {
+    return serializeRuleset(ruleset, registry);
+  },
+
+  deserializeRuleset(serialized: SerializedRuleset, registry: InterpolationRegistry = {}): Ruleset {
+    return freezeRuleset(deserializeRuleset(serialized, registry, (ruleset, customMessage) => {
+      return fromRuleset(freezeRuleset(ruleset), { customMessage });
+    }));
+  },
+
+  stringify(validatorOrRuleset: Validator | Ruleset): string {
+    return stringifyRuleset(
+      isValidator(validatorOrRuleset)
+        ? validatorOrRuleset.ruleset
+        : freezeRuleset(validatorOrRuleset),
+    );
+  },
+
+  walkRule(ruleset: Ruleset, visitor: RuleVisitor, opts: WalkRuleOpts = {}): void {
+    walkRule(ruleset, visitor, opts);
+  },
+
+  mapRule(ruleset: Ruleset, transformer: RuleTransformer): Ruleset {
+    return mapRule(ruleset, transformer);
   },
 
-  lazy(deriveValidator: (value: unknown) => Validator): LazyEvaluator {
+  lazy(deriveValidator: (value: unknown) => Validator | Promise<Validator>): LazyEvaluator {
     return Object.freeze({
       [packagePrivate]: {
         type: 'lazyEvaluator' as const,
@@ -144,6 +382,80 @@ const staticFields: ValidatorTemplateTagStaticFields = {
     };
   },
 
+  expectToAsync<T=unknown>(testExpectation: (valueBeingMatched: T) => Promise<string | undefined>): Expectation {
+    return Object.freeze({
+      [packagePrivate]: {
+        type: 'expectation' as const,
+        testExpectation: testExpectation as (value: unknown) => Promise<string | undefined>,
+      },
+    });
+  },
+
+  transform<T=unknown>(fromValidator: Validator<T>, transform: (value: T) => unknown): Transformer {
+    return Object.freeze({
+      [packagePrivate]: {
+        type: 'transformer' as const,
+        validator: fromValidator,
+        transform: transform as (value: unknown) => unknown,
+      },
+    });
+  },
+
+  generic(typeParameters_: readonly string[], text: string): Generic {
+    const typeParameters = Object.freeze([...typeParameters_]);
+    // Each type parameter gets an interpolation slot, which will be filled with the corresponding type argument
+    // once the generic is instantiated. Until then, the slot holds a placeholder that refuses to be matched against.
+    const placeholders = typeParameters.map(name => staticFields.lazy(() => {
+      throw new TypeError(`The type parameter ${JSON.stringify(name)} was used without being provided a type argument.`);
+    }));
+    const ruleset = freezeRuleset({
+      rootRule: parse([text], placeholders, { typeParameters }),
+      interpolated: placeholders,
+    });
+
+    return Object.freeze({
+      [packagePrivate]: {
+        type: 'generic' as const,
+        instantiate(typeArguments: readonly Ruleset[]): Validator {
+          return fromRuleset(freezeRuleset({
+            rootRule: ruleset.rootRule,
+            // The type arguments are taken from frozen rulesets.
+            interpolated: typeArguments.map(typeArgument => fromRuleset(
+              freezeRuleset(typeArgument, { assumeRootRuleIsDeepFrozen: true }),
+            )),
+          }, { assumeRootRuleIsDeepFrozen: true }));
+        },
+      },
+      typeParameters,
+      ruleset,
+    });
+  },
+
+  types<Names extends string = string>(
+    parts: TemplateStringsArray,
+    ...interpolated: readonly InterpolatedValue[]
+  ): DeclaredTypes<Names> {
+    const declarations = parseTypeDeclarations(parts.raw, interpolated);
+
+    // Each declared type gets a slot at the end of the shared interpolated array,
+    // which can only be filled in once all of the validators have been created.
+    const sharedInterpolated: InterpolatedValue[] = [...interpolated];
+    const declaredTypes = Object.fromEntries(declarations.map(({ name, interpolationIndex, rule }) => {
+      const ruleset: Ruleset = Object.freeze({ rootRule: freezeRule(rule), interpolated: sharedInterpolated });
+      registerDeclaredType(ruleset, name);
+      const validator = fromRuleset(ruleset);
+      sharedInterpolated[interpolationIndex] = validator;
+      return [name, validator];
+    }));
+    Object.freeze(sharedInterpolated);
+    // This has to wait until every declared type has been filled into its slot.
+    for (const validator of Object.values(declaredTypes)) {
+      assertValidTypeArguments(validator.ruleset.rootRule, sharedInterpolated);
+    }
+
+    return Object.freeze(declaredTypes) as DeclaredTypes<Names>;
+  },
+
   isValidator(value: unknown): value is Validator {
     return isValidator(value);
   },
@@ -155,6 +467,13 @@ const staticFields: ValidatorTemplateTagStaticFields = {
   isLazyEvaluator(value: unknown): value is LazyEvaluator {
     return isLazyEvaluator(value);
   },
+
+  cache: cacheControl,
+
+  precompile(sourceTexts: readonly string[], opts: PrecompileOpts = {}): string {
+    return precompileTemplates(sourceTexts, opts);
+  },
 };
 
 Object.assign(uncheckedValidator, staticFields);
+Object.assign(internalValidator, staticFields);
@@ -1,32 +1,99 @@
 import { type Ruleset, _validationRulesInternals } from './types/validationRules.js';
 import {
   createAssertMatchesOptsCheck,
+  createMatchesOptsCheck,
+  createValidateOptsCheck,
   createInterpolatedValueCheck,
   isValidator,
   wrapErrorFactoryFnWithAssertions,
   type AssertMatchesOpts,
+  type MatchesOpts,
+  type ValidateOpts,
   type Validator,
   type LazyEvaluator,
   type ValidatorTemplateTagStaticFields,
   type ValidatorTemplateTag,
   type Expectation,
+  type Transformer,
+  type Generic,
+  type DeclaredTypes,
   type InterpolatedValue,
 } from './types/validator.js';
-import { uncheckedValidator } from './uncheckedValidatorApi.js';
+import type { InferType } from './types/inferType.js';
+import {
+  createToJsonSchemaOptsCheck,
+  type JsonSchema,
+  type JsonSchemaObject,
+  type ToJsonSchemaOpts,
+} from './types/jsonSchema.js';
+import {
+  createLocalizeOptsCheck,
+  wrapLocalizeOptsWithAssertions,
+  type LocalizeOpts,
+} from './types/messageCatalog.js';
+import {
+  createCacheOptsCheck,
+  createCacheSeedEntriesCheck,
+  createPrecompileOptsCheck,
+  type CacheOpts,
+  type CacheSeedEntry,
+  type CacheStats,
+  type PrecompileOpts,
+} from './types/cacheControl.js';
+import {
+  createInterpolationRegistryCheck,
+  createSerializedRulesetCheck,
+  type InterpolationRegistry,
+  type SerializedRuleset,
+} from './types/serialization.js';
+import {
+  createWalkRuleOptsCheck,
+  type RuleTransformer,
+  type RuleVisitor,
+  type WalkRuleOpts,
+} from './types/ruleTraversal.js';
+import { internalValidator, uncheckedValidator } from './uncheckedValidatorApi.js';
 import { packagePrivate } from './packagePrivateAccess.js';
 import { DISABLE_PARAM_VALIDATION } from './config.js';
+import { inspectCustom, inspectRuleset } from './ruleStringifier.js';
+import { deserializeRuleset } from './rulesetSerializer.js';
 import { expectDirectInstanceFactory } from './validationHelpers.js';
+import { isDirectInstanceOf, reprUnknownValue } from './util.js';
+import { isIdentifier, isReservedTypeName } from './ruleParser/index.js';
 
-const { createRulesetCheck } = _validationRulesInternals[packagePrivate];
-const rulesetCheck = createRulesetCheck(uncheckedValidator);
-const interpolatedValueCheck = createInterpolatedValueCheck(uncheckedValidator);
-const expectDirectInstance = expectDirectInstanceFactory(uncheckedValidator);
+const { createRuleCheck, createRulesetCheck } = _validationRulesInternals[packagePrivate];
+const rulesetCheck = createRulesetCheck(internalValidator);
+const interpolatedValueCheck = createInterpolatedValueCheck(internalValidator);
+const expectDirectInstance = expectDirectInstanceFactory(internalValidator);
 
-const expectValidator = uncheckedValidator.expectTo(
+const expectValidator = internalValidator.expectTo(
   (value: unknown) => isValidator(value) ? undefined : 'be a validator instance.',
 );
 
-const expectArrayLike = uncheckedValidator.expectTo(
+// Async functions are direct instances of AsyncFunction (a subclass of Function), which isn't exposed as a global.
+const AsyncFunction = (async () => {}).constructor as new (...params: any[]) => any;
+const expectFunctionOrAsyncFunction = internalValidator.expectTo(
+  (value: unknown) => isDirectInstanceOf(value, Function) || isDirectInstanceOf(value, AsyncFunction)
+    ? undefined
+    : 'be a direct instance of `Function`.',
+);
+
+// Names that already have a meaning in the validator syntax can't be used as type parameters.
+const expectTypeParameterName = internalValidator.expectTo((name: string) => {
+  if (!isIdentifier(name)) {
+    return 'be a valid identifier.';
+  } else if (isReservedTypeName(name)) {
+    return `not be a reserved type name. ${JSON.stringify(name)} already has a meaning in the validator syntax.`;
+  }
+  return undefined;
+});
+
+const expectNoDuplicates = internalValidator.expectTo((array: readonly unknown[]) => {
+  const duplicate = array.find((entry, i) => array.indexOf(entry) !== i);
+  return duplicate === undefined ? undefined : `not contain duplicate entries. Found ${reprUnknownValue(duplicate)} more than once.`;
+});
+
+const expectArrayLike = internalValidator.expectTo(
   (value: unknown) => {
     const isArrayLike = (
       'length' in Object(value) &&
@@ -47,7 +114,7 @@ export const validator = function validator<T=unknown>(
   parts: TemplateStringsArray,
   ...interpolated: readonly InterpolatedValue[]
 ): Validator<T> {
-  !DISABLE_PARAM_VALIDATION && uncheckedValidator`[
+  !DISABLE_PARAM_VALIDATION && internalValidator`[
     parts: { raw: string[] } & ${expectDirectInstance(Array)},
     ...interpolated: ${interpolatedValueCheck}[]
   ]`
@@ -56,93 +123,281 @@ export const validator = function validator<T=unknown>(
   return wrapValidatorWithUserInputChecks(uncheckedValidator(parts, ...interpolated));
 } as ValidatorTemplateTag;
 
+// Maps the validators returned by this module to the validators they wrap.
+const unwrappedValidators = new WeakMap<Validator, Validator>();
+
 function wrapValidatorWithUserInputChecks<T>(unwrappedValidator: Validator<T>): Validator<T> {
-  return Object.freeze({
+  const wrappedValidator: Validator<T> = Object.freeze({
     [packagePrivate]: { type: 'validator' as const },
     assertMatches(value: unknown, opts_?: AssertMatchesOpts): T {
       const fnName = '<validator instance>.assertMatches()';
-      !DISABLE_PARAM_VALIDATION && uncheckedValidator`[value: unknown, opts?: ${createAssertMatchesOptsCheck(uncheckedValidator)}]`
+      !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown, opts?: ${createAssertMatchesOptsCheck(internalValidator)}]`
         .assertArgs(fnName, arguments);
 
       const opts = {
         ...opts_ ?? {},
         errorFactory: opts_?.errorFactory === undefined
           ? undefined
-          : wrapErrorFactoryFnWithAssertions(opts_.errorFactory, fnName, validator),
+          : wrapErrorFactoryFnWithAssertions(opts_.errorFactory, fnName, internalValidator),
+        ...wrapLocalizeOptsWithAssertions(opts_ ?? {}, fnName, validator),
       };
 
       return unwrappedValidator.assertMatches(value, opts);
     },
+    parse(value: unknown, opts_?: AssertMatchesOpts): T {
+      const fnName = '<validator instance>.parse()';
+      !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown, opts?: ${createAssertMatchesOptsCheck(internalValidator)}]`
+        .assertArgs(fnName, arguments);
+
+      const opts = {
+        ...opts_ ?? {},
+        errorFactory: opts_?.errorFactory === undefined
+          ? undefined
+          : wrapErrorFactoryFnWithAssertions(opts_.errorFactory, fnName, internalValidator),
+        ...wrapLocalizeOptsWithAssertions(opts_ ?? {}, fnName, validator),
+      };
+
+      return unwrappedValidator.parse(value, opts);
+    },
     assertionTypeGuard(value: unknown, opts_?: AssertMatchesOpts): asserts value is T {
       const fnName = '<validator instance>.assertionTypeGuard()';
-      !DISABLE_PARAM_VALIDATION && uncheckedValidator`[value: unknown, opts?: ${createAssertMatchesOptsCheck(uncheckedValidator)}]`
+      !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown, opts?: ${createAssertMatchesOptsCheck(internalValidator)}]`
         .assertArgs(fnName, arguments);
 
       const opts = {
         ...opts_ ?? {},
         errorFactory: opts_?.errorFactory === undefined
           ? undefined
-          : wrapErrorFactoryFnWithAssertions(opts_.errorFactory, fnName, validator),
+          : wrapErrorFactoryFnWithAssertions(opts_.errorFactory, fnName, internalValidator),
+        ...wrapLocalizeOptsWithAssertions(opts_ ?? {}, fnName, validator),
       };
 
       unwrappedValidator.assertionTypeGuard(value, opts);
     },
     assertArgs(whichFn: string, args: ArrayLike<unknown>) {
-      !DISABLE_PARAM_VALIDATION && uncheckedValidator`[whichFn: string, args: ${expectArrayLike}]`
+      !DISABLE_PARAM_VALIDATION && internalValidator`[whichFn: string, args: ${expectArrayLike}]`
         .assertArgs('<validator instance>.assertArgs()', arguments);
 
       unwrappedValidator.assertArgs(whichFn, args);
     },
-    matches(value: unknown): value is T {
-      !DISABLE_PARAM_VALIDATION && uncheckedValidator`[value: unknown]`
+    matches(value: unknown, opts?: MatchesOpts): value is T {
+      !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown, opts?: ${createMatchesOptsCheck(internalValidator)}]`
         .assertArgs('<validator instance>.matches()', arguments);
 
-      return unwrappedValidator.matches(value);
+      return unwrappedValidator.matches(value, opts);
+    },
+    validate(value: unknown, opts_?: ValidateOpts) {
+      const fnName = '<validator instance>.validate()';
+      !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown, opts?: ${createValidateOptsCheck(internalValidator)}]`
+        .assertArgs(fnName, arguments);
+
+      const opts = {
+        ...opts_ ?? {},
+        ...wrapLocalizeOptsWithAssertions(opts_ ?? {}, fnName, validator),
+      };
+
+      return unwrappedValidator.validate(value, opts);
+    },
+    async assertMatchesAsync(value: unknown, opts_?: AssertMatchesOpts): Promise<T> {
+      const fnName = '<validator instance>.assertMatchesAsync()';
+      !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown, opts?: ${createAssertMatchesOptsCheck(internalValidator)}]`
+        .assertArgs(fnName, arguments);
+
+      const opts = {
+        ...opts_ ?? {},
+        errorFactory: opts_?.errorFactory === undefined
+          ? undefined
+          : wrapErrorFactoryFnWithAssertions(opts_.errorFactory, fnName, internalValidator),
+        ...wrapLocalizeOptsWithAssertions(opts_ ?? {}, fnName, validator),
+      };
+
+      return await unwrappedValidator.assertMatchesAsync(value, opts);
+    },
+    async matchesAsync(value: unknown, opts?: MatchesOpts): Promise<boolean> {
+      !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown, opts?: ${createMatchesOptsCheck(internalValidator)}]`
+        .assertArgs('<validator instance>.matchesAsync()', arguments);
+
+      return await unwrappedValidator.matchesAsync(value, opts);
     },
     ruleset: unwrappedValidator.ruleset,
+    [inspectCustom]() {
+      return inspectRuleset(unwrappedValidator.ruleset);
+    },
   });
+
+  unwrappedValidators.set(wrappedValidator, unwrappedValidator);
+  return wrappedValidator;
+}
+
+/**
+ * The serialized form of a ruleset only gets its structure checked,
+ * so the rulesets that get rebuilt from it (including the rulesets of nested validators) are checked afterwards.
+ * Registered values came from the user's own code, and are skipped.
+ */
+/**
+ * Decodes the serialized ruleset without building anything from it, and checks that each of the decoded rulesets
+ * (including those of nested validators) is valid. This has to happen up-front, as the deserialization process
+ * assumes it's working with valid rulesets when freezing them and building validators from them.
+ */
+function assertSerializedRulesetIsValid(serialized: SerializedRuleset, registry: InterpolationRegistry): void {
+  // Nested validators are only needed to check the rulesets that interpolate them, so they get replaced with a stand-in.
+  const standInValidator = internalValidator`unknown`;
+  deserializeRuleset(serialized, registry, () => standInValidator, (ruleset, path) => {
+    rulesetCheck.assertMatches(ruleset, {
+      errorPrefix: 'validator.deserializeRuleset() received a serialized ruleset that does not describe a valid ruleset:',
+      at: `<deserialized ruleset>${path}`,
+    });
+  });
+}
+
+function fromStringOrValidator<T extends string>(source: T): Validator<InferType<T>>;
+function fromStringOrValidator<T extends Validator<any>>(validator: T): T;
+function fromStringOrValidator(stringOrValidator: string | Validator): Validator;
+function fromStringOrValidator(stringOrValidator: string | Validator): Validator {
+  !DISABLE_PARAM_VALIDATION && internalValidator`[stringOrValidator: string | ${expectValidator}]`
+    .assertArgs('validator.from()', arguments);
+
+  return typeof stringOrValidator === 'string'
+    ? wrapValidatorWithUserInputChecks(uncheckedValidator.from(stringOrValidator))
+    : stringOrValidator;
 }
 
 const staticFields: ValidatorTemplateTagStaticFields = {
   fromRuleset<T=unknown>(ruleset: Ruleset): Validator<T> {
-    !DISABLE_PARAM_VALIDATION && uncheckedValidator`[ruleset: ${rulesetCheck}]`
+    !DISABLE_PARAM_VALIDATION && internalValidator`[ruleset: ${rulesetCheck}]`
       .assertArgs('validator.fromRuleset()', arguments);
 
     return wrapValidatorWithUserInputChecks(uncheckedValidator.fromRuleset<T>(ruleset));
   },
 
-  from(unknownValue: string | Validator): Validator {
-    !DISABLE_PARAM_VALIDATION && uncheckedValidator`[stringOrValidator: string | ${expectValidator}]`
-      .assertArgs('validator.from()', arguments);
+  from: fromStringOrValidator,
+
+  compile<T>(validator: Validator<T>): Validator<T> {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[validator: ${expectValidator}]`
+      .assertArgs('validator.compile()', arguments);
+
+    const unwrappedValidator = unwrappedValidators.get(validator) as Validator<T> | undefined ?? validator;
+    return wrapValidatorWithUserInputChecks(uncheckedValidator.compile(unwrappedValidator));
+  },
+
+  localize<T>(validator: Validator<T>, opts_: LocalizeOpts): Validator<T> {
+    const fnName = 'validator.localize()';
+    !DISABLE_PARAM_VALIDATION && internalValidator`[validator: ${expectValidator}, opts: ${createLocalizeOptsCheck(internalValidator)}]`
+      .assertArgs(fnName, arguments);
+
+    const unwrappedValidator = unwrappedValidators.get(validator) as Validator<T> | undefined ?? validator;
+    const opts = wrapLocalizeOptsWithAssertions(opts_, fnName, internalValidator);
+    return wrapValidatorWithUserInputChecks(uncheckedValidator.localize(unwrappedValidator, opts));
+  },
+
+  withMessage<T>(validator: Validator<T>, message: string): Validator<T> {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[validator: ${expectValidator}, message: string]`
+      .assertArgs('validator.withMessage()', arguments);
+
+    const unwrappedValidator = unwrappedValidators.get(validator) as Validator<T> | undefined ?? validator;
+    return wrapValidatorWithUserInputChecks(uncheckedValidator.withMessage(unwrappedValidator, message));
+  },
+
+  toJsonSchema(validator: Validator, opts?: ToJsonSchemaOpts): JsonSchemaObject {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[validator: ${expectValidator}, opts?: ${createToJsonSchemaOptsCheck(internalValidator)}]`
+      .assertArgs('validator.toJsonSchema()', arguments);
+
+    return uncheckedValidator.toJsonSchema(validator, opts);
+  },
+
+  fromJsonSchema(schema: JsonSchema): Validator {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[schema: object | boolean]`
+      .assertArgs('validator.fromJsonSchema()', arguments);
+
+    return wrapValidatorWithUserInputChecks(uncheckedValidator.fromJsonSchema(schema));
+  },
+
+  serializeRuleset(ruleset: Ruleset, registry: InterpolationRegistry = {}): SerializedRuleset {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[
+      ruleset: ${rulesetCheck},
+      registry?: ${createInterpolationRegistryCheck(internalValidator, interpolatedValueCheck)},
+    ]`.assertArgs('validator.serializeRuleset()', arguments);
+
+    return uncheckedValidator.serializeRuleset(ruleset, registry);
+  },
+
+  deserializeRuleset(serialized: SerializedRuleset, registry: InterpolationRegistry = {}): Ruleset {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[
+      serialized: ${createSerializedRulesetCheck(internalValidator)},
+      registry?: ${createInterpolationRegistryCheck(internalValidator, interpolatedValueCheck)},
+    ]`.assertArgs('validator.deserializeRuleset()', arguments);
+
+    !DISABLE_PARAM_VALIDATION && assertSerializedRulesetIsValid(serialized, registry);
+
+    return uncheckedValidator.deserializeRuleset(serialized, registry);
+  },
+
+  stringify(validatorOrRuleset: Validator | Ruleset): string {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[validatorOrRuleset: ${expectValidator} | ${rulesetCheck}]`
+      .assertArgs('validator.stringify()', arguments);
+
+    return uncheckedValidator.stringify(validatorOrRuleset);
+  },
+
+  walkRule(ruleset: Ruleset, visitor: RuleVisitor, opts?: WalkRuleOpts): void {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[
+      ruleset: ${rulesetCheck},
+      visitor: ${expectDirectInstance(Function)},
+      opts?: ${createWalkRuleOptsCheck(internalValidator)},
+    ]`.assertArgs('validator.walkRule()', arguments);
+
+    uncheckedValidator.walkRule(ruleset, visitor, opts);
+  },
+
+  mapRule(ruleset: Ruleset, transformer_: RuleTransformer): Ruleset {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[ruleset: ${rulesetCheck}, transformer: ${expectDirectInstance(Function)}]`
+      .assertArgs('validator.mapRule()', arguments);
+
+    // The transformer is always given the same interpolated array (which grows as rulesets get grafted in),
+    // so a single rule check can be built the first time the transformer returns.
+    let resultCheck: Validator | undefined;
+    const transformer: RuleTransformer = (rule, context) => {
+      const result = transformer_(rule, context);
+      if (!DISABLE_PARAM_VALIDATION) {
+        resultCheck ??= internalValidator`${createRuleCheck(internalValidator, context.interpolated)} | ${rulesetCheck}`;
+        resultCheck.assertMatches(result, {
+          errorPrefix: 'validator.mapRule() received a bad "transformer" function:',
+          at: '<transformer return value>',
+        });
+      }
+      return result;
+    };
 
-    return typeof unknownValue === 'string'
-      ? wrapValidatorWithUserInputChecks(uncheckedValidator.from(unknownValue))
-      : unknownValue;
+    return uncheckedValidator.mapRule(ruleset, transformer);
   },
 
-  lazy(deriveValidator_: (value: unknown) => Validator): LazyEvaluator {
-    !DISABLE_PARAM_VALIDATION && uncheckedValidator`[deriveValidator: ${expectDirectInstance(Function)}]`
+  lazy(deriveValidator_: (value: unknown) => Validator | Promise<Validator>): LazyEvaluator {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[deriveValidator: ${expectFunctionOrAsyncFunction}]`
       .assertArgs('validator.lazy()', arguments);
 
-    const deriveValidator = (valueBeingMatched: unknown): Validator => {
-      const result = deriveValidator_(valueBeingMatched);
-      !DISABLE_PARAM_VALIDATION && uncheckedValidator`${expectValidator}`.assertMatches(result, {
+    const assertIsValidator = (result: unknown): Validator => {
+      !DISABLE_PARAM_VALIDATION && internalValidator`${expectValidator}`.assertMatches(result, {
         errorPrefix: 'validator.lazy() received a bad "deriveValidator" function:',
         at: '<deriveValidator return value>',
       });
-      return result;
+      return result as Validator;
+    };
+
+    const deriveValidator = (valueBeingMatched: unknown): Validator | Promise<Validator> => {
+      const result = deriveValidator_(valueBeingMatched);
+      return result instanceof Promise ? result.then(assertIsValidator) : assertIsValidator(result);
     };
 
     return uncheckedValidator.lazy(deriveValidator);
   },
 
   expectTo<T=unknown>(testExpectation_: (valueBeingMatched: T) => string | undefined): Expectation {
-    !DISABLE_PARAM_VALIDATION && uncheckedValidator`[testExpectation: ${expectDirectInstance(Function)}]`
+    !DISABLE_PARAM_VALIDATION && internalValidator`[testExpectation: ${expectDirectInstance(Function)}]`
       .assertArgs('validator.expectTo()', arguments);
 
     const testExpectation = (valueBeingMatched: T): string | undefined => {
       const result = testExpectation_(valueBeingMatched);
-      !DISABLE_PARAM_VALIDATION && uncheckedValidator`string | undefined`.assertMatches(result, {
+      !DISABLE_PARAM_VALIDATION && internalValidator`string | undefined`.assertMatches(result, {
         errorPrefix: 'validator.expectTo() received a bad "testExpectation" function:',
         at: '<testExpectation return value>',
       });
@@ -157,26 +412,114 @@ const staticFields: ValidatorTemplateTagStaticFields = {
     });
   },
 
+  expectToAsync<T=unknown>(testExpectation_: (valueBeingMatched: T) => Promise<string | undefined>): Expectation {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[testExpectation: ${expectFunctionOrAsyncFunction}]`
+      .assertArgs('validator.expectToAsync()', arguments);
+
+    const testExpectation = async (valueBeingMatched: T): Promise<string | undefined> => {
+      const result = await testExpectation_(valueBeingMatched);
+      !DISABLE_PARAM_VALIDATION && internalValidator`string | undefined`.assertMatches(result, {
+        errorPrefix: 'validator.expectToAsync() received a bad "testExpectation" function:',
+        at: '<testExpectation resolved value>',
+      });
+      return result;
+    };
+
+    return uncheckedValidator.expectToAsync(testExpectation);
+  },
+
+  transform<T=unknown>(fromValidator: Validator<T>, transform: (value: T) => unknown): Transformer {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[fromValidator: ${expectValidator}, transform: ${expectDirectInstance(Function)}]`
+      .assertArgs('validator.transform()', arguments);
+
+    return uncheckedValidator.transform(fromValidator, transform);
+  },
+
+  generic(typeParameters: readonly string[], text: string): Generic {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[
+      typeParameters: (string & ${expectTypeParameterName})[] & ${expectDirectInstance(Array)} & ${expectNoDuplicates},
+      text: string,
+    ]`
+      .assertArgs('validator.generic()', arguments);
+
+    return uncheckedValidator.generic(typeParameters, text);
+  },
+
+  types<Names extends string = string>(
+    parts: TemplateStringsArray,
+    ...interpolated: readonly InterpolatedValue[]
+  ): DeclaredTypes<Names> {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[
+      parts: { raw: string[] } & ${expectDirectInstance(Array)},
+      ...interpolated: ${interpolatedValueCheck}[]
+    ]`
+      .assertArgs('validator.types`...`', arguments);
+
+    const declaredTypes = uncheckedValidator.types<Names>(parts, ...interpolated);
+    return Object.freeze(Object.fromEntries(
+      Object.entries<Validator>(declaredTypes).map(([name, validator]) => [name, wrapValidatorWithUserInputChecks(validator)]),
+    )) as DeclaredTypes<Names>;
+  },
+
   isValidator(value: unknown): value is Validator {
-    !DISABLE_PARAM_VALIDATION && uncheckedValidator`[value: unknown]`
+    !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown]`
       .assertArgs('validator.isValidator()', arguments);
 
     return uncheckedValidator.isValidator(value);
   },
 
   isExpectation(value: unknown): value is Expectation {
-    !DISABLE_PARAM_VALIDATION && uncheckedValidator`[value: unknown]`
+    !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown]`
       .assertArgs('validator.isExpectation()', arguments);
 
     return uncheckedValidator.isExpectation(value);
   },
 
   isLazyEvaluator(value: unknown): value is LazyEvaluator {
-    !DISABLE_PARAM_VALIDATION && uncheckedValidator`[value: unknown]`
+    !DISABLE_PARAM_VALIDATION && internalValidator`[value: unknown]`
       .assertArgs('validator.isLazyEvaluator()', arguments);
 
     return uncheckedValidator.isLazyEvaluator(value);
   },
+
+  cache: Object.freeze({
+    configure(opts: CacheOpts): void {
+      !DISABLE_PARAM_VALIDATION && internalValidator`[opts: ${createCacheOptsCheck(internalValidator)}]`
+        .assertArgs('validator.cache.configure()', arguments);
+
+      uncheckedValidator.cache.configure(opts);
+    },
+
+    clear(): void {
+      !DISABLE_PARAM_VALIDATION && internalValidator`[]`
+        .assertArgs('validator.cache.clear()', arguments);
+
+      uncheckedValidator.cache.clear();
+    },
+
+    getStats(): CacheStats {
+      !DISABLE_PARAM_VALIDATION && internalValidator`[]`
+        .assertArgs('validator.cache.getStats()', arguments);
+
+      return uncheckedValidator.cache.getStats();
+    },
+
+    seed(entries: readonly CacheSeedEntry[]): void {
+      !DISABLE_PARAM_VALIDATION && internalValidator`[entries: ${createCacheSeedEntriesCheck(internalValidator)}]`
+        .assertArgs('validator.cache.seed()', arguments);
+
+      uncheckedValidator.cache.seed(entries);
+    },
+  }),
+
+  precompile(sourceTexts: readonly string[], opts: PrecompileOpts = {}): string {
+    !DISABLE_PARAM_VALIDATION && internalValidator`[
+      sourceTexts: string[] & ${expectDirectInstance(Array)},
+      opts?: ${createPrecompileOptsCheck(internalValidator)},
+    ]`.assertArgs('validator.precompile()', arguments);
+
+    return uncheckedValidator.precompile(sourceTexts, opts);
+  },
 };
 
 Object.assign(validator, staticFields);
@@ -0,0 +1,221 @@
+import { strict as assert } from 'node:assert';
+import { validator, type LazyEvaluator, type Validator } from '../src/index.js';
+
+/** Resolves on a later tick, so tests can verify that callbacks run concurrently. */
+const nextTick = async (): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+describe('async validation', () => {
+  const takenUsernames = new Set(['admin', 'root']);
+  const expectUsernameIsAvailable = validator.expectToAsync(async (username: string) => {
+    await nextTick();
+    return takenUsernames.has(username) ? 'be a username that is not already taken.' : undefined;
+  });
+
+  test('accepts values that satisfy an async expectation', async () => {
+    const v = validator`{ username: string & ${expectUsernameIsAvailable} }`;
+    const value = { username: 'bob' };
+    expect(await v.assertMatchesAsync(value)).toBe(value);
+    expect(await v.matchesAsync(value)).toBe(true);
+  });
+
+  test('rejects values that fail an async expectation', async () => {
+    const v = validator`{ username: string & ${expectUsernameIsAvailable} }`;
+    await assert.rejects(v.assertMatchesAsync({ username: 'admin' }), {
+      message: 'Expected <receivedValue>.username, which was "admin", to be a username that is not already taken.',
+    });
+    await assert.rejects(v.assertMatchesAsync({ username: 'admin' }), TypeError);
+    expect(await v.matchesAsync({ username: 'admin' })).toBe(false);
+  });
+
+  test('synchronous failures are reported without waiting on async expectations', async () => {
+    let callCount = 0;
+    const expectation = validator.expectToAsync(async () => {
+      callCount++;
+      return undefined;
+    });
+
+    const v = validator`string & ${expectation}`;
+    await assert.rejects(v.assertMatchesAsync(2), {
+      message: 'Expected <receivedValue> to be of type "string" but got type "number".',
+    });
+    expect(callCount).toBe(0);
+  });
+
+  test('supports the assertMatches() options', async () => {
+    const v = validator`${expectUsernameIsAvailable}`;
+    await assert.rejects(v.assertMatchesAsync('root', {
+      errorFactory: (...params) => new RangeError(...params),
+      at: '<username>',
+      errorPrefix: 'Bad username:',
+    }), {
+      name: 'RangeError',
+      message: 'Bad username: Expected <username>, which was "root", to be a username that is not already taken.',
+    });
+  });
+
+  test('runs independent async expectations concurrently', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const expectation = validator.expectToAsync(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await nextTick();
+      running--;
+      return undefined;
+    });
+
+    const v = validator`${expectation}[]`;
+    await v.assertMatchesAsync([1, 2, 3]);
+    expect(maxRunning).toBe(3);
+  });
+
+  test('only calls an async expectation once per value', async () => {
+    const calledWith: unknown[] = [];
+    const expectation = validator.expectToAsync(async (value: unknown) => {
+      calledWith.push(value);
+      return undefined;
+    });
+
+    const v = validator`[${expectation}, ${expectation}] | { x: ${expectation} }`;
+    await v.assertMatchesAsync([1, 2]);
+    expect(calledWith).toEqual([1, 2]);
+  });
+
+  test('keeps the usual union error ranking', async () => {
+    const expectUsernameIsAvailableSync = validator.expectTo((username: string) => {
+      return takenUsernames.has(username) ? 'be a username that is not already taken.' : undefined;
+    });
+    const createValidator = (expectation: unknown): Validator => validator`
+      { username: string & ${expectation as Validator} } | { id: number } | string
+    `;
+    const syncValidator = createValidator(expectUsernameIsAvailableSync);
+    const asyncValidator = createValidator(expectUsernameIsAvailable);
+
+    for (const value of [{ username: 'admin' }, { id: 'x' }, 2]) {
+      const syncMessage = syncValidator.validate(value)[0]?.message;
+      expect(syncMessage).toBeDefined();
+      await assert.rejects(asyncValidator.assertMatchesAsync(value), { message: syncMessage });
+    }
+  });
+
+  test('uses a later union variant when an async expectation fails', async () => {
+    const v = validator`(string & ${expectUsernameIsAvailable}) | 'admin'`;
+    await v.assertMatchesAsync('admin');
+    await assert.rejects(v.assertMatchesAsync('root'), {
+      message: [
+        'One of the following issues needs to be resolved:',
+        '  * Expected <receivedValue>, which was "root", to be a username that is not already taken.',
+        '  * Expected <receivedValue> to be "admin" but got "root".',
+      ].join('\n'),
+    });
+  });
+
+  test('supports async expectations inside of template literal types', async () => {
+    const v = validator`\`@${expectUsernameIsAvailable}\``;
+    expect(await v.matchesAsync('@bob')).toBe(true);
+    expect(await v.matchesAsync('@admin')).toBe(false);
+  });
+
+  test('propagates errors thrown by async expectations', async () => {
+    const expectation = validator.expectToAsync(async () => {
+      throw new Error('Database unavailable');
+    });
+    await assert.rejects(validator`${expectation}`.matchesAsync(2), { message: 'Database unavailable' });
+  });
+
+  describe('async lazy evaluators', () => {
+    test('awaits validators derived by async lazy evaluators', async () => {
+      const schemas: Record<string, Validator> = {
+        point: validator`{ type: 'point', x: number, y: number }`,
+        circle: validator`{ type: 'circle', radius: number }`,
+      };
+      const v = validator`${validator.lazy(async (value: any) => {
+        await nextTick();
+        return schemas[value.type] ?? validator`{ type: 'point' | 'circle' }`;
+      })}`;
+
+      await v.assertMatchesAsync({ type: 'circle', radius: 2 });
+      await assert.rejects(v.assertMatchesAsync({ type: 'circle', radius: 'x' }), {
+        message: 'Expected <receivedValue>.radius to be of type "number" but got type "string".',
+      });
+    });
+
+    test('supports recursive async lazy evaluators', async () => {
+      const tree: Validator = validator`{
+        value: number
+        children: ${validator.lazy(async () => validator`${tree}[]`)}
+      }`;
+
+      await tree.assertMatchesAsync({ value: 1, children: [{ value: 2, children: [] }] });
+      await assert.rejects(tree.assertMatchesAsync({ value: 1, children: [{ value: 'x', children: [] }] }), {
+        message: 'Expected <receivedValue>.children[0].value to be of type "number" but got type "string".',
+      });
+    });
+
+    test('supports synchronous lazy evaluators that derive async validators', async () => {
+      let calls = 0;
+      const v = validator`{
+        name: ${validator.lazy(() => validator`string & ${validator.expectToAsync(async (name: string) => {
+          calls++;
+          return name === 'admin' ? 'not be reserved.' : undefined;
+        })}`)}
+      }`;
+
+      expect(await v.matchesAsync({ name: 'alice' })).toBe(true);
+      expect(calls).toBe(1);
+      await assert.rejects(v.assertMatchesAsync({ name: 'admin' }), {
+        message: 'Expected <receivedValue>.name, which was "admin", to not be reserved.',
+      });
+    });
+
+    test('gives up when async lazy evaluators never stop deriving new async logic', async () => {
+      const createEndlessLazy = (): LazyEvaluator => validator.lazy(async () => validator`${createEndlessLazy()}`);
+      await assert.rejects(validator`${createEndlessLazy()}`.matchesAsync(2), {
+        message: (
+          'Async matching did not settle after 1000 rounds. ' +
+          'This can happen when async lazy evaluators keep deriving validators with new async logic.'
+        ),
+      });
+    });
+  });
+
+  describe('synchronous methods', () => {
+    test('throw when they encounter an async expectation', () => {
+      const v = validator`string & ${expectUsernameIsAvailable}`;
+      const act = (): any => v.matches('bob');
+      assert.throws(act, {
+        message: (
+          'Found an asynchronous expectation (from validator.expectToAsync()) while matching synchronously. ' +
+          'Use .assertMatchesAsync() or .matchesAsync() to match against validators that contain async logic.'
+        ),
+      });
+      assert.throws(act, TypeError);
+    });
+
+    test('throw when they encounter an async lazy evaluator', () => {
+      const v = validator`${validator.lazy(async () => validator`string`)}`;
+      const act = (): any => validator.compile(v).assertMatches('x');
+      assert.throws(act, {
+        message: (
+          'Found a lazy evaluator (from validator.lazy()) that returned a promise while matching synchronously. ' +
+          'Use .assertMatchesAsync() or .matchesAsync() to match against validators that contain async logic.'
+        ),
+      });
+    });
+
+    test('work with async validators when the async logic is never reached', () => {
+      const v = validator`number | (string & ${expectUsernameIsAvailable})`;
+      v.assertMatches(2);
+    });
+  });
+
+  test('async methods work with validators that have no async logic', async () => {
+    const v = validator`{ x: number }`;
+    await v.assertMatchesAsync({ x: 2 });
+    await assert.rejects(v.assertMatchesAsync({ x: 'x' }), {
+      message: 'Expected <receivedValue>.x to be of type "number" but got type "string".',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { strict as assert } from 'node:assert';
+import { validator, type ValidationError } from '../src/index.js';
+
+const postcode = validator.withMessage(validator`${/^\d{5}$/}`, 'must be a valid postcode.');
+
+describe('validator.withMessage()', () => {
+  test('replaces the generated error text, while keeping the path', () => {
+    const v = validator`{ address: { postcode: ${postcode} } }`;
+    assert.throws(() => v.assertMatches({ address: { postcode: 'ABC' } }), {
+      message: '<receivedValue>.address.postcode must be a valid postcode.',
+    });
+  });
+
+  test('can be used on its own', () => {
+    assert.throws(() => postcode.assertMatches(12345), {
+      message: '<receivedValue> must be a valid postcode.',
+    });
+    assert.throws(() => postcode.assertMatches('1234', { at: '<postcode>' }), {
+      message: '<postcode> must be a valid postcode.',
+    });
+  });
+
+  test('accepts values that match the provided validator', () => {
+    expect(postcode.matches('12345')).toBe(true);
+    expect(validator`{ postcode: ${postcode} }`.matches({ postcode: '12345' })).toBe(true);
+    expect(validator.compile(validator`{ postcode: ${postcode} }`).matches({ postcode: 'ABC' })).toBe(false);
+  });
+
+  test('replaces failures found deep inside of the provided validator', () => {
+    const point = validator.withMessage(validator`{ x: number, y: number }`, 'must be a point.');
+    assert.throws(() => validator`{ location: ${point} }`.assertMatches({ location: { x: 2, y: '3' } }), {
+      message: '<receivedValue>.location must be a point.',
+    });
+  });
+
+  test('works within unions', () => {
+    const v = validator`${postcode} | null`;
+    assert.throws(() => v.assertMatches('ABC'), {
+      message: [
+        'One of the following issues needs to be resolved:',
+        '  * <receivedValue> must be a valid postcode.',
+        '  * Expected <receivedValue> to be of type "null" but got type "string".',
+      ].join('\n'),
+    });
+  });
+
+  test('the innermost message takes precedence', () => {
+    const address = validator.withMessage(validator`{ postcode: ${postcode} }`, 'must be a valid address.');
+    assert.throws(() => address.assertMatches({ postcode: 'ABC' }), {
+      message: '<receivedValue> must be a valid address.',
+    });
+  });
+
+  test('gets reported with the "custom_message" code', () => {
+    let error: ValidationError | undefined;
+    try {
+      validator`{ postcode: ${postcode} }`.assertMatches({ postcode: 'ABC' });
+    } catch (error_) {
+      error = error_ as ValidationError;
+    }
+    expect(error?.issues).toMatchObject([{
+      code: 'custom_message',
+      path: '<receivedValue>.postcode',
+      message: '<receivedValue>.postcode must be a valid postcode.',
+      received: '"ABC"',
+    }]);
+  });
+
+  test('can be translated through a message catalog', () => {
+    const v = validator`{ postcode: ${postcode} }`;
+    const act = (): any => v.assertMatches({ postcode: 'ABC' }, {
+      messageCatalog: {
+        custom_message: ({ path, message }) => message === 'must be a valid postcode.'
+          ? `${path} muss eine gültige Postleitzahl sein.`
+          : `${path} ${message}`,
+      },
+    });
+    assert.throws(act, { message: '<receivedValue>.postcode muss eine gültige Postleitzahl sein.' });
+  });
+
+  test('is shown when stringified', () => {
+    expect(validator.stringify(validator`{ postcode: ${postcode} }`)).toBe([
+      '{',
+      '  postcode: ${validator`${validator.withMessage(validator`${/^\\d{5}$/}`, "must be a valid postcode.")}`}',
+      '}',
+    ].join('\n'));
+  });
+});
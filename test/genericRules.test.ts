@@ -0,0 +1,194 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidatorSyntaxError } from '../src/index.js';
+
+describe('generic rules', () => {
+  test('accepts values that fit the instantiated generic', () => {
+    const Page = validator.generic(['T'], '{ items: T[], total: number }');
+    const v = validator`${Page}<string>`;
+    v.assertMatches({ items: ['a', 'b'], total: 2 });
+    expect(v.matches({ items: [2], total: 1 })).toBe(false);
+  });
+
+  test('rejects values that do not fit the type argument', () => {
+    const User = validator`{ name: string }`;
+    const Page = validator.generic(['T'], '{ items: T[], total: number }');
+    const v = validator`${Page}<${User}>`;
+    v.assertMatches({ items: [{ name: 'Alice' }], total: 1 });
+    const act = (): any => v.assertMatches({ items: [{ name: 'Alice' }, { name: 2 }], total: 2 });
+    assert.throws(act, { message: 'Expected <receivedValue>.items[1].name to be of type "string" but got type "number".' });
+    assert.throws(act, TypeError);
+  });
+
+  test('supports multiple type parameters', () => {
+    const Pair = validator.generic(['A', 'B'], '[A, B]');
+    const v = validator`${Pair}<string, number | null>`;
+    v.assertMatches(['x', 2]);
+    v.assertMatches(['x', null]);
+    expect(v.matches([2, 'x'])).toBe(false);
+  });
+
+  test('a type parameter can be used multiple times', () => {
+    const Range = validator.generic(['T'], '{ min: T, max: T }');
+    const v = validator`${Range}<number>`;
+    v.assertMatches({ min: 1, max: 2 });
+    expect(v.matches({ min: 1, max: '2' })).toBe(false);
+  });
+
+  test('type parameter names do not affect property keys with the same name', () => {
+    const Box = validator.generic(['T'], '{ T: T }');
+    const v = validator`${Box}<number>`;
+    v.assertMatches({ T: 2 });
+    expect(v.matches({ T: 'T' })).toBe(false);
+  });
+
+  test('type arguments may use the interpolated values of the outer validator', () => {
+    const Wrapper = validator.generic(['T'], '{ value: T }');
+    const v = validator`${Wrapper}<${2} | ${'x'}>`;
+    v.assertMatches({ value: 2 });
+    v.assertMatches({ value: 'x' });
+    expect(v.matches({ value: 3 })).toBe(false);
+  });
+
+  test('generics can be nested', () => {
+    const Wrapper = validator.generic(['T'], '{ value: T }');
+    const v = validator`${Wrapper}<${Wrapper}<string>>`;
+    v.assertMatches({ value: { value: 'x' } });
+    const act = (): any => v.assertMatches({ value: { value: 2 } });
+    assert.throws(act, { message: 'Expected <receivedValue>.value.value to be of type "string" but got type "number".' });
+  });
+
+  test('an instantiated generic can be used inside of other rules', () => {
+    const Wrapper = validator.generic(['T'], '{ value: T }');
+    const v = validator`${Wrapper}<number>[] | ${Wrapper}<string>`;
+    v.assertMatches([{ value: 1 }, { value: 2 }]);
+    v.assertMatches({ value: 'x' });
+    expect(v.matches([{ value: 'x' }])).toBe(false);
+  });
+
+  test('an instantiated generic can be used inside of a template literal type', () => {
+    const Prefixed = validator.generic(['T'], '`id_${T}`');
+    const v = validator`\`[\${${Prefixed}<number>}]\``;
+    v.assertMatches('[id_2]');
+    expect(v.matches('[id_x]')).toBe(false);
+  });
+
+  test('works with compiled validators', () => {
+    const Page = validator.generic(['T'], '{ items: T[], total: number }');
+    const v = validator.compile(validator`${Page}<string>`);
+    expect(v.matches({ items: ['a'], total: 1 })).toBe(true);
+    expect(v.matches({ items: [1], total: 1 })).toBe(false);
+  });
+
+  describe('errors', () => {
+    test('throws when a generic is interpolated without type arguments', () => {
+      const Page = validator.generic(['T', 'U'], '{ items: T[], meta: U }');
+      // This is reported when the validator gets built, before any value gets matched.
+      const act = (): any => validator`{ page: ${Page} }`;
+      assert.throws(act, {
+        message: (
+          'An interpolated generic (from validator.generic()) must be provided with type arguments, ' +
+          'e.g. `${…}<unknown, unknown>`.'
+        ),
+      });
+      assert.throws(act, TypeError);
+    });
+
+    test('throws when the wrong number of type arguments are provided', () => {
+      const Page = validator.generic(['T'], '{ items: T[] }');
+      const act = (): any => validator`${Page}<string, number>`;
+      assert.throws(act, {
+        message: 'The interpolated generic expects 1 type argument(s) (T), but received 2.',
+      });
+      assert.throws(act, TypeError);
+    });
+
+    test('throws when type arguments are provided to something other than a generic', () => {
+      const act = (): any => validator`${validator`string`}<string>`;
+      assert.throws(act, {
+        message: 'Type arguments can only be provided to an interpolated generic (from validator.generic()).',
+      });
+      assert.throws(act, TypeError);
+    });
+
+    test('checks the type arguments of each use of a cached template', () => {
+      const Page = validator.generic(['T'], '{ items: T[] }');
+      const build = (value: unknown): any => validator`${value as any}<string>`;
+      build(Page);
+      assert.throws(() => build(validator`string`), {
+        message: 'Type arguments can only be provided to an interpolated generic (from validator.generic()).',
+      });
+    });
+
+    test('checks type arguments used in type declarations', () => {
+      const Page = validator.generic(['T'], '{ items: T[] }');
+      const act = (): any => validator.types`type User = { pages: ${Page}[] }`;
+      assert.throws(act, {
+        message: /^An interpolated generic \(from validator.generic\(\)\) must be provided with type arguments/,
+      });
+    });
+
+    test('throws on a syntax error in the generic', () => {
+      const act = (): any => validator.generic(['T'], '{ items: U[] }');
+      assert.throws(act, {
+        message: [
+          'Expected to find a type here. (line 1, col 10)',
+          '  { items: U[] }',
+          '           ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on an unclosed list of type arguments', () => {
+      const Wrapper = validator.generic(['T'], '{ value: T }');
+      const act = (): any => validator`${Wrapper}<string number>`;
+      assert.throws(act, {
+        message: [
+          'Expected a comma (`,`) or a closing angled bracket (`>`). (line 1, col 9)',
+          '  ${…}<string number>',
+          '              ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('an uninstantiated type parameter refuses to be matched against', () => {
+      const Wrapper = validator.generic(['T'], '{ value: T }');
+      const act = (): any => validator.fromRuleset(Wrapper.ruleset).matches({ value: 2 });
+      assert.throws(act, { message: 'The type parameter "T" was used without being provided a type argument.' });
+      assert.throws(act, TypeError);
+    });
+  });
+
+  test('records the type parameters and the rules of the generic', () => {
+    const Pair = validator.generic(['A', 'B'], '[A, B]');
+    expect(Pair.typeParameters).toEqual(['A', 'B']);
+    expect(Pair.ruleset.rootRule).toMatchObject({
+      category: 'tuple',
+      content: [
+        { category: 'interpolation', interpolationIndex: 0, typeArguments: null },
+        { category: 'interpolation', interpolationIndex: 1, typeArguments: null },
+      ],
+    });
+    expect(Pair.ruleset.interpolated).toHaveLength(2);
+    expect(Object.isFrozen(Pair)).toBe(true);
+    expect(Object.isFrozen(Pair.typeParameters)).toBe(true);
+  });
+
+  test('produces the correct rule', () => {
+    const Pair = validator.generic(['A', 'B'], '[A, B]');
+    const v = validator`${Pair}<string, ${2}>`;
+    expect(v.ruleset).toMatchObject({
+      rootRule: {
+        category: 'interpolation',
+        interpolationIndex: 0,
+        typeArguments: [
+          { category: 'simple', type: 'string' },
+          { category: 'interpolation', interpolationIndex: 1, typeArguments: null },
+        ],
+      },
+      interpolated: [Pair, 2],
+    });
+    expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+  });
+});
@@ -0,0 +1,870 @@
+import { strict as assert } from 'node:assert';
+import { validator } from '../src/index.js';
+
+const $schema = 'https://json-schema.org/draft/2020-12/schema';
+
+describe('validator.toJsonSchema()', () => {
+  test('converts simple rules', () => {
+    expect(validator.toJsonSchema(validator`string`)).toEqual({ $schema, type: 'string' });
+    expect(validator.toJsonSchema(validator`number`)).toEqual({ $schema, type: 'number' });
+    expect(validator.toJsonSchema(validator`boolean`)).toEqual({ $schema, type: 'boolean' });
+    expect(validator.toJsonSchema(validator`null`)).toEqual({ $schema, type: 'null' });
+    expect(validator.toJsonSchema(validator`object`)).toEqual({ $schema, type: ['object', 'array'] });
+  });
+
+  test('converts rules that can only match non-JSON values into a schema that matches nothing', () => {
+    expect(validator.toJsonSchema(validator`undefined`)).toEqual({ $schema, not: {} });
+    expect(validator.toJsonSchema(validator`bigint`)).toEqual({ $schema, not: {} });
+    expect(validator.toJsonSchema(validator`2n`)).toEqual({ $schema, not: {} });
+    expect(validator.toJsonSchema(validator`Map<string, number>`)).toEqual({ $schema, not: {} });
+    expect(validator.toJsonSchema(validator`Set<string>`)).toEqual({ $schema, not: {} });
+  });
+
+  test('converts primitive literal rules', () => {
+    expect(validator.toJsonSchema(validator`'abc'`)).toEqual({ $schema, const: 'abc' });
+    expect(validator.toJsonSchema(validator`-2.5`)).toEqual({ $schema, const: -2.5 });
+    expect(validator.toJsonSchema(validator`true`)).toEqual({ $schema, const: true });
+  });
+
+  test('converts numeric constraint rules', () => {
+    expect(validator.toJsonSchema(validator`integer`)).toEqual({ $schema, type: 'integer' });
+    expect(validator.toJsonSchema(validator`number(0..100)`)).toEqual({ $schema, type: 'number', minimum: 0, maximum: 100 });
+    expect(validator.toJsonSchema(validator`integer(>0, <10)`)).toEqual({
+      $schema,
+      type: 'integer',
+      exclusiveMinimum: 0,
+      exclusiveMaximum: 10,
+    });
+    expect(validator.toJsonSchema(validator`bigint(0n..)`)).toEqual({ $schema, not: {} });
+  });
+
+  test('converts string constraint rules', () => {
+    expect(validator.toJsonSchema(validator`string(1..64)`)).toEqual({ $schema, type: 'string', minLength: 1, maxLength: 64 });
+    expect(validator.toJsonSchema(validator`string(/^[a-z]+$/u)`)).toEqual({ $schema, type: 'string', pattern: '^[a-z]+$' });
+  });
+
+  test('forbids the __proto__ and constructor keys of own property rules', () => {
+    expect(validator.toJsonSchema(validator`own { constructor: string }`)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { constructor: { type: 'string' } },
+      required: ['constructor'],
+      propertyNames: { not: { enum: ['__proto__'] } },
+    });
+  });
+
+  test('converts size constraints', () => {
+    expect(validator.toJsonSchema(validator`string[1..20]`)).toEqual({
+      $schema,
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+      maxItems: 20,
+    });
+    expect(validator.toJsonSchema(validator`[string, ...number[]](..3)`)).toEqual({
+      $schema,
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      minItems: 1,
+      maxItems: 3,
+    });
+    expect(validator.toJsonSchema(validator`{ [key: string]: number }(1..50)`)).toEqual({
+      $schema,
+      type: 'object',
+      patternProperties: { '': { type: 'number' } },
+      minProperties: 1,
+      maxProperties: 50,
+    });
+  });
+
+  test('converts noop rules', () => {
+    expect(validator.toJsonSchema(validator`unknown`)).toEqual({ $schema });
+  });
+
+  test('converts property rules', () => {
+    expect(validator.toJsonSchema(validator`{ x: number, y?: string, 'z w': unknown }`)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { x: { type: 'number' }, y: { type: 'string' }, 'z w': {} },
+      required: ['x', 'z w'],
+    });
+  });
+
+  test('converts dynamic property keys', () => {
+    const v = validator`{ [${'x'}]: number, [${2}]?: string, [${Symbol('optional')}]?: string }`;
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { x: { type: 'number' }, 2: { type: 'string' } },
+      required: ['x'],
+    });
+  });
+
+  test('combines the rules of duplicate keys', () => {
+    const v = validator`{ x: number, [${'x'}]: 2 }`;
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { x: { allOf: [{ type: 'number' }, { const: 2 }] } },
+      required: ['x'],
+    });
+  });
+
+  test('a property rule with a required symbol key matches nothing', () => {
+    const v = validator`{ [${Symbol('required')}]: string }`;
+    expect(validator.toJsonSchema(v)).toEqual({ $schema, not: {} });
+  });
+
+  test('converts exact property rules', () => {
+    expect(validator.toJsonSchema(validator`{| name: string, [index: string]: boolean |}`)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+      patternProperties: { '': { type: 'boolean' } },
+      additionalProperties: false,
+    });
+  });
+
+  test('uses unevaluatedProperties for exact property rules in an intersection', () => {
+    expect(validator.toJsonSchema(validator`{| name: string |} & { age: number }`)).toEqual({
+      $schema,
+      allOf: [
+        { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+        { type: 'object', properties: { age: { type: 'number' } }, required: ['age'] },
+      ],
+      unevaluatedProperties: false,
+    });
+  });
+
+  test('relaxes exact property rules found in interpolated validators of an intersection', () => {
+    const v = validator`{| a: number |} & ${validator`{| b: number |}`}`;
+    expect(v.matches({ a: 1, b: 2 })).toBe(true);
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      allOf: [
+        { type: 'object', properties: { a: { type: 'number' } }, required: ['a'] },
+        { type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+      ],
+      unevaluatedProperties: false,
+    });
+  });
+
+  test('relaxes exact property rules found in unions of an intersection', () => {
+    const v = validator`({| a: number |} | {| b: number |}) & {| c: number |}`;
+    expect(v.matches({ a: 1, c: 2 })).toBe(true);
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      allOf: [
+        {
+          anyOf: [
+            { type: 'object', properties: { a: { type: 'number' } }, required: ['a'] },
+            { type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+          ],
+        },
+        { type: 'object', properties: { c: { type: 'number' } }, required: ['c'] },
+      ],
+      unevaluatedProperties: false,
+    });
+  });
+
+  test('inlines declared types that need their exactness relaxed within an intersection', () => {
+    const { Point } = validator.types`type Point = {| x: number, y: number |}`;
+    const v = validator`${Point} & {| z: number |}`;
+    expect(v.matches({ x: 1, y: 2, z: 3 })).toBe(true);
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      allOf: [
+        { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' } }, required: ['x', 'y'] },
+        { type: 'object', properties: { z: { type: 'number' } }, required: ['z'] },
+      ],
+      unevaluatedProperties: false,
+    });
+  });
+
+  test('converts index signatures', () => {
+    expect(validator.toJsonSchema(validator`{ [index: string]: number }`)).toEqual({
+      $schema,
+      type: 'object',
+      patternProperties: { '': { type: 'number' } },
+    });
+
+    const v = validator.fromRuleset({
+      rootRule: {
+        category: 'property',
+        content: new Map(),
+        dynamicContent: new Map(),
+        index: {
+          key: {
+            category: 'union',
+            variants: [{ category: 'primitiveLiteral', value: 'a.b' }, { category: 'interpolation', interpolationIndex: 0 }],
+          },
+          value: { category: 'simple', type: 'number' },
+          label: 'index',
+        },
+      },
+      interpolated: [/^x/],
+    });
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      type: 'object',
+      patternProperties: { '(^a\\.b$)|(^x)': { type: 'number' } },
+    });
+
+    expect(validator.toJsonSchema(validator`{ [index: symbol]: number }`)).toEqual({
+      $schema,
+      type: 'object',
+    });
+  });
+
+  test('converts number index signatures', () => {
+    const schema = validator.toJsonSchema(validator`{ [index: number]: number }`);
+    const pattern = new RegExp(Object.keys(schema.patternProperties ?? {})[0] as string);
+    expect(['0', '12', '-1.5', '2e3', 'Infinity'].every(key => pattern.test(key))).toBe(true);
+    expect(['', 'x', '01', '1x', ' 1'].some(key => pattern.test(key))).toBe(false);
+  });
+
+  test('converts template literal rules into patterns', () => {
+    expect(validator.toJsonSchema(validator`\`user_\${bigint}.\${'a' | 'b'}\``)).toEqual({
+      $schema,
+      type: 'string',
+      pattern: '^user_(-?[0-9]+)\\.((a)|(b))$',
+    });
+
+    const schema = validator.toJsonSchema(validator`\`\${number}\``);
+    const pattern = new RegExp(schema.pattern as string, 'u');
+    expect(['0', '-1.5', '.5', '1.', '2e3', '0x1F'].every(text => pattern.test(text))).toBe(true);
+    expect(['', 'x', ' 1', '1x', 'Infinity'].some(text => pattern.test(text))).toBe(false);
+  });
+
+  test('throws on template literal rules with placeholders that can not be converted', () => {
+    const act = (): any => validator.toJsonSchema(validator`\`a\${string & ${validator.expectTo(() => undefined)}}\``);
+    assert.throws(act, {
+      message: 'Failed to convert the validator to JSON Schema: a template literal type with this kind of placeholder can not be represented.',
+    });
+  });
+
+  test('converts array rules', () => {
+    expect(validator.toJsonSchema(validator`string[]`)).toEqual({
+      $schema,
+      type: 'array',
+      items: { type: 'string' },
+    });
+  });
+
+  test('converts tuple rules', () => {
+    expect(validator.toJsonSchema(validator`[string, number?]`)).toEqual({
+      $schema,
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      minItems: 1,
+      maxItems: 2,
+    });
+
+    expect(validator.toJsonSchema(validator`[string, ...${validator`number[]`}]`)).toEqual({
+      $schema,
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      minItems: 1,
+    });
+
+    expect(validator.toJsonSchema(validator`[]`)).toEqual({ $schema, type: 'array', maxItems: 0 });
+  });
+
+  test('converts iterable rules into array schemas', () => {
+    expect(validator.toJsonSchema(validator`unknown[]@<string>`)).toEqual({
+      $schema,
+      allOf: [
+        { type: 'array', items: {} },
+        { type: 'array', items: { type: 'string' } },
+      ],
+    });
+  });
+
+  test('converts union and intersection rules', () => {
+    expect(validator.toJsonSchema(validator`string | number | undefined`)).toEqual({
+      $schema,
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    });
+
+    expect(validator.toJsonSchema(validator`{ x: number } & { y: number }`)).toEqual({
+      $schema,
+      allOf: [
+        { type: 'object', properties: { x: { type: 'number' } }, required: ['x'] },
+        { type: 'object', properties: { y: { type: 'number' } }, required: ['y'] },
+      ],
+    });
+  });
+
+  test('inlines interpolated validators', () => {
+    const v = validator`{ x: ${validator`${'a'} | ${/^b/u}`} }`;
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { x: { anyOf: [{ const: 'a' }, { type: 'string', pattern: '^b' }] } },
+      required: ['x'],
+    });
+  });
+
+  test('inlines instantiated generics', () => {
+    const Page = validator.generic(['T'], '{ items: T[] }');
+    const v = validator`${Page}<${validator`string`}>`;
+    expect(validator.toJsonSchema(v)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { items: { type: 'array', items: { type: 'string' } } },
+      required: ['items'],
+    });
+  });
+
+  test('places declared types under $defs', () => {
+    const { Tree } = validator.types<'Tree'>`
+      type Node = { value: number, children: Node[] }
+      type Tree = Node | null
+    `;
+    const schema = validator.toJsonSchema(Tree);
+    expect(schema).toEqual({
+      $schema,
+      $ref: '#/$defs/Tree',
+      $defs: {
+        Tree: { anyOf: [{ $ref: '#/$defs/Node' }, { type: 'null' }] },
+        Node: {
+          type: 'object',
+          properties: {
+            value: { type: 'number' },
+            children: { type: 'array', items: { $ref: '#/$defs/Node' } },
+          },
+          required: ['value', 'children'],
+        },
+      },
+    });
+
+    const roundTripped = validator.fromJsonSchema(schema);
+    expect(roundTripped.matches({ value: 1, children: [{ value: 2, children: [] }] })).toBe(true);
+    expect(roundTripped.matches({ value: 1, children: [{ value: '2', children: [] }] })).toBe(false);
+  });
+
+  test('renames declared types that share a name', () => {
+    const { Item: Item1 } = validator.types<'Item'>`type Item = string`;
+    const { Item: Item2 } = validator.types<'Item'>`type Item = number`;
+    expect(validator.toJsonSchema(validator`[${Item1}, ${Item2}]`)).toEqual({
+      $schema,
+      type: 'array',
+      prefixItems: [{ $ref: '#/$defs/Item' }, { $ref: '#/$defs/Item2' }],
+      minItems: 2,
+      maxItems: 2,
+      $defs: {
+        Item: { type: 'string' },
+        Item2: { type: 'number' },
+      },
+    });
+  });
+
+  describe('unrepresentable rules', () => {
+    test('throws on interpolated expectations by default', () => {
+      const v = validator`{ x: ${validator.expectTo(() => undefined)} }`;
+      assert.throws(() => validator.toJsonSchema(v), {
+        name: 'TypeError',
+        message: (
+          'Failed to convert the validator to JSON Schema: ' +
+          'an interpolated expectation (from validator.expectTo()) can not be represented.'
+        ),
+      });
+    });
+
+    test('throws on interpolated classes', () => {
+      assert.throws(() => validator.toJsonSchema(validator`${Map}`), {
+        message: 'Failed to convert the validator to JSON Schema: the interpolated class `Map` can not be represented.',
+      });
+    });
+
+    test('throws on interpolated lazy evaluators', () => {
+      assert.throws(() => validator.toJsonSchema(validator`${validator.lazy(() => validator`string`)}`), {
+        message: (
+          'Failed to convert the validator to JSON Schema: ' +
+          'an interpolated lazy evaluator (from validator.lazy()) can not be represented.'
+        ),
+      });
+    });
+
+    test('throws on regular expressions with flags', () => {
+      assert.throws(() => validator.toJsonSchema(validator`${/x/i}`), {
+        message: 'Failed to convert the validator to JSON Schema: the regular expression /x/i, with its flags, can not be represented.',
+      });
+    });
+
+    test('throws on string lengths measured in graphemes', () => {
+      assert.throws(() => validator.toJsonSchema(validator`string(..2 graphemes)`), {
+        message: 'Failed to convert the validator to JSON Schema: a string length that is measured in graphemes can not be represented.',
+      });
+    });
+
+    test('loosens string constraints when requested', () => {
+      const v = validator`string(..2 graphemes, /^a/i)`;
+      expect(validator.toJsonSchema(v, { onUnrepresentable: 'loosen' })).toEqual({
+        $schema,
+        type: 'string',
+        $comment: 'Left out the flags of the regular expression /^a/i, which can not be represented in JSON Schema.',
+      });
+    });
+
+    test('loosens unrepresentable rules when requested', () => {
+      const v = validator`{ x: ${Map}, y: [...${validator.expectTo(() => undefined)}] }`;
+      expect(validator.toJsonSchema(v, { onUnrepresentable: 'loosen' })).toEqual({
+        $schema,
+        type: 'object',
+        properties: {
+          x: { $comment: 'Left out the interpolated class `Map`, which can not be represented in JSON Schema.' },
+          y: {
+            type: 'array',
+            items: { $comment: 'Left out a tuple rest entry that is not an array rule, which can not be represented in JSON Schema.' },
+          },
+        },
+        required: ['x', 'y'],
+      });
+    });
+
+    test('loosens unrepresentable index signatures when requested', () => {
+      const v = validator.fromRuleset({
+        rootRule: {
+          category: 'property',
+          content: new Map(),
+          dynamicContent: new Map(),
+          index: {
+            key: { category: 'interpolation', interpolationIndex: 0 },
+            value: { category: 'simple', type: 'number' },
+            label: 'index',
+          },
+        },
+        interpolated: [validator.expectTo(() => undefined)],
+      });
+      expect(validator.toJsonSchema(v, { onUnrepresentable: 'loosen' })).toEqual({
+        $schema,
+        type: 'object',
+        $comment: 'Left out an index signature with this kind of key, which can not be represented in JSON Schema.',
+      });
+    });
+  });
+});
+
+describe('validator.fromJsonSchema()', () => {
+  test('boolean schemas', () => {
+    expect(validator.fromJsonSchema(true).matches(2)).toBe(true);
+    assert.throws(() => validator.fromJsonSchema(false).assertMatches(2), {
+      message: 'Expected <receivedValue>, which was 2, to match the "false" JSON Schema, which rejects every value.',
+    });
+  });
+
+  test('the type keyword', () => {
+    const v = validator.fromJsonSchema({ type: ['string', 'null'] });
+    expect(v.matches('xyz')).toBe(true);
+    expect(v.matches(null)).toBe(true);
+    expect(v.matches(2)).toBe(false);
+
+    const objectValidator = validator.fromJsonSchema({ type: 'object' });
+    expect(objectValidator.matches({})).toBe(true);
+    expect(objectValidator.matches([])).toBe(false);
+
+    const arrayValidator = validator.fromJsonSchema({ type: 'array' });
+    expect(arrayValidator.matches([])).toBe(true);
+    expect(arrayValidator.matches({})).toBe(false);
+  });
+
+  test('the integer type', () => {
+    const v = validator.fromJsonSchema({ type: 'integer' });
+    expect(v.matches(2)).toBe(true);
+    assert.throws(() => v.assertMatches(2.5), {
+      message: 'Expected <receivedValue> to be an integer but got 2.5.',
+    });
+
+    const bounded = validator.fromJsonSchema({ type: 'integer', minimum: 0, exclusiveMaximum: 10 });
+    expect(validator.stringify(bounded)).toBe('number & integer(>=0, <10)');
+    expect(validator.toJsonSchema(bounded)).toMatchObject({
+      allOf: [{ type: 'number' }, { type: 'integer', minimum: 0, exclusiveMaximum: 10 }],
+    });
+    expect(bounded.matches(9)).toBe(true);
+    expect(bounded.matches(9.5)).toBe(false);
+  });
+
+  test('const and enum', () => {
+    const v = validator.fromJsonSchema({ enum: ['a', 2, null, { x: [1] }] });
+    expect(v.matches('a')).toBe(true);
+    expect(v.matches(2)).toBe(true);
+    expect(v.matches(null)).toBe(true);
+    expect(v.matches({ x: [1] })).toBe(true);
+    expect(v.matches({ x: [2] })).toBe(false);
+    expect(v.matches('b')).toBe(false);
+
+    assert.throws(() => validator.fromJsonSchema({ const: 'a' }).assertMatches('b'), {
+      message: 'Expected <receivedValue> to be "a" but got "b".',
+    });
+  });
+
+  test('string keywords', () => {
+    const v = validator.fromJsonSchema({ type: 'string', minLength: 2, maxLength: 3, pattern: '^a' });
+    expect(v.matches('ab')).toBe(true);
+    expect(v.matches('a😀')).toBe(true); // Lengths are measured in code points
+    expect(v.matches('bb')).toBe(false);
+    assert.throws(() => v.assertMatches('a'), {
+      message: 'Expected <receivedValue>, which was "a", to have a length of at least 2.',
+    });
+    assert.throws(() => v.assertMatches('abcd'), {
+      message: 'Expected <receivedValue>, which was "abcd", to have a length of at most 3.',
+    });
+  });
+
+  test('number keywords', () => {
+    const v = validator.fromJsonSchema({ type: 'number', minimum: 0, exclusiveMaximum: 10, multipleOf: 0.5 });
+    expect(v.matches(0)).toBe(true);
+    expect(v.matches(9.5)).toBe(true);
+    assert.throws(() => v.assertMatches(-1), {
+      message: 'Expected <receivedValue> to be at least 0 but got -1.',
+    });
+    assert.throws(() => v.assertMatches(10), {
+      message: 'Expected <receivedValue> to be less than 10 but got 10.',
+    });
+    assert.throws(() => v.assertMatches(2.25), {
+      message: 'Expected <receivedValue>, which was 2.25, to be a multiple of 0.5.',
+    });
+  });
+
+  test('multipleOf tolerates floating-point error with fractional divisors', () => {
+    const tenths = validator.fromJsonSchema({ multipleOf: 0.1 });
+    expect(tenths.matches(0.3)).toBe(true);
+    expect(tenths.matches(0.7)).toBe(true);
+    expect(tenths.matches(-1.1)).toBe(true);
+    expect(tenths.matches(0)).toBe(true);
+    expect(tenths.matches(0.35)).toBe(false);
+    expect(tenths.matches(0.301)).toBe(false);
+
+    const cents = validator.fromJsonSchema({ multipleOf: 0.01 });
+    expect(cents.matches(4.35)).toBe(true);
+    expect(cents.matches(19.99)).toBe(true);
+    expect(cents.matches(0.07)).toBe(true);
+    expect(cents.matches(19.995)).toBe(false);
+  });
+
+  test('length, pattern, range, and size keywords become constraint rules', () => {
+    const v = validator.fromJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 20, pattern: '^[a-z]' },
+        age: { type: 'number', minimum: 0, exclusiveMinimum: 0, maximum: 150 },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+      },
+    });
+    expect(validator.stringify(v)).toBe([
+      'object & ${validator.expectTo(…)} & own {',
+      '  name?: string & string(1..20, /^[a-z]/u)',
+      '  age?: number & number(>0, <=150)',
+      '  tags?: unknown[] & string[..3]',
+      '}',
+    ].join('\n'));
+
+    // The constraints survive being converted back into a JSON Schema.
+    const arrayValidator = validator.fromJsonSchema({
+      type: 'array',
+      items: { type: 'string', minLength: 1, pattern: '^[a-z]' },
+      minItems: 1,
+    });
+    expect(validator.toJsonSchema(arrayValidator)).toMatchObject({
+      allOf: [
+        { type: 'array' },
+        { type: 'array', items: { allOf: [{ type: 'string' }, { minLength: 1, pattern: '^[a-z]' }] }, minItems: 1 },
+      ],
+    });
+    const roundTripped = validator.fromJsonSchema(validator.toJsonSchema(arrayValidator));
+    expect(roundTripped.matches(['a'])).toBe(true);
+    expect(roundTripped.matches([])).toBe(false);
+    expect(roundTripped.matches([''])).toBe(false);
+    expect(roundTripped.matches(['A'])).toBe(false);
+  });
+
+  test('bounds that conflict with each other reject every value', () => {
+    const v = validator.fromJsonSchema({ minLength: 3, maxLength: 2, minimum: 5, maximum: 1, minItems: 2, maxItems: 1 });
+    expect(v.matches('ab')).toBe(false);
+    expect(v.matches('abc')).toBe(false);
+    expect(v.matches(3)).toBe(false);
+    expect(v.matches([1])).toBe(false);
+    expect(v.matches([1, 2])).toBe(false);
+    expect(v.matches(true)).toBe(true);
+  });
+
+  test('type-specific keywords only apply to values of that type', () => {
+    const v = validator.fromJsonSchema({ minLength: 2 });
+    expect(v.matches(2)).toBe(true);
+    expect(v.matches('ab')).toBe(true);
+    expect(v.matches('a')).toBe(false);
+  });
+
+  test('object keywords', () => {
+    const v = validator.fromJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+      },
+      required: ['name', 'id'],
+    });
+
+    expect(v.matches({ name: 'Alice', id: 2 })).toBe(true);
+    expect(v.matches({ name: 'Alice', id: 2, age: 30 })).toBe(true);
+    assert.throws(() => v.assertMatches({ name: 2, id: 2 }), {
+      message: 'Expected <receivedValue>.name to be of type "string" but got type "number".',
+    });
+    assert.throws(() => v.assertMatches({ name: 'Alice' }), {
+      message: '<receivedValue> is missing the required properties: "id"',
+    });
+  });
+
+  test('only own properties are considered', () => {
+    const v = validator.fromJsonSchema({ type: 'object', required: ['toString'] });
+    expect(v.matches({})).toBe(false);
+    expect(v.matches({ toString: 2 })).toBe(true);
+
+    const withProperties = validator.fromJsonSchema(JSON.parse('{ "type": "object", "properties": { "toString": { "type": "string" } } }'));
+    expect(withProperties.matches({})).toBe(true);
+    expect(withProperties.matches({ toString: 2 })).toBe(false);
+
+    const withDependencies = validator.fromJsonSchema({ dependentRequired: { toString: ['x'], a: ['valueOf'] } });
+    expect(withDependencies.matches({})).toBe(true);
+    expect(withDependencies.matches({ a: 1 })).toBe(false);
+    expect(withDependencies.matches({ a: 1, valueOf: 2 })).toBe(true);
+  });
+
+  test('additionalProperties set to false', () => {
+    const v = validator.fromJsonSchema({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      additionalProperties: false,
+    });
+
+    expect(v.matches({ name: 'Alice' })).toBe(true);
+    expect(v.matches({})).toBe(true);
+    assert.throws(() => v.assertMatches({ name: 'Alice', extra: 3 }), {
+      message: (
+        'Expected <receivedValue>.extra, which was 3, to not be present, ' +
+        'because additional properties are not allowed.'
+      ),
+    });
+  });
+
+  test('patternProperties and additionalProperties', () => {
+    const v = validator.fromJsonSchema({
+      type: 'object',
+      properties: { id: { type: 'number' } },
+      patternProperties: { '^x-': { type: 'string' } },
+      additionalProperties: { type: 'boolean' },
+    });
+
+    expect(v.matches({ id: 2, 'x-a': 'a', other: true })).toBe(true);
+    assert.throws(() => v.assertMatches({ id: 2, 'x-a': 2 }), {
+      message: 'Expected <receivedValue>["x-a"] to be of type "string" but got type "number".',
+    });
+    assert.throws(() => v.assertMatches({ id: 2, other: 'a' }), {
+      message: 'Expected <receivedValue>.other to be of type "boolean" but got type "string".',
+    });
+  });
+
+  test('other object keywords', () => {
+    const v = validator.fromJsonSchema({
+      type: 'object',
+      propertyNames: { pattern: '^[a-z]+$' },
+      minProperties: 1,
+      maxProperties: 2,
+      dependentRequired: { credit: ['billing'] },
+    });
+
+    expect(v.matches({ a: 1 })).toBe(true);
+    expect(v.matches({ credit: 1, billing: 2 })).toBe(true);
+    expect(v.matches({})).toBe(false);
+    expect(v.matches({ a: 1, b: 2, c: 3 })).toBe(false);
+    expect(v.matches({ A: 1 })).toBe(false);
+    assert.throws(() => v.assertMatches({ credit: 1 }), {
+      message: (
+        'Expected <receivedValue>, which was [object Object], to have the property "billing", ' +
+        'because the property "credit" is present.'
+      ),
+    });
+  });
+
+  test('minProperties and maxProperties become a size constraint', () => {
+    const v = validator.fromJsonSchema({ type: 'object', required: ['a'], minProperties: 2, maxProperties: 3 });
+    expect(validator.stringify(v)).toBe('object & ${validator.expectTo(…)} & own {\n  a: unknown\n}(2..3)');
+    expect(validator.toJsonSchema(v, { onUnrepresentable: 'loosen' })).toMatchObject({
+      allOf: [{}, { type: 'object', required: ['a'], minProperties: 2, maxProperties: 3 }],
+    });
+    expect(v.matches({ a: 1, b: 2 })).toBe(true);
+    assert.throws(() => v.assertMatches({ a: 1 }), {
+      message: 'Expected <receivedValue> to have between 2 and 3 properties, but found 1.',
+    });
+
+    const conflicting = validator.fromJsonSchema({ minProperties: 2, maxProperties: 1 });
+    expect(conflicting.matches({ a: 1 })).toBe(false);
+    expect(conflicting.matches({ a: 1, b: 2 })).toBe(false);
+    expect(conflicting.matches(2)).toBe(true);
+  });
+
+  test('array keywords', () => {
+    const v = validator.fromJsonSchema({ type: 'array', items: { type: 'number' }, minItems: 1, uniqueItems: true });
+    expect(v.matches([1, 2])).toBe(true);
+    expect(v.matches([])).toBe(false);
+    expect(v.matches([1, 1])).toBe(false);
+    assert.throws(() => v.assertMatches([1, 'x']), {
+      message: 'Expected <receivedValue>[1] to be of type "number" but got type "string".',
+    });
+  });
+
+  test('prefixItems', () => {
+    const v = validator.fromJsonSchema({
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      items: false,
+    });
+
+    expect(v.matches([])).toBe(true);
+    expect(v.matches(['a', 2])).toBe(true);
+    expect(v.matches(['a', 2, 3])).toBe(false);
+    expect(v.matches([2])).toBe(false);
+
+    const withRest = validator.fromJsonSchema({ prefixItems: [{ type: 'string' }], items: { type: 'boolean' } });
+    expect(withRest.matches(['a', true, false])).toBe(true);
+    expect(withRest.matches(['a', 2])).toBe(false);
+  });
+
+  test('contains', () => {
+    const v = validator.fromJsonSchema({ type: 'array', contains: { type: 'string' }, maxContains: 1 });
+    expect(v.matches([1, 'a'])).toBe(true);
+    expect(v.matches([1])).toBe(false);
+    expect(v.matches(['a', 'b'])).toBe(false);
+  });
+
+  test('applicator keywords', () => {
+    const v = validator.fromJsonSchema({
+      allOf: [{ type: 'number' }, { minimum: 0 }],
+      anyOf: [{ maximum: 10 }, { multipleOf: 100 }],
+      oneOf: [{ multipleOf: 2 }, { multipleOf: 3 }],
+      not: { const: 8 },
+    });
+
+    expect(v.matches(2)).toBe(true);
+    expect(v.matches(200)).toBe(true);
+    expect(v.matches(-2)).toBe(false);
+    expect(v.matches(12)).toBe(false);
+    expect(v.matches(6)).toBe(false);
+    expect(v.matches(8)).toBe(false);
+  });
+
+  test('if/then/else', () => {
+    const v = validator.fromJsonSchema({
+      if: { type: 'string' },
+      then: { minLength: 2 },
+      else: { type: 'number' },
+    });
+
+    expect(v.matches('ab')).toBe(true);
+    expect(v.matches(2)).toBe(true);
+    expect(v.matches('a')).toBe(false);
+    expect(v.matches(null)).toBe(false);
+  });
+
+  test('local references', () => {
+    const v = validator.fromJsonSchema({
+      type: 'object',
+      properties: { user: { $ref: '#/$defs/user' } },
+      $defs: {
+        user: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+      },
+    });
+
+    expect(v.matches({ user: { name: 'Alice' } })).toBe(true);
+    assert.throws(() => v.assertMatches({ user: { name: 2 } }), {
+      message: 'Expected <receivedValue>.user.name to be of type "string" but got type "number".',
+    });
+  });
+
+  test('recursive references', () => {
+    const v = validator.fromJsonSchema({
+      $defs: {
+        node: {
+          type: 'object',
+          properties: {
+            value: { type: 'number' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } },
+          },
+          required: ['value'],
+        },
+      },
+      $ref: '#/$defs/node',
+    });
+
+    expect(v.matches({ value: 1, children: [{ value: 2, children: [{ value: 3 }] }] })).toBe(true);
+    assert.throws(() => v.assertMatches({ value: 1, children: [{ value: 2, children: [{ value: 'x' }] }] }), {
+      message: 'Expected <receivedValue>.children[0].children[0].value to be of type "number" but got type "string".',
+    });
+  });
+
+  test('references to the root schema', () => {
+    const v = validator.fromJsonSchema({
+      type: ['object', 'null'],
+      properties: { next: { $ref: '#' } },
+    });
+
+    expect(v.matches({ next: { next: null } })).toBe(true);
+    expect(v.matches({ next: { next: 2 } })).toBe(false);
+  });
+
+  test('ignores annotation keywords', () => {
+    const v = validator.fromJsonSchema({ title: 'Name', description: 'A name', format: 'email', type: 'string' });
+    expect(v.matches('not an email')).toBe(true);
+  });
+
+  describe('invalid schemas', () => {
+    test('unresolvable references', () => {
+      assert.throws(() => validator.fromJsonSchema({ properties: { x: { $ref: '#/$defs/missing' } } }), {
+        message: (
+          'Failed to build a validator from the JSON Schema at "#/properties/x/$ref": ' +
+          'Failed to resolve the reference "#/$defs/missing".'
+        ),
+      });
+    });
+
+    test('references that are not properly percent-encoded', () => {
+      assert.throws(() => validator.fromJsonSchema({ $ref: '#/%E0' }), {
+        message: (
+          'Failed to build a validator from the JSON Schema at "#/$ref": ' +
+          'Failed to resolve the reference "#/%E0", as it is not properly percent-encoded.'
+        ),
+      });
+    });
+
+    test('non-local references', () => {
+      assert.throws(() => validator.fromJsonSchema({ $ref: 'https://example.com/schema.json' }), {
+        message: (
+          'Failed to build a validator from the JSON Schema at "#/$ref": ' +
+          'Only local references (that start with "#") are supported, but got "https://example.com/schema.json".'
+        ),
+      });
+    });
+
+    test('unsupported keywords', () => {
+      assert.throws(() => validator.fromJsonSchema({ items: { unevaluatedProperties: false } }), {
+        message: (
+          'Failed to build a validator from the JSON Schema at "#/items": ' +
+          'The "unevaluatedProperties" keyword is not supported.'
+        ),
+      });
+    });
+
+    test('bad keyword values', () => {
+      assert.throws(() => validator.fromJsonSchema({ minLength: -1 }), {
+        message: (
+          'Failed to build a validator from the JSON Schema at "#/minLength": ' +
+          'Expected a non-negative integer, but got -1.'
+        ),
+      });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidatorSyntaxError } from '../src/index.js';
+
+describe('map and set rules', () => {
+  describe('maps', () => {
+    test('accepts maps with matching keys and values', () => {
+      const v = validator`Map<string, number>`;
+      v.assertMatches(new Map([['alice', 1], ['bob', 2]]));
+      v.assertMatches(new Map());
+    });
+
+    test('rejects values that are not maps', () => {
+      const v = validator`Map<string, number>`;
+      const act = (): any => v.assertMatches({ alice: 1 });
+      assert.throws(act, { message: 'Expected <receivedValue>, which was [object Object], to be an instance of `Map`.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects null and undefined', () => {
+      const v = validator`Map<string, number>`;
+      expect(v.matches(null)).toBe(false);
+      expect(v.matches(undefined)).toBe(false);
+      expect(validator.compile(v).matches(null)).toBe(false);
+      assert.throws(() => v.assertMatches(null), {
+        message: 'Expected <receivedValue>, which was null, to be an instance of `Map`.',
+      });
+      assert.throws(() => validator`{ m?: Map<string, number> }`.assertMatches({ m: null }), {
+        message: 'Expected <receivedValue>.m, which was null, to be an instance of `Map`.',
+      });
+    });
+
+    test('reports bad values by their key', () => {
+      const v = validator`{ scores: Map<string, number> }`;
+      const act = (): any => v.assertMatches({ scores: new Map<string, unknown>([['bob', 1], ['alice', '2']]) });
+      assert.throws(act, { message: 'Expected <receivedValue>.scores.get("alice") to be of type "number" but got type "string".' });
+      assert.throws(act, TypeError);
+    });
+
+    test('reports bad keys by their position', () => {
+      const v = validator`Map<string, number>`;
+      const act = (): any => v.assertMatches(new Map<unknown, number>([['alice', 1], [2, 2]]));
+      assert.throws(act, { message: 'Expected [...<receivedValue>.keys()][1] to be of type "string" but got type "number".' });
+      assert.throws(act, TypeError);
+    });
+
+    test('can be nested', () => {
+      const v = validator`Map<string, Map<number, boolean>>`;
+      v.assertMatches(new Map([['a', new Map([[1, true]])]]));
+      const act = (): any => v.assertMatches(new Map([['a', new Map([[1, 'x']])]]));
+      assert.throws(act, { message: 'Expected <receivedValue>.get("a").get(1) to be of type "boolean" but got type "string".' });
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`Map<string, number>`;
+      expect(v.ruleset).toMatchObject({
+        rootRule: {
+          category: 'map',
+          keyType: { category: 'simple', type: 'string' },
+          valueType: { category: 'simple', type: 'number' },
+          size: null,
+        },
+        interpolated: [],
+      });
+      expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+    });
+  });
+
+  describe('sets', () => {
+    test('accepts sets with matching entries', () => {
+      const v = validator`Set<string>`;
+      v.assertMatches(new Set(['a', 'b']));
+      v.assertMatches(new Set());
+    });
+
+    test('rejects values that are not sets', () => {
+      const v = validator`Set<string>`;
+      const act = (): any => v.assertMatches(['a']);
+      assert.throws(act, { message: 'Expected <receivedValue>, which was [object Array], to be an instance of `Set`.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects null and undefined', () => {
+      const v = validator`Set<string>`;
+      expect(v.matches(null)).toBe(false);
+      expect(v.matches(undefined)).toBe(false);
+      expect(validator.compile(v).matches(undefined)).toBe(false);
+      assert.throws(() => validator`{ s?: Set<string> }`.assertMatches({ s: null }), {
+        message: 'Expected <receivedValue>.s, which was null, to be an instance of `Set`.',
+      });
+    });
+
+    test('reports bad entries by their position', () => {
+      const v = validator`Set<string>`;
+      const act = (): any => v.assertMatches(new Set(['a', 2]));
+      assert.throws(act, { message: 'Expected [...<receivedValue>][1] to be of type "string" but got type "number".' });
+      assert.throws(act, TypeError);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`Set<string>`;
+      expect(v.ruleset.rootRule).toMatchObject({
+        category: 'set',
+        entryType: { category: 'simple', type: 'string' },
+        size: null,
+      });
+      expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+    });
+  });
+
+  describe('size constraints', () => {
+    test('rejects maps that are too large', () => {
+      const v = validator`Map<string, number>(..2)`;
+      v.assertMatches(new Map([['a', 1], ['b', 2]]));
+      const act = (): any => v.assertMatches(new Map([['a', 1], ['b', 2], ['c', 3]]));
+      assert.throws(act, { message: 'Expected <receivedValue> to have at most 2 entries, but found 3.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects sets that are too small', () => {
+      const v = validator`Set<string>(1..)`;
+      const act = (): any => v.assertMatches(new Set());
+      assert.throws(act, { message: 'Expected <receivedValue> to have at least 1 entry, but found 0.' });
+    });
+
+    test('produces the correct rule', () => {
+      expect(validator`Set<string>(..5)`.ruleset.rootRule).toMatchObject({ size: { min: null, max: 5 } });
+    });
+  });
+
+  test('size failures are preferred over type mismatches in unions', () => {
+    const v = validator`Set<string>(..1) | string`;
+    const act = (): any => v.assertMatches(new Set(['a', 'b']));
+    assert.throws(act, { message: 'Expected <receivedValue> to have at most 1 entry, but found 2.' });
+  });
+
+  test('exposes key-aware path segments', () => {
+    const v = validator`Map<string, number>`;
+    const [valueIssue] = v.validate(new Map<string, unknown>([['alice', 'x']]));
+    expect(valueIssue).toMatchObject({
+      path: '<receivedValue>.get("alice")',
+      pathSegments: [{ category: 'mapValue', key: 'alice', index: 0 }],
+    });
+
+    const objectKey = { id: 2 };
+    const [objectKeyValueIssue] = validator`Map<object, number>`.validate(new Map<object, unknown>([[{}, 1], [objectKey, 'x']]));
+    expect(objectKeyValueIssue).toMatchObject({
+      path: '[...<receivedValue>.values()][1]',
+      pathSegments: [{ category: 'mapValue', key: objectKey, index: 1 }],
+    });
+
+    const [keyIssue] = v.validate(new Map([[2, 1]]));
+    expect(keyIssue).toMatchObject({
+      path: '[...<receivedValue>.keys()][0]',
+      pathSegments: [{ category: 'mapKey', index: 0 }],
+    });
+  });
+
+  test('works with compiled validators', () => {
+    const v = validator.compile(validator`{ scores: Map<string, number>(..2), tags: Set<string> }`);
+    const valid = { scores: new Map([['a', 1]]), tags: new Set(['x']) };
+    expect(v.matches(valid)).toBe(true);
+    expect(v.matches({ ...valid, scores: new Map([['a', '1']]) })).toBe(false);
+    expect(v.matches({ ...valid, scores: new Map([[1, 1]]) })).toBe(false);
+    expect(v.matches({ ...valid, scores: new Map([['a', 1], ['b', 2], ['c', 3]]) })).toBe(false);
+    expect(v.matches({ ...valid, scores: {} })).toBe(false);
+    expect(v.matches({ ...valid, tags: new Set([2]) })).toBe(false);
+    expect(v.matches({ ...valid, tags: ['x'] })).toBe(false);
+  });
+
+  test('transforms map values and set entries', () => {
+    const stringToNumber = validator.transform(validator`string`, value => Number(value));
+    expect(validator`Map<string, ${stringToNumber}>`.parse(new Map([['a', '1']]))).toEqual(new Map([['a', 1]]));
+    expect(validator`Set<${stringToNumber}>`.parse(new Set(['1', '2']))).toEqual(new Set([1, 2]));
+
+    const original = new Map([['a', 1]]);
+    expect(validator`Map<string, number>`.parse(original)).toBe(original);
+  });
+
+  describe('syntax', () => {
+    test('throws when the type arguments are missing', () => {
+      const act = (): any => validator`Map`;
+      assert.throws(act, {
+        message: [
+          'Expected type arguments to follow `Map`, e.g. `Map<string, number>`. (line 1, col 4)',
+          '  Map',
+          '     ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when the wrong number of type arguments are provided', () => {
+      const act = (): any => validator`Set<string, number>`;
+      assert.throws(act, ValidatorSyntaxError);
+      assert.throws(act, { message: /^`Set` expects 1 type argument\(s\), e\.g\. `Set<string>`, but received 2\./ });
+    });
+
+    test('Map and Set can not be used as type declaration names', () => {
+      assert.throws(() => validator.types`type Map = string`, ValidatorSyntaxError);
+    });
+  });
+});
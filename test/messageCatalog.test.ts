@@ -0,0 +1,167 @@
+import { strict as assert } from 'node:assert';
+import { validator, type MessageCatalog, type ValidationMessage } from '../src/index.js';
+
+const germanCatalog: MessageCatalog = {
+  type_mismatch: ({ path, expectedType, actualType }) => (
+    `${path} sollte vom Typ "${expectedType}" sein, ist aber vom Typ "${actualType}".`
+  ),
+  missing_property: ({ path, keys }) => `${path} fehlen die Pflichtfelder: ${keys.join(', ')}`,
+  union_mismatch: ({ issues }) => ['Eines der folgenden Probleme muss behoben werden:', ...issues.map(issue => `- ${issue}`)].join('\n'),
+};
+
+describe('message catalog', () => {
+  test('builds messages from a provided catalog', () => {
+    const v = validator`{ name: string }`;
+    const act = (): any => v.assertMatches({ name: 2 }, { messageCatalog: germanCatalog });
+    assert.throws(act, { message: '<receivedValue>.name sollte vom Typ "string" sein, ist aber vom Typ "number".' });
+    assert.throws(act, TypeError);
+  });
+
+  test('falls back to the default catalog for messages the catalog does not provide', () => {
+    const v = validator`{ name: 'Alice' }`;
+    const act = (): any => v.assertMatches({ name: 'Bob' }, { messageCatalog: germanCatalog });
+    assert.throws(act, { message: 'Expected <receivedValue>.name to be "Alice" but got "Bob".' });
+  });
+
+  test('union errors are built from the catalog', () => {
+    const v = validator`string | number`;
+    const act = (): any => v.assertMatches(true, { messageCatalog: germanCatalog });
+    assert.throws(act, {
+      message: [
+        'Eines der folgenden Probleme muss behoben werden:',
+        '- <receivedValue> sollte vom Typ "string" sein, ist aber vom Typ "boolean".',
+        '- <receivedValue> sollte vom Typ "number" sein, ist aber vom Typ "boolean".',
+      ].join('\n'),
+    });
+  });
+
+  test('messages are provided with their parameters', () => {
+    const messages: ValidationMessage[] = [];
+    const v = validator`{ age: integer(0..150) }`;
+    const formatMessage = (message: ValidationMessage): undefined => {
+      messages.push(message);
+      return undefined;
+    };
+
+    const act = (): any => v.assertMatches({ age: 200 }, { formatMessage });
+    assert.throws(act, { message: 'Expected <receivedValue>.age to be at most 150 but got 200.' });
+    expect(messages).toEqual([{
+      id: 'number_too_large',
+      params: { path: '<receivedValue>.age', value: '200', limit: '150', exclusive: false },
+    }]);
+  });
+
+  test('formatMessage() takes precedence over the catalog', () => {
+    const v = validator`{ name: string, tags: string[] }`;
+    const act = (): any => v.assertMatches({ name: 2, tags: {} }, {
+      messageCatalog: germanCatalog,
+      formatMessage: message => message.id === 'array_expected' ? `[${message.id}] ${message.params.path}` : undefined,
+    });
+    assert.throws(act, { message: '<receivedValue>.name sollte vom Typ "string" sein, ist aber vom Typ "number".' });
+    expect(v.validate({ name: '', tags: {} }, {
+      messageCatalog: germanCatalog,
+      formatMessage: message => message.id === 'array_expected' ? `[${message.id}] ${message.params.path}` : undefined,
+    }).map(issue => issue.message)).toEqual(['[array_expected] <receivedValue>.tags']);
+  });
+
+  test('does not localize the error prefix or the text returned by expectations', () => {
+    const v = validator`${validator.expectTo(() => 'be valid.')}`;
+    const act = (): any => v.assertMatches(2, {
+      errorPrefix: 'Bad value:',
+      messageCatalog: {
+        expectation_failed: ({ path, expectation }) => `${path} ist ungültig (${expectation})`,
+      },
+    });
+    assert.throws(act, { message: 'Bad value: <receivedValue> ist ungültig (be valid.)' });
+  });
+
+  test('is supported by validate() and the async functions', async () => {
+    const v = validator`{ name: string }`;
+    const issues = v.validate({}, { messageCatalog: germanCatalog });
+    expect(issues.map(issue => issue.message)).toEqual(['<receivedValue> fehlen die Pflichtfelder: "name"']);
+    await expect(v.assertMatchesAsync({}, { messageCatalog: germanCatalog }))
+      .rejects.toThrow('<receivedValue> fehlen die Pflichtfelder: "name"');
+  });
+
+  test('is supported by assertArgs()', () => {
+    const v = validator.localize(validator`[name: string]`, {
+      messageCatalog: {
+        invalid_argument: ({ functionName, label, message }) => `Ungültiges Argument "${label}" für ${functionName}: ${message}`,
+      },
+    });
+    const act = (): any => { v.assertArgs('greet()', [2]); };
+    assert.throws(act, {
+      message: 'Ungültiges Argument "name" für greet(): Expected <1st argument> to be of type "string" but got type "number".',
+    });
+  });
+
+  describe('validator.localize()', () => {
+    test('applies the catalog to every call', () => {
+      const v = validator.localize(validator`{ name: string }`, { messageCatalog: germanCatalog });
+      assert.throws(() => v.assertMatches({}), { message: '<receivedValue> fehlen die Pflichtfelder: "name"' });
+      assert.throws(() => v.parse({}), { message: '<receivedValue> fehlen die Pflichtfelder: "name"' });
+      expect(v.matches({ name: 'Alice' })).toBe(true);
+    });
+
+    test('the options of a specific call take precedence', () => {
+      const v = validator.localize(validator`{ name: string }`, { messageCatalog: germanCatalog });
+      const act = (): any => v.assertMatches({}, {
+        messageCatalog: { missing_property: ({ keys }) => `Missing ${keys.join(' and ')}` },
+      });
+      assert.throws(act, { message: 'Missing "name"' });
+      assert.throws(() => v.assertMatches({ name: 2 }, { messageCatalog: {} }), {
+        message: '<receivedValue>.name sollte vom Typ "string" sein, ist aber vom Typ "number".',
+      });
+    });
+
+    test('compiled validators keep their catalog', () => {
+      const v = validator.compile(validator.localize(validator`{ name: string }`, { messageCatalog: germanCatalog }));
+      expect(v.matches({ name: 'Alice' })).toBe(true);
+      assert.throws(() => v.assertMatches({}), { message: '<receivedValue> fehlen die Pflichtfelder: "name"' });
+
+      const v2 = validator.localize(validator.compile(validator`{ name: string }`), { messageCatalog: germanCatalog });
+      assert.throws(() => v2.assertMatches({}), { message: '<receivedValue> fehlen die Pflichtfelder: "name"' });
+    });
+
+    test('does not change the original validator', () => {
+      const original = validator`{ name: string }`;
+      const localized = validator.localize(original, { messageCatalog: germanCatalog });
+      expect(localized.ruleset).toBe(original.ruleset);
+      assert.throws(() => original.assertMatches({}), { message: '<receivedValue> is missing the required properties: "name"' });
+    });
+  });
+
+  describe('bad user input', () => {
+    test('rejects unknown message ids', () => {
+      const act = (): any => validator`string`.assertMatches('x', { messageCatalog: { typeMismatch: () => '' } as any });
+      assert.throws(act, {
+        message: (
+          'Received invalid "opts" argument for <validator instance>.assertMatches(): ' +
+          'Expected <2nd argument>.messageCatalog, which was [object Object], ' +
+          'to have only known keys. "typeMismatch" is not recognized as a valid key.'
+        ),
+      });
+    });
+
+    test('rejects catalog entries that do not return strings', () => {
+      const v = validator.localize(validator`string`, { messageCatalog: { type_mismatch: () => 42 as any } });
+      assert.throws(() => v.assertMatches(2), {
+        message: (
+          'validator.localize() received a bad "messageCatalog.type_mismatch" function: ' +
+          'Expected <messageCatalog.type_mismatch return value> to be of type "string" but got type "number".'
+        ),
+      });
+    });
+
+    test('rejects formatMessage() functions that do not return strings or undefined', () => {
+      const act = (): any => validator`string`.assertMatches(2, { formatMessage: () => null as any });
+      assert.throws(act, {
+        message: (
+          '<validator instance>.assertMatches() received a bad "formatMessage" function: One of the following issues needs to be resolved:\n' +
+          '  * Expected <formatMessage return value> to be of type "string" but got type "null".\n' +
+          '  * Expected <formatMessage return value> to be of type "undefined" but got type "null".'
+        ),
+      });
+    });
+  });
+});
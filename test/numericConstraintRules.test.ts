@@ -0,0 +1,321 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidatorSyntaxError } from '../src/index.js';
+
+describe('numeric constraint rules', () => {
+  describe('integer', () => {
+    test('accepts integers', () => {
+      const v = validator`integer`;
+      v.assertMatches(2);
+      v.assertMatches(-0);
+      v.assertMatches(2 ** 60);
+    });
+
+    test('rejects numbers with a fractional part', () => {
+      const v = validator`integer`;
+      const act = (): any => v.assertMatches(2.5);
+      assert.throws(act, { message: 'Expected <receivedValue> to be an integer but got 2.5.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects non-finite numbers', () => {
+      const v = validator`integer`;
+      expect(v.matches(Infinity)).toBe(false);
+      expect(v.matches(NaN)).toBe(false);
+    });
+
+    test('rejects non-numbers', () => {
+      const v = validator`integer`;
+      const act = (): any => v.assertMatches('2');
+      assert.throws(act, { message: 'Expected <receivedValue> to be of type "number" but got type "string".' });
+      assert.throws(act, TypeError);
+    });
+
+    test('can be given a range', () => {
+      const v = validator`{ age: integer(0..150) }`;
+      v.assertMatches({ age: 150 });
+      expect(v.matches({ age: 20.5 })).toBe(false);
+      const act = (): any => v.assertMatches({ age: 151 });
+      assert.throws(act, { message: 'Expected <receivedValue>.age to be at most 150 but got 151.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`integer`;
+      expect(v.ruleset).toMatchObject({
+        rootRule: {
+          category: 'numericConstraint',
+          type: 'number',
+          integer: true,
+          minimum: null,
+          maximum: null,
+        },
+        interpolated: [],
+      });
+      expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+    });
+  });
+
+  describe('ranges', () => {
+    test('accepts numbers within an inclusive range', () => {
+      const v = validator`number(0..100)`;
+      v.assertMatches(0);
+      v.assertMatches(50.5);
+      v.assertMatches(100);
+    });
+
+    test('rejects numbers below the range', () => {
+      const v = validator`number(0..100)`;
+      const act = (): any => v.assertMatches(-1);
+      assert.throws(act, { message: 'Expected <receivedValue> to be at least 0 but got -1.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects numbers above the range', () => {
+      const v = validator`number(0..100)`;
+      const act = (): any => v.assertMatches(100.5);
+      assert.throws(act, { message: 'Expected <receivedValue> to be at most 100 but got 100.5.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('either end of the range can be left open', () => {
+      expect(validator`number(0..)`.matches(Infinity)).toBe(true);
+      expect(validator`number(0..)`.matches(-1)).toBe(false);
+      expect(validator`number(..0)`.matches(-Infinity)).toBe(true);
+      expect(validator`number(..0)`.matches(1)).toBe(false);
+    });
+
+    test('rejects NaN', () => {
+      const v = validator`number(0..)`;
+      const act = (): any => v.assertMatches(NaN);
+      assert.throws(act, { message: 'Expected <receivedValue> to be at least 0 but got NaN.' });
+    });
+
+    test('supports negative bounds and decimals', () => {
+      const v = validator`number(-1.5..-0.5)`;
+      v.assertMatches(-1);
+      expect(v.matches(0)).toBe(false);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`number(0..100)`;
+      expect(v.ruleset).toMatchObject({
+        rootRule: {
+          category: 'numericConstraint',
+          type: 'number',
+          integer: false,
+          minimum: { value: 0, exclusive: false },
+          maximum: { value: 100, exclusive: false },
+        },
+        interpolated: [],
+      });
+      expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+    });
+  });
+
+  describe('comparisons', () => {
+    test('supports exclusive lower bounds', () => {
+      const v = validator`number(>0)`;
+      v.assertMatches(0.1);
+      const act = (): any => v.assertMatches(0);
+      assert.throws(act, { message: 'Expected <receivedValue> to be greater than 0 but got 0.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('supports exclusive upper bounds', () => {
+      const v = validator`number(<1)`;
+      v.assertMatches(0.9);
+      const act = (): any => v.assertMatches(1);
+      assert.throws(act, { message: 'Expected <receivedValue> to be less than 1 but got 1.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('supports inclusive comparisons', () => {
+      const v = validator`number(>=0, <=1)`;
+      v.assertMatches(0);
+      v.assertMatches(1);
+      expect(v.matches(1.1)).toBe(false);
+    });
+
+    test('comparisons and ranges can be mixed', () => {
+      const v = validator`number(>0, ..1)`;
+      v.assertMatches(1);
+      expect(v.matches(0)).toBe(false);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`number(>0, <=1)`;
+      expect(v.ruleset.rootRule).toMatchObject({
+        minimum: { value: 0, exclusive: true },
+        maximum: { value: 1, exclusive: false },
+      });
+    });
+  });
+
+  describe('bigint', () => {
+    test('supports bigint bounds', () => {
+      const v = validator`bigint(0n..2n**64n)`;
+      v.assertMatches(2n ** 64n);
+      expect(v.matches(-1n)).toBe(false);
+      const act = (): any => v.assertMatches(2n ** 64n + 1n);
+      assert.throws(act, { message: 'Expected <receivedValue> to be at most 18446744073709551616n but got 18446744073709551617n.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects numbers', () => {
+      const v = validator`bigint(..2n**64n)`;
+      const act = (): any => v.assertMatches(2);
+      assert.throws(act, { message: 'Expected <receivedValue> to be of type "bigint" but got type "number".' });
+      assert.throws(act, TypeError);
+    });
+
+    test('the sign applies to the result of the exponentiation', () => {
+      const v = validator`bigint(-2n**63n..2n**63n)`;
+      v.assertMatches(-(2n ** 63n));
+      expect(v.matches(-(2n ** 63n) - 1n)).toBe(false);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`bigint(..2n**64n)`;
+      expect(v.ruleset.rootRule).toMatchObject({
+        category: 'numericConstraint',
+        type: 'bigint',
+        integer: false,
+        minimum: null,
+        maximum: { value: 2n ** 64n, exclusive: false },
+      });
+    });
+  });
+
+  describe('unions', () => {
+    test('reports a broken constraint over a mismatched type', () => {
+      const v = validator`number(0..10) | string`;
+      const act = (): any => v.assertMatches(11);
+      assert.throws(act, { message: 'Expected <receivedValue> to be at most 10 but got 11.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('reports every variant when none of the types match', () => {
+      const v = validator`number(0..10) | string`;
+      const act = (): any => v.assertMatches(null);
+      assert.throws(act, {
+        message: [
+          'One of the following issues needs to be resolved:',
+          '  * Expected <receivedValue> to be of type "number" but got type "null".',
+          '  * Expected <receivedValue> to be of type "string" but got type "null".',
+        ].join('\n'),
+      });
+    });
+
+    test('reports every broken constraint', () => {
+      const v = validator`integer(..-10) | integer(10..)`;
+      const act = (): any => v.assertMatches(0);
+      assert.throws(act, {
+        message: [
+          'One of the following issues needs to be resolved:',
+          '  * Expected <receivedValue> to be at most -10 but got 0.',
+          '  * Expected <receivedValue> to be at least 10 but got 0.',
+        ].join('\n'),
+      });
+    });
+  });
+
+  test('works inside of template literal types', () => {
+    const v = validator`\`v\${integer(1..9)}\``;
+    v.assertMatches('v1');
+    expect(v.matches('v10')).toBe(false);
+    expect(v.matches('v1.5')).toBe(false);
+  });
+
+  test('works with compiled validators', () => {
+    const v = validator.compile(validator`{ age: integer(0..150), id: bigint(>0n) }`);
+    expect(v.matches({ age: 30, id: 1n })).toBe(true);
+    expect(v.matches({ age: 30.5, id: 1n })).toBe(false);
+    expect(v.matches({ age: 151, id: 1n })).toBe(false);
+    expect(v.matches({ age: 30, id: 0n })).toBe(false);
+  });
+
+  test('number and bigint without constraints are still simple rules', () => {
+    expect(validator`number`.ruleset.rootRule).toMatchObject({ category: 'simple', type: 'number' });
+    expect(validator`bigint[]`.ruleset.rootRule).toMatchObject({ content: { category: 'simple', type: 'bigint' } });
+  });
+
+  describe('syntax', () => {
+    test('throws when the lower bound is greater than the upper bound', () => {
+      const act = (): any => validator`number(5..1)`;
+      assert.throws(act, {
+        message: [
+          'The lower bound can not be greater than the upper bound. (line 1, col 7)',
+          '  number(5..1)',
+          '        ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when the same bound is provided twice', () => {
+      const act = (): any => validator`number(>=1, >2)`;
+      assert.throws(act, {
+        message: [
+          'A lower bound was already provided. (line 1, col 13)',
+          '  number(>=1, >2)',
+          '              ~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a bound of the wrong type is used', () => {
+      const act = (): any => validator`bigint(0..100)`;
+      assert.throws(act, {
+        message: [
+          'Expected a bigint, e.g. `100n`. (line 1, col 8)',
+          '  bigint(0..100)',
+          '         ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when the range operator is missing', () => {
+      const act = (): any => validator`number(1 2)`;
+      assert.throws(act, {
+        message: [
+          'Expected a range operator (`..`) to follow the lower bound, e.g. `0..100`. (line 1, col 10)',
+          '  number(1 2)',
+          '           ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when the constraint list is not closed', () => {
+      const act = (): any => validator`number(0.. string`;
+      assert.throws(act, {
+        message: [
+          'Expected a number, e.g. `100`. (line 1, col 12)',
+          '  number(0.. string',
+          '             ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a bound is too large to be represented', () => {
+      const act = (): any => validator`number(..2**2000)`;
+      assert.throws(act, {
+        message: [
+          'This number is too large to be represented. (line 1, col 10)',
+          '  number(..2**2000)',
+          '           ~~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('a parentheses on the next line does not start a list of constraints', () => {
+      const act = (): any => validator`number
+        (0..1)`;
+      assert.throws(act, ValidatorSyntaxError);
+    });
+  });
+});
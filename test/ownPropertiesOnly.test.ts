@@ -0,0 +1,142 @@
+import { strict as assert } from 'node:assert';
+import { validator } from '../src/index.js';
+
+describe('own properties only', () => {
+  describe('own { ... } syntax', () => {
+    test('accepts objects with matching own properties', () => {
+      const v = validator`own { name: string, isAdmin?: boolean }`;
+      v.assertMatches({ name: 'Alice' });
+      v.assertMatches({ name: 'Alice', isAdmin: false });
+    });
+
+    test('ignores optional properties that were inherited', () => {
+      const v = validator`own { isAdmin?: boolean }`;
+      const polluted = Object.create({ isAdmin: 'yes' });
+      v.assertMatches(polluted);
+      expect(validator`{ isAdmin?: boolean }`.matches(polluted)).toBe(false);
+    });
+
+    test('treats inherited required properties as missing', () => {
+      const v = validator`own { isAdmin: true }`;
+      const act = (): any => v.assertMatches(Object.create({ isAdmin: true }));
+      assert.throws(act, { message: '<receivedValue> is missing the required properties: "isAdmin"' });
+      assert.throws(act, TypeError);
+      expect(validator`{ isAdmin: true }`.matches(Object.create({ isAdmin: true }))).toBe(true);
+    });
+
+    test('rejects __proto__ and constructor keys found in parsed JSON', () => {
+      const v = validator`own { [key: string]: unknown }`;
+      const act = (): any => v.assertMatches(JSON.parse('{ "__proto__": { "isAdmin": true }, "constructor": 2 }'));
+      assert.throws(act, { message: '<receivedValue> has forbidden properties: "__proto__", "constructor"' });
+      assert.throws(act, TypeError);
+      expect(validator`{ [key: string]: unknown }`.matches(JSON.parse('{ "__proto__": {} }'))).toBe(true);
+    });
+
+    test('permits forbidden keys that are explicitly described', () => {
+      const v = validator`own { constructor: string }`;
+      v.assertMatches({ constructor: 'x' });
+      expect(v.matches({})).toBe(false);
+      expect(v.matches(JSON.parse('{ "constructor": "x", "__proto__": null }'))).toBe(false);
+    });
+
+    test('permits forbidden keys described by other parts of an intersection', () => {
+      const v = validator`own { x: number } & { constructor: string }`;
+      v.assertMatches({ x: 2, constructor: 'x' });
+      expect(validator.compile(v).matches({ x: 2, constructor: 'x' })).toBe(true);
+    });
+
+    test('only applies to the object it was written on', () => {
+      const v = validator`own { inner: { isAdmin?: boolean } }`;
+      v.assertMatches({ inner: Object.create({ isAdmin: true }) });
+      expect(v.matches({ inner: Object.create({ isAdmin: 'yes' }) })).toBe(false);
+    });
+
+    test('works with exact objects and size constraints', () => {
+      const v = validator`own {| name: string |}(..1)`;
+      v.assertMatches({ name: 'Alice' });
+      expect(v.matches(Object.create({ name: 'Alice' }))).toBe(false);
+    });
+
+    test('works with compiled validators', () => {
+      const v = validator.compile(validator`own { name: string, isAdmin?: boolean }`);
+      expect(v.matches({ name: 'Alice' })).toBe(true);
+      expect(v.matches(Object.assign(Object.create({ isAdmin: 'yes' }), { name: 'Alice' }))).toBe(true);
+      expect(v.matches(Object.create({ name: 'Alice' }))).toBe(false);
+      expect(v.matches(JSON.parse('{ "name": "Alice", "__proto__": {} }'))).toBe(false);
+    });
+
+    test('inherited properties are not transformed', () => {
+      const stringToNumber = validator.transform(validator`string`, value => Number(value));
+      const target = Object.create({ count: '2' });
+      expect(validator`own { count?: ${stringToNumber} }`.parse(target)).toBe(target);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`own { name: string }`;
+      expect(v.ruleset.rootRule).toMatchObject({ category: 'property', ownPropertiesOnly: true, exact: false });
+      expect(validator`{ name: string }`.ruleset.rootRule).toMatchObject({ ownPropertiesOnly: false });
+    });
+
+    test('own can still be used as a type name', () => {
+      const { User } = validator.types<'own' | 'User'>`
+        type own = string
+        type User = { name: own }
+      `;
+      expect(User.matches({ name: 'x' })).toBe(true);
+    });
+  });
+
+  describe('ownPropertiesOnly option', () => {
+    test('applies to every object found in the value', () => {
+      const v = validator`{ user: { isAdmin?: boolean } }`;
+      const target = { user: Object.create({ isAdmin: 'yes' }) };
+      expect(v.matches(target)).toBe(false);
+      v.assertMatches(target, { ownPropertiesOnly: true });
+    });
+
+    test('rejects forbidden keys', () => {
+      const v = validator`{ user: { name: string } }`;
+      const act = (): any => v.assertMatches(
+        JSON.parse('{ "user": { "name": "Alice", "__proto__": { "isAdmin": true } } }'),
+        { ownPropertiesOnly: true },
+      );
+      assert.throws(act, { message: '<receivedValue>.user has forbidden properties: "__proto__"' });
+      assert.throws(act, TypeError);
+    });
+
+    test('is supported by validate()', () => {
+      const v = validator`{ name: string }`;
+      const issues = v.validate(Object.create({ name: 'Alice' }), { ownPropertiesOnly: true });
+      expect(issues.map(issue => issue.message)).toEqual(['<receivedValue> is missing the required properties: "name"']);
+    });
+
+    test('is supported by parse() and the async functions', async () => {
+      const stringToNumber = validator.transform(validator`string`, value => Number(value));
+      const v = validator`{ count?: ${stringToNumber} }`;
+      const target = Object.create({ count: '2' });
+      expect(v.parse(target, { ownPropertiesOnly: true })).toBe(target);
+      await expect(v.assertMatchesAsync(JSON.parse('{ "__proto__": {} }'), { ownPropertiesOnly: true }))
+        .rejects.toThrow('<receivedValue> has forbidden properties: "__proto__"');
+    });
+
+    test('is supported by matches() and matchesAsync()', async () => {
+      const v = validator`{ isAdmin?: boolean }`;
+      const polluted = Object.create({ isAdmin: 'yes' });
+      expect(v.matches(polluted)).toBe(false);
+      expect(v.matches(polluted, { ownPropertiesOnly: true })).toBe(true);
+      expect(v.matches(JSON.parse('{ "__proto__": {} }'), { ownPropertiesOnly: true })).toBe(false);
+      expect(await v.matchesAsync(polluted)).toBe(false);
+      expect(await v.matchesAsync(polluted, { ownPropertiesOnly: true })).toBe(true);
+      expect(await v.matchesAsync(JSON.parse('{ "__proto__": {} }'), { ownPropertiesOnly: true })).toBe(false);
+    });
+
+    test('compiled validators fall back to the regular algorithm', () => {
+      const v = validator.compile(validator`{ isAdmin?: boolean }`);
+      const polluted = Object.create({ isAdmin: 'yes' });
+      expect(v.matches(polluted)).toBe(false);
+      v.assertMatches(polluted, { ownPropertiesOnly: true });
+      expect(v.matches(polluted, { ownPropertiesOnly: true })).toBe(true);
+      expect(() => v.assertMatches(JSON.parse('{ "__proto__": {} }'), { ownPropertiesOnly: true })).toThrow(TypeError);
+    });
+  });
+});
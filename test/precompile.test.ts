@@ -0,0 +1,125 @@
+import { strict as assert } from 'node:assert';
+import { validator } from '../src/index.js';
+import { findTaggedTemplates } from '../src/templatePrecompiler.js';
+import { testableHelpers as cacheApi } from '../src/cacheControl.js';
+
+const find = (sourceText: string, tagNames = ['validator']): string[][] => findTaggedTemplates(sourceText, new Set(tagNames));
+
+/** Runs the generated module, with its import statement swapped out for the provided template tag. */
+function runGeneratedModule(moduleText: string): void {
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval, no-new-func
+  new Function('validator', moduleText.replace(/^import .*$/m, ''))(validator);
+}
+
+describe('validator.precompile()', () => {
+  describe('finding templates', () => {
+    test('finds tagged templates, split at each interpolation point', () => {
+      const source = 'const v = validator`{ x: ${y}, z: string }`;';
+      expect(find(source)).toEqual([['{ x: ', ', z: string }']]);
+    });
+
+    test('ignores templates with other tags, or with no tag', () => {
+      const source = 'html`<p>`; `string`; myvalidator`number`; validator.from(`boolean`)';
+      expect(find(source)).toEqual([]);
+    });
+
+    test('finds templates nested inside of interpolated values', () => {
+      const source = 'validator`{ x: ${validator`string[]`}, y: ${fn({ a: `${validator`number`}` })} }`';
+      expect(find(source)).toEqual([
+        ['string[]'],
+        ['number'],
+        ['{ x: ', ', y: ', ' }'],
+      ]);
+    });
+
+    test('finds templates with type arguments', () => {
+      expect(find('validator<{ x: Array<string> }>`{ x: string[] }`')).toEqual([['{ x: string[] }']]);
+    });
+
+    test('skips over comments, strings, and regular expressions', () => {
+      const source = [
+        '// validator`commented out`',
+        '/* validator`also commented out` */',
+        '"validator`in a string`"; \'`\';',
+        'const pattern = /`/g;',
+        'const half = total / 2; validator`number`',
+      ].join('\n');
+      expect(find(source)).toEqual([['number']]);
+    });
+
+    test('preserves the raw text of the template', () => {
+      expect(find('validator`"\\n"`')).toEqual([['"\\n"']]);
+      expect(find('validator`string |\r\nnumber`')).toEqual([['string |\nnumber']]);
+    });
+
+    test('supports alternative tag names', () => {
+      expect(find('v`string`; validator`number`', ['v'])).toEqual([['string']]);
+    });
+  });
+
+  describe('generated module', () => {
+    test('imports the validator template tag and seeds the cache', () => {
+      const moduleText = validator.precompile(['validator`string`'], { importFrom: './lib/index.js' });
+      expect(moduleText).toBe([
+        '// This module was generated by validator.precompile(). Any changes made to it may be overwritten.',
+        'import { validator } from "./lib/index.js";',
+        '',
+        'validator.cache.seed([',
+        '  { parts: ["string"], rule: { "category": "simple", "type": "string" } },',
+        ']);',
+        '',
+      ].join('\n'));
+    });
+
+    test('templates found multiple times are only included once', () => {
+      const moduleText = validator.precompile(['validator`string`', 'validator`string`; validator`number`']);
+      expect(moduleText.match(/parts:/g)?.length).toBe(2);
+    });
+
+    test('templates that fail to parse are left out', () => {
+      const moduleText = validator.precompile(['validator`string | `; validator`number`']);
+      expect(moduleText.match(/parts:/g)?.length).toBe(1);
+    });
+
+    test('running the module fills the cache with the same rules the parser would produce', () => {
+      const moduleText = validator.precompile([
+        'validator`{ x?: Map<string, 1n | -0>, [${key}]: ${Array}[] } & { [index: string]: unknown }`',
+      ]);
+      runGeneratedModule(moduleText);
+
+      const cacheEntry = cacheApi.getCacheEntryFor`{ x?: Map<string, 1n | -0>, [${null}]: ${null}[] } & { [index: string]: unknown }`;
+      expect(cacheEntry.exists()).toBe(true);
+      const key = Symbol('key');
+      const v = validator`{ x?: Map<string, 1n | -0>, [${key}]: ${Array}[] } & { [index: string]: unknown }`;
+      expect(v.ruleset.rootRule).toBe(cacheEntry.get());
+      expect(v.matches({ [key]: [], x: new Map([['a', 1n]]) })).toBe(true);
+
+      cacheApi.clearCache();
+      const parsed = validator`{ x?: Map<string, 1n | -0>, [${key}]: ${Array}[] } & { [index: string]: unknown }`;
+      expect(v.ruleset.rootRule).toEqual(parsed.ruleset.rootRule);
+    });
+  });
+
+  describe('validator.cache.seed()', () => {
+    test('seeded rules get used by matching templates', () => {
+      validator.cache.seed([{ parts: ['xyz'], rule: { category: 'simple', type: 'string' } }]);
+      expect(validator`xyz`.matches('abc')).toBe(true);
+    });
+
+    test('templates that are already cached are left as-is', () => {
+      const v = validator`string`;
+      validator.cache.seed([{ parts: ['string'], rule: { category: 'simple', type: 'number' } }]);
+      expect(validator`string`.ruleset.rootRule).toBe(v.ruleset.rootRule);
+    });
+
+    test('rejects rules that are invalid for the template', () => {
+      const act = (): void => {
+        validator.cache.seed([{
+          parts: ['xyz'],
+          rule: { category: 'interpolation', interpolationIndex: 0 },
+        }]);
+      };
+      assert.throws(act, { message: /Received invalid "entries" argument for validator.cache.seed\(\)/ });
+    });
+  });
+});
@@ -394,6 +394,8 @@ describe('property rules', () => {
           '  * Expected <3rd argument>, which was [object String], to be a Validator.',
           '  * Expected <3rd argument>, which was [object String], to be an Expectation (from .expectTo()).',
           '  * Expected <3rd argument>, which was [object String], to be a LazyEvaluator (from .lazy()).',
+          '  * Expected <3rd argument>, which was [object String], to be a Transformer (from .transform()).',
+          '  * Expected <3rd argument>, which was [object String], to be a Generic (from .generic()).',
           '  * Expected <3rd argument>, which was [object String], to be a direct instance of `RegExp`.',
           '  * Expected <3rd argument>, which was [object String], to be an instance of `Function`.',
         ].join('\n'),
@@ -481,6 +483,173 @@ describe('property rules', () => {
     });
   });
 
+  describe('exact objects', () => {
+    test('accepts an object with only the listed properties', () => {
+      const v = validator`{| name: string, age?: number |}`;
+      v.assertMatches({ name: 'Bob' });
+      v.assertMatches({ name: 'Bob', age: 42 });
+    });
+
+    test('rejects an object with unexpected properties', () => {
+      const v = validator`{| name: string |}`;
+      const act = (): any => v.assertMatches({ name: 'Bob', age: 42, [Symbol('x')]: 2 });
+      assert.throws(act, {
+        message: '<receivedValue> has unexpected properties: "age", Symbol(x)',
+      });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects unexpected non-enumerable properties', () => {
+      const v = validator`{| name: string |}`;
+      const value = { name: 'Bob' };
+      Object.defineProperty(value, 'age', { value: 42, enumerable: false });
+      const act = (): any => v.assertMatches(value);
+      assert.throws(act, {
+        message: '<receivedValue> has unexpected properties: "age"',
+      });
+    });
+
+    test('ignores inherited properties', () => {
+      const v = validator`{| name: string |}`;
+      v.assertMatches(Object.assign(Object.create({ age: 42 }), { name: 'Bob' }));
+    });
+
+    test('accepts an empty object', () => {
+      const v = validator`{||}`;
+      v.assertMatches({});
+      expect(v.matches({ x: 2 })).toBe(false);
+    });
+
+    test('permits properties matched by an index signature', () => {
+      const v = validator`{| name: string, [index: number]: boolean |}`;
+      v.assertMatches({ name: 'Bob', 0: true, 1: false });
+      const act = (): any => v.assertMatches({ name: 'Bob', 0: true, x: false });
+      assert.throws(act, {
+        message: '<receivedValue> has unexpected properties: "x"',
+      });
+    });
+
+    test('permits dynamic keys', () => {
+      const v = validator`{| [${'name'}]: string |}`;
+      v.assertMatches({ name: 'Bob' });
+      expect(v.matches({ name: 'Bob', age: 42 })).toBe(false);
+    });
+
+    test('reports missing properties before unexpected properties', () => {
+      const v = validator`{| name: string |}`;
+      const act = (): any => v.assertMatches({ age: 42 });
+      assert.throws(act, {
+        message: '<receivedValue> is missing the required properties: "name"',
+      });
+    });
+
+    test('reports unexpected properties in nested objects', () => {
+      const v = validator`{ user: {| name: string |} }`;
+      const act = (): any => v.assertMatches({ user: { name: 'Bob', age: 42 } });
+      assert.throws(act, {
+        message: '<receivedValue>.user has unexpected properties: "age"',
+      });
+    });
+
+    test('exact objects in an intersection permit properties from the other variants', () => {
+      const v = validator`{| name: string |} & {| age: number |}`;
+      v.assertMatches({ name: 'Bob', age: 42 });
+      const act = (): any => v.assertMatches({ name: 'Bob', age: 42, extra: true });
+      assert.throws(act, {
+        message: '<receivedValue> has unexpected properties: "extra"',
+      });
+    });
+
+    test('an exact object in an intersection permits properties from non-exact and interpolated variants', () => {
+      const other = validator`{ age: number } | { height: number }`;
+      const v = validator`{| name: string |} & ${other}`;
+      v.assertMatches({ name: 'Bob', age: 42 });
+      v.assertMatches({ name: 'Bob', height: 42 });
+      expect(v.matches({ name: 'Bob', age: 42, extra: true })).toBe(false);
+    });
+
+    test('properties from an intersection do not leak into nested exact objects', () => {
+      const v = validator`{| inner: {| x: number |} |} & { y: number }`;
+      v.assertMatches({ inner: { x: 2 }, y: 3 });
+      const act = (): any => v.assertMatches({ inner: { x: 2, y: 3 }, y: 3 });
+      assert.throws(act, {
+        message: '<receivedValue>.inner has unexpected properties: "y"',
+      });
+    });
+
+    test('an exact object in a union only permits its own properties and the intersection\'s other properties', () => {
+      const v = validator`({| a: string |} | {| b: string |}) & { c: number }`;
+      v.assertMatches({ a: 'x', c: 1 });
+      v.assertMatches({ b: 'y', c: 1 });
+      expect(v.matches({ a: 'x', b: 'y', c: 1 })).toBe(false);
+      expect(validator.compile(v).matches({ a: 'x', c: 1 })).toBe(true);
+      expect(validator.compile(v).matches({ a: 'x', b: 'y', c: 1 })).toBe(false);
+    });
+
+    test('properties described by multiple variants do not relax exactness of their values', () => {
+      // This is a known limitation - intersected keys are not carried into nested values,
+      // even when both variants describe the same property.
+      const v = validator`{ inner: {| a: string |} } & { inner: { b: number } }`;
+      const act = (): any => v.assertMatches({ inner: { a: 'x', b: 1 } });
+      assert.throws(act, {
+        message: '<receivedValue>.inner has unexpected properties: "b"',
+      });
+      expect(validator.compile(v).matches({ inner: { a: 'x', b: 1 } })).toBe(false);
+    });
+
+    test('compiled validators agree with the regular algorithm', () => {
+      const v = validator.compile(validator`{| name: string |} & { age: number } & {| inner: {| x: number |} |}`);
+      expect(v.matches({ name: 'Bob', age: 42, inner: { x: 2 } })).toBe(true);
+      expect(v.matches({ name: 'Bob', age: 42, inner: { x: 2 }, extra: 1 })).toBe(false);
+      expect(v.matches({ name: 'Bob', age: 42, inner: { x: 2, age: 2 } })).toBe(false);
+    });
+
+    test('can be used with unions', () => {
+      const v = validator`{| type: 'a', x: number |} | {| type: 'b' |}`;
+      v.assertMatches({ type: 'b' });
+      // The "b" variant is reported, as it's the one selected by the "type" discriminant.
+      const act = (): any => v.assertMatches({ type: 'b', x: 2 });
+      assert.throws(act, {
+        message: '<receivedValue> has unexpected properties: "x"',
+      });
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`{| x: number |}`;
+      expect(v.ruleset.rootRule).toMatchObject({ category: 'property', exact: true });
+      expect(validator`{ x: number }`.ruleset.rootRule).toMatchObject({ category: 'property', exact: false });
+    });
+
+    test('the exact field defaults to false when building from a ruleset', () => {
+      const v = validator.fromRuleset({
+        rootRule: {
+          category: 'property',
+          content: new Map(),
+          dynamicContent: new Map(),
+          index: null,
+        },
+        interpolated: [],
+      });
+      expect(v.ruleset.rootRule).toMatchObject({ category: 'property', exact: false });
+      v.assertMatches({ x: 2 });
+    });
+
+    test('can build an exact object from a ruleset', () => {
+      const v = validator.fromRuleset({
+        rootRule: {
+          category: 'property',
+          content: new Map([['x', { optional: false, rule: { category: 'simple', type: 'number' } }]]),
+          dynamicContent: new Map(),
+          index: null,
+          exact: true,
+        },
+        interpolated: [],
+      });
+      v.assertMatches({ x: 2 });
+      expect(v.matches({ x: 2, y: 3 })).toBe(false);
+    });
+  });
+
   test('produces the correct rule', () => {
     const v = validator`{ "numKey\n": number, strKey?: string, [${42}]: boolean, [${43}]?: undefined }`;
     expect(v.ruleset.interpolated).toMatchObject([42, 43]);
@@ -617,17 +786,59 @@ describe('property rules', () => {
 
   describe('Syntax errors', () => {
     test('throws on invalid object key', () => {
-      const act = (): any => validator`{ ||`;
+      const act = (): any => validator`{ &&`;
       assert.throws(act, {
         message: [
           'Expected an object key or closing bracket (`}`). (line 1, col 3)',
-          '  { ||',
+          '  { &&',
           '    ~',
         ].join('\n'),
       });
       assert.throws(act, ValidatorSyntaxError);
     });
 
+    test('throws on an invalid key in an exact object', () => {
+      const act = (): any => validator`{| ||`;
+      assert.throws(act, {
+        message: [
+          'Expected an object key or closing bracket (`|}`). (line 1, col 4)',
+          '  {| ||',
+          '     ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when an exact object is closed with a `}`', () => {
+      const act = (): any => validator`{| x: number }`;
+      assert.throws(act, {
+        message: [
+          'Expected a comma (`,`) or closing bracket (`|}`). (line 1, col 14)',
+          '  {| x: number }',
+          '               ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when an exact object with a trailing comma is closed with a `}`', () => {
+      const act = (): any => validator`{| x: number, }`;
+      assert.throws(act, {
+        message: [
+          'Expected a `|}` to close the exact object that was opened with `{|`. (line 1, col 15)',
+          '  {| x: number, }',
+          '                ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('a union can be placed at the end of an exact object', () => {
+      const v = validator`{| x: number | string |}`;
+      v.assertMatches({ x: 'abc' });
+      expect(v.matches({ x: 2, y: 3 })).toBe(false);
+    });
+
     test('allows "$" and "_" in keys', () => {
       const v = validator`{ $_: string }`;
       v.assertMatches({ $_: 'xyz' });
@@ -377,4 +377,71 @@ describe('union rules with objects', () => {
     const v = validator`number | { sub: { y: 0 } } | { sub: { z: 0 } }`;
     v.assertMatches({ sub: { y: 1, z: 0 } });
   });
+
+  describe('discriminated unions', () => {
+    const event = validator`
+      { type: 'click', x: number, y: number }
+      | { type: 'keypress', key: string }
+      | { type: 'scroll', delta: { x: number, y: number } }
+    `;
+
+    test('matches values of each variant', () => {
+      expect(event.matches({ type: 'click', x: 2, y: 3 })).toBe(true);
+      expect(event.matches({ type: 'keypress', key: 'a' })).toBe(true);
+      expect(event.matches({ type: 'scroll', delta: { x: 0, y: 10 } })).toBe(true);
+      expect(event.matches({ type: 'scroll', key: 'a' })).toBe(false);
+    });
+
+    test('only reports errors from the variant selected by the discriminant', () => {
+      // The click variant would have been able to match further into the object.
+      const act = (): any => event.assertMatches({ type: 'keypress', x: 2, y: 3 });
+      assert.throws(act, {
+        message: '<receivedValue> is missing the required properties: "key"',
+      });
+    });
+
+    test('reports errors from every variant when the discriminant does not match any of them', () => {
+      const act = (): any => event.assertMatches({ type: 'drag' });
+      assert.throws(act, {
+        message: [
+          'One of the following issues needs to be resolved:',
+          '  * <receivedValue> is missing the required properties: "x", "y"',
+          '  * <receivedValue> is missing the required properties: "key"',
+          '  * <receivedValue> is missing the required properties: "delta"',
+        ].join('\n'),
+      });
+    });
+
+    test('only checks the variant selected by the discriminant', () => {
+      let calls = 0;
+      const expectNumber = validator.expectTo(value => {
+        calls++;
+        return typeof value === 'number' ? undefined : 'be a number.';
+      });
+      const v = validator`{ type: 'a', value: ${expectNumber} } | { type: 'b', value: ${expectNumber} }`;
+      expect(v.matches({ type: 'b', value: 2 })).toBe(true);
+      expect(calls).toBe(1);
+      expect(validator.compile(v).matches({ type: 'b', value: 'x' })).toBe(false);
+      expect(calls).toBe(2);
+    });
+
+    test('inherited discriminants are respected', () => {
+      const clickEvent = Object.assign(Object.create({ type: 'click' }), { x: 2, y: 3 });
+      expect(event.matches(clickEvent)).toBe(true);
+      expect(validator.compile(event).matches(clickEvent)).toBe(true);
+      expect(() => event.assertMatches(clickEvent, { ownPropertiesOnly: true })).toThrow(TypeError);
+    });
+
+    test('a property is not treated as a discriminant when its values are not unique', () => {
+      const v = validator`{ type: 'a', x: number } | { type: 'a', y: number }`;
+      expect(v.matches({ type: 'a', y: 2 })).toBe(true);
+    });
+
+    test('parsing uses the variant selected by the discriminant', () => {
+      const stringToNumber = validator.transform(validator`string`, value => Number(value));
+      const v = validator`{ type: 'a', value: ${stringToNumber} } | { type: 'b', value: string }`;
+      expect(v.parse({ type: 'a', value: '2' })).toEqual({ type: 'a', value: 2 });
+      expect(v.parse({ type: 'b', value: '2' })).toEqual({ type: 'b', value: '2' });
+    });
+  });
 });
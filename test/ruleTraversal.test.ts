@@ -0,0 +1,159 @@
+import { strict as assert } from 'node:assert';
+import { validator, type Rule, type Ruleset } from '../src/index.js';
+import { FrozenMap } from '../src/util.js';
+
+function collectCategories(ruleset: Ruleset, opts: { followInterpolatedValidators?: boolean } = {}): string[] {
+  const categories: string[] = [];
+  validator.walkRule(ruleset, rule => {
+    categories.push(rule.category);
+  }, opts);
+  return categories;
+}
+
+// FrozenMap instances don't expose any way to modify them, so only their content is checked.
+function isDeepFrozen(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) {
+    return true;
+  } else if (value instanceof FrozenMap) {
+    return [...value.values()].every(isDeepFrozen);
+  }
+  return Object.isFrozen(value) && Object.values(value).every(isDeepFrozen);
+}
+
+describe('validator.walkRule()', () => {
+  test('visits every category of rule, parents before children', () => {
+    const v = validator`{
+      a: string | 'x' | integer | string(/a/) | unknown
+      b: number[]
+      c: [Set<boolean>, Map<string, null>?, ...undefined[]]
+      d: ${Array}@<bigint> & symbol
+      e: \`id-\${number}\`
+    }`;
+    expect(collectCategories(v.ruleset)).toEqual([
+      'property',
+      'union', 'simple', 'primitiveLiteral', 'numericConstraint', 'stringConstraint', 'noop',
+      'array', 'simple',
+      'tuple', 'set', 'simple', 'map', 'simple', 'simple', 'array', 'simple',
+      'intersection', 'iterable', 'interpolation', 'simple', 'simple',
+      'templateLiteral', 'simple',
+    ]);
+  });
+
+  test('provides the parent of each rule', () => {
+    const v = validator`{ x: string[] }`;
+    const parents: Array<Rule | null> = [];
+    validator.walkRule(v.ruleset, (rule, { parent }) => {
+      parents.push(parent);
+    });
+    expect(parents).toEqual([null, v.ruleset.rootRule, { category: 'array', content: { category: 'simple', type: 'string' }, size: null }]);
+  });
+
+  test('skips the children of a rule when the visitor returns false', () => {
+    const v = validator`{ x: string[] } | number[]`;
+    const categories: string[] = [];
+    validator.walkRule(v.ruleset, rule => {
+      categories.push(rule.category);
+      return rule.category !== 'property';
+    });
+    expect(categories).toEqual(['union', 'property', 'array', 'simple']);
+  });
+
+  test('does not walk through interpolated validators by default', () => {
+    const v = validator`{ x: ${validator`string`} }`;
+    expect(collectCategories(v.ruleset)).toEqual(['property', 'interpolation']);
+  });
+
+  test('can walk through interpolated validators', () => {
+    const key = Symbol('key');
+    const v = validator`{ x: ${validator`{ [${key}]: ${validator`string`} }`} }`;
+    const visits: unknown[] = [];
+    validator.walkRule(v.ruleset, (rule, { interpolated }) => {
+      if (rule.category === 'property') {
+        visits.push([...rule.dynamicContent.keys()].map(index => interpolated[index]));
+      }
+      visits.push(rule.category);
+    }, { followInterpolatedValidators: true });
+    expect(visits).toEqual([
+      [], 'property', 'interpolation',
+      [key], 'property', 'interpolation',
+      'simple',
+    ]);
+  });
+
+  test('walks through recursive validators once', () => {
+    const { Node } = validator.types`type Node = { children: Node[] }`;
+    expect(collectCategories(validator`${Node}`.ruleset, { followInterpolatedValidators: true })).toEqual([
+      'interpolation', 'property', 'array', 'interpolation',
+    ]);
+  });
+});
+
+describe('validator.mapRule()', () => {
+  test('replaces rules with the values returned by the transformer', () => {
+    const v = validator`{ x: string, y: [string, number] }`;
+    const ruleset = validator.mapRule(v.ruleset, rule => {
+      return rule.category === 'simple' && rule.type === 'string' ? { category: 'simple', type: 'boolean' } : rule;
+    });
+    expect(validator.stringify(ruleset)).toBe('{\n  x: boolean\n  y: [boolean, number]\n}');
+  });
+
+  test('children are transformed before their parents', () => {
+    const v = validator`string[] | number`;
+    const seen: string[] = [];
+    validator.mapRule(v.ruleset, rule => {
+      seen.push(validator.stringify({ rootRule: rule, interpolated: [] }));
+      return rule.category === 'simple' ? { category: 'noop' } : rule;
+    });
+    expect(seen).toEqual(['string', 'unknown[]', 'number', 'unknown[] | unknown']);
+  });
+
+  test('the returned ruleset is deep-frozen', () => {
+    const v = validator`{ x: Map<string, [number]>, [${'dynamic'}]: string }`;
+    const ruleset = validator.mapRule(v.ruleset, rule => {
+      return rule.category === 'simple' && rule.type === 'number' ? { category: 'primitiveLiteral', value: 2 } : rule;
+    });
+    expect(isDeepFrozen(ruleset)).toBe(true);
+    expect(validator.fromRuleset(ruleset).matches({ x: new Map([['a', [2]]]), dynamic: 'b' })).toBe(true);
+  });
+
+  test('interpolation indices are updated when rules are grafted in from other rulesets', () => {
+    const key = Symbol('key');
+    const inner = validator`{ [${key}]: ${Date} } | ${validator`string`}`;
+    const v = validator`{ [${'a'}]: ${inner}, b: ${inner}[] }`;
+
+    // Inlines every interpolated validator.
+    const ruleset = validator.mapRule(v.ruleset, (rule, { interpolated }) => {
+      if (rule.category === 'interpolation') {
+        const interpolatedValue = interpolated[rule.interpolationIndex];
+        if (validator.isValidator(interpolatedValue)) {
+          return interpolatedValue.ruleset;
+        }
+      }
+      return rule;
+    });
+
+    expect(validator.stringify(ruleset)).toBe([
+      '{',
+      '  b: ({',
+      '    [${Symbol(key)}]: ${Date}',
+      '  } | ${validator`string`})[]',
+      '  [${"a"}]: {',
+      '    [${Symbol(key)}]: ${Date}',
+      '  } | ${validator`string`}',
+      '}',
+    ].join('\n'));
+    expect(ruleset.interpolated).toEqual(['a', inner, inner, key, Date, expect.anything(), key, Date, expect.anything()]);
+    const rebuilt = validator.fromRuleset(ruleset);
+    expect(rebuilt.matches({ a: { [key]: new Date() }, b: ['x', { [key]: new Date() }] })).toBe(true);
+    expect(rebuilt.matches({ a: { [key]: 'x' }, b: [] })).toBe(false);
+    expect(rebuilt.matches({ a: 'x', b: [2] })).toBe(false);
+  });
+
+  test('rejects invalid rules from the transformer', () => {
+    const v = validator`string`;
+    const act = (): any => validator.mapRule(v.ruleset, () => ({ category: 'interpolation', interpolationIndex: 0 }));
+    assert.throws(act, {
+      message: /^validator.mapRule\(\) received a bad "transformer" function: /,
+    });
+  });
+});
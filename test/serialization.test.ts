@@ -0,0 +1,241 @@
+import { strict as assert } from 'node:assert';
+import { validator, type InterpolationRegistry, type SerializedRuleset, type Validator } from '../src/index.js';
+
+/** Serializes the validator, sends the result through JSON, and builds a new validator from it. */
+function roundTrip(v: Validator, registry: InterpolationRegistry = {}): Validator {
+  const serialized = JSON.parse(JSON.stringify(validator.serializeRuleset(v.ruleset, registry))) as SerializedRuleset;
+  return validator.fromRuleset(validator.deserializeRuleset(serialized, registry));
+}
+
+describe('validator.serializeRuleset()', () => {
+  test('encodes the rule tree as plain JSON', () => {
+    expect(validator.serializeRuleset(validator`{ x?: string }`.ruleset)).toEqual({
+      rootRule: {
+        category: 'property',
+        content: { $map: [['x', { optional: true, rule: { category: 'simple', type: 'string' } }]] },
+        dynamicContent: { $map: [] },
+        index: null,
+        exact: false,
+        ownPropertiesOnly: false,
+        size: null,
+      },
+      interpolated: [],
+    });
+  });
+
+  test('encodes values that JSON can not represent', () => {
+    const serialized = validator.serializeRuleset(validator`-0 | 2n | bigint(..10n)`.ruleset);
+    expect(serialized.rootRule).toMatchObject({
+      variants: [
+        { category: 'primitiveLiteral', value: { $number: '-0' } },
+        { category: 'primitiveLiteral', value: { $bigint: '2' } },
+        { category: 'numericConstraint', maximum: { value: { $bigint: '10' } } },
+      ],
+    });
+  });
+
+  test('encodes interpolated primitives', () => {
+    const v = validator`[${NaN}, ${-Infinity}, ${3n}, ${'abc'}, ${true}]`;
+    expect(validator.serializeRuleset(v.ruleset).interpolated).toEqual([
+      { category: 'primitive', value: { $number: 'NaN' } },
+      { category: 'primitive', value: { $number: '-Infinity' } },
+      { category: 'primitive', value: { $bigint: '3' } },
+      { category: 'primitive', value: 'abc' },
+      { category: 'primitive', value: true },
+    ]);
+  });
+
+  test('inlines nested validators', () => {
+    const v = validator`{ user: ${validator`{ name: ${validator`string`} }`} }`;
+    const serialized = validator.serializeRuleset(v.ruleset);
+    expect(serialized.interpolated).toMatchObject([{
+      category: 'validator',
+      ruleset: {
+        interpolated: [{
+          category: 'validator',
+          ruleset: { rootRule: { category: 'simple', type: 'string' }, interpolated: [] },
+        }],
+      },
+    }]);
+  });
+
+  test('refers to registered values by name', () => {
+    class User {} // eslint-disable-line @typescript-eslint/no-extraneous-class
+    const userValidator = validator`{ name: string }`;
+    const v = validator`${User} | ${userValidator}`;
+    expect(validator.serializeRuleset(v.ruleset, { User, userValidator }).interpolated).toEqual([
+      { category: 'registered', name: 'User' },
+      { category: 'registered', name: 'userValidator' },
+    ]);
+  });
+
+  test('throws when a value needs to be registered', () => {
+    const v = validator`{ inner: ${validator`{ [${Symbol('key')}]: ${/abc/} }`} }`;
+    assert.throws(() => validator.serializeRuleset(v.ruleset), {
+      name: 'TypeError',
+      message: (
+        'Failed to serialize the ruleset at <ruleset>.interpolated[0].ruleset.interpolated[0]: ' +
+        "Found Symbol(key), which can't be represented in JSON. Values like this must be added to the registry."
+      ),
+    });
+  });
+
+  test('throws when a validator interpolates itself', () => {
+    const { Node } = validator.types`type Node = { children: Node[] }`;
+    assert.throws(() => validator.serializeRuleset(validator`{ root: ${Node} }`.ruleset), {
+      message: (
+        'Failed to serialize the ruleset at <ruleset>.interpolated[0].ruleset.interpolated[0]: ' +
+        'Found a validator that interpolates itself. Validators like this must be added to the registry.'
+      ),
+    });
+
+    // Registering it lets the ruleset be serialized.
+    const serialized = validator.serializeRuleset(validator`{ root: ${Node} }`.ruleset, { Node });
+    expect(serialized.interpolated).toEqual([{ category: 'registered', name: 'Node' }]);
+  });
+});
+
+describe('validator.deserializeRuleset()', () => {
+  test('rebuilds an equivalent ruleset', () => {
+    const atPattern = /@/;
+    const v = validator`{
+      id: 'user' | 2n | -0
+      tags?: string[1..3]
+      [${'dynamic'}]: Map<string, [number, number?]>
+      email: string(/@/i) & ${atPattern}
+      version: \`v\${${validator`integer(0..)`}}\`
+      [key: string]: unknown
+    }`;
+    const serialized = validator.serializeRuleset(v.ruleset, { atPattern });
+    const rebuilt = validator.deserializeRuleset(JSON.parse(JSON.stringify(serialized)), { atPattern });
+
+    expect(validator.stringify(rebuilt)).toBe(validator.stringify(v));
+    expect(validator.serializeRuleset(rebuilt, { atPattern })).toEqual(serialized);
+  });
+
+  test('special numbers survive the round trip', () => {
+    const v = roundTrip(validator`[-0, ${NaN}, ${-Infinity}, 10n]`);
+    expect(Object.is(v.ruleset.interpolated[0], NaN)).toBe(true);
+    expect(v.ruleset.interpolated[1]).toBe(-Infinity);
+    expect(v.ruleset.rootRule).toMatchObject({
+      content: [{ category: 'primitiveLiteral', value: -0 }, {}, {}, { category: 'primitiveLiteral', value: 10n }],
+    });
+  });
+
+  test('the rebuilt validator behaves like the original', () => {
+    class User {} // eslint-disable-line @typescript-eslint/no-extraneous-class
+    const isEven = validator.expectTo((value: number) => value % 2 === 0 ? undefined : 'be even.');
+    const v = roundTrip(
+      validator`{ user: ${User}, count: number & ${isEven}, nested: ${validator`{ x: Set<string> }`} }`,
+      { User, isEven },
+    );
+
+    expect(v.matches({ user: new User(), count: 2, nested: { x: new Set(['a']) } })).toBe(true);
+    assert.throws(() => v.assertMatches({ user: new User(), count: 3, nested: { x: new Set() } }), {
+      message: 'Expected <receivedValue>.count, which was 3, to be even.',
+    });
+    assert.throws(() => v.assertMatches({ user: new User(), count: 2, nested: { x: new Set([2]) } }), {
+      message: 'Expected [...<receivedValue>.nested.x][0] to be of type "string" but got type "number".',
+    });
+  });
+
+  test('registered values are looked up by name', () => {
+    class User {} // eslint-disable-line @typescript-eslint/no-extraneous-class
+    const rebuilt = validator.deserializeRuleset(validator.serializeRuleset(validator`${User}`.ruleset, { User }), { User });
+    expect(rebuilt.interpolated[0]).toBe(User);
+  });
+
+  test('preserves custom messages', () => {
+    const v = roundTrip(validator`{ age: ${validator.withMessage(validator`integer`, 'must be a whole number')} }`);
+    assert.throws(() => v.assertMatches({ age: 2.5 }), {
+      message: '<receivedValue>.age must be a whole number',
+    });
+  });
+
+  test('throws when a name is not found in the registry', () => {
+    const serialized = validator.serializeRuleset(validator`${validator`${Date}`}`.ruleset, { Date });
+    assert.throws(() => validator.deserializeRuleset(serialized, {}), {
+      name: 'TypeError',
+      message: (
+        'Failed to deserialize the ruleset: <serializedRuleset>.interpolated[0].ruleset.interpolated[0] ' +
+        'refers to "Date", which was not found in the registry.'
+      ),
+    });
+  });
+
+  test('throws on malformed tagged values', () => {
+    assert.throws(() => validator.deserializeRuleset({
+      rootRule: { category: 'primitiveLiteral', value: { $bigint: 'zz' } },
+      interpolated: [],
+    }), {
+      name: 'TypeError',
+      message: (
+        'Failed to deserialize the ruleset: <serializedRuleset>.rootRule.value is a malformed $bigint tag. ' +
+        'Expected it to hold a string of decimal digits, but got "zz".'
+      ),
+    });
+    assert.throws(() => validator.deserializeRuleset({
+      rootRule: { category: 'property', content: { $map: [1] } },
+      interpolated: [],
+    }), {
+      name: 'TypeError',
+      message: (
+        'Failed to deserialize the ruleset: <serializedRuleset>.rootRule.content is a malformed $map tag. ' +
+        'Expected it to hold an array of [key, value] pairs.'
+      ),
+    });
+    assert.throws(() => validator.deserializeRuleset({
+      rootRule: { category: 'interpolation', interpolationIndex: 0 },
+      interpolated: [{ category: 'primitive', value: { $bigint: '0x10' } }],
+    }), {
+      message: /^Failed to deserialize the ruleset: <serializedRuleset>\.interpolated\[0\]\.value is a malformed \$bigint tag/,
+    });
+  });
+
+  test('does not look up names on the registry\'s prototype', () => {
+    const serialized: SerializedRuleset = {
+      rootRule: { category: 'interpolation', interpolationIndex: 0 },
+      interpolated: [{ category: 'registered', name: 'constructor' }],
+    };
+    assert.throws(() => validator.deserializeRuleset(serialized, {}), {
+      message: /refers to "constructor", which was not found in the registry/,
+    });
+  });
+
+  test('rejects serialized rulesets that describe invalid rules', () => {
+    const serialized: SerializedRuleset = {
+      rootRule: { category: 'interpolation', interpolationIndex: 0 },
+      interpolated: [{
+        category: 'validator',
+        ruleset: { rootRule: { category: 'interpolation', interpolationIndex: 1 }, interpolated: [] },
+      }],
+    };
+    assert.throws(() => validator.deserializeRuleset(serialized), {
+      message: (
+        'validator.deserializeRuleset() received a serialized ruleset that does not describe a valid ruleset: ' +
+        'Expected <deserialized ruleset>.interpolated[0].ruleset.rootRule.interpolationIndex, which was 1, ' +
+        'to be an in-bounds interpolation index. Received 0 interpolated value(s).'
+      ),
+    });
+  });
+
+  test('rejects malformed rules before building anything from them', () => {
+    const errorPrefix = 'validator.deserializeRuleset() received a serialized ruleset that does not describe a valid ruleset: ';
+    assert.throws(() => validator.deserializeRuleset({ rootRule: { category: 'property' }, interpolated: [] }), {
+      message: new RegExp(`^${escapeRegExp(errorPrefix)}.*<deserialized ruleset>\\.rootRule`),
+    });
+    assert.throws(() => validator.deserializeRuleset({ rootRule: { category: 'array' }, interpolated: [] }), {
+      message: new RegExp(`^${escapeRegExp(errorPrefix)}.*<deserialized ruleset>\\.rootRule`),
+    });
+    assert.throws(() => validator.deserializeRuleset({
+      rootRule: { category: 'interpolation', interpolationIndex: 0 },
+      interpolated: [{ category: 'validator', ruleset: { rootRule: { category: 'bogus' }, interpolated: [] } }],
+    }), {
+      message: new RegExp(`^${escapeRegExp(errorPrefix)}.*<deserialized ruleset>\\.interpolated\\[0\\]\\.ruleset\\.rootRule`),
+    });
+  });
+});
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
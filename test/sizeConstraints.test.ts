@@ -0,0 +1,260 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidatorSyntaxError } from '../src/index.js';
+
+describe('size constraints', () => {
+  describe('arrays', () => {
+    test('accepts arrays within the size range', () => {
+      const v = validator`string[1..3]`;
+      v.assertMatches(['a']);
+      v.assertMatches(['a', 'b', 'c']);
+    });
+
+    test('rejects arrays that are too small', () => {
+      const v = validator`{ tags: string[1..20] }`;
+      const act = (): any => v.assertMatches({ tags: [] });
+      assert.throws(act, { message: 'Expected the <receivedValue>.tags array to have between 1 and 20 entries, but found 0.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects arrays that are too large', () => {
+      const v = validator`string[..2]`;
+      const act = (): any => v.assertMatches(['a', 'b', 'c']);
+      assert.throws(act, { message: 'Expected the <receivedValue> array to have at most 2 entries, but found 3.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('either end of the range can be left open', () => {
+      const v = validator`string[1..]`;
+      v.assertMatches(['a', 'b', 'c']);
+      const act = (): any => v.assertMatches([]);
+      assert.throws(act, { message: 'Expected the <receivedValue> array to have at least 1 entry, but found 0.' });
+    });
+
+    test('checks the size before checking the entries', () => {
+      const v = validator`string[..1]`;
+      const act = (): any => v.assertMatches([2, 3]);
+      assert.throws(act, { message: 'Expected the <receivedValue> array to have at most 1 entry, but found 2.' });
+    });
+
+    test('can be nested', () => {
+      const v = validator`number[2..2][..1]`;
+      v.assertMatches([[1, 2]]);
+      expect(v.matches([[1]])).toBe(false);
+      expect(v.matches([[1, 2], [3, 4]])).toBe(false);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`string[1..20]`;
+      expect(v.ruleset).toMatchObject({
+        rootRule: {
+          category: 'array',
+          content: { category: 'simple', type: 'string' },
+          size: { min: 1, max: 20 },
+        },
+        interpolated: [],
+      });
+      expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+      expect(validator`string[]`.ruleset.rootRule).toMatchObject({ size: null });
+    });
+  });
+
+  describe('tuples', () => {
+    test('limits the overall size of a tuple with a rest entry', () => {
+      const v = validator`[string, ...number[]](..3)`;
+      v.assertMatches(['a', 1, 2]);
+      const act = (): any => v.assertMatches(['a', 1, 2, 3]);
+      assert.throws(act, { message: 'Expected the <receivedValue> array to have at most 3 entries, but found 4.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('the tuple must still satisfy its own size', () => {
+      const v = validator`[string, ...number[]](0..3)`;
+      expect(v.matches([])).toBe(false);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`[string, ...number[]](2..)`;
+      expect(v.ruleset.rootRule).toMatchObject({ category: 'tuple', size: { min: 2, max: null } });
+    });
+  });
+
+  describe('iterables', () => {
+    test('accepts iterables within the size range', () => {
+      const v = validator`${Set}@<string>(..2)`;
+      v.assertMatches(new Set(['a', 'b']));
+    });
+
+    test('rejects iterables that are too large', () => {
+      const v = validator`${Set}@<string>(..2)`;
+      const act = (): any => v.assertMatches(new Set(['a', 'b', 'c']));
+      assert.throws(act, { message: 'Expected <receivedValue> to have at most 2 entries, but found more than 2.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects iterables that are too small', () => {
+      const v = validator`${Set}@<string>(1..)`;
+      const act = (): any => v.assertMatches(new Set());
+      assert.throws(act, { message: 'Expected <receivedValue> to have at least 1 entry, but found 0.' });
+    });
+
+    test('stops iterating once the maximum size is exceeded', () => {
+      let iterations = 0;
+      const infinite = {
+        * [Symbol.iterator]() {
+          while (true) {
+            iterations++;
+            yield 'x';
+          }
+        },
+      };
+
+      const v = validator`unknown@<string>(..5)`;
+      expect(v.matches(infinite)).toBe(false);
+      expect(iterations).toBe(6);
+      expect(validator.compile(v).matches(infinite)).toBe(false);
+    });
+
+    test('iterables that can only be iterated over once are still checked correctly', () => {
+      const v = validator`unknown@<string>(1..2)`;
+      v.assertMatches(['a', 'b'].values());
+      const act = (): any => v.assertMatches(['a', 2].values());
+      assert.throws(act, { message: 'Expected [...<receivedValue>][1] to be of type "string" but got type "number".' });
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`${Set}@<string>(..50)`;
+      expect(v.ruleset.rootRule).toMatchObject({ category: 'iterable', size: { min: null, max: 50 } });
+    });
+  });
+
+  describe('objects', () => {
+    test('accepts objects within the size range', () => {
+      const v = validator`{ [key: string]: number }(..2)`;
+      v.assertMatches({ a: 1, b: 2 });
+    });
+
+    test('rejects objects with too many properties', () => {
+      const v = validator`{ [key: string]: number }(..2)`;
+      const act = (): any => v.assertMatches({ a: 1, b: 2, c: 3 });
+      assert.throws(act, { message: 'Expected <receivedValue> to have at most 2 properties, but found 3.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects objects with too few properties', () => {
+      const v = validator`{ [key: string]: number }(1..)`;
+      const act = (): any => v.assertMatches({});
+      assert.throws(act, { message: 'Expected <receivedValue> to have at least 1 property, but found 0.' });
+    });
+
+    test('only counts own enumerable properties', () => {
+      const v = validator`{}(..1)`;
+      const obj = Object.create({ inherited: 1 });
+      obj.own = 1;
+      Object.defineProperty(obj, 'hidden', { value: 1, enumerable: false });
+      obj[Symbol('sym')] = 1;
+      expect(v.matches(obj)).toBe(false);
+      delete obj.own;
+      v.assertMatches(obj);
+    });
+
+    test('works with exact objects', () => {
+      const v = validator`{| [key: string]: number |}(1..)`;
+      v.assertMatches({ a: 1 });
+      expect(v.matches({})).toBe(false);
+    });
+
+    test('produces the correct rule', () => {
+      const v = validator`{ [key: string]: number }(..50)`;
+      expect(v.ruleset.rootRule).toMatchObject({ category: 'property', size: { min: null, max: 50 } });
+    });
+  });
+
+  test('works with compiled validators', () => {
+    const v = validator.compile(validator`{
+      tags: string[1..2]
+      pair: [string, ...string[]](..2)
+      set: ${Set}@<string>(1..1)
+      record: { [key: string]: number }(..1)
+    }`);
+    const valid = { tags: ['a'], pair: ['a'], set: new Set(['a']), record: {} };
+    expect(v.matches(valid)).toBe(true);
+    expect(v.matches({ ...valid, tags: [] })).toBe(false);
+    expect(v.matches({ ...valid, pair: ['a', 'b', 'c'] })).toBe(false);
+    expect(v.matches({ ...valid, set: new Set(['a', 'b']) })).toBe(false);
+    expect(v.matches({ ...valid, set: new Set() })).toBe(false);
+    expect(v.matches({ ...valid, record: { a: 1, b: 2 } })).toBe(false);
+  });
+
+  test('size failures are preferred over type mismatches in unions', () => {
+    const v = validator`string[..1] | number`;
+    const act = (): any => v.assertMatches(['a', 'b']);
+    assert.throws(act, { message: 'Expected the <receivedValue> array to have at most 1 entry, but found 2.' });
+  });
+
+  describe('syntax', () => {
+    test('throws when the minimum size is greater than the maximum size', () => {
+      const act = (): any => validator`string[5..1]`;
+      assert.throws(act, {
+        message: [
+          'The minimum size can not be greater than the maximum size. (line 1, col 8)',
+          '  string[5..1]',
+          '         ~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a size is not a non-negative integer', () => {
+      const act = (): any => validator`string[1.5..]`;
+      assert.throws(act, {
+        message: [
+          'Expected a size (a non-negative integer), e.g. `20`. (line 1, col 8)',
+          '  string[1.5..]',
+          '         ~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when the range operator is missing', () => {
+      const act = (): any => validator`string[1]`;
+      assert.throws(act, {
+        message: [
+          'Expected a range operator (`..`) to follow the minimum size, e.g. `1..20`. (line 1, col 9)',
+          '  string[1]',
+          '          ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a size constraint is provided twice', () => {
+      const act = (): any => validator`{}(..1)(..2)`;
+      assert.throws(act, {
+        message: [
+          'A size constraint was already provided. (line 1, col 8)',
+          '  {}(..1)(..2)',
+          '         ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when the parentheses are not closed', () => {
+      const act = (): any => validator`{}(..1 string`;
+      assert.throws(act, {
+        message: [
+          'Expected to find a closing parentheses (`)`) here. (line 1, col 8)',
+          '  {}(..1 string',
+          '         ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('size constraints can not be applied to other kinds of rules', () => {
+      assert.throws(() => validator`string(..1)[](..2)`, ValidatorSyntaxError);
+      assert.throws(() => validator`boolean(..2)`, ValidatorSyntaxError);
+    });
+  });
+});
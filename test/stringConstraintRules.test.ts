@@ -0,0 +1,184 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidatorSyntaxError } from '../src/index.js';
+
+describe('string constraint rules', () => {
+  describe('length', () => {
+    test('accepts strings within the length range', () => {
+      const v = validator`string(1..3)`;
+      v.assertMatches('a');
+      v.assertMatches('abc');
+    });
+
+    test('rejects strings that are too short', () => {
+      const v = validator`string(1..3)`;
+      const act = (): any => v.assertMatches('');
+      assert.throws(act, { message: 'Expected <receivedValue>, which was "", to have a length of at least 1.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('rejects strings that are too long', () => {
+      const v = validator`{ name: string(1..3) }`;
+      const act = (): any => v.assertMatches({ name: 'abcd' });
+      assert.throws(act, { message: 'Expected <receivedValue>.name, which was "abcd", to have a length of at most 3.' });
+      assert.throws(act, TypeError);
+    });
+
+    test('either end of the range can be left open', () => {
+      expect(validator`string(2..)`.matches('a'.repeat(1000))).toBe(true);
+      expect(validator`string(2..)`.matches('a')).toBe(false);
+      expect(validator`string(..2)`.matches('')).toBe(true);
+      expect(validator`string(..2)`.matches('abc')).toBe(false);
+    });
+
+    test('measures the length in code points by default', () => {
+      const v = validator`string(..1)`;
+      v.assertMatches('😀');
+      expect(v.matches('👍🏽')).toBe(false);
+    });
+
+    test('can measure the length in graphemes', () => {
+      const v = validator`string(..1 graphemes)`;
+      v.assertMatches('👍🏽');
+      const act = (): any => v.assertMatches('ab');
+      assert.throws(act, { message: 'Expected <receivedValue>, which was "ab", to have a length of at most 1 graphemes.' });
+    });
+
+    test('rejects non-strings', () => {
+      const v = validator`string(1..)`;
+      const act = (): any => v.assertMatches(2);
+      assert.throws(act, { message: 'Expected <receivedValue> to be of type "string" but got type "number".' });
+      assert.throws(act, TypeError);
+    });
+  });
+
+  describe('patterns', () => {
+    test('accepts strings that match the pattern', () => {
+      const v = validator`string(/^[a-z]+$/i)`;
+      v.assertMatches('abC');
+    });
+
+    test('rejects strings that do not match the pattern', () => {
+      const v = validator`string(/^[a-z]+$/i)`;
+      const act = (): any => v.assertMatches('ab1');
+      assert.throws(act, {
+        message: 'Expected <receivedValue>, which was "ab1", to match the regular expression /^[a-z]+$/i.',
+      });
+      assert.throws(act, TypeError);
+    });
+
+    test('slashes may be escaped or used within character classes', () => {
+      const v = validator`string(/^[/]\/$/)`;
+      v.assertMatches('//');
+      expect(v.matches('/')).toBe(false);
+    });
+
+    test('can be combined with a length', () => {
+      const v = validator`string(/^[a-z]*$/, 2..)`;
+      v.assertMatches('ab');
+      expect(v.matches('a')).toBe(false);
+      expect(v.matches('a1')).toBe(false);
+    });
+  });
+
+  describe('unions', () => {
+    test('reports a broken constraint over a mismatched type', () => {
+      const v = validator`string(..2) | number`;
+      const act = (): any => v.assertMatches('abc');
+      assert.throws(act, { message: 'Expected <receivedValue>, which was "abc", to have a length of at most 2.' });
+    });
+  });
+
+  test('works inside of template literal types', () => {
+    const v = validator`\`#\${string(/^[0-9a-f]{6}$/)}\``;
+    v.assertMatches('#00ff00');
+    expect(v.matches('#00ff0')).toBe(false);
+    expect(v.matches('#00ff0g')).toBe(false);
+  });
+
+  test('works with compiled validators', () => {
+    const v = validator.compile(validator`{ name: string(1..3 graphemes), code: string(/^[A-Z]+$/) }`);
+    expect(v.matches({ name: 'abc', code: 'AB' })).toBe(true);
+    expect(v.matches({ name: '', code: 'AB' })).toBe(false);
+    expect(v.matches({ name: 'abc', code: 'ab' })).toBe(false);
+    expect(v.matches({ name: 2, code: 'AB' })).toBe(false);
+  });
+
+  test('produces the correct rule', () => {
+    const v = validator`string(1..64 graphemes, /^a/i)`;
+    expect(v.ruleset).toMatchObject({
+      rootRule: {
+        category: 'stringConstraint',
+        minLength: 1,
+        maxLength: 64,
+        lengthUnit: 'graphemes',
+        pattern: { source: '^a', flags: 'i' },
+      },
+      interpolated: [],
+    });
+    expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+  });
+
+  test('string without constraints is still a simple rule', () => {
+    expect(validator`string`.ruleset.rootRule).toMatchObject({ category: 'simple', type: 'string' });
+  });
+
+  describe('syntax', () => {
+    test('throws when the minimum length is greater than the maximum length', () => {
+      const act = (): any => validator`string(5..1)`;
+      assert.throws(act, {
+        message: [
+          'The minimum length can not be greater than the maximum length. (line 1, col 8)',
+          '  string(5..1)',
+          '         ~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a length is not a non-negative integer', () => {
+      const act = (): any => validator`string(1.5..)`;
+      assert.throws(act, {
+        message: [
+          'Expected a length (a non-negative integer), or a regular expression literal. (line 1, col 8)',
+          '  string(1.5..)',
+          '         ~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a pattern is provided twice', () => {
+      const act = (): any => validator`string(/a/, /b/)`;
+      assert.throws(act, {
+        message: [
+          'A pattern was already provided. (line 1, col 13)',
+          '  string(/a/, /b/)',
+          '              ~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on an invalid pattern', () => {
+      const act = (): any => validator`string(/(/)`;
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on a stateful flag', () => {
+      const act = (): any => validator`string(/a/g)`;
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on an unterminated regular expression', () => {
+      const act = (): any => validator`string(/abc)`;
+      assert.throws(act, {
+        message: [
+          'Expected to find a slash (`/`) to end the regular expression literal. (line 1, col 8)',
+          '  string(/abc)',
+          '         ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { strict as assert } from 'node:assert';
+import { inspect } from 'node:util';
+import { validator } from '../src/index.js';
+
+describe('validator.stringify()', () => {
+  test('stringifies simple, literal, and noop rules', () => {
+    expect(validator.stringify(validator`string`)).toBe('string');
+    expect(validator.stringify(validator`undefined`)).toBe('undefined');
+    expect(validator.stringify(validator`'abc'`)).toBe('"abc"');
+    expect(validator.stringify(validator`"a\n\"b\""`)).toBe('"a\\n\\"b\\""');
+    expect(validator.stringify(validator`-2.5`)).toBe('-2.5');
+    expect(validator.stringify(validator`2n`)).toBe('2n');
+    expect(validator.stringify(validator`true`)).toBe('true');
+    expect(validator.stringify(validator`unknown`)).toBe('unknown');
+  });
+
+  test('stringifies object rules on multiple lines', () => {
+    const v = validator`{ name: string, 'full name'?: string, [index: number]: boolean }`;
+    expect(validator.stringify(v)).toBe([
+      '{',
+      '  name: string',
+      '  "full name"?: string',
+      '  [index: number]: boolean',
+      '}',
+    ].join('\n'));
+  });
+
+  test('stringifies an empty object rule', () => {
+    expect(validator.stringify(validator`{}`)).toBe('{}');
+  });
+
+  test('stringifies exact object rules', () => {
+    expect(validator.stringify(validator`{| x: number |}`)).toBe('{|\n  x: number\n|}');
+    expect(validator.stringify(validator`{||}`)).toBe('{||}');
+  });
+
+  test('stringifies numeric constraint rules', () => {
+    expect(validator.stringify(validator`integer`)).toBe('integer');
+    expect(validator.stringify(validator`number(0..100)`)).toBe('number(0..100)');
+    expect(validator.stringify(validator`integer(>=0)`)).toBe('integer(0..)');
+    expect(validator.stringify(validator`number(<=1, >0)`)).toBe('number(>0, <=1)');
+    expect(validator.stringify(validator`bigint(..2n**4n)[]`)).toBe('bigint(..16n)[]');
+  });
+
+  test('stringifies string constraint rules', () => {
+    expect(validator.stringify(validator`string(1..64)`)).toBe('string(1..64)');
+    expect(validator.stringify(validator`string(/^[a-z]\/+$/i, ..3 graphemes)`)).toBe('string(..3 graphemes, /^[a-z]\\/+$/i)');
+    expect(validator.stringify(validator`string(/x/)[]`)).toBe('string(/x/)[]');
+  });
+
+  test('stringifies size constraints', () => {
+    expect(validator.stringify(validator`string[1..20]`)).toBe('string[1..20]');
+    expect(validator.stringify(validator`(string | number)[..5][]`)).toBe('(string | number)[..5][]');
+    expect(validator.stringify(validator`[string, ...number[]](2..)`)).toBe('[string, ...number[]](2..)');
+    expect(validator.stringify(validator`unknown@<string>(..50)`)).toBe('unknown@<string>(..50)');
+    expect(validator.stringify(validator`{ [key: string]: number }(..50)`)).toBe('{\n  [key: string]: number\n}(..50)');
+  });
+
+  test('stringifies own property rules', () => {
+    expect(validator.stringify(validator`own {}`)).toBe('own {}');
+    expect(validator.stringify(validator`own {| x: number |}`)).toBe('own {|\n  x: number\n|}');
+  });
+
+  test('stringifies map and set rules', () => {
+    expect(validator.stringify(validator`Map<string, number[]>`)).toBe('Map<string, number[]>');
+    expect(validator.stringify(validator`Set<string | number>(..5)`)).toBe('Set<string | number>(..5)');
+  });
+
+  test('stringifies template literal rules', () => {
+    expect(validator.stringify(validator`\`user_\${number}\``)).toBe('`user_${number}`');
+    expect(validator.stringify(validator`\`\${'a' | 'b'}-${/x/}\``)).toBe('`${"a" | "b"}-${/x/}`');
+  });
+
+  test('escapes the text of template literal rules', () => {
+    const v = validator.from('`a${"`"}\\n$${"{"}`');
+    const text = validator.stringify(v);
+    expect(text).toBe('`a${"`"}\\n$${"{"}`');
+    expect(validator.from(text).matches('a`\n${')).toBe(true);
+  });
+
+  test('indents nested object rules', () => {
+    const v = validator`{ user: { name: string }, tags: { id: number }[] }`;
+    expect(validator.stringify(v)).toBe([
+      '{',
+      '  user: {',
+      '    name: string',
+      '  }',
+      '  tags: {',
+      '    id: number',
+      '  }[]',
+      '}',
+    ].join('\n'));
+  });
+
+  test('stringifies tuple rules', () => {
+    expect(validator.stringify(validator`[string, number?, ...boolean[]]`)).toBe('[string, number?, ...boolean[]]');
+    expect(validator.stringify(validator`[]`)).toBe('[]');
+    expect(validator.stringify(validator`[(string | number)?]`)).toBe('[(string | number)?]');
+  });
+
+  test('stringifies labeled tuple rules', () => {
+    const v = validator`[name: string, age?: number, ...rest: boolean[]]`;
+    expect(validator.stringify(v)).toBe('[name: string, age?: number, ...rest: boolean[]]');
+  });
+
+  test('places multi-line tuple entries on their own lines', () => {
+    expect(validator.stringify(validator`[{ x: number }, string]`)).toBe([
+      '[',
+      '  {',
+      '    x: number',
+      '  },',
+      '  string,',
+      ']',
+    ].join('\n'));
+  });
+
+  test('adds parentheses only where they are needed', () => {
+    expect(validator.stringify(validator`(string | number)[]`)).toBe('(string | number)[]');
+    expect(validator.stringify(validator`((string))[]`)).toBe('string[]');
+    expect(validator.stringify(validator`(string | number) & (string | boolean)`)).toBe('(string | number) & (string | boolean)');
+    expect(validator.stringify(validator`string | number & boolean`)).toBe('string | number & boolean');
+    expect(validator.stringify(validator`${Set}@<string | number>`)).toBe('${Set}@<string | number>');
+    expect(validator.stringify(validator`(${Set} & object)@<string>`)).toBe('(${Set} & object)@<string>');
+  });
+
+  test('labels interpolated values', () => {
+    class MyClass { x = 2; }
+    const symb = Symbol('mySymbol');
+    const v = validator`[
+      ${MyClass},
+      ${'abc'},
+      ${2},
+      ${3n},
+      ${/a.c/gi},
+      ${symb},
+      ${validator.lazy(() => validator`string`)},
+      ${validator.expectTo(() => undefined)},
+    ]`;
+
+    expect(validator.stringify(v)).toBe([
+      '[${MyClass}, ${"abc"}, ${2}, ${3n}, ${/a.c/gi}, ${Symbol(mySymbol)}, ',
+      '${validator.lazy(…)}, ${validator.expectTo(…)}]',
+    ].join(''));
+  });
+
+  test('stringifies instantiated generics', () => {
+    const Pair = validator.generic(['A', 'B'], '[A, B]');
+    const v = validator`\`#\${${Pair}<string, ${Pair}<number, ${2}>>}\``;
+    expect(validator.stringify(v)).toBe('`#${${validator.generic(["A","B"], …)}<string, ${validator.generic(["A","B"], …)}<number, ${2}>>}`');
+  });
+
+  test('shows interpolated validators inline', () => {
+    const v = validator`{ value: ${validator`string | number`} }`;
+    expect(validator.stringify(v)).toBe([
+      '{',
+      '  value: ${validator`string | number`}',
+      '}',
+    ].join('\n'));
+  });
+
+  test('stringifies dynamic keys', () => {
+    const symb = Symbol('key');
+    expect(validator.stringify(validator`{ [${symb}]?: string }`)).toBe([
+      '{',
+      '  [${Symbol(key)}]?: string',
+      '}',
+    ].join('\n'));
+  });
+
+  test('produces the same output, regardless of how the rules were written', () => {
+    const v1 = validator`{ x: number; y: ((string)) }`;
+    const v2 = validator`{
+      x: number
+      // comment
+      y: string
+    }`;
+    expect(validator.stringify(v1)).toBe(validator.stringify(v2));
+  });
+
+  test('output can be parsed back into the same ruleset', () => {
+    const v = validator`{ name: string, tags?: (string | number)[], pos: [x: number, y: number] } | null`;
+    const text = validator.stringify(v);
+    expect(validator.from(text).ruleset).toEqual(v.ruleset);
+  });
+
+  test('accepts rulesets', () => {
+    const ruleset = {
+      rootRule: {
+        category: 'array' as const,
+        content: { category: 'simple' as const, type: 'string' as const },
+      },
+      interpolated: [],
+    };
+
+    expect(validator.stringify(ruleset)).toBe('string[]');
+  });
+
+  test('stringifies index signatures with keys the parser does not support', () => {
+    const ruleset = {
+      rootRule: {
+        category: 'property' as const,
+        content: new Map(),
+        dynamicContent: new Map(),
+        index: {
+          key: { category: 'interpolation' as const, interpolationIndex: 0 },
+          value: { category: 'simple' as const, type: 'number' as const },
+          label: 'key',
+        },
+      },
+      interpolated: [/^x-/],
+    };
+
+    expect(validator.stringify(ruleset)).toBe([
+      '{',
+      '  [key: ${/^x-/}]: number',
+      '}',
+    ].join('\n'));
+  });
+});
+
+describe('util.inspect() of validator instances', () => {
+  test('shows the validator as template syntax', () => {
+    expect(inspect(validator`string[]`)).toBe('validator`string[]`');
+    expect(inspect(validator.fromRuleset({
+      rootRule: { category: 'noop' },
+      interpolated: [],
+    }))).toBe('validator`unknown`');
+  });
+
+  test('works with validators built from other validators', () => {
+    const v = validator.compile(validator`{ id: ${validator`number`} }`);
+    assert.equal(inspect(v), 'validator`{\n  id: ${validator`number`}\n}`');
+  });
+});
@@ -0,0 +1,261 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidatorSyntaxError } from '../src/index.js';
+
+describe('template literal rules', () => {
+  test('accepts strings that fit the template', () => {
+    const v = validator`\`user_\${number}\``;
+    v.assertMatches('user_1234');
+    v.assertMatches('user_-1.5e3');
+  });
+
+  test('rejects non-string values', () => {
+    const v = validator`\`user_\${number}\``;
+    const act = (): any => v.assertMatches(1234);
+    assert.throws(act, { message: 'Expected <receivedValue> to be of type "string" but got type "number".' });
+    assert.throws(act, TypeError);
+  });
+
+  test('rejects a string with the wrong prefix', () => {
+    const v = validator`\`user_\${number}\``;
+    const act = (): any => v.assertMatches('group_1234');
+    assert.throws(act, {
+      message: (
+        'Expected <receivedValue>, which was "group_1234", to match the template literal type `user_${number}`. ' +
+        'Expected to find "user_" at index 0.'
+      ),
+    });
+    assert.throws(act, TypeError);
+  });
+
+  test('rejects a string with a placeholder that does not match', () => {
+    const v = validator`\`user_\${number}\``;
+    const act = (): any => v.assertMatches('user_abc');
+    assert.throws(act, {
+      message: (
+        'Expected <receivedValue>, which was "user_abc", to match the template literal type `user_${number}`. ' +
+        'Expected to find ${number} at index 5.'
+      ),
+    });
+  });
+
+  test('rejects a string with unexpected trailing text', () => {
+    const v = validator`\`user_\${number}\``;
+    const act = (): any => v.assertMatches('user_12x');
+    assert.throws(act, {
+      message: (
+        'Expected <receivedValue>, which was "user_12x", to match the template literal type `user_${number}`. ' +
+        'Found unexpected trailing text "x" at index 7.'
+      ),
+    });
+  });
+
+  test('can be written without escapes when using validator.from()', () => {
+    const v = validator.from('`v${number}.${number}.${number}`');
+    v.assertMatches('v1.2.3');
+    expect(v.matches('v1.2')).toBe(false);
+    expect(v.matches('v1.2.x')).toBe(false);
+  });
+
+  test('backtracks to find a way to split up the string', () => {
+    const v = validator.from('`${string}.${string}.json`');
+    v.assertMatches('a.b.c.json');
+    v.assertMatches('..json');
+    expect(v.matches('a.json')).toBe(false);
+  });
+
+  test('backtracking stays fast on long strings', () => {
+    const v = validator.from('`${string}a${number}a${string}b`');
+    const start = Date.now();
+    expect(v.matches('a1'.repeat(50_000))).toBe(false);
+    expect(v.matches('a1'.repeat(50_000) + 'ab')).toBe(true);
+    expect(validator.from('`${string}${number}`').matches('x'.repeat(100_000) + '1')).toBe(true);
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+
+  test('gives up on strings that would take too much work to check', () => {
+    const v = validator.from('`${number}${number}`');
+    const act = (): any => v.assertMatches('1'.repeat(100_000) + 'x');
+    assert.throws(act, {
+      message: /to match the template literal type `\$\{number\}\$\{number\}`\. The string was too long to finish checking it against this template literal type\.$/,
+    });
+    expect(v.matches('1'.repeat(100_000) + 'x')).toBe(false);
+  });
+
+  test('supports unions inside of placeholders', () => {
+    const v = validator`\`\${'GET' | 'POST'} /\${string}\``;
+    v.assertMatches('GET /users');
+    v.assertMatches('POST /');
+    const act = (): any => v.assertMatches('PUT /users');
+    assert.throws(act, {
+      message: (
+        'Expected <receivedValue>, which was "PUT /users", to match the template literal type ' +
+        '`${"GET" | "POST"} /${string}`. Expected to find ${"GET" | "POST"} at index 0.'
+      ),
+    });
+  });
+
+  test('matches simple types the way TypeScript does', () => {
+    const v = validator.from('`${bigint}|${boolean}|${null}|${undefined}`');
+    v.assertMatches('-12|true|null|undefined');
+    expect(v.matches('1.5|true|null|undefined')).toBe(false);
+    expect(v.matches('1|yes|null|undefined')).toBe(false);
+
+    expect(validator.from('`${number}`').matches(' 2')).toBe(false);
+    expect(validator.from('`${number}`').matches('')).toBe(false);
+    expect(validator.from('`${number}`').matches('Infinity')).toBe(false);
+    expect(validator.from('`${symbol}`').matches('x')).toBe(false);
+    expect(validator.from('`${{ x: 2 }}`').matches('x')).toBe(false);
+  });
+
+  test('supports literal types inside of placeholders', () => {
+    const v = validator.from('`${2 | 3n | true | "x"}!`');
+    v.assertMatches('2!');
+    v.assertMatches('3!');
+    v.assertMatches('true!');
+    v.assertMatches('x!');
+    expect(v.matches('3n!')).toBe(false);
+  });
+
+  test('supports nested template literal types', () => {
+    const v = validator.from('`<${`a${number}` | "b"}>`');
+    v.assertMatches('<a2>');
+    v.assertMatches('<b>');
+    expect(v.matches('<a>')).toBe(false);
+  });
+
+  test('an empty template literal type only matches an empty string', () => {
+    const v = validator.from('``');
+    v.assertMatches('');
+    expect(v.matches('x')).toBe(false);
+  });
+
+  test('supports escape sequences in the literal text', () => {
+    const v = validator.from('`\\x41\\n${number}\\\\`');
+    v.assertMatches('A\n2\\');
+  });
+
+  test('a literal backtick can be written with a placeholder', () => {
+    const v = validator.from('`a${"`"}b`');
+    v.assertMatches('a`b');
+  });
+
+  test('can be used inside of other rules', () => {
+    const v = validator`{ id: \`user_\${number}\` }[]`;
+    v.assertMatches([{ id: 'user_1' }, { id: 'user_2' }]);
+    const act = (): any => v.assertMatches([{ id: 'user_1' }, { id: 'user_x' }]);
+    assert.throws(act, {
+      message: (
+        'Expected <receivedValue>[1].id, which was "user_x", to match the template literal type `user_${number}`. ' +
+        'Expected to find ${number} at index 5.'
+      ),
+    });
+  });
+
+  test('can be used in a union', () => {
+    const v = validator`\`#\${number}\` | number`;
+    v.assertMatches('#2');
+    v.assertMatches(2);
+    const act = (): any => v.assertMatches('#x');
+    assert.throws(act, {
+      message: (
+        'Expected <receivedValue>, which was "#x", to match the template literal type `#${number}`. ' +
+        'Expected to find ${number} at index 1.'
+      ),
+    });
+  });
+
+  describe('interpolation', () => {
+    test('supports interpolated values as placeholders', () => {
+      const v = validator`\`\${'a'}-${'b'}-${/\d+/}\``;
+      v.assertMatches('a-b-12');
+      expect(v.matches('a-c-12')).toBe(false);
+      // Interpolated regular expressions must match the entire placeholder
+      expect(v.matches('a-b-12x')).toBe(false);
+    });
+
+    test('supports interpolated validators', () => {
+      const id = validator`number | 'self'`;
+      const v = validator`\`users/${id}\``;
+      v.assertMatches('users/2');
+      v.assertMatches('users/self');
+      expect(v.matches('users/other')).toBe(false);
+    });
+
+    test('supports interpolated validators within a placeholder', () => {
+      const id = validator`number`;
+      const v = validator`\`users/\${${id} | 'self'}\``;
+      v.assertMatches('users/2');
+      v.assertMatches('users/self');
+    });
+
+    test('supports interpolated expectations', () => {
+      const expectShort = validator.expectTo((value: unknown) => (value as string).length <= 2 ? undefined : 'be short.');
+      const v = validator`\`[${expectShort}]\``;
+      v.assertMatches('[ab]');
+      expect(v.matches('[abc]')).toBe(false);
+    });
+
+    test('interpolated classes never match', () => {
+      const v = validator`\`\${${String}}\``;
+      expect(v.matches('x')).toBe(false);
+    });
+
+    test('labels interpolated values in the error message', () => {
+      const v = validator`\`id-${/\d+/}\``;
+      const act = (): any => v.assertMatches('id-x');
+      assert.throws(act, {
+        message: (
+          'Expected <receivedValue>, which was "id-x", to match the template literal type `id-${/\\d+/}`. ' +
+          'Expected to find ${/\\d+/} at index 3.'
+        ),
+      });
+    });
+  });
+
+  describe('syntax', () => {
+    test('throws on an unclosed template literal type', () => {
+      const act = (): any => validator.from('`abc');
+      assert.throws(act, {
+        message: [
+          'Expected to find a backtick (`) to end the template literal type. (line 1, col 2)',
+          '  `abc',
+          '   ~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on an unclosed placeholder', () => {
+      const act = (): any => validator.from('`a${number`');
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on a placeholder with extra content', () => {
+      const act = (): any => validator.from('`a${number string}`');
+      assert.throws(act, {
+        message: [
+          'Expected a `}` to close the `${` placeholder of the template literal type. (line 1, col 12)',
+          '  `a${number string}`',
+          '             ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+  });
+
+  test('produces the correct rule', () => {
+    const v = validator`\`a\${number}b${2}\``;
+    expect(v.ruleset).toMatchObject({
+      rootRule: {
+        category: 'templateLiteral',
+        textSegments: ['a', 'b', ''],
+        ruleSegments: [
+          { category: 'simple', type: 'number' },
+          { category: 'interpolation', interpolationIndex: 0 },
+        ],
+      },
+      interpolated: [2],
+    });
+    expect(Object.isFrozen(v.ruleset.rootRule)).toBe(true);
+  });
+});
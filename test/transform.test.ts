@@ -0,0 +1,163 @@
+import { strict as assert } from 'node:assert';
+import { validator } from '../src/index.js';
+
+const isoStringToDate = validator.transform(validator`string`, value => new Date(value as string));
+const stringToNumber = validator.transform(validator`string`, value => Number(value));
+
+describe('<validator instance>.parse()', () => {
+  test('returns the value as-is when there is nothing to transform', () => {
+    const value = { x: 2, y: [3] };
+    expect(validator`{ x: number, y: number[] }`.parse(value)).toBe(value);
+  });
+
+  test('transforms a value at the root', () => {
+    expect(validator`${stringToNumber}`.parse('42')).toBe(42);
+  });
+
+  test('transforms object properties, without modifying the original object', () => {
+    const value = { name: 'Bob', createdAt: '2020-01-01T00:00:00.000Z' };
+    const output = validator`{ name: string, createdAt: ${isoStringToDate} }`.parse(value);
+    expect(output).toEqual({ name: 'Bob', createdAt: new Date('2020-01-01T00:00:00.000Z') });
+    expect(value.createdAt).toBe('2020-01-01T00:00:00.000Z');
+  });
+
+  test('shares portions of the value that did not get transformed', () => {
+    const value = { a: { b: '2' }, c: { d: 3 } };
+    const output = validator`{ a: { b: ${stringToNumber} }, c: { d: number } }`.parse(value) as any;
+    expect(output).toEqual({ a: { b: 2 }, c: { d: 3 } });
+    expect(output).not.toBe(value);
+    expect(output.a).not.toBe(value.a);
+    expect(output.c).toBe(value.c);
+  });
+
+  test('keeps the prototype of copied objects', () => {
+    class Point {
+      x = '2';
+    }
+    const output = validator`${Point} & { x: ${stringToNumber} }`.parse(new Point()) as any;
+    expect(output).toBeInstanceOf(Point);
+    expect(output.x).toBe(2);
+  });
+
+  test('leaves out optional properties that were not provided', () => {
+    const output = validator`{ x?: ${stringToNumber} }`.parse({});
+    expect(output).toEqual({});
+    expect('x' in (output as any)).toBe(false);
+  });
+
+  test('transforms properties matched by an index signature', () => {
+    const output = validator`{ [key: string]: ${stringToNumber} }`.parse({ a: '1', b: '2' });
+    expect(output).toEqual({ a: 1, b: 2 });
+  });
+
+  test('transforms properties with dynamic keys', () => {
+    const key = Symbol('key');
+    const output = validator`{ [${key}]: ${stringToNumber} }`.parse({ [key]: '1' }) as any;
+    expect(output[key]).toBe(1);
+  });
+
+  test('transforms array entries', () => {
+    expect(validator`${stringToNumber}[]`.parse(['1', '2'])).toEqual([1, 2]);
+  });
+
+  test('transforms tuple entries', () => {
+    const v = validator`[${stringToNumber}, string?, ...${stringToNumber}[]]`;
+    expect(v.parse(['1', '2', '3', '4'])).toEqual([1, '2', 3, 4]);
+    expect(v.parse(['1'])).toEqual([1]);
+  });
+
+  test('can transform the rest entries of a tuple as a whole', () => {
+    const joinRest = validator.transform(validator`string[]`, value => [(value as string[]).join('')]);
+    expect(validator`[number, ...${joinRest}]`.parse([1, 'a', 'b'])).toEqual([1, 'ab']);
+  });
+
+  test('throws if the rest entries of a tuple are transformed into a non-array', () => {
+    const joinRest = validator.transform(validator`string[]`, value => (value as string[]).join(''));
+    const act = (): any => validator`[number, ...${joinRest}]`.parse([1, 'a', 'b']);
+    assert.throws(act, {
+      message: 'Failed to parse the value: The rest entry of a tuple was transformed into a non-array value.',
+    });
+  });
+
+  test('transforms the entries of arrays and sets matched by iterable rules', () => {
+    expect(validator`${Array}@<${stringToNumber}>`.parse(['1', '2'])).toEqual([1, 2]);
+    expect(validator`${Set}@<${stringToNumber}>`.parse(new Set(['1', '2']))).toEqual(new Set([1, 2]));
+  });
+
+  test('transforms using the first union variant that matches', () => {
+    const v = validator`{ type: 'date', value: ${isoStringToDate} } | { type: 'number', value: ${stringToNumber} }`;
+    expect(v.parse({ type: 'number', value: '2' })).toEqual({ type: 'number', value: 2 });
+    expect(v.parse({ type: 'date', value: '2020-01-01' })).toEqual({ type: 'date', value: new Date('2020-01-01') });
+  });
+
+  test('applies each variant of an intersection', () => {
+    const v = validator`{ x: ${stringToNumber} } & { y: ${stringToNumber} }`;
+    expect(v.parse({ x: '1', y: '2' })).toEqual({ x: 1, y: 2 });
+  });
+
+  test('applies transformers found in interpolated validators and lazy evaluators', () => {
+    const inner = validator`{ x: ${stringToNumber} }`;
+    expect(validator`{ inner: ${inner} }`.parse({ inner: { x: '1' } })).toEqual({ inner: { x: 1 } });
+    expect(validator`${validator.lazy(() => inner)}`.parse({ x: '1' })).toEqual({ x: 1 });
+  });
+
+  test('transformers receive the output of transformers within their own validator', () => {
+    const sum = validator.transform(
+      validator`${stringToNumber}[]`,
+      value => (value as number[]).reduce((a, b) => a + b, 0),
+    );
+    expect(validator`${sum}`.parse(['1', '2', '3'])).toBe(6);
+  });
+
+  test('throws the same errors as assertMatches() when the value does not match', () => {
+    const v = validator`{ createdAt: ${isoStringToDate} }`;
+    const act = (): any => v.parse({ createdAt: 2 });
+    assert.throws(act, {
+      message: 'Expected <receivedValue>.createdAt to be of type "string" but got type "number".',
+    });
+    assert.throws(act, TypeError);
+  });
+
+  test('supports the same options as assertMatches()', () => {
+    const v = validator`{ createdAt: ${isoStringToDate} }`;
+    const act = (): any => v.parse({ createdAt: 2 }, { at: '<input>', errorPrefix: 'Bad input:', errorFactory: (...params: any) => new RangeError(...params) });
+    assert.throws(act, {
+      message: 'Bad input: Expected <input>.createdAt to be of type "string" but got type "number".',
+    });
+    assert.throws(act, RangeError);
+  });
+
+  test('works with compiled validators', () => {
+    const v = validator.compile(validator`{ n: ${stringToNumber} }`);
+    expect(v.parse({ n: '2' })).toEqual({ n: 2 });
+  });
+});
+
+describe('validator.transform()', () => {
+  test('behaves like the provided validator when matching', () => {
+    const v = validator`{ createdAt: ${isoStringToDate} }`;
+    expect(v.matches({ createdAt: 'abc' })).toBe(true);
+    expect(v.matches({ createdAt: 2 })).toBe(false);
+    expect(validator.compile(v).matches({ createdAt: 2 })).toBe(false);
+  });
+
+  test('the callback is not called when matching', () => {
+    let callCount = 0;
+    const v = validator`${validator.transform(validator`string`, () => callCount++)}`;
+    v.assertMatches('abc');
+    v.matches('abc');
+    expect(callCount).toBe(0);
+    v.parse('abc');
+    expect(callCount).toBe(1);
+  });
+
+  test('converts to JSON Schema using the provided validator', () => {
+    expect(validator.toJsonSchema(validator`{ createdAt: ${isoStringToDate} }`)).toMatchObject({
+      properties: { createdAt: { type: 'string' } },
+    });
+  });
+
+  test('is labeled when stringified', () => {
+    expect(validator.stringify(validator`${isoStringToDate}[]`)).toBe('${validator.transform(…)}[]');
+  });
+});
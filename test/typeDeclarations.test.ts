@@ -0,0 +1,190 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidatorSyntaxError } from '../src/index.js';
+
+describe('type declarations', () => {
+  test('provides a validator for each declared type', () => {
+    const { Name, Age } = validator.types<'Name' | 'Age'>`
+      type Name = string
+      type Age = number
+    `;
+    Name.assertMatches('Alice');
+    Age.assertMatches(30);
+    expect(Name.matches(30)).toBe(false);
+  });
+
+  test('declarations may be separated by semicolons', () => {
+    const types = validator.types`type A = string; type B = number;`;
+    expect(Object.keys(types)).toEqual(['A', 'B']);
+  });
+
+  test('declared types can reference each other', () => {
+    const { User, Group } = validator.types<'User' | 'Group'>`
+      type User = { name: Name }
+      type Group = { members: User[] }
+      type Name = string
+    `;
+    User.assertMatches({ name: 'Alice' });
+    Group.assertMatches({ members: [{ name: 'Alice' }] });
+    const act = (): any => Group.assertMatches({ members: [{ name: 2 }] });
+    assert.throws(act, { message: 'Expected <receivedValue>.members[0].name to be of type "string" but got type "number".' });
+    assert.throws(act, TypeError);
+  });
+
+  test('declared types can reference themselves', () => {
+    const { Node, Tree } = validator.types<'Node' | 'Tree'>`
+      type Node = { value: number, children: Node[] }
+      type Tree = Node | null
+    `;
+    Tree.assertMatches(null);
+    Tree.assertMatches({ value: 1, children: [{ value: 2, children: [] }] });
+    const act = (): any => Node.assertMatches({ value: 1, children: [{ value: 2, children: [{ value: 'x', children: [] }] }] });
+    assert.throws(act, {
+      message: 'Expected <receivedValue>.children[0].children[0].value to be of type "number" but got type "string".',
+    });
+  });
+
+  test('declared types can be mutually recursive', () => {
+    const { Expression } = validator.types<'Expression'>`
+      type Expression = number | Operation
+      type Operation = { operator: '+' | '-', operands: [Expression, Expression] }
+    `;
+    Expression.assertMatches({ operator: '+', operands: [1, { operator: '-', operands: [2, 3] }] });
+    expect(Expression.matches({ operator: '+', operands: [1, { operator: '*', operands: [2, 3] }] })).toBe(false);
+  });
+
+  test('supports interpolated values', () => {
+    const { Pet } = validator.types<'Pet'>`
+      type Pet = { kind: ${'cat'} | ${'dog'}, owner: ${validator`string`} }
+    `;
+    Pet.assertMatches({ kind: 'cat', owner: 'Alice' });
+    expect(Pet.matches({ kind: 'bird', owner: 'Alice' })).toBe(false);
+  });
+
+  test('declared types can be interpolated into other validators', () => {
+    const { Node } = validator.types<'Node'>`type Node = { children: Node[] }`;
+    const v = validator`{ root: ${Node} }`;
+    v.assertMatches({ root: { children: [{ children: [] }] } });
+    expect(v.matches({ root: { children: [{}] } })).toBe(false);
+  });
+
+  test('works with compiled validators', () => {
+    const { Node } = validator.types<'Node'>`type Node = { value: number, children: Node[] }`;
+    const v = validator.compile(Node);
+    expect(v.matches({ value: 1, children: [{ value: 2, children: [] }] })).toBe(true);
+    expect(v.matches({ value: 1, children: [{ value: '2', children: [] }] })).toBe(false);
+  });
+
+  test('the declared validators are stringified by name', () => {
+    const { Tree } = validator.types<'Tree'>`
+      type Node = { value: number, children: Node[] }
+      type Tree = Node | null
+    `;
+    expect(validator.stringify(Tree)).toBe('${Node} | null');
+  });
+
+  test('produces the correct rules', () => {
+    const { A, B } = validator.types<'A' | 'B'>`type A = B[]; type B = ${2}`;
+    expect(A.ruleset.rootRule).toMatchObject({
+      category: 'array',
+      content: { category: 'interpolation', interpolationIndex: 2 },
+    });
+    expect(B.ruleset.rootRule).toMatchObject({ category: 'interpolation', interpolationIndex: 0 });
+    expect(A.ruleset.interpolated).toBe(B.ruleset.interpolated);
+    expect(A.ruleset.interpolated).toHaveLength(3);
+    expect(A.ruleset.interpolated[0]).toBe(2);
+    expect(validator.isValidator(A.ruleset.interpolated[1])).toBe(true);
+    expect(Object.isFrozen(A.ruleset.interpolated)).toBe(true);
+  });
+
+  describe('syntax', () => {
+    test('throws when a type is referenced without being declared', () => {
+      const act = (): any => validator.types`type A = { b: B }`;
+      assert.throws(act, {
+        message: [
+          'Found a reference to "B", which was never declared. (line 1, col 15)',
+          '  type A = { b: B }',
+          '                ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a type circularly references itself', () => {
+      const act = (): any => validator.types`type A = B | string; type B = A & {}`;
+      assert.throws(act, {
+        message: [
+          'The type "A" circularly references itself. (line 1, col 6)',
+          '  type A = B | string; type B = A & {}',
+          '       ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on duplicate declarations', () => {
+      const act = (): any => validator.types`type A = string; type A = number`;
+      assert.throws(act, {
+        message: [
+          'Duplicate type name "A" found. (line 1, col 23)',
+          '  type A = string; type A = number',
+          '                        ~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when a reserved name is declared', () => {
+      const act = (): any => validator.types`type string = number`;
+      assert.throws(act, {
+        message: [
+          'Can not declare a type named "string", as that name already has a meaning. (line 1, col 6)',
+          '  type string = number',
+          '       ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when something other than a type declaration is found', () => {
+      const act = (): any => validator.types`string`;
+      assert.throws(act, {
+        message: [
+          'Expected a type declaration, e.g. `type Name = string`. (line 1, col 1)',
+          '  string',
+          '  ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when the equals sign is missing', () => {
+      const act = (): any => validator.types`type A string`;
+      assert.throws(act, {
+        message: [
+          'Expected an equals sign (`=`) after the name of the declared type. (line 1, col 8)',
+          '  type A string',
+          '         ~~~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws when two declarations are on the same line without a semicolon', () => {
+      const act = (): any => validator.types`type A = string type B = number`;
+      assert.throws(act, {
+        message: [
+          'Expected a semicolon (`;`) or a new line to end the type declaration. (line 1, col 17)',
+          '  type A = string type B = number',
+          '                  ~~~~',
+        ].join('\n'),
+      });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+
+    test('throws on empty content', () => {
+      const act = (): any => validator.types` `;
+      assert.throws(act, { message: 'The validator had no content.' });
+      assert.throws(act, ValidatorSyntaxError);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { validator, type InferType, type Validator } from '../src/index.js';
+
+// These tests are mostly checked at compile-time.
+// If an inferred type doesn't match the expected type, the type-checker will complain.
+
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+function assertType<T extends true>(): void {}
+
+describe('type inference', () => {
+  test('infers the type of simple rules', () => {
+    assertType<Equals<InferType<'string'>, string>>();
+    assertType<Equals<InferType<'number'>, number>>();
+    assertType<Equals<InferType<'bigint'>, bigint>>();
+    assertType<Equals<InferType<'boolean'>, boolean>>();
+    assertType<Equals<InferType<'symbol'>, symbol>>();
+    assertType<Equals<InferType<'object'>, object>>();
+    assertType<Equals<InferType<'null'>, null>>();
+    assertType<Equals<InferType<'undefined'>, undefined>>();
+    assertType<Equals<InferType<'unknown'>, unknown>>();
+    assertType<Equals<InferType<'any'>, any>>();
+  });
+
+  test('infers the type of primitive literals', () => {
+    assertType<Equals<InferType<'true'>, true>>();
+    assertType<Equals<InferType<'false'>, false>>();
+    assertType<Equals<InferType<'"abc"'>, 'abc'>>();
+    assertType<Equals<InferType<"'abc'">, 'abc'>>();
+    assertType<Equals<InferType<'12.5'>, 12.5>>();
+    assertType<Equals<InferType<'-3'>, -3>>();
+    assertType<Equals<InferType<'2n'>, 2n>>();
+    assertType<Equals<InferType<'-2n'>, -2n>>();
+  });
+
+  test('widens literals it can not precisely represent', () => {
+    assertType<Equals<InferType<'"a\\nb"'>, string>>();
+    assertType<Equals<InferType<'1e1000'>, number>>();
+  });
+
+  test('infers the type of object rules', () => {
+    assertType<Equals<
+    InferType<'{ name: string, "favorite color"?: string; age: number }'>,
+    { name: string, 'favorite color'?: string, age: number }
+    >>();
+    assertType<Equals<InferType<'{ [index: string]: number }'>, Record<string, number>>>();
+    assertType<Equals<InferType<'{| name: string, age?: number | string |}'>, { name: string, age?: number | string }>>();
+    assertType<Equals<InferType<'{| a: 1 |} | string'>, { a: 1 } | string>>();
+    assertType<Equals<InferType<'own { isAdmin?: boolean }'>, { isAdmin?: boolean }>>();
+  });
+
+  test('infers the type of array and tuple rules', () => {
+    assertType<Equals<InferType<'string[]'>, string[]>>();
+    assertType<Equals<InferType<'string[][]'>, string[][]>>();
+    assertType<Equals<InferType<'[string, number?]'>, [string, number?]>>();
+    assertType<Equals<InferType<'[name: string, age?: number]'>, [string, number?]>>();
+    assertType<Equals<InferType<'[string, ...number[]]'>, [string, ...number[]]>>();
+    assertType<Equals<InferType<'[]'>, []>>();
+  });
+
+  test('infers the type of iterable rules', () => {
+    assertType<Equals<InferType<'unknown[]@<string>'>, unknown[] & Iterable<string>>>();
+  });
+
+  test('infers the type of map and set rules', () => {
+    assertType<Equals<InferType<'Map<string, number[]>'>, Map<string, number[]>>>();
+    assertType<Equals<InferType<'{ tags: Set<string>(..5) }'>, { tags: Set<string> }>>();
+  });
+
+  test('infers the type of union and intersection rules', () => {
+    assertType<Equals<InferType<'string | number'>, string | number>>();
+    assertType<Equals<InferType<'(string | number)[]'>, Array<string | number>>>();
+    assertType<Equals<InferType<'{ x: number } & { y: number }'>, { x: number } & { y: number }>>();
+  });
+
+  test('infers the type of numeric constraint rules', () => {
+    assertType<Equals<InferType<'integer'>, number>>();
+    assertType<Equals<InferType<'{ age: integer(0..150), score: number(>0, <=1) }'>, { age: number, score: number }>>();
+    assertType<Equals<InferType<'bigint(..2n**64n)[]'>, bigint[]>>();
+  });
+
+  test('infers the type of string constraint rules', () => {
+    assertType<Equals<InferType<'{ name: string(1..64 graphemes), code: string(/^[A-Z]+$/i) }'>, { name: string, code: string }>>();
+  });
+
+  test('infers the type of rules with size constraints', () => {
+    assertType<Equals<InferType<'string[1..20]'>, string[]>>();
+    assertType<Equals<InferType<'{ tags: string[..5][], pair: [string, ...number[]](..3) }'>, { tags: string[][], pair: [string, ...number[]] }>>();
+    assertType<Equals<InferType<'{ [key: string]: number }(..50)'>, Record<string, number>>>();
+    assertType<Equals<InferType<'unknown[]@<string>(1..)'>, unknown[] & Iterable<string>>>();
+  });
+
+  test('infers the type of template literal rules', () => {
+    assertType<Equals<InferType<'`user_${number}`'>, `user_${number}`>>();
+    assertType<Equals<InferType<'`${"GET" | "POST"} /${string}`'>, `${'GET' | 'POST'} /${string}`>>();
+    assertType<Equals<InferType<'`abc`'>, 'abc'>>();
+    assertType<Equals<InferType<'{ id: `#${bigint}` }'>, { id: `#${bigint}` }>>();
+    // Placeholders TypeScript does not support inside of template literal types are widened.
+    assertType<Equals<InferType<'`a${{ x: number }}`'>, string>>();
+  });
+
+  test('ignores comments', () => {
+    assertType<Equals<InferType<'string /* or a number */ | number // the end'>, string | number>>();
+  });
+
+  test('falls back to unknown', () => {
+    assertType<Equals<InferType<string>, unknown>>();
+    assertType<Equals<InferType<'{ x: number'>, unknown>>();
+    assertType<Equals<InferType<'string number'>, unknown>>();
+    assertType<Equals<InferType<'SomeUnknownIdentifier'>, unknown>>();
+  });
+
+  test('validator.from() infers the type of the provided text', () => {
+    const v = validator.from('{ name: string, tags: string[] }');
+    assertType<Equals<typeof v, Validator<{ name: string, tags: string[] }>>>();
+
+    const value: unknown = { name: 'Alice', tags: [] };
+    const user = v.assertMatches(value);
+    assertType<Equals<typeof user, { name: string, tags: string[] }>>();
+    expect(user.tags).toEqual([]);
+  });
+
+  test('validator.from() returns validator instances with their type intact', () => {
+    const v1 = validator<string>`string`;
+    const v2 = validator.from(v1);
+    assertType<Equals<typeof v2, Validator<string>>>();
+    expect(v2).toBe(v1);
+  });
+
+  test('validator.from() falls back to unknown for non-literal strings', () => {
+    const text: string = 'string';
+    const v = validator.from(text);
+    assertType<Equals<typeof v, Validator<unknown>>>();
+    expect(v.matches('xyz')).toBe(true);
+  });
+});
@@ -70,6 +70,16 @@ import { DISABLE_PARAM_VALIDATION } from '../src/config.js';
     });
   });
 
+  test('<validator instance>.parse()', () => {
+    const act = (): any => (validator`string`.parse as any)('someValue', 42);
+    assert.throws(act, {
+      message: (
+        'Received invalid "opts" argument for <validator instance>.parse(): ' +
+        'Expected <2nd argument>, which was 42, to be a direct instance of `Object`.'
+      ),
+    });
+  });
+
   test('<validator instance>.assertionTypeGuard()', () => {
     const act = (): any => (validator`string`.assertionTypeGuard as any)('someValue', 42);
     assert.throws(act, {
@@ -123,7 +133,55 @@ import { DISABLE_PARAM_VALIDATION } from '../src/config.js';
     assert.throws(act, {
       message: (
         'Received invalid arguments for <validator instance>.matches(): ' +
-        'Expected the <argumentList> array to have 1 entry, but found 0.'
+        'Expected the <argumentList> array to have between 1 and 2 entries, but found 0.'
+      ),
+    });
+  });
+
+  test('<validator instance>.matches() options', () => {
+    const act = (): any => validator`string`.matches('someValue', { collectAll: true } as any);
+    assert.throws(act, {
+      message: (
+        'Received invalid "opts" argument for <validator instance>.matches(): ' +
+        'Expected <2nd argument>, which was [object Object], to have only known keys. "collectAll" is not recognized as a valid key.'
+      ),
+    });
+  });
+
+  test('<validator instance>.validate()', () => {
+    const act = (): any => validator`string`.validate('someValue', { collectAll: 'yes' } as any);
+    assert.throws(act, {
+      message: [
+        (
+          'Received invalid "opts" argument for <validator instance>.validate(): ' +
+          'One of the following issues needs to be resolved:'
+        ),
+        '  * Expected <2nd argument>.collectAll to be of type "undefined" but got type "string".',
+        '  * Expected <2nd argument>.collectAll to be of type "boolean" but got type "string".',
+      ].join('\n'),
+    });
+  });
+
+  test('<validator instance>.assertMatchesAsync()', async () => {
+    const act = (): any => validator`string`.assertMatchesAsync('someValue', { at: 2 } as any);
+    await assert.rejects(act, {
+      message: [
+        (
+          'Received invalid "opts" argument for <validator instance>.assertMatchesAsync(): ' +
+          'One of the following issues needs to be resolved:'
+        ),
+        '  * Expected <2nd argument>.at to be of type "undefined" but got type "number".',
+        '  * Expected <2nd argument>.at to be of type "string" but got type "number".',
+      ].join('\n'),
+    });
+  });
+
+  test('<validator instance>.matchesAsync()', async () => {
+    const act = (): any => (validator`string`.matchesAsync as any)();
+    await assert.rejects(act, {
+      message: (
+        'Received invalid arguments for <validator instance>.matchesAsync(): ' +
+        'Expected the <argumentList> array to have between 1 and 2 entries, but found 0.'
       ),
     });
   });
@@ -187,6 +245,58 @@ import { DISABLE_PARAM_VALIDATION } from '../src/config.js';
     });
   });
 
+  test('validator.compile()', () => {
+    const act = (): any => (validator.compile as any)('string');
+    assert.throws(act, {
+      message: (
+        'Received invalid "validator" argument for validator.compile(): ' +
+        'Expected <1st argument>, which was "string", to be a validator instance.'
+      ),
+    });
+  });
+
+  test('validator.toJsonSchema()', () => {
+    const act = (): any => validator.toJsonSchema(validator`string`, { onUnrepresentable: 'ignore' as any });
+    assert.throws(act, {
+      message: [
+        (
+          'Received invalid "opts" argument for validator.toJsonSchema(): ' +
+          'One of the following issues needs to be resolved:'
+        ),
+        '  * Expected <2nd argument>.onUnrepresentable to be "throw" but got "ignore".',
+        '  * Expected <2nd argument>.onUnrepresentable to be "loosen" but got "ignore".',
+      ].join('\n'),
+    });
+  });
+
+  test('validator.fromJsonSchema()', () => {
+    const act = (): any => validator.fromJsonSchema('string' as any);
+    assert.throws(act, {
+      message: [
+        (
+          'Received invalid "schema" argument for validator.fromJsonSchema(): ' +
+          'One of the following issues needs to be resolved:'
+        ),
+        '  * Expected <1st argument> to be of type "object" but got type "string".',
+        '  * Expected <1st argument> to be of type "boolean" but got type "string".',
+      ].join('\n'),
+    });
+  });
+
+  test('validator.stringify()', () => {
+    const act = (): any => validator.stringify('string' as any);
+    assert.throws(act, {
+      message: [
+        (
+          'Received invalid "validatorOrRuleset" argument for validator.stringify(): ' +
+          'One of the following issues needs to be resolved:'
+        ),
+        '  * Expected <1st argument>, which was "string", to be a validator instance.',
+        '  * <1st argument> is missing the required properties: "interpolated"',
+      ].join('\n'),
+    });
+  });
+
   test('validator.lazy()', () => {
     const act = (): any => (validator.lazy as any)(42);
     assert.throws(act, {
@@ -256,6 +366,143 @@ import { DISABLE_PARAM_VALIDATION } from '../src/config.js';
     });
   });
 
+  test('validator.expectToAsync()', () => {
+    const act = (): any => validator.expectToAsync(42 as any);
+    assert.throws(act, {
+      message: (
+        'Received invalid "testExpectation" argument for validator.expectToAsync(): ' +
+        'Expected <1st argument>, which was 42, to be a direct instance of `Function`.'
+      ),
+    });
+  });
+
+  test('validator.expectToAsync() with bad testExpectation callback', async () => {
+    const badExpectation = validator.expectToAsync(async () => 2 as any);
+    const act = (): any => validator`${badExpectation}`.matchesAsync(2);
+    await assert.rejects(act, {
+      message: [
+        (
+          'validator.expectToAsync() received a bad "testExpectation" function: ' +
+          'One of the following issues needs to be resolved:'
+        ),
+        '  * Expected <testExpectation resolved value> to be of type "string" but got type "number".',
+        '  * Expected <testExpectation resolved value> to be of type "undefined" but got type "number".',
+      ].join('\n'),
+    });
+  });
+
+  test('validator.lazy() with a bad async deriveValidator callback', async () => {
+    const badLazyEvaluator = (validator.lazy as any)(async () => 42);
+    const act = (): any => validator`${badLazyEvaluator}`.matchesAsync(0);
+    await assert.rejects(act, {
+      message: (
+        'validator.lazy() received a bad "deriveValidator" function: ' +
+        'Expected <deriveValidator return value>, which was 42, to be a validator instance.'
+      ),
+    });
+  });
+
+  test('validator.transform()', () => {
+    const act = (): any => (validator.transform as any)(validator`string`, 42);
+    assert.throws(act, {
+      message: (
+        'Received invalid "transform" argument for validator.transform(): ' +
+        'Expected <2nd argument>, which was 42, to be a direct instance of `Function`.'
+      ),
+    });
+  });
+
+  test('validator.cache.configure()', () => {
+    const act = (): any => validator.cache.configure({ maxEntries: -1 });
+    assert.throws(act, {
+      message: (
+        'Received invalid "opts" argument for validator.cache.configure(): One of the following issues needs to be resolved:\n' +
+        '  * Expected <1st argument>.maxEntries to be at least 0 but got -1.\n' +
+        '  * Expected <1st argument>.maxEntries to be the value Infinity but got -1.'
+      ),
+    });
+  });
+
+  test('validator.serializeRuleset()', () => {
+    const act = (): any => validator.serializeRuleset(validator`string`.ruleset, { name: {} } as any);
+    assert.throws(act, {
+      message: /^Received invalid "registry" argument for validator.serializeRuleset\(\): /,
+    });
+  });
+
+  test('validator.deserializeRuleset()', () => {
+    const act = (): any => validator.deserializeRuleset({
+      rootRule: { category: 'noop' },
+      interpolated: [{ category: 'registered' }],
+    } as any);
+    assert.throws(act, {
+      message: /^Received invalid "serialized" argument for validator.deserializeRuleset\(\): /,
+    });
+  });
+
+  test('validator.walkRule()', () => {
+    const act = (): any => validator.walkRule(validator`string`.ruleset, () => {}, { followInterpolatedValidators: 'yes' } as any);
+    assert.throws(act, {
+      message: (
+        'Received invalid "opts" argument for validator.walkRule(): One of the following issues needs to be resolved:\n' +
+        '  * Expected <3rd argument>.followInterpolatedValidators to be of type "undefined" but got type "string".\n' +
+        '  * Expected <3rd argument>.followInterpolatedValidators to be of type "boolean" but got type "string".'
+      ),
+    });
+  });
+
+  test('validator.precompile()', () => {
+    const act = (): any => validator.precompile(['validator`string`'], { tagNames: 'validator' } as any);
+    assert.throws(act, {
+      message: (
+        'Received invalid "opts" argument for validator.precompile(): One of the following issues needs to be resolved:\n' +
+        '  * Expected <2nd argument>.tagNames to be of type "undefined" but got type "string".\n' +
+        '  * Expected <2nd argument>.tagNames to be an array but got "validator".'
+      ),
+    });
+  });
+
+  test('validator.withMessage()', () => {
+    const act = (): any => (validator.withMessage as any)(validator`string`, 42);
+    assert.throws(act, {
+      message: (
+        'Received invalid "message" argument for validator.withMessage(): ' +
+        'Expected <2nd argument> to be of type "string" but got type "number".'
+      ),
+    });
+  });
+
+  test('validator.generic() with a bad type parameter name', () => {
+    const act = (): any => validator.generic(['T', 'my-param'], '[T]');
+    assert.throws(act, {
+      message: (
+        'Received invalid "typeParameters" argument for validator.generic(): ' +
+        'Expected <1st argument>[1], which was "my-param", to be a valid identifier.'
+      ),
+    });
+  });
+
+  test('validator.generic() with a reserved type parameter name', () => {
+    const act = (): any => validator.generic(['string'], '{ value: string }');
+    assert.throws(act, {
+      message: (
+        'Received invalid "typeParameters" argument for validator.generic(): ' +
+        'Expected <1st argument>[0], which was "string", to not be a reserved type name. ' +
+        '"string" already has a meaning in the validator syntax.'
+      ),
+    });
+  });
+
+  test('validator.generic() with duplicate type parameter names', () => {
+    const act = (): any => validator.generic(['T', 'U', 'T'], '[T, U]');
+    assert.throws(act, {
+      message: (
+        'Received invalid "typeParameters" argument for validator.generic(): ' +
+        'Expected <1st argument>, which was [object Array], to not contain duplicate entries. Found "T" more than once.'
+      ),
+    });
+  });
+
   test('Wrong number of parameters to validator.isValidator()', () => {
     const act = (): any => (validator.isValidator as any)(0, 1, 2);
     assert.throws(act, {
@@ -394,6 +641,8 @@ import { DISABLE_PARAM_VALIDATION } from '../src/config.js';
             '  * Expected <2nd argument>, which was [object Object], to be a Validator.',
             '  * Expected <2nd argument>, which was [object Object], to be an Expectation (from .expectTo()).',
             '  * Expected <2nd argument>, which was [object Object], to be a LazyEvaluator (from .lazy()).',
+            '  * Expected <2nd argument>, which was [object Object], to be a Transformer (from .transform()).',
+            '  * Expected <2nd argument>, which was [object Object], to be a Generic (from .generic()).',
             '  * Expected <2nd argument>, which was [object Object], to be a direct instance of `RegExp`.',
             '  * Expected <2nd argument>, which was [object Object], to be an instance of `Function`.',
           ].join('\n'),
@@ -419,6 +668,8 @@ import { DISABLE_PARAM_VALIDATION } from '../src/config.js';
             '  * Expected <1st argument>.interpolated[0], which was [object Object], to be a Validator.',
             '  * Expected <1st argument>.interpolated[0], which was [object Object], to be an Expectation (from .expectTo()).',
             '  * Expected <1st argument>.interpolated[0], which was [object Object], to be a LazyEvaluator (from .lazy()).',
+            '  * Expected <1st argument>.interpolated[0], which was [object Object], to be a Transformer (from .transform()).',
+            '  * Expected <1st argument>.interpolated[0], which was [object Object], to be a Generic (from .generic()).',
             '  * Expected <1st argument>.interpolated[0], which was [object Object], to be a direct instance of `RegExp`.',
             '  * Expected <1st argument>.interpolated[0], which was [object Object], to be an instance of `Function`.',
           ].join('\n'),
@@ -531,6 +782,184 @@ import { DISABLE_PARAM_VALIDATION } from '../src/config.js';
       });
     });
 
+    test('template literal rules must have one more text segment than rule segments', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'templateLiteral',
+          textSegments: ['a'],
+          ruleSegments: [{ category: 'simple', type: 'number' }],
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, {
+        message: [
+          (
+            'Received invalid "ruleset" argument for validator.fromRuleset(): ' +
+            'One of the following issues needs to be resolved:'
+          ),
+          '  * Expected <1st argument>.rootRule.category to be "noop" but got "templateLiteral".',
+          (
+            '  * Expected <1st argument>.rootRule, which was [object Object], to have exactly one more ' +
+            'text segment than rule segments. Found 1 text segment(s) and 1 rule segment(s).'
+          ),
+        ].join('\n'),
+      });
+    });
+
+    test('interpolation rules must provide type arguments that fit the interpolated value', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'interpolation',
+          interpolationIndex: 0,
+          typeArguments: [{ category: 'simple', type: 'string' }],
+        },
+        interpolated: [validator.generic(['A', 'B'], '[A, B]')],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, {
+        message: [
+          (
+            'Received invalid "ruleset" argument for validator.fromRuleset(): ' +
+            'One of the following issues needs to be resolved:'
+          ),
+          '  * Expected <1st argument>.rootRule.category to be "noop" but got "interpolation".',
+          (
+            '  * Expected <1st argument>.rootRule, which was [object Object], to have type arguments that fit the ' +
+            'interpolated value. The interpolated generic expects 2 type argument(s) (A, B), but received 1.'
+          ),
+        ].join('\n'),
+      });
+    });
+
+    test('numeric constraint rules can not have a minimum greater than their maximum', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'numericConstraint',
+          type: 'number',
+          integer: false,
+          minimum: { value: 2, exclusive: false },
+          maximum: { value: 1, exclusive: false },
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, {
+        message: [
+          (
+            'Received invalid "ruleset" argument for validator.fromRuleset(): ' +
+            'One of the following issues needs to be resolved:'
+          ),
+          '  * Expected <1st argument>.rootRule.category to be "simple" but got "numericConstraint".',
+          (
+            '  * Expected <1st argument>.rootRule, which was [object Object], to have a minimum that is not greater ' +
+            'than its maximum. Found a minimum of 2 and a maximum of 1.'
+          ),
+          '  * Expected <1st argument>.rootRule.category to be "noop" but got "numericConstraint".',
+        ].join('\n'),
+      });
+    });
+
+    test('numeric constraint rules must use bounds of the same type as the rule', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'numericConstraint',
+          type: 'bigint',
+          integer: false,
+          minimum: { value: 2, exclusive: false },
+          maximum: null,
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, TypeError);
+      assert.throws(act, /Expected <1st argument>\.rootRule\.minimum\.value to be of type "bigint" but got type "number"\./);
+    });
+
+    test('string constraint rules can not have a minLength greater than their maxLength', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'stringConstraint',
+          minLength: 2,
+          maxLength: 1,
+          lengthUnit: 'codePoints',
+          pattern: null,
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, TypeError);
+      assert.throws(act, /to have a minLength that is not greater than its maxLength\. Found a minLength of 2 and a maxLength of 1\./);
+    });
+
+    test('string constraint rules must have a valid pattern', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'stringConstraint',
+          minLength: null,
+          maxLength: null,
+          lengthUnit: 'codePoints',
+          pattern: { source: 'a', flags: 'g' },
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, TypeError);
+      assert.throws(act, /Expected <1st argument>\.rootRule\.pattern, which was \[object Object\], to be a valid pattern\./);
+    });
+
+    test('size constraints can not have a min greater than their max', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'array',
+          content: { category: 'noop' },
+          size: { min: 2, max: 1 },
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, TypeError);
+      assert.throws(act, /Expected <1st argument>\.rootRule\.size, which was \[object Object\], to have a min that is not greater than its max\. Found a min of 2 and a max of 1\./);
+    });
+
+    test('size constraints must use non-negative integers', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'iterable',
+          iterableType: { category: 'noop' },
+          entryType: { category: 'noop' },
+          size: { min: -1, max: null },
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, TypeError);
+      assert.throws(act, /Expected <1st argument>\.rootRule\.size\.min, which was -1, to be a non-negative integer\./);
+    });
+
+    test('set rules validate their size constraint', () => {
+      const ruleset: Ruleset = {
+        rootRule: {
+          category: 'set',
+          entryType: { category: 'noop' },
+          size: { min: 3, max: 1 },
+        },
+        interpolated: [],
+      };
+
+      const act = (): any => validator.fromRuleset(ruleset);
+      assert.throws(act, TypeError);
+      assert.throws(act, /Expected <1st argument>\.rootRule\.size, which was \[object Object\], to have a min that is not greater than its max\. Found a min of 3 and a max of 1\./);
+    });
+
     const primitiveLiteralTests = [
       { value: NaN, messageFragment: 'which was NaN, to not be NaN.' },
       { value: Infinity, messageFragment: 'which was Infinity, to be finite.' },
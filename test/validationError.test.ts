@@ -0,0 +1,141 @@
+import { strict as assert } from 'node:assert';
+import { validator, ValidationError } from '../src/index.js';
+
+function catchError(callback: () => unknown): unknown {
+  try {
+    callback();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the callback to throw.');
+}
+
+describe('ValidationError', () => {
+  test('is thrown when a value fails to match', () => {
+    const act = (): any => validator`string`.assertMatches(2);
+    assert.throws(act, ValidationError);
+    assert.throws(act, TypeError);
+    assert.throws(act, { name: 'ValidationError', message: 'Expected <receivedValue> to be of type "string" but got type "number".' });
+  });
+
+  test('carries the issues that caused the failure', () => {
+    const v = validator`{ user: { name: string, age: number } }`;
+    const error = catchError(() => v.assertMatches({ user: { name: 'Alice', age: '42' } })) as ValidationError;
+    expect(error.issues).toEqual([{
+      code: 'type_mismatch',
+      path: '<receivedValue>.user.age',
+      pathSegments: [
+        { category: 'accessProperty', propertyKey: 'user' },
+        { category: 'accessProperty', propertyKey: 'age' },
+      ],
+      message: 'Expected <receivedValue>.user.age to be of type "number" but got type "string".',
+      expected: 'number',
+      received: '"42"',
+      rule: { category: 'simple', type: 'number' },
+    }]);
+  });
+
+  test('uses stable codes for each kind of issue', () => {
+    const codeFor = (v: any, value: unknown): unknown => (catchError(() => v.assertMatches(value)) as ValidationError).issues[0]?.code;
+    expect(codeFor(validator`{ name: string }`, {})).toBe('missing_property');
+    expect(codeFor(validator`'a'`, 'b')).toBe('literal_mismatch');
+    expect(codeFor(validator`${validator.expectTo(() => 'be valid.')}`, 2)).toBe('expectation_failed');
+    expect(codeFor(validator`string[..1]`, ['a', 'b'])).toBe('array_size_mismatch');
+    expect(codeFor(validator`integer`, 1.5)).toBe('integer_expected');
+    expect(codeFor(validator`string | number`, null)).toBe('union_mismatch');
+  });
+
+  test('describes what a failing union expected', () => {
+    const v = validator`{ id: string | number }`;
+    const error = catchError(() => v.assertMatches({ id: null })) as ValidationError;
+    expect(error.issues).toMatchObject([{
+      code: 'union_mismatch',
+      path: '<receivedValue>.id',
+      expected: 'string | number',
+      received: 'null',
+    }]);
+  });
+
+  test('summarizes received objects by their keys or size', () => {
+    const receivedFor = (v: any, value: unknown): unknown => (
+      (catchError(() => v.assertMatches(value)) as ValidationError).issues[0]?.received
+    );
+    class User {
+      name = 'Alice';
+    }
+    expect(receivedFor(validator`string`, { name: 'Alice', 'first-name': 'A' })).toBe('Object { name, "first-name" }');
+    expect(receivedFor(validator`string`, { a: 1, b: 2, c: 3, d: 4, e: 5, f: 6 })).toBe('Object { a, b, c, d, e, … }');
+    expect(receivedFor(validator`string`, {})).toBe('Object {}');
+    expect(receivedFor(validator`string`, Object.create(null))).toBe('Object {}');
+    expect(receivedFor(validator`string`, new User())).toBe('User { name }');
+    expect(receivedFor(validator`string`, [1, 2, 3])).toBe('Array(3)');
+    expect(receivedFor(validator`string`, new Map([[1, 2]]))).toBe('Map(1)');
+    expect(receivedFor(validator`{ user: string | number }`, { user: { id: 2 } })).toBe('Object { id }');
+  });
+
+  test('the message includes the error prefix, while the issues do not', () => {
+    const error = catchError(() => validator`string`.assertMatches(2, { errorPrefix: 'Bad input:' })) as ValidationError;
+    expect(error.message).toBe('Bad input: Expected <receivedValue> to be of type "string" but got type "number".');
+    expect(error.issues[0]?.message).toBe('Expected <receivedValue> to be of type "string" but got type "number".');
+  });
+
+  test('is thrown by parse() and assertArgs()', () => {
+    const v = validator`[name: string]`;
+    assert.throws(() => v.parse([2]), ValidationError);
+    const error = catchError(() => { v.assertArgs('greet()', [2]); }) as ValidationError;
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toMatchObject([{ code: 'type_mismatch', path: '<1st argument>' }]);
+  });
+
+  test('is thrown by the async functions', async () => {
+    await expect(validator`string`.assertMatchesAsync(2)).rejects.toThrow(ValidationError);
+  });
+
+  test('is thrown by compiled validators', () => {
+    const v = validator.compile(validator`{ name: string }`);
+    const error = catchError(() => v.assertMatches({})) as ValidationError;
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toMatchObject([{ code: 'missing_property', path: '<receivedValue>' }]);
+  });
+
+  test('is not used when an errorFactory is provided', () => {
+    const act = (): any => validator`string`.assertMatches(2, { errorFactory: (...params) => new RangeError(...params) });
+    assert.throws(act, RangeError);
+  });
+
+  test('the constructor is private', () => {
+    assert.throws(() => new (ValidationError as any)('message', []), { message: 'The ValidationError constructor is private.' });
+  });
+
+  describe('toJSON()', () => {
+    test('leaves out the rule', () => {
+      const error = catchError(() => validator`{ tags: string[] }`.assertMatches({ tags: [2] })) as ValidationError;
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        name: 'ValidationError',
+        message: 'Expected <receivedValue>.tags[0] to be of type "string" but got type "number".',
+        issues: [{
+          code: 'type_mismatch',
+          path: '<receivedValue>.tags[0]',
+          pathSegments: [
+            { category: 'accessProperty', propertyKey: 'tags' },
+            { category: 'indexArray', index: 0 },
+          ],
+          message: 'Expected <receivedValue>.tags[0] to be of type "string" but got type "number".',
+          expected: 'string',
+          received: '2',
+        }],
+      });
+    });
+
+    test('converts path segments that can not be represented in JSON into strings', () => {
+      const key = Symbol('key');
+      const error = catchError(() => validator`{ [${key}]: Map<object, string> }`.assertMatches({
+        [key]: new Map([[{}, 2]]),
+      })) as ValidationError;
+      expect(error.toJSON().issues[0]?.pathSegments).toEqual([
+        { category: 'accessProperty', propertyKey: 'Symbol(key)' },
+        { category: 'mapValue', key: '[object Object]', index: 0 },
+      ]);
+    });
+  });
+});
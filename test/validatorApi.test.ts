@@ -1,8 +1,9 @@
 /* eslint-disable @typescript-eslint/no-confusing-void-expression */
 
 import { strict as assert } from 'node:assert';
-import { validator, ValidatorSyntaxError } from '../src/index.js';
-import { testableHelpers as cacheApi } from '../src/cacheControl.js';
+import { validator, ValidatorSyntaxError, type Validator } from '../src/index.js';
+import { lookupOrParseRule, testableHelpers as cacheApi } from '../src/cacheControl.js';
+import { compileRuleset } from '../src/ruleCompiler.js';
 
 describe('validator behavior', () => {
   test('a validator instance is a frozen object', () => {
@@ -348,6 +349,244 @@ describe('validator behavior', () => {
     });
   });
 
+  describe('validator.validate()', () => {
+    test('returns an empty list if the provided value is valid', () => {
+      const v = validator`{ name: string, tags: string[] }`;
+      expect(v.validate({ name: 'Alice', tags: ['x'] })).toEqual([]);
+      expect(v.validate({ name: 'Alice', tags: ['x'] }, { collectAll: true })).toEqual([]);
+    });
+
+    test('only reports the first failure by default', () => {
+      const v = validator`{ name: string, age: number }`;
+      const issues = v.validate({ name: 2, age: 'x' });
+      expect(issues).toEqual([{
+        code: 'type_mismatch',
+        path: '<receivedValue>.name',
+        pathSegments: [{ category: 'accessProperty', propertyKey: 'name' }],
+        message: 'Expected <receivedValue>.name to be of type "string" but got type "number".',
+        expected: 'string',
+        received: '2',
+        rule: { category: 'simple', type: 'string' },
+      }]);
+    });
+
+    test('reports every failure when collectAll is set', () => {
+      const v = validator`{ name: string, age: number, tags: string[] }`;
+      const issues = v.validate({ name: 2, age: 'x', tags: ['a', 3, 4] }, { collectAll: true });
+      expect(issues.map(issue => issue.path)).toEqual([
+        '<receivedValue>.name',
+        '<receivedValue>.age',
+        '<receivedValue>.tags[1]',
+        '<receivedValue>.tags[2]',
+      ]);
+      expect(issues[3]).toEqual({
+        code: 'type_mismatch',
+        path: '<receivedValue>.tags[2]',
+        pathSegments: [
+          { category: 'accessProperty', propertyKey: 'tags' },
+          { category: 'indexArray', index: 2 },
+        ],
+        message: 'Expected <receivedValue>.tags[2] to be of type "string" but got type "number".',
+        expected: 'string',
+        received: '4',
+        rule: { category: 'simple', type: 'string' },
+      });
+    });
+
+    test('reports missing properties alongside other property failures', () => {
+      const v = validator`{ name: string, age: number, email: string }`;
+      const issues = v.validate({ age: 'x' }, { collectAll: true });
+      expect(issues.map(issue => issue.message)).toEqual([
+        '<receivedValue> is missing the required properties: "name", "email"',
+        'Expected <receivedValue>.age to be of type "number" but got type "string".',
+      ]);
+    });
+
+    test('collects failures from tuples, index signatures, iterables, and interpolated validators', () => {
+      const pointValidator = validator`{ x: number, y: number }`;
+      const v = validator`{
+        tuple: [string, number, ...boolean[]]
+        mapping: { [key: string]: number }
+        set: ${Set}@<string>
+        point: ${pointValidator}
+      }`;
+      const issues = v.validate({
+        tuple: [1, 'x', true, 2],
+        mapping: { a: 1, b: 'x', c: 'y' },
+        set: new Set(['a', 2]),
+        point: { x: 'x', y: 'y' },
+      }, { collectAll: true });
+      expect(issues.map(issue => issue.path)).toEqual([
+        '<receivedValue>.tuple[0]',
+        '<receivedValue>.tuple[1]',
+        '<receivedValue>.tuple[3]',
+        '<receivedValue>.mapping.b',
+        '<receivedValue>.mapping.c',
+        '[...<receivedValue>.set][1]',
+        '<receivedValue>.point.x',
+        '<receivedValue>.point.y',
+      ]);
+    });
+
+    test('collects failures from each side of an intersection without duplicates', () => {
+      const v = validator`{ x: number, y: number } & { x: number, z: number }`;
+      const issues = v.validate({ x: 'x', y: 'y', z: 'z' }, { collectAll: true });
+      expect(issues.map(issue => issue.path)).toEqual([
+        '<receivedValue>.x',
+        '<receivedValue>.y',
+        '<receivedValue>.z',
+      ]);
+    });
+
+    test('a failing union is reported as a single issue', () => {
+      const v = validator`{ id: string | number, other: boolean }`;
+      const issues = v.validate({ id: null, other: 2 }, { collectAll: true });
+      expect(issues).toMatchObject([
+        {
+          path: '<receivedValue>.id',
+          message: [
+            'One of the following issues needs to be resolved:',
+            '  * Expected <receivedValue>.id to be of type "string" but got type "null".',
+            '  * Expected <receivedValue>.id to be of type "number" but got type "null".',
+          ].join('\n'),
+          rule: { category: 'union' },
+        }, {
+          path: '<receivedValue>.other',
+        },
+      ]);
+    });
+
+    test('a failing union whose remaining errors are all at a deeper path uses that deeper path', () => {
+      const v = validator`{ type: 'A', value: string } | { type: 'B', value: number }`;
+      const issues = v.validate({ type: 'B', value: 'x' }, { collectAll: true });
+      expect(issues).toMatchObject([{
+        path: '<receivedValue>.value',
+        message: 'Expected <receivedValue>.value to be of type "number" but got type "string".',
+      }]);
+    });
+
+    test('able to control the start lookupPath with the "at" parameter', () => {
+      const v = validator`{ y: string }`;
+      const issues = v.validate({ y: 2 }, { at: '<someValue>.x' });
+      expect(issues).toMatchObject([{ path: '<someValue>.x.y' }]);
+    });
+
+    test('returns frozen issues', () => {
+      const issues = validator`string`.validate(2);
+      expect(Object.isFrozen(issues)).toBe(true);
+      expect(Object.isFrozen(issues[0])).toBe(true);
+      expect(Object.isFrozen(issues[0]?.pathSegments)).toBe(true);
+    });
+  });
+
+  describe('validator.compile()', () => {
+    class Shape {
+      readonly sides: number = 0;
+    }
+    class Circle extends Shape {}
+    const expectEven = validator.expectTo(value => typeof value === 'number' && value % 2 === 0 ? undefined : 'be even.');
+    const dynamicKey = Symbol('dynamic key');
+    const linkedList: Validator = validator`{ value: number, next: ${validator.lazy(() => linkedList)} } | null`;
+
+    // Each validator is paired with values that should be checked against it.
+    const testCases: Array<[validator: Validator, values: unknown[]]> = [
+      [validator`string`, ['xyz', 2, null, undefined]],
+      [validator`object`, [{}, () => {}, null]],
+      [validator`'abc' | 2 | 3n | null | undefined | true`, ['abc', 'ab', 2, 3, 3n, null, undefined, true, false]],
+      [validator`unknown`, [2, undefined]],
+      [validator`{ x: number, y?: string }`, [{ x: 2 }, { x: 2, y: 'z' }, { x: 2, y: 3 }, { y: 'z' }, 2, null]],
+      [validator`{ [index: number]: string }`, [['a', 'b'], ['a', 2], { 0: 'a', x: 2 }, { 0: 2 }]],
+      [validator`{ [index: symbol]: string }`, [{ [Symbol('a')]: 'a', x: 2 }, { [Symbol('b')]: 2 }]],
+      [validator`{ [${dynamicKey}]: number, [${'x'}]: 2, x: number }`, [{ [dynamicKey]: 2, x: 2 }, { [dynamicKey]: 2, x: 3 }, { x: 2 }]],
+      [validator`{ length: number }`, ['xyz', 2]],
+      [validator`string[]`, [[], ['a', 'b'], ['a', 2], 'a', { length: 0 }]],
+      [validator`[string, number?]`, [['a'], ['a', 2], ['a', 'b'], [], ['a', 2, 3], [2]]],
+      [validator`[string, ...number[]]`, [['a'], ['a', 2, 3], ['a', 2, 'b'], []]],
+      [validator`[string, ...${validator`[number, number]`}]`, [['a', 2, 3], ['a', 2], ['a', 2, 'b']]],
+      [validator`${Set}@<number>`, [new Set([2, 3]), new Set(['a']), [2, 3]]],
+      [validator`string@<'a' | 'b'>`, ['ab', 'ac', 2]],
+      [validator`{ x: number } & { y: number }`, [{ x: 2, y: 3 }, { x: 2 }, { y: 3 }]],
+      [
+        validator`({| a: string |} | {| b: string |}) & { c: number }`,
+        [{ a: 'x', c: 1 }, { b: 'y', c: 1 }, { a: 'x', b: 'y', c: 1 }, { a: 'x' }],
+      ],
+      [validator`{ inner: {| a: string |} } & { inner: { b: number } }`, [{ inner: { a: 'x' } }, { inner: { a: 'x', b: 1 } }]],
+      [validator`${validator`number`} | ${expectEven}`, [2, 3, 'a']],
+      [validator`${Shape}`, [new Shape(), new Circle(), {}, 2]],
+      [validator`${Map}`, [new Map(), {}]],
+      [validator`${/^\d+$/}`, ['123', '12a', 123]],
+      [validator`${2} | ${NaN} | ${'x'}`, [2, NaN, 'x', 3, 'y']],
+      [linkedList, [null, { value: 1, next: { value: 2, next: null } }, { value: 1, next: { value: 'x', next: null } }]],
+    ];
+
+    test('compiled validators match the same values as regular validators', () => {
+      for (const [v, values] of testCases) {
+        const compiled = validator.compile(v);
+        for (const value of values) {
+          expect([v.ruleset.rootRule, value, compiled.matches(value)])
+            .toEqual([v.ruleset.rootRule, value, v.matches(value)]);
+        }
+      }
+    });
+
+    test('compiled validators produce the same errors as regular validators', () => {
+      for (const [v, values] of testCases) {
+        const compiled = validator.compile(v);
+        for (const value of values) {
+          const getError = (v: Validator): unknown => {
+            try {
+              v.assertMatches(value, { errorPrefix: 'Error:' });
+              return null;
+            } catch (error) {
+              return error;
+            }
+          };
+
+          expect(getError(compiled)).toEqual(getError(v));
+          expect(compiled.validate(value)).toEqual(v.validate(value));
+        }
+      }
+    });
+
+    test('returns the value passed into assertMatches() when it matches', () => {
+      const v = validator.compile(validator`{ x: number }`);
+      const value = { x: 2 };
+      expect(v.assertMatches(value)).toBe(value);
+    });
+
+    test('works with assertArgs()', () => {
+      const v = validator.compile(validator`[x: number]`);
+      v.assertArgs('fn()', [2]);
+      const act = (): any => v.assertArgs('fn()', ['x']);
+      assert.throws(act, {
+        message: 'Received invalid "x" argument for fn(): Expected <1st argument> to be of type "number" but got type "string".',
+      });
+    });
+
+    test('uses the same ruleset as the original validator', () => {
+      const v = validator`string`;
+      expect(validator.compile(v).ruleset).toBe(v.ruleset);
+    });
+
+    test('only evaluates lazy validators as they are needed', () => {
+      let calls = 0;
+      const v = validator.compile(validator`number | ${validator.lazy(() => { calls++; return validator`string`; })}`);
+      expect(calls).toBe(0);
+      expect(v.matches(2)).toBe(true);
+      expect(calls).toBe(0);
+      expect(v.matches('x')).toBe(true);
+      expect(calls).toBe(1);
+    });
+
+    test('does not cache anything for a ruleset that failed to compile', () => {
+      // This is an invalid ruleset, which causes compiling to throw.
+      const ruleset = Object.freeze({ rootRule: Object.freeze({ category: 'bogus' }), interpolated: Object.freeze([]) }) as any;
+      assert.throws(() => compileRuleset(ruleset), /Unexpected value/);
+      // A second attempt throws the same error, instead of handing back a matcher that can't work.
+      assert.throws(() => compileRuleset(ruleset), /Unexpected value/);
+    });
+  });
+
   describe('validator.from()', () => {
     test('converts a string to a validator', () => {
       const v = validator.from('string');
@@ -649,14 +888,91 @@ describe('validator behavior', () => {
       expect(Object.isFrozen(ruleset.interpolated)).toBe(true);
     });
 
-    test('internal uses of the type checker gets cached', () => {
-      expect(cacheApi.getCacheEntryFor`[testExpectation: ${null}]`.exists()).toBe(false);
+    test('internal uses of the type checker gets cached separately', () => {
+      expect(cacheApi.isInInternalCache`[testExpectation: ${null}]`).toBe(false);
 
       // expectTo() takes one argument. Calling expectTo should
       // run the type-checker against the `[testExpectation: <function>]` tuple.
       validator.expectTo(() => undefined);
 
-      expect(cacheApi.getCacheEntryFor`[testExpectation: ${null}]`.exists()).toBe(true);
+      expect(cacheApi.isInInternalCache`[testExpectation: ${null}]`).toBe(true);
+      expect(cacheApi.getCacheEntryFor`[testExpectation: ${null}]`.exists()).toBe(false);
+      expect(validator.cache.getStats()).toMatchObject({ size: 0, hits: 0, misses: 0 });
+    });
+
+    describe('validator.cache', () => {
+      const ruleA = Object.freeze({ category: 'simple', type: 'string' } as const);
+      const ruleB = Object.freeze({ category: 'simple', type: 'number' } as const);
+      const ruleC = Object.freeze({ category: 'simple', type: 'boolean' } as const);
+
+      test('counts hits and misses', () => {
+        expect(lookupOrParseRule(['a'], () => ruleA)).toBe(ruleA);
+        expect(lookupOrParseRule(['a'], () => ruleB)).toBe(ruleA);
+        expect(lookupOrParseRule(['b'], () => ruleB)).toBe(ruleB);
+        expect(validator.cache.getStats()).toEqual({ size: 2, maxEntries: Infinity, hits: 1, misses: 2, evictions: 0 });
+      });
+
+      test('evicts the least recently used entries once maxEntries is exceeded', () => {
+        validator.cache.configure({ maxEntries: 2 });
+        lookupOrParseRule(['a'], () => ruleA);
+        lookupOrParseRule(['b'], () => ruleB);
+        lookupOrParseRule(['a'], () => ruleA);
+        lookupOrParseRule(['c'], () => ruleC);
+        expect(cacheApi.getCacheEntryFor`a`.exists()).toBe(true);
+        expect(cacheApi.getCacheEntryFor`b`.exists()).toBe(false);
+        expect(cacheApi.getCacheEntryFor`c`.exists()).toBe(true);
+        expect(validator.cache.getStats()).toMatchObject({ size: 2, maxEntries: 2 });
+      });
+
+      test('the library\'s own templates do not evict entries', () => {
+        validator.cache.configure({ maxEntries: 1 });
+        validator`'cacheme'`;
+        // Each of these checks its arguments using templates from the library.
+        validator.expectTo(() => undefined);
+        validator.stringify(validator.fromRuleset({ rootRule: { category: 'noop' }, interpolated: [] }));
+        expect(cacheApi.getCacheEntryFor`'cacheme'`.exists()).toBe(true);
+        expect(validator.cache.getStats()).toMatchObject({ size: 1, evictions: 0 });
+      });
+
+      test('lowering maxEntries immediately evicts entries', () => {
+        validator`'a'`;
+        validator`'b'`;
+        validator.cache.configure({ maxEntries: 1 });
+        expect(cacheApi.getCacheEntryFor`'a'`.exists()).toBe(false);
+        expect(validator.cache.getStats().evictions).toBeGreaterThan(0);
+        // Validators continue to work while entries are being evicted.
+        expect(validator`{ x: 'a' }`.matches({ x: 'a' })).toBe(true);
+      });
+
+      test('a maxEntries of zero disables caching', () => {
+        validator.cache.configure({ maxEntries: 0 });
+        validator`'cacheme'`;
+        expect(cacheApi.getCacheEntryFor`'cacheme'`.exists()).toBe(false);
+      });
+
+      test('clear() removes every entry and resets the stats', () => {
+        validator`'cacheme'`;
+        validator.cache.configure({ maxEntries: 100 });
+        validator.cache.clear();
+        expect(cacheApi.getCacheEntryFor`'cacheme'`.exists()).toBe(false);
+        expect(validator.cache.getStats()).toEqual({ size: 0, maxEntries: 100, hits: 0, misses: 0, evictions: 0 });
+      });
+
+      test('validator.from() uses the cache when cacheStringSources is enabled', () => {
+        validator.cache.configure({ cacheStringSources: true });
+        expect(validator.from('"cacheme"').matches('cacheme')).toBe(true);
+        expect(cacheApi.getCacheEntryFor`"cacheme"`.exists()).toBe(true);
+        // String sources and templates with the same text share their cache entries.
+        expect(validator.from('"cacheme"').ruleset.rootRule).toBe(validator`"cacheme"`.ruleset.rootRule);
+      });
+
+      test('options that are not provided keep their current value', () => {
+        validator.cache.configure({ cacheStringSources: true, maxEntries: 50 });
+        validator.cache.configure({ maxEntries: 60 });
+        validator.from('"cacheme"');
+        expect(cacheApi.getCacheEntryFor`"cacheme"`.exists()).toBe(true);
+        expect(validator.cache.getStats().maxEntries).toBe(60);
+      });
     });
   });
 });